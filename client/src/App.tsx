@@ -4,6 +4,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { VideoUpload } from '@/components/VideoUpload';
 import { VideoList } from '@/components/VideoList';
 import { TranslationWorkflow } from '@/components/TranslationWorkflow';
+import { WatermarkVerifier } from '@/components/WatermarkVerifier';
 import { trpc } from '@/utils/trpc';
 import type { Video } from '../../server/src/schema';
 
@@ -114,6 +115,20 @@ function App() {
                 />
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  🔍 Verify a Dub
+                </CardTitle>
+                <CardDescription>
+                  Check whether a file carries the watermark of a dub generated here, and which job produced it
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <WatermarkVerifier />
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="workflow" className="space-y-6">
@@ -0,0 +1,182 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { trpc } from '@/utils/trpc';
+import type { TranscriptSegment, AudioGenerationJob } from '../../../server/src/schema';
+
+interface DubbingPlayerProps {
+  videoId: number;
+  translationJobId: number;
+  audioGenerationJob: AudioGenerationJob | null; // Its generated audio is the dubbed track
+}
+
+type AudioTrack = 'original' | 'generated' | 'mix';
+
+// Volume of the original soundtrack under the dub in mix mode
+const MIX_ORIGINAL_VOLUME = 0.3;
+// Drift between video and dub (in seconds) tolerated before the dub is re-aligned
+const MAX_DRIFT_SECONDS = 0.25;
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+export function DubbingPlayer({ videoId, translationJobId, audioGenerationJob }: DubbingPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [track, setTrack] = useState<AudioTrack>('original');
+  const [showSubtitles, setShowSubtitles] = useState(true);
+  const [currentMs, setCurrentMs] = useState(0);
+  const [durationMs, setDurationMs] = useState(0);
+
+  const hasGeneratedAudio = Boolean(audioGenerationJob?.generated_audio_path);
+  // Re-generated audio keeps its URL, so version it to make the element reload
+  const audioSrc = hasGeneratedAudio
+    ? `/api/audio-generation-jobs/${audioGenerationJob!.id}/audio?v=${audioGenerationJob!.completed_at?.getTime() ?? 0}`
+    : undefined;
+
+  const loadSegments = useCallback(async () => {
+    try {
+      setSegments(await trpc.getTranscriptSegments.query(translationJobId));
+    } catch (error) {
+      console.error('Failed to load transcript segments:', error);
+    }
+  }, [translationJobId]);
+
+  useEffect(() => {
+    loadSegments();
+  }, [loadSegments, audioSrc]);
+
+  useEffect(() => {
+    if (!hasGeneratedAudio) {
+      setTrack('original');
+    }
+  }, [hasGeneratedAudio]);
+
+  // The dub always follows the video; switching tracks only changes what is audible
+  useEffect(() => {
+    const video = videoRef.current;
+    const audio = audioRef.current;
+    if (!video) {
+      return;
+    }
+    video.muted = track === 'generated';
+    video.volume = track === 'mix' ? MIX_ORIGINAL_VOLUME : 1;
+    if (audio) {
+      audio.muted = track === 'original';
+    }
+  }, [track, audioSrc]);
+
+  const syncAudio = (force = false) => {
+    const video = videoRef.current;
+    const audio = audioRef.current;
+    if (!video || !audio) {
+      return;
+    }
+    if (force || Math.abs(audio.currentTime - video.currentTime) > MAX_DRIFT_SECONDS) {
+      audio.currentTime = video.currentTime;
+    }
+    audio.playbackRate = video.playbackRate;
+    if (video.paused && !audio.paused) {
+      audio.pause();
+    } else if (!video.paused && audio.paused && video.currentTime < audio.duration) {
+      audio.play().catch((error) => console.error('Failed to play generated audio:', error));
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    setCurrentMs((videoRef.current?.currentTime ?? 0) * 1000);
+    syncAudio();
+  };
+
+  const seekTo = (ms: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = ms / 1000;
+    }
+  };
+
+  const activeSegment = segments.find((segment) => currentMs >= segment.start_ms && currentMs < segment.end_ms);
+  const timelineMs = Math.max(durationMs, segments.length > 0 ? segments[segments.length - 1].end_ms : 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h4 className="font-medium text-sm">🎧 Before / After</h4>
+        <div className="flex items-center gap-4">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={track}
+            onValueChange={(value: string) => value && setTrack(value as AudioTrack)}
+            aria-label="Audio track"
+          >
+            <ToggleGroupItem value="original">Original</ToggleGroupItem>
+            <ToggleGroupItem value="generated" disabled={!hasGeneratedAudio}>Dubbed</ToggleGroupItem>
+            <ToggleGroupItem value="mix" disabled={!hasGeneratedAudio}>Mix</ToggleGroupItem>
+          </ToggleGroup>
+          <div className="flex items-center gap-2">
+            <Switch id="player-subtitles" checked={showSubtitles} onCheckedChange={setShowSubtitles} />
+            <Label htmlFor="player-subtitles" className="text-sm">Subtitles</Label>
+          </div>
+        </div>
+      </div>
+
+      <div className="relative bg-black rounded-lg overflow-hidden">
+        <video
+          ref={videoRef}
+          src={`/api/videos/${videoId}/media`}
+          controls
+          preload="metadata"
+          className="w-full max-h-[480px]"
+          onLoadedMetadata={() => setDurationMs((videoRef.current?.duration ?? 0) * 1000)}
+          onTimeUpdate={handleTimeUpdate}
+          onPlay={() => syncAudio(true)}
+          onPause={() => syncAudio()}
+          onSeeked={() => syncAudio(true)}
+          onRateChange={() => syncAudio()}
+        />
+        {showSubtitles && activeSegment?.translated_text && (
+          <div className="pointer-events-none absolute inset-x-0 bottom-14 flex justify-center px-4">
+            <span className="rounded bg-black/75 px-2 py-1 text-center text-white text-lg">
+              {activeSegment.translated_text}
+            </span>
+          </div>
+        )}
+        {audioSrc && <audio ref={audioRef} src={audioSrc} preload="auto" />}
+      </div>
+
+      {timelineMs > 0 && (
+        <div>
+          <div className="relative h-6 rounded bg-gray-100" aria-label="Segment timeline">
+            {segments.map((segment) => (
+              <button
+                key={segment.id}
+                type="button"
+                title={`${formatTime(segment.start_ms)} – ${formatTime(segment.end_ms)}: ${segment.translated_text ?? segment.source_text}`}
+                onClick={() => seekTo(segment.start_ms)}
+                className={`absolute inset-y-1 rounded-sm border-x border-white ${segment === activeSegment ? 'bg-blue-500' : 'bg-blue-200 hover:bg-blue-300'}`}
+                style={{
+                  left: `${(segment.start_ms / timelineMs) * 100}%`,
+                  width: `${((segment.end_ms - segment.start_ms) / timelineMs) * 100}%`
+                }}
+              />
+            ))}
+            <div
+              className="pointer-events-none absolute inset-y-0 w-0.5 bg-red-500"
+              style={{ left: `${Math.min(100, (currentMs / timelineMs) * 100)}%` }}
+            />
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>{formatTime(currentMs)}</span>
+            <span>{segments.length} segments</span>
+            <span>{formatTime(timelineMs)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { SpeakerVoice, TranscriptSegment } from '../../../server/src/schema';
+
+interface SpeakerPanelProps {
+  translationJobId: number;
+  segments: TranscriptSegment[];
+  audioGenerationJobId?: number;
+  speakerVoices: SpeakerVoice[];
+  onRenamed: () => void; // Reload the transcript
+  onVoicesChanged: () => void; // Audio generation may have been requeued
+}
+
+type VoiceChoice = 'job' | 'cloned' | 'stock';
+
+interface VoiceDraft {
+  choice: VoiceChoice;
+  voiceId: string; // Stock voice, blank for the provider default
+}
+
+function toDraft(voice: SpeakerVoice | undefined): VoiceDraft {
+  if (!voice) {
+    return { choice: 'job', voiceId: '' };
+  }
+  return { choice: voice.voice_cloned ? 'cloned' : 'stock', voiceId: voice.voice_id ?? '' };
+}
+
+export function SpeakerPanel({ translationJobId, segments, audioGenerationJobId, speakerVoices, onRenamed, onVoicesChanged }: SpeakerPanelProps) {
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [voices, setVoices] = useState<Record<string, VoiceDraft>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Speakers in order of first appearance, with how many segments each speaks
+  const counts = new Map<string, number>();
+  for (const segment of segments) {
+    if (segment.speaker) {
+      counts.set(segment.speaker, (counts.get(segment.speaker) ?? 0) + 1);
+    }
+  }
+  const speakers = [...counts.keys()];
+
+  useEffect(() => {
+    setVoices(Object.fromEntries(speakerVoices.map((voice) => [voice.speaker, toDraft(voice)])));
+  }, [speakerVoices]);
+
+  const voiceDraft = (speaker: string) => voices[speaker] ?? toDraft(undefined);
+
+  const handleRename = async (speaker: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await trpc.renameSpeaker.mutate({ translation_job_id: translationJobId, speaker, new_speaker: names[speaker].trim() });
+      setNames((current) => ({ ...current, [speaker]: '' }));
+      onRenamed();
+      onVoicesChanged(); // Assignments follow the new label
+    } catch (error) {
+      setError('Failed to rename the speaker. Please try again.');
+      console.error('Speaker rename error:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApplyVoices = async () => {
+    if (audioGenerationJobId === undefined) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await trpc.setSpeakerVoices.mutate({
+        audio_generation_job_id: audioGenerationJobId,
+        speaker_voices: speakers
+          .filter((speaker) => voiceDraft(speaker).choice !== 'job')
+          .map((speaker) => {
+            const { choice, voiceId } = voiceDraft(speaker);
+            return choice === 'cloned'
+              ? { speaker, voice_cloned: true }
+              : { speaker, voice_cloned: false, voice_id: voiceId.trim() || undefined };
+          })
+      });
+      onVoicesChanged();
+    } catch (error) {
+      setError('Failed to assign the voices. Please try again.');
+      console.error('Speaker voice error:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (speakers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium text-sm">🗣️ Speakers</h4>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        {speakers.map((speaker) => {
+          const newName = names[speaker]?.trim() ?? '';
+          const draft = voiceDraft(speaker);
+
+          return (
+            <div key={speaker} className="flex flex-wrap items-center gap-2 p-2 border rounded-lg">
+              <Badge variant="outline">{speaker}</Badge>
+              <span className="text-xs text-gray-500">{counts.get(speaker)} segments</span>
+
+              <Input
+                aria-label={`New name for ${speaker}`}
+                placeholder="Rename to..."
+                value={names[speaker] ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNames((current) => ({ ...current, [speaker]: e.target.value }))}
+                className="w-40 h-8"
+                disabled={busy}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                type="button"
+                onClick={() => handleRename(speaker)}
+                disabled={busy || !newName || newName === speaker}
+              >
+                {counts.has(newName) ? '🔗 Merge' : '✏️ Rename'}
+              </Button>
+
+              {audioGenerationJobId !== undefined && (
+                <div className="flex items-center gap-2 ml-auto">
+                  <Select
+                    value={draft.choice}
+                    onValueChange={(choice: VoiceChoice) => setVoices((current) => ({ ...current, [speaker]: { ...draft, choice } }))}
+                    disabled={busy}
+                  >
+                    <SelectTrigger className="w-44 h-8" aria-label={`Voice for ${speaker}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="job">Job voice</SelectItem>
+                      <SelectItem value="cloned">Clone this speaker</SelectItem>
+                      <SelectItem value="stock">Stock voice</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {draft.choice === 'stock' && (
+                    <Input
+                      aria-label={`Stock voice for ${speaker}`}
+                      placeholder="Provider default"
+                      value={draft.voiceId}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setVoices((current) => ({ ...current, [speaker]: { ...draft, voiceId: e.target.value } }))}
+                      className="w-36 h-8"
+                      disabled={busy}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {audioGenerationJobId !== undefined && (
+        <div className="flex justify-end">
+          <Button size="sm" type="button" onClick={handleApplyVoices} disabled={busy}>
+            {busy ? '⏳ Applying...' : '🎙️ Apply Voices'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { SpeakerPanel } from '@/components/SpeakerPanel';
+import { trpc } from '@/utils/trpc';
+import type { TranscriptSegment, AudioSegment, SpeakerVoice } from '../../../server/src/schema';
+
+interface TranscriptEditorProps {
+  translationJobId: number;
+  audioGenerationJobId?: number;
+  audioGenerationStatus?: string; // Stale flags are reloaded whenever this changes
+  speakerVoices?: SpeakerVoice[]; // Of the audio generation job
+  // Called after a change that requeues audio generation
+  onAudioRequeued?: () => void;
+}
+
+interface SegmentDraft {
+  source_text: string;
+  translated_text: string;
+}
+
+type SegmentAction = 'save' | 'retranslate' | 'resynthesize';
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  const tenths = Math.floor((ms % 1000) / 100);
+  return `${minutes}:${String(seconds).padStart(2, '0')}.${tenths}`;
+}
+
+export function TranscriptEditor({ translationJobId, audioGenerationJobId, audioGenerationStatus, speakerVoices, onAudioRequeued }: TranscriptEditorProps) {
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, SegmentDraft>>({});
+  // Keyed by transcript segment id
+  const [audioSegments, setAudioSegments] = useState<Map<number, AudioSegment>>(new Map());
+  const [busy, setBusy] = useState<{ id: number; action: SegmentAction } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSegments = useCallback(async () => {
+    try {
+      const result = await trpc.getTranscriptSegments.query(translationJobId);
+      setSegments(result);
+      setDrafts(Object.fromEntries(result.map((segment) => [
+        segment.id,
+        { source_text: segment.source_text, translated_text: segment.translated_text ?? '' }
+      ])));
+    } catch (error) {
+      console.error('Failed to load transcript segments:', error);
+    }
+  }, [translationJobId]);
+
+  const loadAudioSegments = useCallback(async () => {
+    if (audioGenerationJobId === undefined) {
+      setAudioSegments(new Map());
+      return;
+    }
+    try {
+      const result = await trpc.getAudioSegments.query(audioGenerationJobId);
+      setAudioSegments(new Map(result.map((segment) => [segment.transcript_segment_id, segment])));
+    } catch (error) {
+      console.error('Failed to load audio segments:', error);
+    }
+  }, [audioGenerationJobId]);
+
+  useEffect(() => {
+    loadSegments();
+  }, [loadSegments]);
+
+  useEffect(() => {
+    loadAudioSegments();
+  }, [loadAudioSegments, audioGenerationStatus]);
+
+  const replaceSegment = (updated: TranscriptSegment) => {
+    setSegments((current) => current.map((segment) => segment.id === updated.id ? updated : segment));
+    setDrafts((current) => ({
+      ...current,
+      [updated.id]: { source_text: updated.source_text, translated_text: updated.translated_text ?? '' }
+    }));
+  };
+
+  const updateDraft = (id: number, field: keyof SegmentDraft, value: string) => {
+    setDrafts((current) => ({ ...current, [id]: { ...current[id], [field]: value } }));
+  };
+
+  const runAction = async (segment: TranscriptSegment, action: SegmentAction) => {
+    setBusy({ id: segment.id, action });
+    setError(null);
+
+    try {
+      if (action === 'save') {
+        const draft = drafts[segment.id];
+        replaceSegment(await trpc.updateTranscriptSegment.mutate({
+          id: segment.id,
+          source_text: draft.source_text.trim() !== segment.source_text ? draft.source_text : undefined,
+          translated_text: draft.translated_text.trim() !== (segment.translated_text ?? '') ? draft.translated_text : undefined
+        }));
+      } else if (action === 'retranslate') {
+        replaceSegment(await trpc.retranslateTranscriptSegment.mutate(segment.id));
+      } else {
+        await trpc.resynthesizeTranscriptSegment.mutate(segment.id);
+        onAudioRequeued?.();
+      }
+      await loadAudioSegments();
+    } catch (error) {
+      setError('Failed to update the segment. Please try again.');
+      console.error('Transcript segment error:', error);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const isDirty = (segment: TranscriptSegment) => {
+    const draft = drafts[segment.id];
+    return draft !== undefined && (
+      draft.source_text.trim() !== segment.source_text ||
+      draft.translated_text.trim() !== (segment.translated_text ?? '')
+    );
+  };
+
+  if (segments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm">📝 Transcript & Translation</h4>
+        <span className="text-xs text-gray-500">{segments.length} segments</span>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <SpeakerPanel
+        translationJobId={translationJobId}
+        segments={segments}
+        audioGenerationJobId={audioGenerationJobId}
+        speakerVoices={speakerVoices ?? []}
+        onRenamed={loadSegments}
+        onVoicesChanged={() => {
+          loadAudioSegments();
+          onAudioRequeued?.();
+        }}
+      />
+
+      <div className="space-y-3">
+        {segments.map((segment) => {
+          const draft = drafts[segment.id];
+          const isBusy = busy?.id === segment.id;
+          const dirty = isDirty(segment);
+          const audioSegment = audioSegments.get(segment.id);
+
+          return (
+            <div key={segment.id} className="p-3 border rounded-lg space-y-2">
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <span className="font-mono">{formatTime(segment.start_ms)} – {formatTime(segment.end_ms)}</span>
+                {segment.speaker && <Badge variant="outline">{segment.speaker}</Badge>}
+                {audioSegment?.stale && (
+                  <Badge variant="secondary">⚠️ Audio outdated</Badge>
+                )}
+                {audioSegment?.spoken_text && (
+                  <Badge variant="outline" title={audioSegment.spoken_text}>✂️ Reworded to fit</Badge>
+                )}
+                {audioSegment && audioSegment.stretch_ratio > 1 && (
+                  <Badge variant="outline">⏩ Sped up ×{audioSegment.stretch_ratio.toFixed(2)}</Badge>
+                )}
+                {audioSegment && audioSegment.overrun_ms > 0 && (
+                  <Badge variant="destructive">⏱️ Overruns by {audioSegment.overrun_ms}ms</Badge>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <Textarea
+                  aria-label={`Source text of segment ${segment.segment_index + 1}`}
+                  value={draft?.source_text ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateDraft(segment.id, 'source_text', e.target.value)}
+                  disabled={isBusy}
+                />
+                <Textarea
+                  aria-label={`Translation of segment ${segment.segment_index + 1}`}
+                  value={draft?.translated_text ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateDraft(segment.id, 'translated_text', e.target.value)}
+                  disabled={isBusy}
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-2 justify-end">
+                <Button
+                  size="sm"
+                  type="button"
+                  onClick={() => runAction(segment, 'save')}
+                  disabled={!dirty || isBusy || !draft?.source_text.trim() || !draft?.translated_text.trim()}
+                >
+                  {isBusy && busy?.action === 'save' ? '⏳ Saving...' : '💾 Save'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  type="button"
+                  onClick={() => runAction(segment, 'retranslate')}
+                  disabled={dirty || isBusy}
+                >
+                  {isBusy && busy?.action === 'retranslate' ? '⏳ Translating...' : '🌍 Re-translate'}
+                </Button>
+                {audioGenerationJobId !== undefined && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    type="button"
+                    onClick={() => runAction(segment, 'resynthesize')}
+                    disabled={dirty || isBusy}
+                  >
+                    {isBusy && busy?.action === 'resynthesize' ? '⏳ Queuing...' : '🎵 Re-synthesize'}
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -8,12 +8,27 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TranscriptEditor } from '@/components/TranscriptEditor';
+import { DubbingPlayer } from '@/components/DubbingPlayer';
+import { VoiceProfileLibrary } from '@/components/VoiceProfileLibrary';
+import { VoiceConsentPanel } from '@/components/VoiceConsentPanel';
 import { trpc } from '@/utils/trpc';
 import type { 
   Language, 
-  CreateTranslationJobInput
+  CreateTranslationRequestInput,
+  SubtitleImportFormat,
+  VoiceProfile
 } from '../../../server/src/schema';
-import type { WorkflowStatus } from '../../../server/src/handlers/get_translation_workflow_status';
+import type { WorkflowStatus, LanguageWorkflowStatus } from '../../../server/src/handlers/get_translation_workflow_status';
+
+interface SourceSubtitles {
+  filename: string;
+  format: SubtitleImportFormat;
+  content: string;
+}
 
 interface TranslationWorkflowProps {
   videoId: number;
@@ -41,15 +56,52 @@ const statusIcons = {
   translating: '🌍',
   generating_audio: '🎵',
   completed: '✅',
-  failed: '❌'
+  partially_completed: '⚠️',
+  failed: '❌',
+  cancelled: '🚫'
 };
 
+// Served by the server's HTTP routes rather than tRPC so browsers can stream and resume it
+function finalVideoUrl(finalOutputId: number): string {
+  return `/api/final-outputs/${finalOutputId}/video`;
+}
+
+function StageBadge({ status }: { status: string | null }) {
+  return (
+    <Badge variant={status === 'completed' || status === 'ready' ? 'default' : status === 'failed' ? 'destructive' : 'secondary'}>
+      {status ?? 'not started'}
+    </Badge>
+  );
+}
+
+// Shown once a job has needed more than one run, or is waiting to retry automatically
+function AttemptNote({ attempts, nextAttemptAt }: { attempts: number; nextAttemptAt: Date | null }) {
+  if (attempts < 2 && !nextAttemptAt) {
+    return null;
+  }
+  return (
+    <span className="block text-xs text-gray-500">
+      {[attempts > 1 && `attempt ${attempts}`, nextAttemptAt && `retrying at ${nextAttemptAt.toLocaleTimeString()}`].filter(Boolean).join(' · ')}
+    </span>
+  );
+}
+
 export function TranslationWorkflow({ videoId, showDetailedStatus = false }: TranslationWorkflowProps) {
   const [sourceLanguage, setSourceLanguage] = useState<Language>('en');
-  const [targetLanguage, setTargetLanguage] = useState<Language>('es');
-  const [voiceCloned, setVoiceCloned] = useState<boolean>(true);
+  const [targetLanguages, setTargetLanguages] = useState<Language[]>(['es']);
+  const [voiceCloned, setVoiceCloned] = useState<boolean>(false); // Needs recorded consent
+  const [voiceProfiles, setVoiceProfiles] = useState<VoiceProfile[]>([]);
+  const [voiceProfileId, setVoiceProfileId] = useState<number | null>(null); // Null clones this video's speaker
+  const [preserveBackground, setPreserveBackground] = useState<boolean>(false);
+  const [duckingDb, setDuckingDb] = useState<number>(12);
+  const [audibleWatermark, setAudibleWatermark] = useState<boolean>(false);
+  const [sourceSubtitles, setSourceSubtitles] = useState<SourceSubtitles | null>(null);
   const [workflowStatus, setWorkflowStatus] = useState<WorkflowStatus | null>(null);
+  const [selectedLanguage, setSelectedLanguage] = useState<Language | null>(null);
   const [isStartingTranslation, setIsStartingTranslation] = useState(false);
+  const [multiTrackSubtitles, setMultiTrackSubtitles] = useState<boolean>(true);
+  const [isBuildingMultiTrack, setIsBuildingMultiTrack] = useState(false);
+  const [isChangingJob, setIsChangingJob] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const loadWorkflowStatus = useCallback(async () => {
@@ -61,15 +113,70 @@ export function TranslationWorkflow({ videoId, showDetailedStatus = false }: Tra
     }
   }, [videoId]);
 
+  const loadVoiceProfiles = useCallback(async () => {
+    try {
+      const profiles = await trpc.getVoiceProfiles.query();
+      setVoiceProfiles(profiles);
+      setVoiceProfileId((current) => profiles.some((profile: VoiceProfile) => profile.id === current) ? current : null);
+    } catch (error) {
+      console.error('Failed to load voice profiles:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVoiceProfiles();
+  }, [loadVoiceProfiles]);
+
+  // Live updates from the server; poll only if the subscription cannot be used
   useEffect(() => {
-    loadWorkflowStatus();
-    const interval = setInterval(loadWorkflowStatus, 3000);
-    return () => clearInterval(interval);
-  }, [loadWorkflowStatus]);
+    let interval: ReturnType<typeof setInterval> | undefined;
+
+    const subscription = trpc.onWorkflowStatus.subscribe(videoId, {
+      onData: (status) => setWorkflowStatus(status),
+      onError: (error) => {
+        console.error('Workflow status subscription failed, falling back to polling:', error);
+        subscription.unsubscribe();
+        if (interval === undefined) {
+          loadWorkflowStatus();
+          interval = setInterval(loadWorkflowStatus, 3000);
+        }
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      clearInterval(interval);
+    };
+  }, [videoId, loadWorkflowStatus]);
+
+  const handleSubtitleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      setSourceSubtitles(null);
+      return;
+    }
+
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension !== 'srt' && extension !== 'vtt') {
+      setError('Captions must be an .srt or .vtt file');
+      event.target.value = '';
+      return;
+    }
+
+    setError(null);
+    setSourceSubtitles({ filename: file.name, format: extension, content: await file.text() });
+  };
+
+  const toggleTargetLanguage = (language: Language, checked: boolean) => {
+    setTargetLanguages((current: Language[]) => checked
+      ? [...current, language]
+      : current.filter((code: Language) => code !== language));
+  };
 
   const startTranslation = async () => {
-    if (sourceLanguage === targetLanguage) {
-      setError('Source and target languages must be different');
+    const requested = targetLanguages.filter((language: Language) => language !== sourceLanguage);
+    if (requested.length === 0) {
+      setError('Select at least one target language different from the source language');
       return;
     }
 
@@ -77,34 +184,83 @@ export function TranslationWorkflow({ videoId, showDetailedStatus = false }: Tra
     setError(null);
 
     try {
-      const translationJobInput: CreateTranslationJobInput = {
+      // One translation and audio generation job per language, sharing a single transcript
+      const requestInput: CreateTranslationRequestInput = {
         video_id: videoId,
         source_language: sourceLanguage,
-        target_language: targetLanguage
-      };
-
-      const translationJob = await trpc.createTranslationJob.mutate(translationJobInput);
-
-      const audioJobInput = {
-        translation_job_id: translationJob.id,
-        voice_cloned: voiceCloned
+        target_languages: requested,
+        glossary: [],
+        voice_cloned: voiceCloned,
+        voice_profile_id: voiceCloned && voiceProfileId !== null ? voiceProfileId : undefined,
+        preserve_background: preserveBackground,
+        ducking_db: duckingDb,
+        audible_watermark: audibleWatermark,
+        source_subtitles: sourceSubtitles
+          ? { format: sourceSubtitles.format, content: sourceSubtitles.content }
+          : undefined
       };
 
-      await trpc.createAudioGenerationJob.mutate(audioJobInput);
+      await trpc.createTranslationRequest.mutate(requestInput);
       await loadWorkflowStatus();
     } catch (error) {
-      setError('Failed to start translation process. Please try again.');
+      // Missing consent is something the user can fix right here
+      setError(error instanceof Error && /consent/i.test(error.message)
+        ? error.message
+        : 'Failed to start translation process. Please try again.');
       console.error('Translation error:', error);
     } finally {
       setIsStartingTranslation(false);
     }
   };
 
+  // Every completed language in one container: one audio (and subtitle) track each, rendered by the job runner
+  const buildMultiTrackOutput = async () => {
+    setIsBuildingMultiTrack(true);
+    setError(null);
+
+    try {
+      await trpc.createMultiTrackJob.mutate({ video_id: videoId, include_subtitles: multiTrackSubtitles });
+      await loadWorkflowStatus();
+    } catch (error) {
+      setError('Failed to build the multi-language video. Please try again.');
+      console.error('Multi-track output error:', error);
+    } finally {
+      setIsBuildingMultiTrack(false);
+    }
+  };
+
+  // Retried jobs resume from the last stage they completed; cancelled ones stop at the next one
+  const changeJob = async (change: () => Promise<unknown>, failure: string) => {
+    setIsChangingJob(true);
+    setError(null);
+
+    try {
+      await change();
+      await loadWorkflowStatus();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : failure);
+      console.error('Job retry or cancellation error:', error);
+    } finally {
+      setIsChangingJob(false);
+    }
+  };
+
+  // The transcript editor follows the language picked in the matrix, else the most recent job
+  const editedLanguage: LanguageWorkflowStatus | undefined = workflowStatus?.languages.find(
+    (language: LanguageWorkflowStatus) => language.targetLanguage === (selectedLanguage ?? workflowStatus.translationJob?.target_language)
+  );
+  const editedBranch = editedLanguage?.branches[0];
+
   const isTranslationInProgress = Boolean(workflowStatus && 
     ['translating', 'generating_audio', 'uploading'].includes(workflowStatus.overallStatus));
 
+  const completedLanguageCount = workflowStatus?.languages.filter(
+    (language: LanguageWorkflowStatus) => language.status === 'completed'
+  ).length ?? 0;
+
+  // Further languages can be requested once the previous request has finished
   const canStartTranslation = Boolean(workflowStatus?.video?.upload_status === 'uploaded' && 
-    workflowStatus.overallStatus === 'not_started');
+    !isTranslationInProgress);
 
   return (
     <div className="space-y-6">
@@ -128,37 +284,137 @@ export function TranslationWorkflow({ videoId, showDetailedStatus = false }: Tra
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="target-lang">🌍 Target Language</Label>
-              <Select value={targetLanguage} onValueChange={(value: Language) => setTargetLanguage(value)}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {Object.entries(languages).map(([code, lang]) => (
-                    <SelectItem key={code} value={code}>
+              <Label>🌍 Target Languages</Label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {(Object.entries(languages) as [Language, { name: string; flag: string }][]).map(([code, lang]) => (
+                  <div key={code} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`target-lang-${code}`}
+                      checked={targetLanguages.includes(code)}
+                      disabled={code === sourceLanguage}
+                      onCheckedChange={(checked) => toggleTargetLanguage(code, checked === true)}
+                    />
+                    <Label htmlFor={`target-lang-${code}`} className="text-sm font-normal">
                       {lang.flag} {lang.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+                    </Label>
+                  </div>
+                ))}
+              </div>
             </div>
           </div>
 
+          <div className="space-y-4 p-4 bg-blue-50 rounded-lg">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="voice-cloning"
+                checked={voiceCloned}
+                onCheckedChange={setVoiceCloned}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="voice-cloning" className="text-sm font-medium">
+                  🎭 Enable Voice Cloning
+                </Label>
+                <p className="text-xs text-gray-600">
+                  Clone the original speaker's voice characteristics in the target language
+                </p>
+              </div>
+            </div>
+
+            {voiceCloned && (
+              <>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="voice-profile" className="text-sm">Voice</Label>
+                  <Select
+                    value={voiceProfileId === null ? 'video' : String(voiceProfileId)}
+                    onValueChange={(value: string) => setVoiceProfileId(value === 'video' ? null : Number(value))}
+                  >
+                    <SelectTrigger id="voice-profile" className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="video">Clone from this video</SelectItem>
+                      {voiceProfiles.map((profile: VoiceProfile) => (
+                        <SelectItem key={profile.id} value={String(profile.id)}>
+                          📚 {profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <VoiceConsentPanel
+                  videoId={videoId}
+                  voiceProfileId={voiceProfileId}
+                  subjectLabel={voiceProfiles.find((profile: VoiceProfile) => profile.id === voiceProfileId)?.name ?? 'speakers of this video'}
+                  targetLanguages={targetLanguages.filter((language: Language) => language !== sourceLanguage)}
+                />
+                <VoiceProfileLibrary videoId={videoId} profiles={voiceProfiles} onChanged={loadVoiceProfiles} />
+              </>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 p-4 bg-blue-50 rounded-lg">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="preserve-background"
+                checked={preserveBackground}
+                onCheckedChange={setPreserveBackground}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="preserve-background" className="text-sm font-medium">
+                  🎼 Keep Music & Sound Effects
+                </Label>
+                <p className="text-xs text-gray-600">
+                  Separate the original voices from the background and mix the dub over it
+                </p>
+              </div>
+            </div>
+            {preserveBackground && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor="ducking-db" className="text-sm">Lower background under speech by</Label>
+                <Input
+                  id="ducking-db"
+                  type="number"
+                  min={0}
+                  max={60}
+                  className="w-20"
+                  value={duckingDb}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDuckingDb(Math.min(60, Math.max(0, Number(e.target.value) || 0)))}
+                />
+                <span className="text-sm text-gray-600">dB</span>
+              </div>
+            )}
+          </div>
+
           <div className="flex items-center space-x-2 p-4 bg-blue-50 rounded-lg">
             <Switch
-              id="voice-cloning"
-              checked={voiceCloned}
-              onCheckedChange={setVoiceCloned}
+              id="audible-watermark"
+              checked={audibleWatermark}
+              onCheckedChange={setAudibleWatermark}
             />
             <div className="space-y-1">
-              <Label htmlFor="voice-cloning" className="text-sm font-medium">
-                🎭 Enable Voice Cloning
+              <Label htmlFor="audible-watermark" className="text-sm font-medium">
+                🔔 Audible AI Disclosure
               </Label>
               <p className="text-xs text-gray-600">
-                Clone the original speaker's voice characteristics in the target language
+                Play a short chime at the start of the dub. Every dub also carries an inaudible watermark.
               </p>
             </div>
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="source-subtitles">📝 Existing Captions (optional)</Label>
+            <Input
+              id="source-subtitles"
+              type="file"
+              accept=".srt,.vtt"
+              onChange={handleSubtitleFileChange}
+            />
+            <p className="text-xs text-gray-600">
+              {sourceSubtitles
+                ? `Using ${sourceSubtitles.filename} as the transcript - speech recognition will be skipped`
+                : 'Upload an SRT or WebVTT file in the source language to skip speech recognition'}
+            </p>
+          </div>
         </div>
       )}
 
@@ -181,79 +437,200 @@ export function TranslationWorkflow({ videoId, showDetailedStatus = false }: Tra
               <Progress value={workflowStatus.progress} className="w-full" />
             </div>
 
+            {!showDetailedStatus && workflowStatus.languages.length > 1 && (
+              <div className="space-y-2">
+                {workflowStatus.languages.map((language) => (
+                  <div key={language.targetLanguage} className="grid grid-cols-[8rem_1fr_3rem] items-center gap-3 text-sm">
+                    <span>
+                      {statusIcons[language.status]} {languages[language.targetLanguage]?.flag} {languages[language.targetLanguage]?.name}
+                    </span>
+                    <Progress value={language.progress} className="w-full" />
+                    <span className="text-right text-gray-500">{language.progress}%</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {showDetailedStatus && (
               <div className="space-y-4">
                 <Separator />
                 
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                  <div className="space-y-2">
-                    <h4 className="font-medium text-sm">📤 Video Upload</h4>
-                    <Badge 
-                      variant={workflowStatus.video?.upload_status === 'uploaded' ? 'default' : 'secondary'}
-                      className="w-full justify-center"
-                    >
-                      {workflowStatus.video?.upload_status || 'pending'}
-                    </Badge>
-                  </div>
-
-                  <div className="space-y-2">
-                    <h4 className="font-medium text-sm">🌍 Translation</h4>
-                    <Badge 
-                      variant={workflowStatus.translationJob?.status === 'completed' ? 'default' : 'secondary'}
-                      className="w-full justify-center"
-                    >
-                      {workflowStatus.translationJob?.status || 'not started'}
-                    </Badge>
-                  </div>
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium text-sm">📤 Video Upload</h4>
+                  <StageBadge status={workflowStatus.video?.upload_status || 'pending'} />
+                </div>
 
-                  <div className="space-y-2">
-                    <h4 className="font-medium text-sm">🎵 Audio Generation</h4>
-                    <Badge 
-                      variant={workflowStatus.audioGenerationJob?.status === 'completed' ? 'default' : 'secondary'}
-                      className="w-full justify-center"
-                    >
-                      {workflowStatus.audioGenerationJob?.status || 'not started'}
-                    </Badge>
-                  </div>
+                {workflowStatus.languages.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Language</TableHead>
+                        <TableHead>🌍 Translation</TableHead>
+                        <TableHead>🎵 Audio Generation</TableHead>
+                        <TableHead>🎬 Final Video</TableHead>
+                        <TableHead className="w-40">Progress</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {workflowStatus.languages.map((language: LanguageWorkflowStatus) => {
+                        const [branch, ...earlier] = language.branches;
+                        const audioJob = branch.audioGenerationJobs[0];
+                        const output = audioJob && branch.finalOutputs.find((finalOutput) => finalOutput.audio_generation_job_id === audioJob.id);
+                        const translationJob = branch.translationJob;
+                        const translationStopped = translationJob.status === 'failed' || translationJob.status === 'cancelled';
+                        const translationRunning = ['pending', 'extracting_audio', 'translating'].includes(translationJob.status);
+                        const audioStopped = audioJob?.status === 'failed' || audioJob?.status === 'cancelled';
+                        const audioRunning = audioJob?.status === 'pending' || audioJob?.status === 'generating';
 
-                  <div className="space-y-2">
-                    <h4 className="font-medium text-sm">🎬 Final Video</h4>
-                    <Badge 
-                      variant={workflowStatus.finalOutput ? 'default' : 'secondary'}
-                      className="w-full justify-center"
-                    >
-                      {workflowStatus.finalOutput ? 'ready' : 'pending'}
-                    </Badge>
-                  </div>
-                </div>
+                        return (
+                          <TableRow
+                            key={language.targetLanguage}
+                            onClick={() => setSelectedLanguage(language.targetLanguage)}
+                            data-state={language === editedLanguage ? 'selected' : undefined}
+                            className="cursor-pointer"
+                          >
+                            <TableCell>
+                              {languages[language.targetLanguage]?.flag} {languages[language.targetLanguage]?.name}
+                              {earlier.length > 0 && (
+                                <span className="block text-xs text-gray-500">
+                                  {earlier.length} earlier {earlier.length === 1 ? 'run' : 'runs'}
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <StageBadge status={branch.translationJob.status} />
+                              {branch.segmentCounts.total > 0 && branch.translationJob.status !== 'completed' && (
+                                <span className="ml-2 text-xs text-gray-500">
+                                  {branch.segmentCounts.translated}/{branch.segmentCounts.total}
+                                </span>
+                              )}
+                              <AttemptNote attempts={branch.attemptCounts.translation} nextAttemptAt={translationJob.next_attempt_at} />
+                            </TableCell>
+                            <TableCell>
+                              <StageBadge status={audioJob?.status ?? null} />
+                              <AttemptNote attempts={branch.attemptCounts.audioGeneration} nextAttemptAt={audioJob?.next_attempt_at ?? null} />
+                            </TableCell>
+                            <TableCell>
+                              <StageBadge status={output ? 'ready' : audioJob ? 'pending' : null} />
+                              {output && (
+                                <a
+                                  href={finalVideoUrl(output.id)}
+                                  download
+                                  onClick={(e: React.MouseEvent) => e.stopPropagation()}
+                                  className="ml-2 text-xs text-blue-600 hover:underline"
+                                >
+                                  📥 Download
+                                </a>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Progress value={language.progress} className="w-full" />
+                                <span className="text-xs text-gray-500">{language.progress}%</span>
+                              </div>
+                            </TableCell>
+                            <TableCell onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                              {translationStopped ? (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  type="button"
+                                  disabled={isChangingJob}
+                                  onClick={() => changeJob(() => trpc.retryTranslationJob.mutate(translationJob.id), 'Failed to retry the translation. Please try again.')}
+                                >
+                                  🔁 Retry
+                                </Button>
+                              ) : audioStopped ? (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  type="button"
+                                  disabled={isChangingJob}
+                                  onClick={() => changeJob(() => trpc.retryAudioGenerationJob.mutate(audioJob.id), 'Failed to retry the audio generation. Please try again.')}
+                                >
+                                  🔁 Retry Audio
+                                </Button>
+                              ) : (translationRunning || audioRunning) && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  type="button"
+                                  disabled={isChangingJob}
+                                  onClick={() => changeJob(
+                                    () => trpc.cancelJob.mutate(translationRunning
+                                      ? { job_type: 'translation', id: translationJob.id }
+                                      : { job_type: 'audio_generation', id: audioJob.id }),
+                                    'Failed to cancel the job. Please try again.'
+                                  )}
+                                >
+                                  ⏹️ Cancel
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
 
-                {workflowStatus.translationJob && (
+                {editedBranch && (
                   <div className="p-4 bg-gray-50 rounded-lg space-y-2">
                     <h4 className="font-medium text-sm">Translation Details</h4>
                     <div className="grid grid-cols-2 gap-4 text-sm">
                       <div>
-                        <span className="text-gray-500">From:</span> {languages[workflowStatus.translationJob.source_language]?.flag} {languages[workflowStatus.translationJob.source_language]?.name}
+                        <span className="text-gray-500">From:</span> {languages[editedBranch.translationJob.source_language]?.flag} {languages[editedBranch.translationJob.source_language]?.name}
                       </div>
                       <div>
-                        <span className="text-gray-500">To:</span> {languages[workflowStatus.translationJob.target_language]?.flag} {languages[workflowStatus.translationJob.target_language]?.name}
+                        <span className="text-gray-500">To:</span> {languages[editedBranch.translationJob.target_language]?.flag} {languages[editedBranch.translationJob.target_language]?.name}
                       </div>
                     </div>
-                    {workflowStatus.audioGenerationJob && (
+                    {editedBranch.audioGenerationJobs[0] && (
                       <div className="text-sm">
                         <span className="text-gray-500">Voice Cloning:</span> {
-                          workflowStatus.audioGenerationJob.voice_cloned === true 
+                          editedBranch.audioGenerationJobs[0].voice_cloned === true 
                             ? '✅ Enabled' 
                             : '❌ Disabled'
                         }
                       </div>
                     )}
+                    {editedBranch.audioGenerationJobs[0]?.overrun_segment_count != null && (
+                      <div className="text-sm">
+                        <span className="text-gray-500">Timing:</span> {
+                          editedBranch.audioGenerationJobs[0].overrun_segment_count === 0
+                            ? '✅ Every segment fits its original timing'
+                            : `⚠️ ${editedBranch.audioGenerationJobs[0].overrun_segment_count} segment(s) overrun, by up to ${editedBranch.audioGenerationJobs[0].max_overrun_ms}ms`
+                        }
+                      </div>
+                    )}
                   </div>
                 )}
 
-                {(workflowStatus.translationJob?.error_message || workflowStatus.audioGenerationJob?.error_message) && (
+                {editedBranch?.translationJob.status === 'completed' && (
+                  <DubbingPlayer
+                    key={editedBranch.translationJob.id}
+                    videoId={videoId}
+                    translationJobId={editedBranch.translationJob.id}
+                    audioGenerationJob={editedBranch.audioGenerationJobs[0] ?? null}
+                  />
+                )}
+
+                {editedBranch?.translationJob.status === 'completed' && (
+                  <TranscriptEditor
+                    key={editedBranch.translationJob.id}
+                    translationJobId={editedBranch.translationJob.id}
+                    audioGenerationJobId={editedBranch.audioGenerationJobs[0]?.id}
+                    audioGenerationStatus={editedBranch.audioGenerationJobs[0]?.status}
+                    speakerVoices={editedBranch.audioGenerationJobs[0]?.speaker_voices}
+                    onAudioRequeued={loadWorkflowStatus}
+                  />
+                )}
+
+                {(editedBranch?.translationJob.error_message || editedBranch?.audioGenerationJobs[0]?.error_message) && (
                   <Alert variant="destructive">
                     <AlertDescription>
-                      {workflowStatus.translationJob?.error_message || workflowStatus.audioGenerationJob?.error_message}
+                      {editedBranch.translationJob.error_message || editedBranch.audioGenerationJobs[0]?.error_message}
                     </AlertDescription>
                   </Alert>
                 )}
@@ -262,11 +639,74 @@ export function TranslationWorkflow({ videoId, showDetailedStatus = false }: Tra
                   <Button 
                     className="w-full bg-green-600 hover:bg-green-700" 
                     size="lg"
-                    type="button"
+                    asChild
                   >
-                    📥 Download Translated Video
+                    <a href={finalVideoUrl(workflowStatus.finalOutput.id)} download>
+                      📥 Download Translated Video
+                    </a>
                   </Button>
                 )}
+
+                {completedLanguageCount > 1 && (
+                  <div className="p-4 border rounded-lg space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <h4 className="font-medium text-sm">🎞️ Multi-Language Video</h4>
+                        <p className="text-xs text-gray-500">
+                          One file with an audio track for each of the {completedLanguageCount} completed languages
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id="multi-track-subtitles"
+                            checked={multiTrackSubtitles}
+                            onCheckedChange={(checked) => setMultiTrackSubtitles(checked === true)}
+                          />
+                          <Label htmlFor="multi-track-subtitles" className="text-sm">Subtitle tracks</Label>
+                        </div>
+                        <Button size="sm" type="button" onClick={buildMultiTrackOutput} disabled={isBuildingMultiTrack}>
+                          {isBuildingMultiTrack ? '⏳ Queuing...' : '🎞️ Build'}
+                        </Button>
+                      </div>
+                    </div>
+                    {workflowStatus.multiTrackJobs.filter((job) => job.status !== 'completed').map((job) => (
+                      <div key={job.id} className="flex items-center justify-between gap-3 text-sm">
+                        <span>
+                          <StageBadge status={job.status} />
+                          <span className="ml-2 text-xs text-gray-500">{job.created_at.toLocaleString()}</span>
+                          <AttemptNote attempts={job.attempt_count} nextAttemptAt={job.next_attempt_at} />
+                          {job.error_message && <span className="block text-xs text-red-600">{job.error_message}</span>}
+                        </span>
+                        {(job.status === 'pending' || job.status === 'rendering') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            type="button"
+                            disabled={isChangingJob}
+                            onClick={() => changeJob(
+                              () => trpc.cancelJob.mutate({ job_type: 'multi_track', id: job.id }),
+                              'Failed to cancel the job. Please try again.'
+                            )}
+                          >
+                            ⏹️ Cancel
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    {workflowStatus.multiTrackOutputs.map((output) => (
+                      <div key={output.id} className="flex items-center justify-between text-sm">
+                        <span>
+                          {output.tracks.map((track) => languages[track.language]?.flag).join(' ')}
+                          <span className="ml-2 text-xs text-gray-500">{output.created_at.toLocaleString()}</span>
+                        </span>
+                        <a href={finalVideoUrl(output.id)} download className="text-blue-600 hover:underline">
+                          📥 Download
+                        </a>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
           </CardContent>
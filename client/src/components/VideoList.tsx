@@ -136,6 +136,25 @@ export function VideoList({ videos, isLoading, onVideoSelect, onRefresh }: Video
                   </div>
                 </div>
 
+                {(video.video_codec || video.audio_track_count !== null) && (
+                  <div className="flex flex-wrap gap-2 text-xs text-gray-500">
+                    {video.width && video.height && <span>📐 {video.width}×{video.height}</span>}
+                    {video.frame_rate && <span>🎞️ {video.frame_rate} fps</span>}
+                    {video.video_codec && <span className="uppercase">🎥 {video.video_codec}</span>}
+                    {video.audio_track_count !== null && (
+                      <span>
+                        🔊 {video.audio_track_count} audio track{video.audio_track_count !== 1 ? 's' : ''}
+                        {video.audio_sample_rate && ` • ${video.audio_sample_rate / 1000} kHz`}
+                        {video.audio_channels && ` • ${video.audio_channels} ch`}
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {video.upload_status === 'failed' && video.error_message && (
+                  <p className="text-sm text-red-600">⚠️ {video.error_message}</p>
+                )}
+
                 <Separator />
 
                 <div className="flex gap-2">
@@ -145,7 +164,9 @@ export function VideoList({ videos, isLoading, onVideoSelect, onRefresh }: Video
                     variant={video.upload_status === 'uploaded' ? 'default' : 'secondary'}
                     disabled={video.upload_status !== 'uploaded'}
                   >
-                    {video.upload_status === 'uploaded' ? '🌍 Translate' : '⏳ Processing...'}
+                    {video.upload_status === 'uploaded'
+                      ? '🌍 Translate'
+                      : video.upload_status === 'failed' ? '❌ Unavailable' : '⏳ Processing...'}
                   </Button>
                   <Button variant="outline" size="sm">
                     📊 Details
@@ -4,8 +4,8 @@ import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Card, CardContent } from '@/components/ui/card';
-import { trpc } from '@/utils/trpc';
-import type { Video, CreateVideoInput } from '../../../server/src/schema';
+import { uploadVideoInChunks, type UploadProgress } from '@/utils/upload';
+import type { Video } from '../../../server/src/schema';
 
 interface VideoUploadProps {
   onVideoUploaded: (video: Video) => void;
@@ -15,6 +15,7 @@ export function VideoUpload({ onVideoUploaded }: VideoUploadProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [isResumedUpload, setIsResumedUpload] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -27,13 +28,6 @@ export function VideoUpload({ onVideoUploaded }: VideoUploadProps) {
       return;
     }
 
-    // Validate file size (100MB limit)
-    const maxSize = 100 * 1024 * 1024;
-    if (file.size > maxSize) {
-      setError('File size must be less than 100MB');
-      return;
-    }
-
     setSelectedFile(file);
     setError(null);
   };
@@ -65,63 +59,35 @@ export function VideoUpload({ onVideoUploaded }: VideoUploadProps) {
     }
   };
 
-  const simulateUploadProgress = () => {
-    setUploadProgress(0);
-    const interval = setInterval(() => {
-      setUploadProgress((prev: number) => {
-        if (prev >= 95) {
-          clearInterval(interval);
-          return 95;
-        }
-        return prev + Math.random() * 15;
-      });
-    }, 200);
-    return interval;
-  };
-
   const handleUpload = async () => {
     if (!selectedFile) return;
 
     setIsUploading(true);
+    setUploadProgress(0);
+    setIsResumedUpload(false);
     setError(null);
-    
-    const progressInterval = simulateUploadProgress();
 
     try {
-      // Simulate file upload and processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // Get video duration (stub implementation)
-      const duration = Math.floor(Math.random() * 300) + 60; // Random duration between 1-6 minutes
-
-      const videoInput: CreateVideoInput = {
-        filename: `video_${Date.now()}.${selectedFile.name.split('.').pop()}`,
-        original_filename: selectedFile.name,
-        file_path: `/uploads/videos/video_${Date.now()}.${selectedFile.name.split('.').pop()}`,
-        file_size: selectedFile.size,
-        duration: duration,
-        format: selectedFile.type.split('/')[1]
-      };
-
-      const video = await trpc.createVideo.mutate(videoInput);
-      
-      clearInterval(progressInterval);
+      const video = await uploadVideoInChunks(selectedFile, (progress: UploadProgress) => {
+        setUploadProgress(progress.percent);
+        setIsResumedUpload(progress.resumed);
+      });
       setUploadProgress(100);
-      
+
       onVideoUploaded(video);
+      if (video.upload_status === 'failed') {
+        setError(video.error_message || 'The uploaded file could not be processed.');
+      }
       setSelectedFile(null);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
+      setTimeout(() => setUploadProgress(0), 1000);
     } catch (error) {
-      clearInterval(progressInterval);
-      setError('Failed to upload video. Please try again.');
+      setError(error instanceof Error ? error.message : 'Failed to upload video. Please try again.');
       console.error('Upload error:', error);
     } finally {
       setIsUploading(false);
-      if (!error) {
-        setTimeout(() => setUploadProgress(0), 1000);
-      }
     }
   };
 
@@ -133,12 +99,6 @@ export function VideoUpload({ onVideoUploaded }: VideoUploadProps) {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const formatDuration = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
-
   return (
     <div className="space-y-4">
       {/* Drop Zone */}
@@ -165,7 +125,7 @@ export function VideoUpload({ onVideoUploaded }: VideoUploadProps) {
             }
           </p>
           <p className="text-sm text-gray-400">
-            Supports MP4, AVI, MOV • Max 100MB
+            Supports MP4, AVI, MOV • Large files upload in resumable chunks
           </p>
         </CardContent>
       </Card>
@@ -203,12 +163,12 @@ export function VideoUpload({ onVideoUploaded }: VideoUploadProps) {
       {isUploading && (
         <div className="space-y-3">
           <div className="flex items-center justify-between text-sm">
-            <span>Uploading {selectedFile?.name}...</span>
+            <span>{isResumedUpload ? 'Resuming' : 'Uploading'} {selectedFile?.name}...</span>
             <span>{Math.round(uploadProgress)}%</span>
           </div>
           <Progress value={uploadProgress} className="w-full" />
           <p className="text-xs text-gray-500 text-center">
-            Processing video and extracting metadata...
+            {uploadProgress >= 100 ? 'Verifying checksums and saving video...' : 'Sending video to the server...'}
           </p>
         </div>
       )}
@@ -0,0 +1,195 @@
+import { useState, useEffect, useCallback } from 'react';
+import superjson from 'superjson';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { Language, VoiceConsent } from '../../../server/src/schema';
+
+// Whose voice is cloned: a library profile, or the speakers of a video
+type ConsentSubject = { voice_profile_id: number } | { video_id: number };
+
+interface VoiceConsentPanelProps {
+  videoId: number;
+  voiceProfileId: number | null; // Consent for this profile rather than for the video's speakers
+  subjectLabel: string; // e.g. the profile name, shown in the heading
+  targetLanguages: Language[]; // Offered as the consent's scope
+}
+
+// Consent records are created together with the signed form, so they go through the upload route
+async function uploadVoiceConsent(subject: ConsentSubject, consentedBy: string, expiresAt: Date, scopeLanguages: Language[], file: File): Promise<VoiceConsent> {
+  const form = new FormData();
+  for (const [name, id] of Object.entries(subject)) {
+    form.append(name, String(id));
+  }
+  form.append('consented_by', consentedBy);
+  form.append('expires_at', expiresAt.toISOString());
+  scopeLanguages.forEach((language: Language) => form.append('scope_languages', language));
+  form.append('file', file);
+
+  const response = await fetch('/api/voice-consents', { method: 'POST', body: form });
+  const body = await response.text();
+  if (!response.ok) {
+    const message = body ? superjson.parse<{ error?: string }>(body).error : undefined;
+    throw new Error(message || `Consent upload failed with status ${response.status}`);
+  }
+  return superjson.parse<VoiceConsent>(body);
+}
+
+function consentStatus(consent: VoiceConsent): 'revoked' | 'expired' | 'valid' {
+  if (consent.revoked_at) return 'revoked';
+  return consent.expires_at.getTime() <= Date.now() ? 'expired' : 'valid';
+}
+
+export function VoiceConsentPanel({ videoId, voiceProfileId, subjectLabel, targetLanguages }: VoiceConsentPanelProps) {
+  const [consents, setConsents] = useState<VoiceConsent[]>([]);
+  const [consentedBy, setConsentedBy] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [limitToTargets, setLimitToTargets] = useState(true);
+  const [file, setFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const subject: ConsentSubject = voiceProfileId !== null ? { voice_profile_id: voiceProfileId } : { video_id: videoId };
+
+  const loadConsents = useCallback(async () => {
+    try {
+      setConsents(await trpc.getVoiceConsents.query(voiceProfileId !== null ? { voice_profile_id: voiceProfileId } : { video_id: videoId }));
+    } catch (error) {
+      console.error('Failed to load voice consents:', error);
+    }
+  }, [videoId, voiceProfileId]);
+
+  useEffect(() => {
+    loadConsents();
+  }, [loadConsents]);
+
+  const handleUpload = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!file) return;
+    const form = event.currentTarget as HTMLFormElement;
+
+    setBusy(true);
+    setError(null);
+    try {
+      // The consent lasts until the end of the chosen day
+      await uploadVoiceConsent(subject, consentedBy.trim(), new Date(`${expiresOn}T23:59:59`), limitToTargets ? targetLanguages : [], file);
+      setConsentedBy('');
+      setFile(null);
+      form.reset(); // Clears the file input
+      await loadConsents();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to record the consent. Please try again.');
+      console.error('Voice consent error:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (consent: VoiceConsent) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await trpc.revokeVoiceConsent.mutate(consent.id);
+      await loadConsents();
+    } catch (error) {
+      setError('Failed to revoke the consent. Please try again.');
+      console.error('Voice consent revocation error:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium text-sm">📝 Cloning Consent: {subjectLabel}</h4>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {consents.length === 0 ? (
+        <p className="text-xs text-gray-600">No consent on record. Cloned voices can only be used with signed, unexpired consent.</p>
+      ) : (
+        <div className="space-y-2">
+          {consents.map((consent: VoiceConsent) => {
+            const status = consentStatus(consent);
+
+            return (
+              <div key={consent.id} className="flex flex-wrap items-center gap-2 p-2 border rounded-lg bg-white">
+                <Badge variant={status === 'valid' ? 'default' : status === 'revoked' ? 'destructive' : 'secondary'}>{status}</Badge>
+                <span className="text-sm">{consent.consented_by}</span>
+                <span className="text-xs text-gray-500">
+                  {consent.scope_languages.length > 0 ? consent.scope_languages.join(', ') : 'any language'} · until {consent.expires_at.toLocaleDateString()}
+                </span>
+                <a href={`/api/voice-consents/${consent.id}/artifact`} className="text-xs text-blue-600 hover:underline">
+                  📄 {consent.artifact_filename}
+                </a>
+                {status === 'valid' && (
+                  <Button size="sm" variant="outline" type="button" className="ml-auto" onClick={() => handleRevoke(consent)} disabled={busy}>
+                    🚫 Revoke
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <form onSubmit={handleUpload} className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="consented-by" className="text-xs">Consent given by</Label>
+          <Input
+            id="consented-by"
+            placeholder="Full name"
+            value={consentedBy}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConsentedBy(e.target.value)}
+            className="w-44 h-8"
+            disabled={busy}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="consent-expires" className="text-xs">Expires on</Label>
+          <Input
+            id="consent-expires"
+            type="date"
+            value={expiresOn}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setExpiresOn(e.target.value)}
+            className="w-40 h-8"
+            disabled={busy}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="consent-form" className="text-xs">Signed form (PDF or image)</Label>
+          <Input
+            id="consent-form"
+            type="file"
+            accept="application/pdf,image/png,image/jpeg"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFile(e.target.files?.[0] ?? null)}
+            className="w-56 h-8"
+            disabled={busy}
+          />
+        </div>
+        <div className="flex items-center gap-2 h-8">
+          <Checkbox
+            id="consent-scope"
+            checked={limitToTargets}
+            onCheckedChange={(checked) => setLimitToTargets(checked === true)}
+            disabled={busy}
+          />
+          <Label htmlFor="consent-scope" className="text-xs font-normal">
+            Only for {targetLanguages.length > 0 ? targetLanguages.join(', ') : 'the selected languages'}
+          </Label>
+        </div>
+        <Button size="sm" type="submit" disabled={busy || !consentedBy.trim() || !expiresOn || !file}>
+          {busy ? '⏳ Saving...' : '✍️ Record Consent'}
+        </Button>
+      </form>
+    </div>
+  );
+}
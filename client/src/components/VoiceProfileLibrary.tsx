@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { VoiceProfile } from '../../../server/src/schema';
+
+interface VoiceProfileLibraryProps {
+  videoId: number; // New profiles are cloned from a stretch of this video
+  profiles: VoiceProfile[];
+  onChanged: () => void; // Reload the profiles
+}
+
+// Served by the server's HTTP routes so the preview can be played in place
+function previewUrl(profile: VoiceProfile): string {
+  return `/api/voice-profiles/${profile.id}/preview?v=${profile.updated_at.getTime()}`;
+}
+
+export function VoiceProfileLibrary({ videoId, profiles, onChanged }: VoiceProfileLibraryProps) {
+  const [name, setName] = useState('');
+  const [startSeconds, setStartSeconds] = useState(0);
+  const [endSeconds, setEndSeconds] = useState(10);
+  const [names, setNames] = useState<Record<number, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      // Missing consent for the source video is something the user can fix right here
+      setError(error instanceof Error && /consent/i.test(error.message) ? error.message : failure);
+      console.error('Voice profile error:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    await trpc.createVoiceProfile.mutate({
+      name: name.trim(),
+      clips: [{ video_id: videoId, start_ms: Math.round(startSeconds * 1000), end_ms: Math.round(endSeconds * 1000) }]
+    });
+    setName('');
+  }, 'Failed to clone the voice. Check the clip lies within the video and try again.');
+
+  const handleRename = (profile: VoiceProfile) => run(async () => {
+    await trpc.updateVoiceProfile.mutate({ id: profile.id, name: names[profile.id].trim() });
+    setNames((current) => ({ ...current, [profile.id]: '' }));
+  }, 'Failed to rename the voice profile. Please try again.');
+
+  const handleDelete = (profile: VoiceProfile) => run(
+    () => trpc.deleteVoiceProfile.mutate(profile.id),
+    `Failed to delete "${profile.name}". Profiles used by dubbing jobs are kept.`
+  );
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium text-sm">📚 Voice Profiles</h4>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {profiles.length === 0 ? (
+        <p className="text-xs text-gray-600">No saved voices yet. Clone one from this video below.</p>
+      ) : (
+        <div className="space-y-2">
+          {profiles.map((profile: VoiceProfile) => {
+            const newName = names[profile.id]?.trim() ?? '';
+
+            return (
+              <div key={profile.id} className="flex flex-wrap items-center gap-2 p-2 border rounded-lg bg-white">
+                <Badge variant="outline">{profile.name}</Badge>
+                <span className="text-xs text-gray-500">
+                  {profile.clips.length} clips from {profile.source_video_ids.length} videos · {profile.tts_provider}
+                </span>
+                <audio controls preload="none" src={previewUrl(profile)} className="h-8" />
+
+                <Input
+                  aria-label={`New name for ${profile.name}`}
+                  placeholder="Rename to..."
+                  value={names[profile.id] ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNames((current) => ({ ...current, [profile.id]: e.target.value }))}
+                  className="w-40 h-8"
+                  disabled={busy}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  type="button"
+                  onClick={() => handleRename(profile)}
+                  disabled={busy || !newName || newName === profile.name}
+                >
+                  ✏️ Rename
+                </Button>
+                <Button size="sm" variant="outline" type="button" onClick={() => handleDelete(profile)} disabled={busy}>
+                  🗑️ Delete
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="voice-profile-name" className="text-xs">Name</Label>
+          <Input
+            id="voice-profile-name"
+            placeholder="e.g. Keynote presenter"
+            value={name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+            className="w-48 h-8"
+            disabled={busy}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="voice-profile-start" className="text-xs">From (s)</Label>
+          <Input
+            id="voice-profile-start"
+            type="number"
+            min={0}
+            value={startSeconds}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartSeconds(Math.max(0, Number(e.target.value) || 0))}
+            className="w-20 h-8"
+            disabled={busy}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="voice-profile-end" className="text-xs">To (s)</Label>
+          <Input
+            id="voice-profile-end"
+            type="number"
+            min={0}
+            value={endSeconds}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndSeconds(Math.max(0, Number(e.target.value) || 0))}
+            className="w-20 h-8"
+            disabled={busy}
+          />
+        </div>
+        <Button size="sm" type="button" onClick={handleCreate} disabled={busy || !name.trim() || endSeconds <= startSeconds}>
+          {busy ? '⏳ Working...' : '🧬 Clone Voice'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import superjson from 'superjson';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import type { WatermarkVerification } from '../../../server/src/schema';
+
+// The file is checked by the server's HTTP routes, which read it without keeping it
+async function verifyWatermark(file: File): Promise<WatermarkVerification> {
+  const form = new FormData();
+  form.append('file', file);
+
+  const response = await fetch('/api/watermarks/verify', { method: 'POST', body: form });
+  const body = await response.text();
+  if (!response.ok) {
+    const message = body ? superjson.parse<{ error?: string }>(body).error : undefined;
+    throw new Error(message || `Verification failed with status ${response.status}`);
+  }
+  return superjson.parse<WatermarkVerification>(body);
+}
+
+export function WatermarkVerifier() {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<WatermarkVerification | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleVerify = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!file) return;
+
+    setBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      setResult(await verifyWatermark(file));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to check the file. Please try again.');
+      console.error('Watermark verification error:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handleVerify} className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="watermark-file" className="text-xs">Audio or video file</Label>
+          <Input
+            id="watermark-file"
+            type="file"
+            accept="audio/*,video/*"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFile(e.target.files?.[0] ?? null)}
+            className="w-64 h-8"
+            disabled={busy}
+          />
+        </div>
+        <Button size="sm" type="submit" disabled={busy || !file}>
+          {busy ? '⏳ Checking...' : '🔍 Check Watermark'}
+        </Button>
+      </form>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        result.watermarked ? (
+          <div className="flex flex-wrap items-center gap-2 p-2 border rounded-lg bg-white">
+            <Badge>🤖 Synthetic dub</Badge>
+            <span className="text-sm">Audio generation job #{result.audio_generation_job_id}</span>
+            <span className="text-xs text-gray-500">marked {result.watermarked_at?.toLocaleString()}</span>
+            {!result.audio_generation_job ? (
+              <Badge variant="secondary">job no longer exists</Badge>
+            ) : !result.matches_current_audio && (
+              <Badge variant="secondary">earlier render of this job</Badge>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">
+            No watermark found by the {result.watermark_provider} detector. Lossy re-encoding can remove it.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import superjson from 'superjson';
+import { trpc } from '@/utils/trpc';
+import type { UploadSession, Video } from '../../../server/src/schema';
+
+const MAX_CHUNK_ATTEMPTS = 8;
+const RESUME_KEY_PREFIX = 'video-upload-session:';
+
+export interface UploadProgress {
+  percent: number;
+  resumed: boolean; // True when part of the file was already on the server
+}
+
+class ChunkRequestError extends Error {
+  constructor(message: string, public readonly retryable: boolean, public readonly status?: number) {
+    super(message);
+  }
+}
+
+// Identifies the same local file across page reloads so an interrupted upload can resume
+function resumeKey(file: File): string {
+  return `${RESUME_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function findResumableSession(file: File): Promise<UploadSession | null> {
+  const sessionId = localStorage.getItem(resumeKey(file));
+  if (!sessionId) return null;
+
+  try {
+    const session = await trpc.getUploadSession.query(sessionId);
+    if (session && session.status === 'receiving' && session.total_size === file.size) {
+      return session;
+    }
+  } catch (error) {
+    console.error('Failed to look up previous upload session:', error);
+  }
+  localStorage.removeItem(resumeKey(file));
+  return null;
+}
+
+// Uploads go through XMLHttpRequest because fetch cannot report upload progress
+function putChunk(
+  sessionId: string,
+  offset: number,
+  chunk: ArrayBuffer,
+  checksum: string,
+  onChunkProgress: (loaded: number) => void
+): Promise<UploadSession> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+
+    xhr.upload.onprogress = (event: ProgressEvent) => onChunkProgress(event.loaded);
+
+    xhr.onload = () => {
+      if (xhr.status === 200) {
+        resolve(superjson.parse<UploadSession>(xhr.responseText));
+        return;
+      }
+      const body = xhr.responseText ? superjson.parse<{ error?: string }>(xhr.responseText) : null;
+      const message = body?.error || `Chunk upload failed with status ${xhr.status}`;
+      // Server errors and corrupted chunks are worth retrying, client errors are not
+      reject(new ChunkRequestError(message, xhr.status >= 500 || xhr.status === 422, xhr.status));
+    };
+
+    xhr.onerror = () => reject(new ChunkRequestError('Network error during upload', true));
+
+    xhr.open('PUT', `/api/upload/sessions/${sessionId}/chunks?offset=${offset}`);
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+    xhr.setRequestHeader('X-Chunk-Sha256', checksum);
+    xhr.send(chunk);
+  });
+}
+
+async function putChunkWithRetry(
+  sessionId: string,
+  offset: number,
+  chunk: ArrayBuffer,
+  checksum: string,
+  onChunkProgress: (loaded: number) => void
+): Promise<UploadSession> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await putChunk(sessionId, offset, chunk, checksum, onChunkProgress);
+    } catch (error) {
+      if (!(error instanceof ChunkRequestError) || !error.retryable || attempt >= MAX_CHUNK_ATTEMPTS) {
+        throw error;
+      }
+      console.error(`Chunk at offset ${offset} failed (attempt ${attempt}), retrying:`, error);
+      onChunkProgress(0);
+      await wait(Math.min(1000 * 2 ** (attempt - 1), 30000));
+    }
+  }
+}
+
+// Sends the file in checksummed chunks, resuming a previous session for the same file when possible
+export async function uploadVideoInChunks(file: File, onProgress: (progress: UploadProgress) => void): Promise<Video> {
+  const previous = await findResumableSession(file);
+  const session = previous ?? await trpc.createUploadSession.mutate({
+    original_filename: file.name,
+    mime_type: file.type,
+    total_size: file.size
+  });
+  localStorage.setItem(resumeKey(file), session.id);
+
+  const resumed = session.received_bytes > 0;
+  const checksums: string[] = [];
+  let receivedBytes = session.received_bytes;
+
+  for (let offset = 0; offset < file.size; offset += session.chunk_size) {
+    const chunk = await file.slice(offset, offset + session.chunk_size).arrayBuffer();
+    const checksum = await sha256Hex(chunk);
+    checksums[offset / session.chunk_size] = checksum;
+
+    // Chunks before the resume offset are only hashed for the final verification
+    if (offset < receivedBytes) {
+      onProgress({ percent: (Math.min(receivedBytes, offset + chunk.byteLength) / file.size) * 100, resumed });
+      continue;
+    }
+
+    try {
+      const updated = await putChunkWithRetry(session.id, offset, chunk, checksum, (loaded: number) => {
+        onProgress({ percent: ((offset + loaded) / file.size) * 100, resumed });
+      });
+      receivedBytes = updated.received_bytes;
+    } catch (error) {
+      if (!(error instanceof ChunkRequestError) || error.status !== 409) {
+        throw error;
+      }
+      // The server holds less than this chunk follows on from; carry on from what it has
+      const current = await trpc.getUploadSession.query(session.id);
+      if (!current || current.status !== 'receiving' || current.received_bytes >= offset) {
+        throw error;
+      }
+      console.error(`Chunk at offset ${offset} is ahead of the upload, resuming from ${current.received_bytes}:`, error);
+      receivedBytes = current.received_bytes;
+      offset = receivedBytes - session.chunk_size; // The loop steps onto receivedBytes next
+    }
+  }
+
+  const video = await trpc.completeUploadSession.mutate({ id: session.id, chunk_checksums: checksums });
+  localStorage.removeItem(resumeKey(file));
+  return video;
+}
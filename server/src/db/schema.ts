@@ -1,10 +1,18 @@
-import { serial, text, pgTable, timestamp, integer, boolean, pgEnum } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, integer, bigint, real, boolean, pgEnum, uuid, jsonb, uniqueIndex, type AnyPgColumn } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import { type GlossaryEntry, type SpeakerVoice, type VoiceProfileClip } from '../schema';
 
 // Define enums for status tracking
 export const uploadStatusEnum = pgEnum('upload_status', ['pending', 'uploaded', 'processing', 'failed']);
-export const translationStatusEnum = pgEnum('translation_status', ['pending', 'extracting_audio', 'translating', 'completed', 'failed']);
-export const audioGenerationStatusEnum = pgEnum('audio_generation_status', ['pending', 'generating', 'completed', 'failed']);
+export const translationStatusEnum = pgEnum('translation_status', ['pending', 'extracting_audio', 'translating', 'completed', 'failed', 'cancelled']);
+export const audioGenerationStatusEnum = pgEnum('audio_generation_status', ['pending', 'generating', 'completed', 'failed', 'cancelled']);
+export const transcriptSourceEnum = pgEnum('transcript_source', ['speech_recognition', 'subtitles']);
+export const uploadSessionStatusEnum = pgEnum('upload_session_status', ['receiving', 'completed', 'failed']);
+export const finalOutputKindEnum = pgEnum('final_output_kind', ['single_language', 'multi_track']);
+export const multiTrackStatusEnum = pgEnum('multi_track_status', ['pending', 'rendering', 'completed', 'failed', 'cancelled']);
+export const jobStageEnum = pgEnum('job_stage', ['extracting_audio', 'translating', 'generating', 'rendering']);
+export const jobAttemptOutcomeEnum = pgEnum('job_attempt_outcome', ['succeeded', 'failed', 'cancelled']);
+export const errorClassEnum = pgEnum('error_class', ['transient', 'permanent', 'input']);
 
 // Define supported languages enum
 export const languageEnum = pgEnum('language', [
@@ -17,14 +25,39 @@ export const videosTable = pgTable('videos', {
   filename: text('filename').notNull(), // Generated filename for storage
   original_filename: text('original_filename').notNull(), // User's original filename
   file_path: text('file_path').notNull(), // Path to stored video file
-  file_size: integer('file_size').notNull(), // File size in bytes
+  file_size: bigint('file_size', { mode: 'number' }).notNull(), // File size in bytes
   duration: integer('duration'), // Duration in seconds, nullable until processed
   format: text('format').notNull(), // Video format (mp4, avi, etc.)
+  container_format: text('container_format'), // Container reported by the media probe
+  video_codec: text('video_codec'),
+  width: integer('width'), // Video resolution in pixels
+  height: integer('height'),
+  frame_rate: real('frame_rate'), // Frames per second
+  audio_track_count: integer('audio_track_count'),
+  audio_sample_rate: integer('audio_sample_rate'), // Of the first audio track, in Hz
+  audio_channels: integer('audio_channels'), // Of the first audio track
   upload_status: uploadStatusEnum('upload_status').notNull().default('pending'),
+  error_message: text('error_message'), // Error message if upload or probing fails
   uploaded_at: timestamp('uploaded_at').defaultNow().notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Upload sessions table - tracks chunked, resumable uploads until the file is assembled
+export const uploadSessionsTable = pgTable('upload_sessions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  original_filename: text('original_filename').notNull(),
+  mime_type: text('mime_type').notNull(),
+  total_size: bigint('total_size', { mode: 'number' }).notNull(), // Expected file size in bytes
+  chunk_size: integer('chunk_size').notNull(), // Size of every chunk except the last
+  received_bytes: bigint('received_bytes', { mode: 'number' }).notNull().default(0), // Contiguous bytes written so far
+  temp_path: text('temp_path').notNull(), // Partial file being assembled
+  status: uploadSessionStatusEnum('status').notNull().default('receiving'),
+  video_id: integer('video_id').references(() => videosTable.id, { onDelete: 'set null' }), // Set once the video row exists
+  error_message: text('error_message'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Translation jobs table - tracks video translation processes
 export const translationJobsTable = pgTable('translation_jobs', {
   id: serial('id').primaryKey(),
@@ -32,41 +65,185 @@ export const translationJobsTable = pgTable('translation_jobs', {
   source_language: languageEnum('source_language').notNull(),
   target_language: languageEnum('target_language').notNull(),
   status: translationStatusEnum('status').notNull().default('pending'),
+  transcript_source: transcriptSourceEnum('transcript_source').notNull().default('speech_recognition'), // Imported subtitles skip speech recognition
+  transcript_job_id: integer('transcript_job_id').references((): AnyPgColumn => translationJobsTable.id, { onDelete: 'set null' }), // Job whose transcript this one translates; null when it has its own
   original_audio_path: text('original_audio_path'), // Path to extracted audio file
+  vocals_audio_path: text('vocals_audio_path'), // Speech stem of the extracted audio, once separated
+  background_audio_path: text('background_audio_path'), // Music and effects stem of the extracted audio, once separated
   translated_text: text('translated_text'), // Translated text content
+  translation_provider: text('translation_provider'), // Machine-translation provider that produced translated_text
+  glossary: jsonb('glossary').$type<GlossaryEntry[]>().notNull().default([]), // Forced term translations
   error_message: text('error_message'), // Error message if translation fails
+  attempt_count: integer('attempt_count').notNull().default(0), // Times the job runner has claimed the job
+  next_attempt_at: timestamp('next_attempt_at'), // Automatic retry after a transient error waits until then
   started_at: timestamp('started_at'),
   completed_at: timestamp('completed_at'),
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Transcript segments table - timed source speech and its translation, one row per segment
+export const transcriptSegmentsTable = pgTable('transcript_segments', {
+  id: serial('id').primaryKey(),
+  translation_job_id: integer('translation_job_id').notNull().references(() => translationJobsTable.id, { onDelete: 'cascade' }),
+  segment_index: integer('segment_index').notNull(), // 0-based position in the transcript
+  start_ms: integer('start_ms').notNull(),
+  end_ms: integer('end_ms').notNull(),
+  speaker: text('speaker'), // Speaker label, when known
+  source_text: text('source_text').notNull(),
+  translated_text: text('translated_text'), // Null until the segment is translated
+  confidence: real('confidence'), // Speech recognition confidence, 0..1
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('transcript_segments_job_index_idx').on(table.translation_job_id, table.segment_index),
+]);
+
+// Voice profiles table - a cloned voice, reusable across videos
+export const voiceProfilesTable = pgTable('voice_profiles', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  clips: jsonb('clips').$type<VoiceProfileClip[]>().notNull(), // Stretches of source videos the voice is cloned from
+  source_video_ids: integer('source_video_ids').array().notNull(), // Videos the clips come from
+  reference_audio_path: text('reference_audio_path').notNull(), // The clips, joined into one reference recording
+  tts_provider: text('tts_provider').notNull(), // Text-to-speech provider that cloned the voice
+  provider_voice_id: text('provider_voice_id').notNull(), // That provider's handle for the cloned voice
+  preview_audio_path: text('preview_audio_path').notNull(), // Sample sentence spoken in the voice
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Voice consents table - documented permission to clone a person's voice
+export const voiceConsentsTable = pgTable('voice_consents', {
+  id: serial('id').primaryKey(),
+  // What the consent covers: one voice profile, or the speakers of one source video. Records
+  // outlive their subject so the consent history is kept.
+  voice_profile_id: integer('voice_profile_id').references(() => voiceProfilesTable.id, { onDelete: 'set null' }),
+  video_id: integer('video_id').references(() => videosTable.id, { onDelete: 'set null' }),
+  consented_by: text('consented_by').notNull(), // Person whose voice may be cloned
+  scope_languages: languageEnum('scope_languages').array().notNull(), // Languages the voice may speak; empty for any
+  expires_at: timestamp('expires_at').notNull(),
+  artifact_path: text('artifact_path').notNull(), // Signed consent form as uploaded
+  artifact_filename: text('artifact_filename').notNull(),
+  artifact_sha256: text('artifact_sha256').notNull(), // Proves the stored form is the one that was uploaded
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Audio generation jobs table - tracks voice cloning and audio generation
 export const audioGenerationJobsTable = pgTable('audio_generation_jobs', {
   id: serial('id').primaryKey(),
   translation_job_id: integer('translation_job_id').notNull().references(() => translationJobsTable.id, { onDelete: 'cascade' }),
   status: audioGenerationStatusEnum('status').notNull().default('pending'),
   generated_audio_path: text('generated_audio_path'), // Path to generated audio file
-  voice_cloned: boolean('voice_cloned').notNull().default(true), // Whether voice cloning was used
+  voice_cloned: boolean('voice_cloned').notNull().default(false), // Whether voice cloning was used
+  voice_profile_id: integer('voice_profile_id').references(() => voiceProfilesTable.id, { onDelete: 'restrict' }), // Reused cloned voice instead of a clone from the video
+  speaker_voices: jsonb('speaker_voices').$type<SpeakerVoice[]>().notNull().default([]), // Per-speaker voices overriding the job-level one
+  preserve_background: boolean('preserve_background').notNull().default(false), // Mix the dub over the original music and effects
+  ducking_db: real('ducking_db').notNull().default(12), // How far the background is lowered under the dubbed speech
+  audible_watermark: boolean('audible_watermark').notNull().default(false), // Chime over the start of the dub
+  overrun_segment_count: integer('overrun_segment_count'), // Segments still longer than their source window after timing fit
+  max_overrun_ms: integer('max_overrun_ms'), // Longest such overrun; both null until audio is generated
+  tts_provider: text('tts_provider'), // Text-to-speech provider that generated the audio
+  voice_id: text('voice_id'), // Requested stock voice, or the voice the provider actually used
+  watermark_provider: text('watermark_provider'), // Provider that marked the generated audio
+  watermarked_at: timestamp('watermarked_at'), // Embedded in the mark with the job id; null until generated
   error_message: text('error_message'), // Error message if generation fails
+  attempt_count: integer('attempt_count').notNull().default(0), // Times the job runner has claimed the job
+  next_attempt_at: timestamp('next_attempt_at'), // Automatic retry after a transient error waits until then
   started_at: timestamp('started_at'),
   completed_at: timestamp('completed_at'),
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Audio segments table - synthesized speech for one transcript segment of an audio generation job
+export const audioSegmentsTable = pgTable('audio_segments', {
+  id: serial('id').primaryKey(),
+  audio_generation_job_id: integer('audio_generation_job_id').notNull().references(() => audioGenerationJobsTable.id, { onDelete: 'cascade' }),
+  transcript_segment_id: integer('transcript_segment_id').notNull().references(() => transcriptSegmentsTable.id, { onDelete: 'cascade' }),
+  audio_path: text('audio_path').notNull(),
+  duration_ms: integer('duration_ms').notNull(), // After timing fit
+  voice_id: text('voice_id'), // Voice the segment was spoken in
+  spoken_text: text('spoken_text'), // Shorter rewording actually spoken, when the translation did not fit its window
+  stretch_ratio: real('stretch_ratio').notNull().default(1), // Speed-up applied to fit the window, 1 when none
+  overrun_ms: integer('overrun_ms').notNull().default(0), // How far the speech still runs past the source segment's end
+  stale: boolean('stale').notNull().default(false), // Translation edited or re-synthesis requested since generation
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('audio_segments_job_segment_idx').on(table.audio_generation_job_id, table.transcript_segment_id),
+]);
+
+// Job attempts table - one row per run of a translation or audio generation job
+export const jobAttemptsTable = pgTable('job_attempts', {
+  id: serial('id').primaryKey(),
+  // Exactly one is set
+  translation_job_id: integer('translation_job_id').references(() => translationJobsTable.id, { onDelete: 'cascade' }),
+  audio_generation_job_id: integer('audio_generation_job_id').references(() => audioGenerationJobsTable.id, { onDelete: 'cascade' }),
+  multi_track_job_id: integer('multi_track_job_id').references(() => multiTrackJobsTable.id, { onDelete: 'cascade' }),
+  attempt: integer('attempt').notNull(), // The job's attempt_count for this run, from 1
+  stage: jobStageEnum('stage').notNull(), // Stage the run ended in
+  outcome: jobAttemptOutcomeEnum('outcome').notNull(),
+  provider: text('provider'), // Provider called last, as kind:name; for a failure, normally the one that failed
+  error_message: text('error_message'),
+  error_class: errorClassEnum('error_class'), // Null unless the run failed
+  retry_at: timestamp('retry_at'), // When the automatic retry this failure scheduled is due; null if none was
+  duration_ms: integer('duration_ms').notNull(),
+  started_at: timestamp('started_at').notNull(),
+  finished_at: timestamp('finished_at').notNull(),
+});
+
 // Final outputs table - stores completed video translations
 export const finalOutputsTable = pgTable('final_outputs', {
   id: serial('id').primaryKey(),
   video_id: integer('video_id').notNull().references(() => videosTable.id, { onDelete: 'cascade' }),
-  translation_job_id: integer('translation_job_id').notNull().references(() => translationJobsTable.id, { onDelete: 'cascade' }),
-  audio_generation_job_id: integer('audio_generation_job_id').notNull().references(() => audioGenerationJobsTable.id, { onDelete: 'cascade' }),
+  kind: finalOutputKindEnum('kind').notNull().default('single_language'),
+  // Set for single-language outputs; multi-track outputs list their jobs in final_output_tracks
+  translation_job_id: integer('translation_job_id').references(() => translationJobsTable.id, { onDelete: 'cascade' }),
+  audio_generation_job_id: integer('audio_generation_job_id').references(() => audioGenerationJobsTable.id, { onDelete: 'cascade' }),
   final_video_path: text('final_video_path').notNull(), // Path to final translated video
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Final output tracks table - the audio (and subtitle) tracks muxed into a multi-track output
+export const finalOutputTracksTable = pgTable('final_output_tracks', {
+  id: serial('id').primaryKey(),
+  final_output_id: integer('final_output_id').notNull().references(() => finalOutputsTable.id, { onDelete: 'cascade' }),
+  audio_generation_job_id: integer('audio_generation_job_id').notNull().references(() => audioGenerationJobsTable.id, { onDelete: 'cascade' }),
+  track_index: integer('track_index').notNull(), // Order of the audio stream in the container, 0-based
+  language: languageEnum('language').notNull(),
+  has_subtitles: boolean('has_subtitles').notNull().default(false), // A subtitle track in the same language was muxed too
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('final_output_tracks_output_track_idx').on(table.final_output_id, table.track_index),
+]);
+
+// Multi-track jobs table - a queued mux of several languages' dubs into one container
+export const multiTrackJobsTable = pgTable('multi_track_jobs', {
+  id: serial('id').primaryKey(),
+  video_id: integer('video_id').notNull().references(() => videosTable.id, { onDelete: 'cascade' }),
+  status: multiTrackStatusEnum('status').notNull().default('pending'),
+  audio_generation_job_ids: integer('audio_generation_job_ids').array().notNull(), // One per language, in stream order
+  include_subtitles: boolean('include_subtitles').notNull().default(true), // Add a translated subtitle track per language
+  final_output_id: integer('final_output_id').references(() => finalOutputsTable.id, { onDelete: 'set null' }), // Set once rendered
+  error_message: text('error_message'), // Error message if rendering fails
+  attempt_count: integer('attempt_count').notNull().default(0), // Times the job runner has claimed the job
+  next_attempt_at: timestamp('next_attempt_at'), // Automatic retry after a transient error waits until then
+  started_at: timestamp('started_at'),
+  completed_at: timestamp('completed_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Define relations between tables
 export const videosRelations = relations(videosTable, ({ many }) => ({
   translationJobs: many(translationJobsTable),
   finalOutputs: many(finalOutputsTable),
+  voiceConsents: many(voiceConsentsTable),
+  multiTrackJobs: many(multiTrackJobsTable),
+}));
+
+export const uploadSessionsRelations = relations(uploadSessionsTable, ({ one }) => ({
+  video: one(videosTable, {
+    fields: [uploadSessionsTable.video_id],
+    references: [videosTable.id],
+  }),
 }));
 
 export const translationJobsRelations = relations(translationJobsTable, ({ one, many }) => ({
@@ -74,8 +251,24 @@ export const translationJobsRelations = relations(translationJobsTable, ({ one,
     fields: [translationJobsTable.video_id],
     references: [videosTable.id],
   }),
+  transcriptJob: one(translationJobsTable, {
+    fields: [translationJobsTable.transcript_job_id],
+    references: [translationJobsTable.id],
+    relationName: 'sharedTranscript',
+  }),
+  sharedTranscriptJobs: many(translationJobsTable, { relationName: 'sharedTranscript' }),
   audioGenerationJobs: many(audioGenerationJobsTable),
+  transcriptSegments: many(transcriptSegmentsTable),
   finalOutputs: many(finalOutputsTable),
+  attempts: many(jobAttemptsTable),
+}));
+
+export const transcriptSegmentsRelations = relations(transcriptSegmentsTable, ({ one, many }) => ({
+  translationJob: one(translationJobsTable, {
+    fields: [transcriptSegmentsTable.translation_job_id],
+    references: [translationJobsTable.id],
+  }),
+  audioSegments: many(audioSegmentsTable),
 }));
 
 export const audioGenerationJobsRelations = relations(audioGenerationJobsTable, ({ one, many }) => ({
@@ -83,10 +276,59 @@ export const audioGenerationJobsRelations = relations(audioGenerationJobsTable,
     fields: [audioGenerationJobsTable.translation_job_id],
     references: [translationJobsTable.id],
   }),
+  voiceProfile: one(voiceProfilesTable, {
+    fields: [audioGenerationJobsTable.voice_profile_id],
+    references: [voiceProfilesTable.id],
+  }),
+  audioSegments: many(audioSegmentsTable),
   finalOutputs: many(finalOutputsTable),
+  finalOutputTracks: many(finalOutputTracksTable),
+  attempts: many(jobAttemptsTable),
+}));
+
+export const voiceProfilesRelations = relations(voiceProfilesTable, ({ many }) => ({
+  audioGenerationJobs: many(audioGenerationJobsTable),
+  voiceConsents: many(voiceConsentsTable),
+}));
+
+export const voiceConsentsRelations = relations(voiceConsentsTable, ({ one }) => ({
+  voiceProfile: one(voiceProfilesTable, {
+    fields: [voiceConsentsTable.voice_profile_id],
+    references: [voiceProfilesTable.id],
+  }),
+  video: one(videosTable, {
+    fields: [voiceConsentsTable.video_id],
+    references: [videosTable.id],
+  }),
+}));
+
+export const audioSegmentsRelations = relations(audioSegmentsTable, ({ one }) => ({
+  audioGenerationJob: one(audioGenerationJobsTable, {
+    fields: [audioSegmentsTable.audio_generation_job_id],
+    references: [audioGenerationJobsTable.id],
+  }),
+  transcriptSegment: one(transcriptSegmentsTable, {
+    fields: [audioSegmentsTable.transcript_segment_id],
+    references: [transcriptSegmentsTable.id],
+  }),
+}));
+
+export const jobAttemptsRelations = relations(jobAttemptsTable, ({ one }) => ({
+  translationJob: one(translationJobsTable, {
+    fields: [jobAttemptsTable.translation_job_id],
+    references: [translationJobsTable.id],
+  }),
+  audioGenerationJob: one(audioGenerationJobsTable, {
+    fields: [jobAttemptsTable.audio_generation_job_id],
+    references: [audioGenerationJobsTable.id],
+  }),
+  multiTrackJob: one(multiTrackJobsTable, {
+    fields: [jobAttemptsTable.multi_track_job_id],
+    references: [multiTrackJobsTable.id],
+  }),
 }));
 
-export const finalOutputsRelations = relations(finalOutputsTable, ({ one }) => ({
+export const finalOutputsRelations = relations(finalOutputsTable, ({ one, many }) => ({
   video: one(videosTable, {
     fields: [finalOutputsTable.video_id],
     references: [videosTable.id],
@@ -99,25 +341,73 @@ export const finalOutputsRelations = relations(finalOutputsTable, ({ one }) => (
     fields: [finalOutputsTable.audio_generation_job_id],
     references: [audioGenerationJobsTable.id],
   }),
+  tracks: many(finalOutputTracksTable),
+}));
+
+export const multiTrackJobsRelations = relations(multiTrackJobsTable, ({ one, many }) => ({
+  video: one(videosTable, {
+    fields: [multiTrackJobsTable.video_id],
+    references: [videosTable.id],
+  }),
+  finalOutput: one(finalOutputsTable, {
+    fields: [multiTrackJobsTable.final_output_id],
+    references: [finalOutputsTable.id],
+  }),
+  attempts: many(jobAttemptsTable),
+}));
+
+export const finalOutputTracksRelations = relations(finalOutputTracksTable, ({ one }) => ({
+  finalOutput: one(finalOutputsTable, {
+    fields: [finalOutputTracksTable.final_output_id],
+    references: [finalOutputsTable.id],
+  }),
+  audioGenerationJob: one(audioGenerationJobsTable, {
+    fields: [finalOutputTracksTable.audio_generation_job_id],
+    references: [audioGenerationJobsTable.id],
+  }),
 }));
 
 // TypeScript types for the table schemas
 export type Video = typeof videosTable.$inferSelect;
 export type NewVideo = typeof videosTable.$inferInsert;
 
+export type UploadSession = typeof uploadSessionsTable.$inferSelect;
+export type NewUploadSession = typeof uploadSessionsTable.$inferInsert;
+
 export type TranslationJob = typeof translationJobsTable.$inferSelect;
 export type NewTranslationJob = typeof translationJobsTable.$inferInsert;
 
+export type TranscriptSegment = typeof transcriptSegmentsTable.$inferSelect;
+export type NewTranscriptSegment = typeof transcriptSegmentsTable.$inferInsert;
+
 export type AudioGenerationJob = typeof audioGenerationJobsTable.$inferSelect;
 export type NewAudioGenerationJob = typeof audioGenerationJobsTable.$inferInsert;
 
+export type AudioSegment = typeof audioSegmentsTable.$inferSelect;
+export type NewAudioSegment = typeof audioSegmentsTable.$inferInsert;
+
+export type MultiTrackJob = typeof multiTrackJobsTable.$inferSelect;
+export type NewMultiTrackJob = typeof multiTrackJobsTable.$inferInsert;
+
+export type JobAttempt = typeof jobAttemptsTable.$inferSelect;
+export type NewJobAttempt = typeof jobAttemptsTable.$inferInsert;
+
 export type FinalOutput = typeof finalOutputsTable.$inferSelect;
 export type NewFinalOutput = typeof finalOutputsTable.$inferInsert;
 
+export type FinalOutputTrack = typeof finalOutputTracksTable.$inferSelect;
+export type NewFinalOutputTrack = typeof finalOutputTracksTable.$inferInsert;
+
 // Export all tables for proper query building
 export const tables = {
   videos: videosTable,
+  uploadSessions: uploadSessionsTable,
   translationJobs: translationJobsTable,
+  transcriptSegments: transcriptSegmentsTable,
   audioGenerationJobs: audioGenerationJobsTable,
+  audioSegments: audioSegmentsTable,
+  jobAttempts: jobAttemptsTable,
   finalOutputs: finalOutputsTable,
+  finalOutputTracks: finalOutputTracksTable,
+  multiTrackJobs: multiTrackJobsTable,
 };
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { EventEmitter } from 'node:events';
+import { Client } from 'pg';
+import { db, type DbExecutor } from '../db';
+import { sql } from 'drizzle-orm';
+
+// Postgres NOTIFY carries changes between processes (API servers and separate job runners alike).
+// Notifications sent inside a transaction are only delivered once it commits.
+const CHANNEL = 'workflow_changes';
+
+// Something in the video's workflow changed: a job was queued, moved stage, finished or failed
+export async function publishVideoChange(videoId: number, executor: DbExecutor = db): Promise<void> {
+  await executor.execute(sql`select pg_notify(${CHANNEL}, ${String(videoId)})`);
+}
+
+export async function publishTranslationJobChange(translationJobId: number, executor: DbExecutor = db): Promise<void> {
+  await executor.execute(sql`
+    select pg_notify(${CHANNEL}, video_id::text)
+    from translation_jobs
+    where id = ${translationJobId}
+  `);
+}
+
+export async function publishAudioGenerationJobChange(audioGenerationJobId: number, executor: DbExecutor = db): Promise<void> {
+  await executor.execute(sql`
+    select pg_notify(${CHANNEL}, translation_jobs.video_id::text)
+    from audio_generation_jobs
+    join translation_jobs on translation_jobs.id = audio_generation_jobs.translation_job_id
+    where audio_generation_jobs.id = ${audioGenerationJobId}
+  `);
+}
+
+const listeners = new EventEmitter().setMaxListeners(0);
+const CONNECTION_LOST = 'connection_lost'; // Not 'error': EventEmitter throws those when nobody listens
+let connection: Promise<Client> | null = null;
+
+// One LISTEN connection per process, opened by the first subscriber and shared by all
+function listen(): Promise<Client> {
+  if (!connection) {
+    connection = (async () => {
+      const client = new Client({ connectionString: process.env['APP_DATABASE_URL']! });
+      client.on('notification', (message) => {
+        if (message.payload) {
+          listeners.emit(message.payload);
+        }
+      });
+      client.on('error', (error) => {
+        console.error('Workflow change listener failed:', error);
+        connection = null;
+        listeners.emit(CONNECTION_LOST, error);
+        client.end().catch(() => {});
+      });
+      await client.connect();
+      await client.query(`LISTEN ${CHANNEL}`);
+      return client;
+    })();
+    connection.catch(() => {
+      connection = null;
+    });
+  }
+  return connection;
+}
+
+export interface WorkflowChangeSubscription {
+  unsubscribe(): void;
+}
+
+// Call onChange for every change to the video; onError when the listener connection is lost
+export async function subscribeToVideoChanges(
+  videoId: number,
+  onChange: () => void,
+  onError: (error: Error) => void
+): Promise<WorkflowChangeSubscription> {
+  await listen();
+
+  const event = String(videoId);
+  listeners.on(event, onChange);
+  listeners.on(CONNECTION_LOST, onError);
+
+  return {
+    unsubscribe() {
+      listeners.off(event, onChange);
+      listeners.off(CONNECTION_LOST, onError);
+    }
+  };
+}
+
+// Close the shared connection, e.g. on shutdown or between tests
+export async function stopListening(): Promise<void> {
+  const pending = connection;
+  connection = null;
+  if (pending) {
+    const client = await pending.catch(() => null);
+    await client?.end();
+  }
+}
@@ -0,0 +1,129 @@
+import { db, type DbExecutor } from '../db';
+import { translationJobsTable, audioGenerationJobsTable, multiTrackJobsTable, transcriptSegmentsTable } from '../db/schema';
+import { type CancelJobInput, type JobStatusChange } from '../schema';
+import { publishAudioGenerationJobChange, publishTranslationJobChange, publishVideoChange } from '../events/workflow_changes';
+import { and, eq } from 'drizzle-orm';
+
+const CANCELLABLE_TRANSLATION_STATUSES = ['pending', 'extracting_audio', 'translating'] as const;
+const CANCELLABLE_AUDIO_GENERATION_STATUSES = ['pending', 'generating'] as const;
+const CANCELLABLE_MULTI_TRACK_STATUSES = ['pending', 'rendering'] as const;
+
+// Stop a queued or running job. A running job stops at its next stage boundary; cancelling a
+// translation also cancels the audio queued behind it, and the jobs waiting to share its transcript.
+export async function cancelJob(input: CancelJobInput): Promise<JobStatusChange> {
+  try {
+    return await db.transaction(async (tx) => {
+      if (input.job_type === 'audio_generation') {
+        const existing = await tx.select()
+          .from(audioGenerationJobsTable)
+          .where(eq(audioGenerationJobsTable.id, input.id))
+          .for('update')
+          .execute();
+
+        if (existing.length === 0) {
+          throw new Error(`Audio generation job with id ${input.id} not found`);
+        }
+        if (!(CANCELLABLE_AUDIO_GENERATION_STATUSES as readonly string[]).includes(existing[0].status)) {
+          throw new Error(`Audio generation job ${input.id} cannot be cancelled (status: ${existing[0].status})`);
+        }
+
+        const cancelled = await tx.update(audioGenerationJobsTable)
+          .set({ status: 'cancelled', error_message: null, next_attempt_at: null })
+          .where(eq(audioGenerationJobsTable.id, input.id))
+          .returning()
+          .execute();
+
+        await publishAudioGenerationJobChange(input.id, tx);
+        return { translation_jobs: [], audio_generation_jobs: cancelled, multi_track_jobs: [] };
+      }
+
+      if (input.job_type === 'multi_track') {
+        const existing = await tx.select()
+          .from(multiTrackJobsTable)
+          .where(eq(multiTrackJobsTable.id, input.id))
+          .for('update')
+          .execute();
+
+        if (existing.length === 0) {
+          throw new Error(`Multi-track job with id ${input.id} not found`);
+        }
+        if (!(CANCELLABLE_MULTI_TRACK_STATUSES as readonly string[]).includes(existing[0].status)) {
+          throw new Error(`Multi-track job ${input.id} cannot be cancelled (status: ${existing[0].status})`);
+        }
+
+        const cancelled = await tx.update(multiTrackJobsTable)
+          .set({ status: 'cancelled', error_message: null, next_attempt_at: null })
+          .where(eq(multiTrackJobsTable.id, input.id))
+          .returning()
+          .execute();
+
+        await publishVideoChange(cancelled[0].video_id, tx);
+        return { translation_jobs: [], audio_generation_jobs: [], multi_track_jobs: cancelled };
+      }
+
+      const existing = await tx.select()
+        .from(translationJobsTable)
+        .where(eq(translationJobsTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Translation job with id ${input.id} not found`);
+      }
+      if (!(CANCELLABLE_TRANSLATION_STATUSES as readonly string[]).includes(existing[0].status)) {
+        throw new Error(`Translation job ${input.id} cannot be cancelled (status: ${existing[0].status})`);
+      }
+
+      return await cancelTranslationJob(tx, input.id, null);
+    });
+  } catch (error) {
+    console.error('Job cancellation failed:', error);
+    throw error;
+  }
+}
+
+// Jobs cancelled along with another one say why, which is how a retry finds them again
+async function cancelTranslationJob(tx: DbExecutor, id: number, reason: string | null): Promise<JobStatusChange> {
+  const cancelled = await tx.update(translationJobsTable)
+    .set({ status: 'cancelled', error_message: reason, next_attempt_at: null })
+    .where(eq(translationJobsTable.id, id))
+    .returning()
+    .execute();
+
+  const audioJobs = await tx.update(audioGenerationJobsTable)
+    .set({ status: 'cancelled', error_message: `Translation job ${id} was cancelled`, next_attempt_at: null })
+    .where(and(
+      eq(audioGenerationJobsTable.translation_job_id, id),
+      eq(audioGenerationJobsTable.status, 'pending')
+    ))
+    .returning()
+    .execute();
+  await publishTranslationJobChange(id, tx);
+
+  const change: JobStatusChange = { translation_jobs: cancelled, audio_generation_jobs: audioJobs, multi_track_jobs: [] };
+
+  // Without a transcript, the jobs waiting to share it can never run
+  const transcript = await tx.select({ id: transcriptSegmentsTable.id })
+    .from(transcriptSegmentsTable)
+    .where(eq(transcriptSegmentsTable.translation_job_id, id))
+    .limit(1)
+    .execute();
+
+  if (transcript.length === 0) {
+    const waiting = await tx.select({ id: translationJobsTable.id })
+      .from(translationJobsTable)
+      .where(and(
+        eq(translationJobsTable.transcript_job_id, id),
+        eq(translationJobsTable.status, 'pending')
+      ))
+      .execute();
+
+    for (const sharingJob of waiting) {
+      const sharingChange = await cancelTranslationJob(tx, sharingJob.id, `Translation job ${id} was cancelled`);
+      change.translation_jobs.push(...sharingChange.translation_jobs);
+      change.audio_generation_jobs.push(...sharingChange.audio_generation_jobs);
+    }
+  }
+
+  return change;
+}
@@ -0,0 +1,128 @@
+import { createHash } from 'node:crypto';
+import { open, rename, unlink } from 'node:fs/promises';
+import path from 'node:path';
+import { db } from '../db';
+import { uploadSessionsTable, videosTable } from '../db/schema';
+import { type CompleteUploadSessionInput, type UploadSession, type Video } from '../schema';
+import { ensureStorageDir, generateStorageFilename, getFileExtension } from '../storage';
+import { getVideoById } from './get_video_by_id';
+import { probeVideo } from './probe_video';
+import { eq } from 'drizzle-orm';
+
+export async function completeUploadSession(input: CompleteUploadSessionInput): Promise<Video> {
+  try {
+    // The session stays locked until its video exists, so a concurrent completion waits and
+    // then returns that video instead of assembling the file a second time
+    let moved: { from: string; to: string } | undefined;
+    const completion = await db.transaction(async (tx) => {
+      const sessions = await tx.select()
+        .from(uploadSessionsTable)
+        .where(eq(uploadSessionsTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (sessions.length === 0) {
+        throw new Error(`Upload session ${input.id} not found`);
+      }
+
+      const session = sessions[0];
+
+      // Completing twice returns the video created the first time
+      if (session.status === 'completed' && session.video_id !== null) {
+        const existing = await getVideoById(session.video_id);
+        if (existing) {
+          return { video: existing, created: false };
+        }
+      }
+
+      if (session.status !== 'receiving') {
+        throw new Error(`Upload session ${input.id} cannot be completed (status: ${session.status})`);
+      }
+
+      if (session.received_bytes !== session.total_size) {
+        throw new Error(`Upload incomplete: received ${session.received_bytes} of ${session.total_size} bytes`);
+      }
+
+      // Recorded on the session rather than thrown here, so the rollback does not undo it
+      const mismatch = await findChecksumMismatch(session, input.chunk_checksums);
+      if (mismatch) {
+        await tx.update(uploadSessionsTable)
+          .set({ status: 'failed', error_message: mismatch, updated_at: new Date() })
+          .where(eq(uploadSessionsTable.id, session.id))
+          .execute();
+        await unlink(session.temp_path).catch(() => {});
+        return { mismatch };
+      }
+
+      // The assembled file moves into place with the video row; a rollback moves it back below
+      const format = getFileExtension(session.original_filename, session.mime_type);
+      const filename = generateStorageFilename('video', format);
+      const filePath = path.join(await ensureStorageDir('videos'), filename);
+      await rename(session.temp_path, filePath);
+      moved = { from: session.temp_path, to: filePath };
+
+      const [video] = await tx.insert(videosTable)
+        .values({
+          filename,
+          original_filename: session.original_filename,
+          file_path: filePath,
+          file_size: session.total_size,
+          duration: null,
+          format,
+          upload_status: 'processing'
+        })
+        .returning()
+        .execute();
+
+      await tx.update(uploadSessionsTable)
+        .set({ status: 'completed', video_id: video.id, updated_at: new Date() })
+        .where(eq(uploadSessionsTable.id, session.id))
+        .execute();
+
+      return { video, created: true };
+    }).catch(async (error) => {
+      // Nothing was recorded: put the file back so the session can still be completed
+      if (moved) {
+        await rename(moved.to, moved.from).catch(() => {});
+      }
+      throw error;
+    });
+
+    if ('mismatch' in completion) {
+      throw new Error(completion.mismatch);
+    }
+    if (!completion.created) {
+      return completion.video;
+    }
+
+    // Probing moves the video to uploaded, or to failed when the media is unusable
+    return await probeVideo(completion.video.id);
+  } catch (error) {
+    console.error('Upload session completion failed:', error);
+    throw error;
+  }
+}
+
+// Re-hash the assembled file chunk by chunk and compare against the client's digests
+async function findChecksumMismatch(session: UploadSession, checksums: string[]): Promise<string | null> {
+  const expectedChunks = Math.ceil(session.total_size / session.chunk_size);
+  if (checksums.length !== expectedChunks) {
+    return `Checksum verification failed: expected ${expectedChunks} chunk checksums, got ${checksums.length}`;
+  }
+
+  const file = await open(session.temp_path, 'r');
+  try {
+    const buffer = Buffer.alloc(session.chunk_size);
+    for (let index = 0; index < expectedChunks; index++) {
+      const { bytesRead } = await file.read(buffer, 0, session.chunk_size, index * session.chunk_size);
+      const digest = createHash('sha256').update(buffer.subarray(0, bytesRead)).digest('hex');
+      if (digest !== checksums[index]) {
+        return `Checksum verification failed for chunk ${index} (bytes ${index * session.chunk_size}-${index * session.chunk_size + bytesRead - 1})`;
+      }
+    }
+  } finally {
+    await file.close();
+  }
+
+  return null;
+}
@@ -1,11 +1,59 @@
 import { db } from '../db';
-import { audioGenerationJobsTable, translationJobsTable } from '../db/schema';
-import { type CreateAudioGenerationJobInput, type AudioGenerationJob } from '../schema';
+import { audioGenerationJobsTable, translationJobsTable, voiceProfilesTable } from '../db/schema';
+import { type CreateAudioGenerationJobInput, type AudioGenerationJob, type Language } from '../schema';
+import { publishTranslationJobChange } from '../events/workflow_changes';
+import { textToSpeechProviders } from '../providers/text_to_speech';
+import { assertCloningConsent } from './get_voice_consents';
 import { eq } from 'drizzle-orm';
 
+type VoiceChoice = Pick<CreateAudioGenerationJobInput, 'voice_cloned' | 'voice_id' | 'voice_profile_id'>
+  & Partial<Pick<CreateAudioGenerationJobInput, 'speaker_voices'>>;
+
+// Stock voices must be ones the configured text-to-speech provider offers, so a typo fails here
+// rather than in the worker once the translation has finished
+export function assertStockVoices(voiceIds: (string | undefined)[]): void {
+  const provider = textToSpeechProviders.get();
+  for (const voiceId of voiceIds) {
+    if (voiceId !== undefined && !provider.stockVoiceIds.includes(voiceId)) {
+      throw new Error(`Unknown voice "${voiceId}". Available: ${provider.stockVoiceIds.join(', ')}`);
+    }
+  }
+}
+
+// A job speaks in a stock voice, or in a cloned one: from the video itself or from a voice profile.
+// Every voice it clones needs consent covering the languages it will be dubbed into.
+export async function assertVoiceChoice(input: VoiceChoice, videoId: number, languages: Language[]): Promise<void> {
+  if (input.voice_cloned && input.voice_id !== undefined) {
+    throw new Error('A stock voice_id cannot be combined with voice cloning');
+  }
+
+  assertStockVoices([input.voice_id, ...(input.speaker_voices ?? []).map((voice) => voice.voice_id)]);
+
+  if (input.voice_profile_id !== undefined) {
+    if (!input.voice_cloned) {
+      throw new Error('A voice profile can only be used with voice cloning');
+    }
+
+    const profiles = await db.select({ id: voiceProfilesTable.id })
+      .from(voiceProfilesTable)
+      .where(eq(voiceProfilesTable.id, input.voice_profile_id))
+      .execute();
+    if (profiles.length === 0) {
+      throw new Error(`Voice profile with id ${input.voice_profile_id} not found`);
+    }
+  }
+
+  if (input.voice_cloned) {
+    await assertCloningConsent(input.voice_profile_id !== undefined ? { voice_profile_id: input.voice_profile_id } : { video_id: videoId }, languages);
+  }
+  if (input.speaker_voices?.some((voice) => voice.voice_cloned)) {
+    await assertCloningConsent({ video_id: videoId }, languages);
+  }
+}
+
 export const createAudioGenerationJob = async (input: CreateAudioGenerationJobInput): Promise<AudioGenerationJob> => {
   try {
-    // Validate that the translation job exists and is completed
+    // Validate that the translation job exists and has not failed
     const translationJob = await db.select()
       .from(translationJobsTable)
       .where(eq(translationJobsTable.id, input.translation_job_id))
@@ -15,20 +63,30 @@ export const createAudioGenerationJob = async (input: CreateAudioGenerationJobIn
       throw new Error(`Translation job with ID ${input.translation_job_id} not found`);
     }
 
-    if (translationJob[0].status !== 'completed') {
-      throw new Error(`Translation job must be completed before audio generation. Current status: ${translationJob[0].status}`);
+    // Jobs may be queued behind an unfinished translation; the job runner starts them once it completes
+    if (translationJob[0].status === 'failed' || translationJob[0].status === 'cancelled') {
+      throw new Error(`Cannot queue audio generation for a ${translationJob[0].status} translation job. Current status: ${translationJob[0].status}`);
     }
 
+    await assertVoiceChoice(input, translationJob[0].video_id, [translationJob[0].target_language]);
+
     // Create a new audio generation job record
     const result = await db.insert(audioGenerationJobsTable)
       .values({
         translation_job_id: input.translation_job_id,
         voice_cloned: input.voice_cloned,
+        voice_id: input.voice_id ?? null,
+        voice_profile_id: input.voice_profile_id ?? null,
+        speaker_voices: input.speaker_voices,
+        preserve_background: input.preserve_background,
+        ducking_db: input.ducking_db,
+        audible_watermark: input.audible_watermark,
         status: 'pending'
       })
       .returning()
       .execute();
 
+    await publishTranslationJobChange(input.translation_job_id);
     return result[0];
   } catch (error) {
     console.error('Audio generation job creation failed:', error);
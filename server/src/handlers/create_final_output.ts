@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { videosTable, translationJobsTable, audioGenerationJobsTable, finalOutputsTable } from '../db/schema';
 import { type CreateFinalOutputInput, type FinalOutput } from '../schema';
+import { publishVideoChange } from '../events/workflow_changes';
 import { eq, and } from 'drizzle-orm';
 
 export const createFinalOutput = async (input: CreateFinalOutputInput): Promise<FinalOutput> => {
@@ -84,6 +85,7 @@ export const createFinalOutput = async (input: CreateFinalOutputInput): Promise<
       .returning()
       .execute();
 
+    await publishVideoChange(input.video_id);
     return result[0];
   } catch (error) {
     console.error('Final output creation failed:', error);
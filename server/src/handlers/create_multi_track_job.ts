@@ -0,0 +1,83 @@
+import { db } from '../db';
+import { videosTable, translationJobsTable, audioGenerationJobsTable, multiTrackJobsTable } from '../db/schema';
+import { type CreateMultiTrackJobInput, type MultiTrackJob } from '../schema';
+import { publishVideoChange } from '../events/workflow_changes';
+import { eq, and, asc, desc, inArray } from 'drizzle-orm';
+
+// Queue a mux of the original picture with one dubbed audio track (and optionally one subtitle
+// track) per language; the job runner renders it. The tracks are picked now, so later dubs of a
+// language do not change what the queued job muxes.
+export async function createMultiTrackJob(input: CreateMultiTrackJobInput): Promise<MultiTrackJob> {
+  try {
+    const videos = await db.select()
+      .from(videosTable)
+      .where(eq(videosTable.id, input.video_id))
+      .execute();
+
+    const video = videos[0];
+    if (!video) {
+      throw new Error(`Video with id ${input.video_id} not found`);
+    }
+    if (video.upload_status !== 'uploaded') {
+      throw new Error(`Video with id ${input.video_id} is not uploaded (status: ${video.upload_status})`);
+    }
+
+    // Audio jobs of the video, languages in the order they were first requested
+    const candidates = await db.select({ audioJob: audioGenerationJobsTable, translationJob: translationJobsTable })
+      .from(audioGenerationJobsTable)
+      .innerJoin(translationJobsTable, eq(audioGenerationJobsTable.translation_job_id, translationJobsTable.id))
+      .where(and(
+        eq(translationJobsTable.video_id, video.id),
+        input.audio_generation_job_ids ? inArray(audioGenerationJobsTable.id, input.audio_generation_job_ids) : undefined
+      ))
+      .orderBy(asc(translationJobsTable.id), desc(audioGenerationJobsTable.created_at), desc(audioGenerationJobsTable.id))
+      .execute();
+
+    const selected = input.audio_generation_job_ids
+      ? input.audio_generation_job_ids.map((id) => {
+        const candidate = candidates.find((row) => row.audioJob.id === id);
+        if (!candidate) {
+          throw new Error(`Audio generation job with id ${id} not found for video ${video.id}`);
+        }
+        if (candidate.audioJob.status !== 'completed' || !candidate.audioJob.generated_audio_path) {
+          throw new Error(`Audio generation job with id ${id} is not completed (status: ${candidate.audioJob.status})`);
+        }
+        return candidate;
+      })
+      : candidates.filter((row) => row.audioJob.status === 'completed' && row.audioJob.generated_audio_path);
+
+    // One track per language: the most recent job wins unless jobs were picked explicitly
+    const tracks = new Map<string, typeof selected[number]>();
+    for (const row of selected) {
+      const language = row.translationJob.target_language;
+      if (tracks.has(language)) {
+        if (input.audio_generation_job_ids) {
+          throw new Error(`More than one audio generation job selected for language ${language}`);
+        }
+        continue;
+      }
+      tracks.set(language, row);
+    }
+
+    if (tracks.size === 0) {
+      throw new Error(`Video with id ${video.id} has no completed audio generation jobs`);
+    }
+
+    return await db.transaction(async (tx) => {
+      const [job] = await tx.insert(multiTrackJobsTable)
+        .values({
+          video_id: video.id,
+          audio_generation_job_ids: [...tracks.values()].map(({ audioJob }) => audioJob.id),
+          include_subtitles: input.include_subtitles
+        })
+        .returning()
+        .execute();
+
+      await publishVideoChange(video.id, tx);
+      return job;
+    });
+  } catch (error) {
+    console.error('Multi-track job creation failed:', error);
+    throw error;
+  }
+}
@@ -1,40 +1,94 @@
-import { db } from '../db';
-import { videosTable, translationJobsTable } from '../db/schema';
+import { db, type DbExecutor } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable } from '../db/schema';
 import { type CreateTranslationJobInput, type TranslationJob } from '../schema';
+import { parseSubtitles, SubtitleParseError, type ParsedCue } from '../subtitles/parse';
+import { publishVideoChange } from '../events/workflow_changes';
 import { eq } from 'drizzle-orm';
 
+// Source transcript parsed from imported subtitles; a malformed file leaves only the error
+export interface ImportedTranscript {
+  cues: ParsedCue[];
+  error: string | null;
+}
+
 export const createTranslationJob = async (input: CreateTranslationJobInput): Promise<TranslationJob> => {
   try {
-    // 1. Validate that the video exists and is uploaded
-    const existingVideo = await db.select()
-      .from(videosTable)
-      .where(eq(videosTable.id, input.video_id))
-      .execute();
+    await assertVideoUploaded(input.video_id);
+    const transcript = parseSourceSubtitles(input.source_subtitles);
 
-    if (existingVideo.length === 0) {
-      throw new Error(`Video with ID ${input.video_id} not found`);
-    }
+    return await db.transaction((tx) => insertTranslationJob(tx, input, transcript));
+  } catch (error) {
+    console.error('Translation job creation failed:', error);
+    throw error;
+  }
+};
 
-    const video = existingVideo[0];
-    if (video.upload_status !== 'uploaded') {
-      throw new Error(`Video must be uploaded before creating translation job. Current status: ${video.upload_status}`);
-    }
+export async function assertVideoUploaded(videoId: number): Promise<void> {
+  const existingVideo = await db.select()
+    .from(videosTable)
+    .where(eq(videosTable.id, videoId))
+    .execute();
 
-    // 2. Create a new translation job record with 'pending' status
-    const result = await db.insert(translationJobsTable)
-      .values({
-        video_id: input.video_id,
-        source_language: input.source_language,
-        target_language: input.target_language,
-        status: 'pending'
-        // Other fields (original_audio_path, translated_text, etc.) will default to null
-      })
-      .returning()
-      .execute();
+  if (existingVideo.length === 0) {
+    throw new Error(`Video with ID ${videoId} not found`);
+  }
+
+  const video = existingVideo[0];
+  if (video.upload_status !== 'uploaded') {
+    throw new Error(`Video must be uploaded before creating translation job. Current status: ${video.upload_status}`);
+  }
+}
 
-    return result[0];
+// Parse imported subtitles up front; a malformed file still creates the job, as failed
+export function parseSourceSubtitles(source: CreateTranslationJobInput['source_subtitles']): ImportedTranscript {
+  if (!source) {
+    return { cues: [], error: null };
+  }
+
+  try {
+    return { cues: parseSubtitles(source.content, source.format), error: null };
   } catch (error) {
-    console.error('Translation job creation failed:', error);
-    throw error;
+    if (!(error instanceof SubtitleParseError)) {
+      throw error;
+    }
+    return { cues: [], error: `Invalid ${source.format.toUpperCase()} subtitles: ${error.message}` };
   }
-};
\ No newline at end of file
+}
+
+// Create a new translation job record, with the imported transcript if any
+export async function insertTranslationJob(
+  executor: DbExecutor,
+  input: CreateTranslationJobInput,
+  transcript: ImportedTranscript
+): Promise<TranslationJob> {
+  const result = await executor.insert(translationJobsTable)
+    .values({
+      video_id: input.video_id,
+      source_language: input.source_language,
+      target_language: input.target_language,
+      glossary: input.glossary,
+      transcript_source: input.source_subtitles ? 'subtitles' : 'speech_recognition',
+      status: transcript.error ? 'failed' : 'pending',
+      error_message: transcript.error
+      // Other fields (original_audio_path, translated_text, etc.) will default to null
+    })
+    .returning()
+    .execute();
+
+  const job = result[0];
+  await publishVideoChange(job.video_id, executor);
+  if (transcript.cues.length > 0) {
+    await executor.insert(transcriptSegmentsTable)
+      .values(transcript.cues.map((cue, index) => ({
+        translation_job_id: job.id,
+        segment_index: index,
+        start_ms: cue.startMs,
+        end_ms: cue.endMs,
+        speaker: cue.speaker,
+        source_text: cue.text
+      })))
+      .execute();
+  }
+
+  return job;
+}
@@ -0,0 +1,63 @@
+import { db } from '../db';
+import { translationJobsTable, audioGenerationJobsTable } from '../db/schema';
+import { type CreateTranslationRequestInput, type TranslationRequest } from '../schema';
+import { assertVideoUploaded, insertTranslationJob, parseSourceSubtitles } from './create_translation_job';
+import { assertVoiceChoice } from './create_audio_generation_job';
+
+// Fan one request out into a translation job and an audio generation job per target language.
+// The first job produces the transcript (speech recognition or imported subtitles); the others
+// translate that same transcript instead of transcribing the video again.
+export const createTranslationRequest = async (input: CreateTranslationRequestInput): Promise<TranslationRequest> => {
+  try {
+    await assertVideoUploaded(input.video_id);
+
+    await assertVoiceChoice(input, input.video_id, input.target_languages);
+
+    const transcript = parseSourceSubtitles(input.source_subtitles);
+    const [firstLanguage, ...otherLanguages] = input.target_languages;
+
+    return await db.transaction(async (tx) => {
+      const transcriptJob = await insertTranslationJob(tx, { ...input, target_language: firstLanguage }, transcript);
+
+      const sharingJobs = otherLanguages.length === 0 ? [] : await tx.insert(translationJobsTable)
+        .values(otherLanguages.map((language) => ({
+          video_id: input.video_id,
+          source_language: input.source_language,
+          target_language: language,
+          glossary: input.glossary,
+          transcript_source: transcriptJob.transcript_source,
+          transcript_job_id: transcriptJob.id,
+          status: transcriptJob.status,
+          error_message: transcriptJob.error_message
+        })))
+        .returning()
+        .execute();
+
+      const translationJobs = [transcriptJob, ...sharingJobs];
+
+      // Rejected subtitles fail every language; there is nothing to dub
+      if (transcriptJob.status === 'failed') {
+        return { translation_jobs: translationJobs, audio_generation_jobs: [] };
+      }
+
+      const audioGenerationJobs = await tx.insert(audioGenerationJobsTable)
+        .values(translationJobs.map((job) => ({
+          translation_job_id: job.id,
+          voice_cloned: input.voice_cloned,
+          voice_id: input.voice_id ?? null,
+          voice_profile_id: input.voice_profile_id ?? null,
+          preserve_background: input.preserve_background,
+          ducking_db: input.ducking_db,
+          audible_watermark: input.audible_watermark,
+          status: 'pending' as const
+        })))
+        .returning()
+        .execute();
+
+      return { translation_jobs: translationJobs, audio_generation_jobs: audioGenerationJobs };
+    });
+  } catch (error) {
+    console.error('Translation request creation failed:', error);
+    throw error;
+  }
+};
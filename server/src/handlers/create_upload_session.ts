@@ -0,0 +1,37 @@
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { db } from '../db';
+import { uploadSessionsTable } from '../db/schema';
+import { type CreateUploadSessionInput, type UploadSession } from '../schema';
+import { ensureStorageDir, generateStorageFilename } from '../storage';
+import { getMaxChunkedUploadSize, getUploadChunkSize } from '../storage/upload_limits';
+
+export const createUploadSession = async (input: CreateUploadSessionInput): Promise<UploadSession> => {
+  try {
+    const maxSize = getMaxChunkedUploadSize();
+    if (input.total_size > maxSize) {
+      throw new Error(`File size ${input.total_size} exceeds the maximum upload size of ${maxSize} bytes`);
+    }
+
+    // Create the empty partial file that chunks are written into
+    const tempPath = path.join(await ensureStorageDir('uploads'), generateStorageFilename('upload', 'part'));
+    await writeFile(tempPath, '');
+
+    const result = await db.insert(uploadSessionsTable)
+      .values({
+        original_filename: input.original_filename,
+        mime_type: input.mime_type,
+        total_size: input.total_size,
+        chunk_size: getUploadChunkSize(),
+        temp_path: tempPath,
+        status: 'receiving'
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Upload session creation failed:', error);
+    throw error;
+  }
+};
@@ -1,15 +1,22 @@
+import path from 'node:path';
 import { db } from '../db';
 import { videosTable } from '../db/schema';
 import { type CreateVideoInput, type Video } from '../schema';
+import { getStorageRoot } from '../storage';
 
-export const createVideo = async (input: CreateVideoInput): Promise<Video> => {
+// The upload routes pass where they stored the file. A video registered through the API is looked
+// up by its filename in the videos storage area, never at a path the client chose.
+export const createVideo = async (
+  input: CreateVideoInput,
+  filePath = path.join(getStorageRoot(), 'videos', path.basename(input.filename))
+): Promise<Video> => {
   try {
     // Insert video record with pending status
     const result = await db.insert(videosTable)
       .values({
         filename: input.filename,
         original_filename: input.original_filename,
-        file_path: input.file_path,
+        file_path: filePath,
         file_size: input.file_size,
         duration: input.duration, // Can be null until processing is complete
         format: input.format,
@@ -0,0 +1,66 @@
+import { db } from '../db';
+import { videosTable, voiceConsentsTable, voiceProfilesTable } from '../db/schema';
+import { type CreateVoiceConsentInput, type VoiceConsent } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Consent that cannot be recorded as submitted
+export class VoiceConsentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VoiceConsentError';
+  }
+}
+
+// The signed form, already stored by the upload route
+export interface ConsentArtifact {
+  path: string;
+  filename: string;
+  sha256: string;
+}
+
+export async function createVoiceConsent(input: CreateVoiceConsentInput, artifact: ConsentArtifact): Promise<VoiceConsent> {
+  try {
+    if (input.expires_at.getTime() <= Date.now()) {
+      throw new VoiceConsentError('Consent must expire in the future');
+    }
+
+    if (input.voice_profile_id !== undefined) {
+      const profiles = await db.select({ id: voiceProfilesTable.id })
+        .from(voiceProfilesTable)
+        .where(eq(voiceProfilesTable.id, input.voice_profile_id))
+        .execute();
+      if (profiles.length === 0) {
+        throw new VoiceConsentError(`Voice profile with id ${input.voice_profile_id} not found`);
+      }
+    }
+
+    if (input.video_id !== undefined) {
+      const videos = await db.select({ id: videosTable.id })
+        .from(videosTable)
+        .where(eq(videosTable.id, input.video_id))
+        .execute();
+      if (videos.length === 0) {
+        throw new VoiceConsentError(`Video with id ${input.video_id} not found`);
+      }
+    }
+
+    const result = await db.insert(voiceConsentsTable)
+      .values({
+        voice_profile_id: input.voice_profile_id ?? null,
+        video_id: input.video_id ?? null,
+        consented_by: input.consented_by,
+        scope_languages: input.scope_languages,
+        expires_at: input.expires_at,
+        artifact_path: artifact.path,
+        artifact_filename: artifact.filename,
+        artifact_sha256: artifact.sha256
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Voice consent creation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,124 @@
+import path from 'node:path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { db } from '../db';
+import { videosTable, voiceProfilesTable } from '../db/schema';
+import { type CreateVoiceProfileInput, type Language, type VoiceProfile, type VoiceProfileClip } from '../schema';
+import { mediaProviders } from '../providers/media';
+import { textToSpeechProviders } from '../providers/text_to_speech';
+import { ensureStorageDir, generateStorageFilename } from '../storage';
+import { type WavAudio, readWav, wavDurationMs, writeWav } from '../media/wav';
+import { assertCloningConsent } from './get_voice_consents';
+import { inArray } from 'drizzle-orm';
+
+// Spoken in the new voice so reviewers can approve it before it is used
+const PREVIEW_TEXT = 'Hello! This is a preview of the cloned voice.';
+const PREVIEW_LANGUAGE: Language = 'en';
+
+type ClonedVoice = Pick<VoiceProfile, 'source_video_ids' | 'reference_audio_path' | 'tts_provider' | 'provider_voice_id' | 'preview_audio_path'>;
+
+// Join the clips into one reference recording, then clone the voice from it by speaking a preview.
+// Speaking the preview already clones, so the speakers of every source video must have consented.
+export async function cloneVoiceFromClips(clips: VoiceProfileClip[]): Promise<ClonedVoice> {
+  const sourceVideoIds = [...new Set(clips.map((clip) => clip.video_id))];
+  const videos = await db.select()
+    .from(videosTable)
+    .where(inArray(videosTable.id, sourceVideoIds))
+    .execute();
+
+  for (const videoId of sourceVideoIds) {
+    const video = videos.find((candidate) => candidate.id === videoId);
+    if (!video) {
+      throw new Error(`Video with id ${videoId} not found`);
+    }
+    if (video.upload_status !== 'uploaded') {
+      throw new Error(`Video with id ${videoId} is not uploaded (status: ${video.upload_status})`);
+    }
+    await assertCloningConsent({ video_id: videoId }, [PREVIEW_LANGUAGE]);
+  }
+
+  const extractDir = await mkdtemp(path.join(tmpdir(), 'voice-profile-'));
+  try {
+    const media = mediaProviders.get();
+    const soundtracks = new Map<number, WavAudio>();
+    for (const video of videos) {
+      const audioPath = path.join(extractDir, `video_${video.id}.wav`);
+      await media.extractAudio({ videoPath: video.file_path, durationSeconds: video.duration, outputPath: audioPath });
+      soundtracks.set(video.id, await readWav(audioPath));
+    }
+
+    const slices = clips.map((clip) => {
+      const soundtrack = soundtracks.get(clip.video_id)!;
+      const durationMs = wavDurationMs(soundtrack);
+      if (clip.end_ms > durationMs) {
+        throw new Error(`Clip ${clip.start_ms}-${clip.end_ms}ms is outside video ${clip.video_id}, which is ${durationMs}ms long`);
+      }
+      const toSample = (ms: number) => Math.round((ms / 1000) * soundtrack.sampleRate);
+      return soundtrack.samples.subarray(toSample(clip.start_ms), toSample(clip.end_ms));
+    });
+
+    const samples = new Int16Array(slices.reduce((total, slice) => total + slice.length, 0));
+    let offset = 0;
+    for (const slice of slices) {
+      samples.set(slice, offset);
+      offset += slice.length;
+    }
+
+    const voicesDir = await ensureStorageDir('voices');
+    const referenceAudioPath = path.join(voicesDir, generateStorageFilename('reference', 'wav'));
+    const previewDir = await mkdtemp(path.join(voicesDir, 'preview_'));
+    try {
+      await writeWav(referenceAudioPath, { sampleRate: soundtracks.get(clips[0].video_id)!.sampleRate, samples });
+
+      const textToSpeech = textToSpeechProviders.get();
+      const preview = await textToSpeech.synthesize({
+        segments: [PREVIEW_TEXT],
+        language: PREVIEW_LANGUAGE,
+        voice: { kind: 'cloned', referenceAudioPath },
+        outputDir: previewDir
+      });
+
+      return {
+        source_video_ids: sourceVideoIds,
+        reference_audio_path: referenceAudioPath,
+        tts_provider: textToSpeech.name,
+        provider_voice_id: preview.voiceId,
+        preview_audio_path: preview.segments[0].audioPath
+      };
+    } catch (error) {
+      await rm(referenceAudioPath, { force: true });
+      await rm(previewDir, { recursive: true, force: true });
+      throw error;
+    }
+  } finally {
+    await rm(extractDir, { recursive: true, force: true });
+  }
+}
+
+// Remove the reference recording and preview of a voice that is no longer stored. Each preview
+// is written into a directory of its own, which goes with it.
+export async function removeClonedVoiceFiles(voice: Pick<VoiceProfile, 'reference_audio_path' | 'preview_audio_path'>): Promise<void> {
+  await rm(voice.reference_audio_path, { force: true });
+  const previewDir = path.dirname(voice.preview_audio_path);
+  await rm(path.basename(previewDir).startsWith('preview_') ? previewDir : voice.preview_audio_path, { recursive: true, force: true });
+}
+
+export async function createVoiceProfile(input: CreateVoiceProfileInput): Promise<VoiceProfile> {
+  try {
+    const clonedVoice = await cloneVoiceFromClips(input.clips);
+
+    const result = await db.insert(voiceProfilesTable)
+      .values({ name: input.name, clips: input.clips, ...clonedVoice })
+      .returning()
+      .execute()
+      .catch(async (error) => {
+        await removeClonedVoiceFiles(clonedVoice);
+        throw error;
+      });
+
+    return result[0];
+  } catch (error) {
+    console.error('Voice profile creation failed:', error);
+    throw error;
+  }
+}
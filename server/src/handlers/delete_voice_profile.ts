@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { audioGenerationJobsTable, voiceProfilesTable } from '../db/schema';
+import { type VoiceProfile } from '../schema';
+import { removeClonedVoiceFiles } from './create_voice_profile';
+import { count, eq } from 'drizzle-orm';
+
+// Profiles stay while any audio generation job refers to them, so its voice remains traceable
+export async function deleteVoiceProfile(id: number): Promise<VoiceProfile> {
+  try {
+    const deleted = await db.transaction(async (tx) => {
+      const [usage] = await tx.select({ jobs: count() })
+        .from(audioGenerationJobsTable)
+        .where(eq(audioGenerationJobsTable.voice_profile_id, id))
+        .execute();
+
+      if (usage.jobs > 0) {
+        throw new Error(`Voice profile with id ${id} is used by ${usage.jobs} audio generation job(s)`);
+      }
+
+      const result = await tx.delete(voiceProfilesTable)
+        .where(eq(voiceProfilesTable.id, id))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error(`Voice profile with id ${id} not found`);
+      }
+
+      return result[0];
+    });
+
+    // Only once the row is gone, so a failed deletion keeps the voice playable
+    await removeClonedVoiceFiles(deleted);
+    return deleted;
+  } catch (error) {
+    console.error('Voice profile deletion failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,63 @@
+import path from 'node:path';
+import { db } from '../db';
+import { translationJobsTable } from '../db/schema';
+import { type ExportSubtitlesInput, type SubtitleFile } from '../schema';
+import { getVideoById } from './get_video_by_id';
+import { getTranscriptSegments } from './get_transcript_segments';
+import { SUBTITLE_CONTENT_TYPES, renderSubtitles } from '../subtitles/render';
+import { eq } from 'drizzle-orm';
+
+// The job exists but its transcript cannot be rendered (yet)
+export class SubtitleExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubtitleExportError';
+  }
+}
+
+export async function exportSubtitles(input: ExportSubtitlesInput): Promise<SubtitleFile | null> {
+  try {
+    const jobs = await db.select()
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.id, input.translation_job_id))
+      .execute();
+
+    // Return null if the translation job does not exist
+    const job = jobs[0];
+    if (!job) {
+      return null;
+    }
+
+    const segments = await getTranscriptSegments(job.id);
+    if (segments.length === 0) {
+      throw new SubtitleExportError(`Translation job ${job.id} has no transcript yet (status: ${job.status})`);
+    }
+    if (input.text === 'translated' && segments.some((segment) => segment.translated_text === null)) {
+      throw new SubtitleExportError(`Translation job ${job.id} has untranslated segments (status: ${job.status})`);
+    }
+
+    const language = input.text === 'translated' ? job.target_language : job.source_language;
+    const content = renderSubtitles(
+      input.format,
+      segments.map((segment) => ({
+        startMs: segment.start_ms,
+        endMs: segment.end_ms,
+        text: (input.text === 'translated' ? segment.translated_text : segment.source_text) ?? ''
+      })),
+      language
+    );
+
+    // Name the file after the upload, e.g. `keynote.es.srt`
+    const video = await getVideoById(job.video_id);
+    const basename = video ? path.parse(video.original_filename).name : `translation_job_${job.id}`;
+
+    return {
+      filename: `${basename}.${language}.${input.format}`,
+      content_type: SUBTITLE_CONTENT_TYPES[input.format],
+      content
+    };
+  } catch (error) {
+    console.error('Subtitle export failed:', error);
+    throw error;
+  }
+}
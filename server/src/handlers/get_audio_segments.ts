@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { audioSegmentsTable, transcriptSegmentsTable } from '../db/schema';
+import { type AudioSegment } from '../schema';
+import { asc, eq, getTableColumns } from 'drizzle-orm';
+
+export async function getAudioSegments(audioGenerationJobId: number): Promise<AudioSegment[]> {
+  try {
+    // In transcript order
+    return await db.select(getTableColumns(audioSegmentsTable))
+      .from(audioSegmentsTable)
+      .innerJoin(transcriptSegmentsTable, eq(audioSegmentsTable.transcript_segment_id, transcriptSegmentsTable.id))
+      .where(eq(audioSegmentsTable.audio_generation_job_id, audioGenerationJobId))
+      .orderBy(asc(transcriptSegmentsTable.segment_index))
+      .execute();
+  } catch (error) {
+    console.error('Audio segments retrieval failed:', error);
+    throw error;
+  }
+}
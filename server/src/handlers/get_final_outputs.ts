@@ -18,8 +18,9 @@ export const getFinalOutputs = async (options: GetFinalOutputsOptions = {}): Pro
       const results = await db.select()
         .from(finalOutputsTable)
         .innerJoin(videosTable, eq(finalOutputsTable.video_id, videosTable.id))
-        .innerJoin(translationJobsTable, eq(finalOutputsTable.translation_job_id, translationJobsTable.id))
-        .innerJoin(audioGenerationJobsTable, eq(finalOutputsTable.audio_generation_job_id, audioGenerationJobsTable.id))
+        // Multi-track outputs reference their jobs through final_output_tracks instead
+        .leftJoin(translationJobsTable, eq(finalOutputsTable.translation_job_id, translationJobsTable.id))
+        .leftJoin(audioGenerationJobsTable, eq(finalOutputsTable.audio_generation_job_id, audioGenerationJobsTable.id))
         .orderBy(desc(finalOutputsTable.created_at))
         .limit(limit)
         .offset(offset)
@@ -29,6 +30,7 @@ export const getFinalOutputs = async (options: GetFinalOutputsOptions = {}): Pro
       return results.map((result: any) => ({
         id: result.final_outputs.id,
         video_id: result.final_outputs.video_id,
+        kind: result.final_outputs.kind,
         translation_job_id: result.final_outputs.translation_job_id,
         audio_generation_job_id: result.final_outputs.audio_generation_job_id,
         final_video_path: result.final_outputs.final_video_path,
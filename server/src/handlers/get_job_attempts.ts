@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { jobAttemptsTable } from '../db/schema';
+import { type GetJobAttemptsInput, type JobAttempt } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export async function getJobAttempts(input: GetJobAttemptsInput): Promise<JobAttempt[]> {
+  try {
+    const jobColumn = {
+      translation: jobAttemptsTable.translation_job_id,
+      audio_generation: jobAttemptsTable.audio_generation_job_id,
+      multi_track: jobAttemptsTable.multi_track_job_id
+    }[input.job_type];
+
+    // Every run of the job, oldest first
+    return await db.select()
+      .from(jobAttemptsTable)
+      .where(eq(jobColumn, input.id))
+      .orderBy(asc(jobAttemptsTable.attempt))
+      .execute();
+  } catch (error) {
+    console.error('Job attempts retrieval failed:', error);
+    throw error;
+  }
+}
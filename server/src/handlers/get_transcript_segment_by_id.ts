@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { transcriptSegmentsTable } from '../db/schema';
+import { type TranscriptSegment } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export async function getTranscriptSegmentById(id: number): Promise<TranscriptSegment | null> {
+  try {
+    const result = await db.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.id, id))
+      .execute();
+
+    // Return null if the segment does not exist
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Failed to get transcript segment by ID:', error);
+    throw error;
+  }
+}
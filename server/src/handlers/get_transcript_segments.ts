@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { transcriptSegmentsTable } from '../db/schema';
+import { type TranscriptSegment } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export async function getTranscriptSegments(translationJobId: number): Promise<TranscriptSegment[]> {
+  try {
+    // Every segment of the job, in transcript order
+    return await db.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.translation_job_id, translationJobId))
+      .orderBy(asc(transcriptSegmentsTable.segment_index))
+      .execute();
+  } catch (error) {
+    console.error('Transcript segments retrieval failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { transcriptSegmentsTable } from '../db/schema';
+import { type GetTranscriptSegmentsPageQuery, type TranscriptSegmentPage } from '../schema';
+import { asc, count, eq } from 'drizzle-orm';
+
+export async function getTranscriptSegmentsPage(input: GetTranscriptSegmentsPageQuery): Promise<TranscriptSegmentPage> {
+  try {
+    const condition = eq(transcriptSegmentsTable.translation_job_id, input.translation_job_id);
+
+    const segments = await db.select()
+      .from(transcriptSegmentsTable)
+      .where(condition)
+      .orderBy(asc(transcriptSegmentsTable.segment_index))
+      .limit(input.limit)
+      .offset(input.offset)
+      .execute();
+
+    // Total across all pages, so clients can render pagination
+    const totals = await db.select({ total: count() })
+      .from(transcriptSegmentsTable)
+      .where(condition)
+      .execute();
+
+    return {
+      segments,
+      total: totals[0]?.total ?? 0,
+      limit: input.limit,
+      offset: input.offset
+    };
+  } catch (error) {
+    console.error('Transcript segments page retrieval failed:', error);
+    throw error;
+  }
+}
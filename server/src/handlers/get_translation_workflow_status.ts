@@ -1,14 +1,52 @@
 import { db } from '../db';
-import { videosTable, translationJobsTable, audioGenerationJobsTable, finalOutputsTable } from '../db/schema';
-import { type Video, type TranslationJob, type AudioGenerationJob, type FinalOutput } from '../schema';
-import { eq, desc } from 'drizzle-orm';
+import { videosTable, translationJobsTable, audioGenerationJobsTable, finalOutputsTable, finalOutputTracksTable, multiTrackJobsTable, transcriptSegmentsTable } from '../db/schema';
+import { type Video, type TranslationJob, type AudioGenerationJob, type FinalOutput, type MultiTrackJob, type MultiTrackOutput, type Language } from '../schema';
+import { eq, asc, desc, count, inArray } from 'drizzle-orm';
+
+export interface SegmentCounts {
+    total: number;
+    translated: number;
+}
+
+// Runs by the job runner, automatic and manual retries included
+export interface AttemptCounts {
+    translation: number;
+    audioGeneration: number; // Of the most recent audio generation job
+}
+
+export type StageStatus = 'not_started' | 'uploading' | 'translating' | 'generating_audio' | 'completed' | 'failed' | 'cancelled';
+
+// One translation job with everything produced from it
+export interface TranslationBranchStatus {
+    translationJob: TranslationJob;
+    audioGenerationJobs: AudioGenerationJob[]; // Most recent first
+    finalOutputs: FinalOutput[]; // Most recent first
+    segmentCounts: SegmentCounts;
+    attemptCounts: AttemptCounts;
+    nextAttemptAt: Date | null; // When a job waiting out the backoff of an automatic retry runs again
+    status: StageStatus; // Of the translation and its most recent audio generation job
+    progress: number; // 0-100
+}
+
+export interface LanguageWorkflowStatus {
+    targetLanguage: Language;
+    branches: TranslationBranchStatus[]; // Every translation job into this language, most recent first
+    status: StageStatus; // Of the most recent branch; earlier ones are history
+    progress: number; // 0-100
+}
 
 export interface WorkflowStatus {
     video: Video | null;
+    languages: LanguageWorkflowStatus[]; // In the order the languages were first requested
+    multiTrackJobs: MultiTrackJob[]; // Queued, running and finished muxes, most recent first
+    multiTrackOutputs: MultiTrackOutput[]; // Most recent first
+    // Shortcuts to the most recent translation job and what came of it
     translationJob: TranslationJob | null;
     audioGenerationJob: AudioGenerationJob | null;
     finalOutput: FinalOutput | null;
-    overallStatus: 'not_started' | 'uploading' | 'translating' | 'generating_audio' | 'completed' | 'failed';
+    segmentCounts: SegmentCounts; // Transcript segments of the translation job
+    // Aggregate over the most recent branch of every language
+    overallStatus: StageStatus | 'partially_completed';
     progress: number; // 0-100
 }
 
@@ -25,60 +63,88 @@ export async function getTranslationWorkflowStatus(videoId: number): Promise<Wor
         if (!video) {
             return {
                 video: null,
+                languages: [],
+                multiTrackJobs: [],
+                multiTrackOutputs: [],
                 translationJob: null,
                 audioGenerationJob: null,
                 finalOutput: null,
+                segmentCounts: { total: 0, translated: 0 },
                 overallStatus: 'not_started',
                 progress: 0
             };
         }
 
-        // Fetch the most recent translation job for this video
+        // Fetch every job of the video, most recent first
         const translationJobs = await db.select()
             .from(translationJobsTable)
             .where(eq(translationJobsTable.video_id, videoId))
-            .orderBy(desc(translationJobsTable.created_at))
-            .limit(1)
+            .orderBy(desc(translationJobsTable.created_at), desc(translationJobsTable.id))
             .execute();
 
-        const translationJob = translationJobs.length > 0 ? translationJobs[0] : null;
-
-        // Fetch the most recent audio generation job if translation job exists
-        let audioGenerationJob: AudioGenerationJob | null = null;
-        if (translationJob) {
-            const audioJobs = await db.select()
-                .from(audioGenerationJobsTable)
-                .where(eq(audioGenerationJobsTable.translation_job_id, translationJob.id))
-                .orderBy(desc(audioGenerationJobsTable.created_at))
-                .limit(1)
-                .execute();
+        const translationJobIds = translationJobs.map((job) => job.id);
 
-            audioGenerationJob = audioJobs.length > 0 ? audioJobs[0] : null;
-        }
+        const audioJobs = translationJobIds.length === 0 ? [] : await db.select()
+            .from(audioGenerationJobsTable)
+            .where(inArray(audioGenerationJobsTable.translation_job_id, translationJobIds))
+            .orderBy(desc(audioGenerationJobsTable.created_at), desc(audioGenerationJobsTable.id))
+            .execute();
 
-        // Fetch the final output if it exists
         const finalOutputs = await db.select()
             .from(finalOutputsTable)
             .where(eq(finalOutputsTable.video_id, videoId))
-            .orderBy(desc(finalOutputsTable.created_at))
-            .limit(1)
+            .orderBy(desc(finalOutputsTable.created_at), desc(finalOutputsTable.id))
+            .execute();
+
+        const multiTrackOutputs = finalOutputs.filter((output) => output.kind === 'multi_track');
+        const tracks = multiTrackOutputs.length === 0 ? [] : await db.select()
+            .from(finalOutputTracksTable)
+            .where(inArray(finalOutputTracksTable.final_output_id, multiTrackOutputs.map((output) => output.id)))
+            .orderBy(asc(finalOutputTracksTable.track_index))
             .execute();
 
-        const finalOutput = finalOutputs.length > 0 ? finalOutputs[0] : null;
+        const multiTrackJobs = await db.select()
+            .from(multiTrackJobsTable)
+            .where(eq(multiTrackJobsTable.video_id, videoId))
+            .orderBy(desc(multiTrackJobsTable.created_at), desc(multiTrackJobsTable.id))
+            .execute();
+
+        // Count transcript segments, and how many of them have been translated
+        const counts = translationJobIds.length === 0 ? [] : await db.select({
+            translation_job_id: transcriptSegmentsTable.translation_job_id,
+            total: count(),
+            translated: count(transcriptSegmentsTable.translated_text)
+        })
+            .from(transcriptSegmentsTable)
+            .where(inArray(transcriptSegmentsTable.translation_job_id, translationJobIds))
+            .groupBy(transcriptSegmentsTable.translation_job_id)
+            .execute();
 
-        // Determine overall status and progress
-        const { overallStatus, progress } = calculateWorkflowStatus(
+        const branches = translationJobs.map((translationJob) => buildBranch(
             video,
             translationJob,
-            audioGenerationJob,
-            finalOutput
-        );
+            audioJobs.filter((job) => job.translation_job_id === translationJob.id),
+            finalOutputs.filter((output) => output.translation_job_id === translationJob.id),
+            counts.find((row) => row.translation_job_id === translationJob.id)
+        ));
+
+        const languages = groupByLanguage(branches);
+        const latest = branches.length > 0 ? branches[0] : null;
+        const singleLanguageOutputs = finalOutputs.filter((output) => output.kind === 'single_language');
+        const { overallStatus, progress } = aggregateWorkflowStatus(video, languages);
 
         return {
             video,
-            translationJob,
-            audioGenerationJob,
-            finalOutput,
+            languages,
+            multiTrackJobs,
+            multiTrackOutputs: multiTrackOutputs.map((output) => ({
+                ...output,
+                tracks: tracks.filter((track) => track.final_output_id === output.id)
+            })),
+            translationJob: latest?.translationJob ?? null,
+            audioGenerationJob: latest?.audioGenerationJobs[0] ?? null,
+            finalOutput: singleLanguageOutputs.length > 0 ? singleLanguageOutputs[0] : null,
+            segmentCounts: latest?.segmentCounts ?? { total: 0, translated: 0 },
             overallStatus,
             progress
         };
@@ -88,12 +154,89 @@ export async function getTranslationWorkflowStatus(videoId: number): Promise<Wor
     }
 }
 
+function buildBranch(
+    video: Video,
+    translationJob: TranslationJob,
+    audioGenerationJobs: AudioGenerationJob[],
+    finalOutputs: FinalOutput[],
+    counts: SegmentCounts | undefined
+): TranslationBranchStatus {
+    const audioGenerationJob = audioGenerationJobs.length > 0 ? audioGenerationJobs[0] : null;
+    const finalOutput = audioGenerationJob
+        ? finalOutputs.find((output) => output.audio_generation_job_id === audioGenerationJob.id) ?? null
+        : null;
+    const { overallStatus, progress } = calculateWorkflowStatus(video, translationJob, audioGenerationJob, finalOutput);
+
+    return {
+        translationJob,
+        audioGenerationJobs,
+        finalOutputs,
+        segmentCounts: { total: counts?.total ?? 0, translated: counts?.translated ?? 0 },
+        attemptCounts: {
+            translation: translationJob.attempt_count,
+            audioGeneration: audioGenerationJob?.attempt_count ?? 0
+        },
+        nextAttemptAt: translationJob.next_attempt_at ?? audioGenerationJob?.next_attempt_at ?? null,
+        status: overallStatus,
+        progress
+    };
+}
+
+// Branches arrive most recent first; languages keep the order they were first requested in
+function groupByLanguage(branches: TranslationBranchStatus[]): LanguageWorkflowStatus[] {
+    const byLanguage = new Map<Language, TranslationBranchStatus[]>();
+    for (const branch of [...branches].reverse()) {
+        const language = branch.translationJob.target_language;
+        byLanguage.set(language, [branch, ...(byLanguage.get(language) ?? [])]);
+    }
+
+    return [...byLanguage.entries()].map(([targetLanguage, languageBranches]) => ({
+        targetLanguage,
+        branches: languageBranches,
+        status: languageBranches[0].status,
+        progress: languageBranches[0].progress
+    }));
+}
+
+function aggregateWorkflowStatus(
+    video: Video,
+    languages: LanguageWorkflowStatus[]
+): { overallStatus: WorkflowStatus['overallStatus']; progress: number } {
+    if (languages.length === 0) {
+        return calculateWorkflowStatus(video, null, null, null);
+    }
+
+    const statuses = languages.map((language) => language.status);
+    const progress = Math.round(languages.reduce((sum, language) => sum + language.progress, 0) / languages.length);
+
+    // While any language is still being worked on, report the earliest stage in flight
+    if (statuses.includes('translating')) {
+        return { overallStatus: 'translating', progress };
+    }
+    if (statuses.includes('generating_audio')) {
+        return { overallStatus: 'generating_audio', progress };
+    }
+
+    if (statuses.every((status) => status === 'completed')) {
+        return { overallStatus: 'completed', progress: 100 };
+    }
+    if (statuses.includes('completed')) {
+        return { overallStatus: 'partially_completed', progress };
+    }
+    if (statuses.every((status) => status === 'failed' || status === 'cancelled')) {
+        return { overallStatus: statuses.includes('failed') ? 'failed' : 'cancelled', progress };
+    }
+
+    // Video-level states (upload still running or failed) apply to every language alike
+    return { overallStatus: statuses[0], progress };
+}
+
 function calculateWorkflowStatus(
     video: Video,
     translationJob: TranslationJob | null,
     audioGenerationJob: AudioGenerationJob | null,
     finalOutput: FinalOutput | null
-): { overallStatus: WorkflowStatus['overallStatus']; progress: number } {
+): { overallStatus: StageStatus; progress: number } {
     // If final output exists, workflow is completed
     if (finalOutput) {
         return { overallStatus: 'completed', progress: 100 };
@@ -112,6 +255,14 @@ function calculateWorkflowStatus(
         return { overallStatus: 'failed', progress: 75 };
     }
 
+    if (translationJob?.status === 'cancelled') {
+        return { overallStatus: 'cancelled', progress: 25 };
+    }
+
+    if (audioGenerationJob?.status === 'cancelled') {
+        return { overallStatus: 'cancelled', progress: 75 };
+    }
+
     // Check upload phase
     if (video.upload_status === 'pending' || video.upload_status === 'processing') {
         return { overallStatus: 'uploading', progress: 10 };
@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { uploadSessionsTable } from '../db/schema';
+import { type UploadSession } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export async function getUploadSession(id: string): Promise<UploadSession | null> {
+  try {
+    const result = await db.select()
+      .from(uploadSessionsTable)
+      .where(eq(uploadSessionsTable.id, id))
+      .execute();
+
+    // Return null if the session does not exist
+    return result.length > 0 ? result[0] : null;
+  } catch (error) {
+    console.error('Failed to get upload session:', error);
+    throw error;
+  }
+}
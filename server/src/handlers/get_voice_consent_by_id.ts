@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { voiceConsentsTable } from '../db/schema';
+import { type VoiceConsent } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export async function getVoiceConsentById(id: number): Promise<VoiceConsent | null> {
+  try {
+    const result = await db.select()
+      .from(voiceConsentsTable)
+      .where(eq(voiceConsentsTable.id, id))
+      .execute();
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Failed to get voice consent by ID:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,63 @@
+import { db, type DbExecutor } from '../db';
+import { voiceConsentsTable } from '../db/schema';
+import { type GetVoiceConsentsQuery, type Language, type VoiceConsent } from '../schema';
+import { and, desc, eq, gt, isNull, type SQL } from 'drizzle-orm';
+
+// Whose voice is cloned: a voice profile, or the speakers of a source video
+export type ConsentSubject = { voice_profile_id: number } | { video_id: number };
+
+function describeSubject(subject: ConsentSubject): string {
+  return 'voice_profile_id' in subject ? `voice profile ${subject.voice_profile_id}` : `the speakers of video ${subject.video_id}`;
+}
+
+// Cloning needs consent for the subject that is neither revoked nor expired and whose scope
+// covers every language the voice will speak
+export async function assertCloningConsent(subject: ConsentSubject, languages: Language[], executor: DbExecutor = db): Promise<void> {
+  const missing = await findMissingConsent(subject, languages, executor);
+  if (missing) {
+    throw new Error(missing);
+  }
+}
+
+// Why cloning the subject into these languages is not allowed right now, or null when it is
+export async function findMissingConsent(subject: ConsentSubject, languages: Language[], executor: DbExecutor = db): Promise<string | null> {
+  const consents = await executor.select()
+    .from(voiceConsentsTable)
+    .where(and(
+      'voice_profile_id' in subject
+        ? eq(voiceConsentsTable.voice_profile_id, subject.voice_profile_id)
+        : eq(voiceConsentsTable.video_id, subject.video_id),
+      isNull(voiceConsentsTable.revoked_at),
+      gt(voiceConsentsTable.expires_at, new Date())
+    ))
+    .execute();
+
+  const uncovered = languages.filter((language) => !consents.some(
+    (consent) => consent.scope_languages.length === 0 || consent.scope_languages.includes(language)
+  ));
+  if (uncovered.length === 0) {
+    return null;
+  }
+  return `Voice cloning requires consent: no valid, unexpired consent covers ${describeSubject(subject)} for ${uncovered.join(', ')}`;
+}
+
+export async function getVoiceConsents(query: GetVoiceConsentsQuery = {}): Promise<VoiceConsent[]> {
+  try {
+    const conditions: SQL[] = [];
+    if (query.voice_profile_id !== undefined) {
+      conditions.push(eq(voiceConsentsTable.voice_profile_id, query.voice_profile_id));
+    }
+    if (query.video_id !== undefined) {
+      conditions.push(eq(voiceConsentsTable.video_id, query.video_id));
+    }
+
+    return await db.select()
+      .from(voiceConsentsTable)
+      .where(and(...conditions))
+      .orderBy(desc(voiceConsentsTable.created_at), desc(voiceConsentsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get voice consents:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { voiceProfilesTable } from '../db/schema';
+import { type VoiceProfile } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export async function getVoiceProfileById(id: number): Promise<VoiceProfile | null> {
+  try {
+    const result = await db.select()
+      .from(voiceProfilesTable)
+      .where(eq(voiceProfilesTable.id, id))
+      .execute();
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Failed to get voice profile by ID:', error);
+    throw error;
+  }
+}
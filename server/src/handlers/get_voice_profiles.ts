@@ -0,0 +1,16 @@
+import { db } from '../db';
+import { voiceProfilesTable } from '../db/schema';
+import { type VoiceProfile } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export async function getVoiceProfiles(): Promise<VoiceProfile[]> {
+  try {
+    return await db.select()
+      .from(voiceProfilesTable)
+      .orderBy(asc(voiceProfilesTable.name), asc(voiceProfilesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch voice profiles:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,51 @@
+import { subscribeToVideoChanges } from '../events/workflow_changes';
+import { getTranslationWorkflowStatus, type WorkflowStatus } from './get_translation_workflow_status';
+
+// Stream the workflow status of a video: once on subscribe, then again whenever it changes.
+// Bursts of changes collapse into one status; identical statuses are not repeated.
+export async function* onWorkflowStatus(videoId: number, signal?: AbortSignal): AsyncGenerator<WorkflowStatus> {
+  let changed = true;
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+
+  const subscription = await subscribeToVideoChanges(
+    videoId,
+    () => {
+      changed = true;
+      wake?.();
+    },
+    (error) => {
+      failure = error;
+      wake?.();
+    }
+  );
+  const onAbort = () => wake?.();
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    let previous: string | null = null;
+    while (!signal?.aborted) {
+      if (failure) {
+        throw failure;
+      }
+      if (!changed) {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = null;
+        continue;
+      }
+
+      changed = false;
+      const status = await getTranslationWorkflowStatus(videoId);
+      const serialized = JSON.stringify(status);
+      if (serialized !== previous) {
+        previous = serialized;
+        yield status;
+      }
+    }
+  } finally {
+    subscription.unsubscribe();
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,54 @@
+import { type Video } from '../schema';
+import { MediaProbeError, probeMedia } from '../media/probe';
+import { getVideoById } from './get_video_by_id';
+import { updateVideoStatus } from './update_video_status';
+
+// Read duration, format and stream info from the stored file instead of trusting the client
+export async function probeVideo(videoId: number): Promise<Video> {
+  try {
+    const video = await getVideoById(videoId);
+    if (!video) {
+      throw new Error(`Video with ID ${videoId} not found`);
+    }
+
+    await updateVideoStatus({ id: videoId, upload_status: 'processing', error_message: null });
+
+    let probe;
+    try {
+      probe = await probeMedia(video.file_path);
+    } catch (error) {
+      if (error instanceof MediaProbeError) {
+        return await updateVideoStatus({ id: videoId, upload_status: 'failed', error_message: error.message });
+      }
+      throw error;
+    }
+
+    const metadata = {
+      id: videoId,
+      // Whole seconds, never rounding a short clip down to zero
+      duration: probe.duration_seconds ? Math.max(1, Math.round(probe.duration_seconds)) : undefined,
+      container_format: probe.container_format,
+      video_codec: probe.video_codec,
+      width: probe.width,
+      height: probe.height,
+      frame_rate: probe.frame_rate,
+      audio_track_count: probe.audio_track_count,
+      audio_sample_rate: probe.audio_sample_rate,
+      audio_channels: probe.audio_channels
+    };
+
+    // Without speech there is nothing to translate
+    if (probe.audio_track_count === 0) {
+      return await updateVideoStatus({
+        ...metadata,
+        upload_status: 'failed',
+        error_message: 'Video has no audio stream to translate'
+      });
+    }
+
+    return await updateVideoStatus({ ...metadata, upload_status: 'uploaded', error_message: null });
+  } catch (error) {
+    console.error('Video probing failed:', error);
+    throw error;
+  }
+}
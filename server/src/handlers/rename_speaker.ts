@@ -0,0 +1,91 @@
+import { db } from '../db';
+import { audioGenerationJobsTable, transcriptSegmentsTable, translationJobsTable } from '../db/schema';
+import { type RenameSpeakerInput, type TranscriptSegment } from '../schema';
+import { invalidateSpeakerAudio, sameSpeakerVoice } from './set_speaker_voices';
+import { publishTranslationJobChange } from '../events/workflow_changes';
+import { and, asc, eq } from 'drizzle-orm';
+
+// Relabel a speaker throughout one translation job's transcript. Renaming to a label already in
+// use merges the two speakers; the merged speaker keeps the voice of the one merged into.
+export async function renameSpeaker(input: RenameSpeakerInput): Promise<TranscriptSegment[]> {
+  try {
+    return await db.transaction(async (tx) => {
+      const jobs = await tx.select({ status: translationJobsTable.status })
+        .from(translationJobsTable)
+        .where(eq(translationJobsTable.id, input.translation_job_id))
+        .execute();
+
+      if (jobs.length === 0) {
+        throw new Error(`Translation job with id ${input.translation_job_id} not found`);
+      }
+      // The runner rewrites segments while translating; edits would be lost
+      if (jobs[0].status !== 'completed' && jobs[0].status !== 'failed' && jobs[0].status !== 'cancelled') {
+        throw new Error(`Cannot edit segments while the translation job is running. Current status: ${jobs[0].status}`);
+      }
+
+      const transcript = await tx.select()
+        .from(transcriptSegmentsTable)
+        .where(eq(transcriptSegmentsTable.translation_job_id, input.translation_job_id))
+        .orderBy(asc(transcriptSegmentsTable.segment_index))
+        .execute();
+
+      if (!transcript.some((segment) => segment.speaker === input.speaker)) {
+        throw new Error(`Speaker "${input.speaker}" not found in the transcript of translation job ${input.translation_job_id}`);
+      }
+      if (input.new_speaker === input.speaker) {
+        return transcript;
+      }
+      const merging = transcript.some((segment) => segment.speaker === input.new_speaker);
+
+      // Locked, so the runner cannot claim a job while its voices change
+      const audioJobs = await tx.select()
+        .from(audioGenerationJobsTable)
+        .where(eq(audioGenerationJobsTable.translation_job_id, input.translation_job_id))
+        .for('update')
+        .execute();
+
+      for (const audioJob of audioJobs) {
+        const from = audioJob.speaker_voices.find((voice) => voice.speaker === input.speaker);
+        const into = audioJob.speaker_voices.find((voice) => voice.speaker === input.new_speaker);
+
+        // A clone of the merged speaker is made from more speech, so all of its segments sound different
+        const stale = [];
+        if (merging && (!sameSpeakerVoice(from, into) || into?.voice_cloned)) {
+          stale.push(input.speaker);
+        }
+        if (merging && into?.voice_cloned) {
+          stale.push(input.new_speaker);
+        }
+        await invalidateSpeakerAudio(tx, audioJob.id, input.translation_job_id, stale);
+
+        const speakerVoices = merging
+          ? audioJob.speaker_voices.filter((voice) => voice !== from)
+          : audioJob.speaker_voices.map((voice) => voice === from ? { ...voice, speaker: input.new_speaker } : voice);
+        // Finished dubs with outdated audio are queued again, as when a voice changes; audio behind a
+        // translation that did not complete would never be claimed
+        const requeue = stale.length > 0 && jobs[0].status === 'completed' && (audioJob.status === 'completed' || audioJob.status === 'failed');
+        await tx.update(audioGenerationJobsTable)
+          .set({
+            speaker_voices: speakerVoices,
+            ...(requeue ? { status: 'pending' as const, completed_at: null, error_message: null } : {})
+          })
+          .where(eq(audioGenerationJobsTable.id, audioJob.id))
+          .execute();
+      }
+
+      await tx.update(transcriptSegmentsTable)
+        .set({ speaker: input.new_speaker })
+        .where(and(
+          eq(transcriptSegmentsTable.translation_job_id, input.translation_job_id),
+          eq(transcriptSegmentsTable.speaker, input.speaker)
+        ))
+        .execute();
+
+      await publishTranslationJobChange(input.translation_job_id, tx);
+      return transcript.map((segment) => segment.speaker === input.speaker ? { ...segment, speaker: input.new_speaker } : segment);
+    });
+  } catch (error) {
+    console.error('Speaker rename failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { transcriptSegmentsTable, translationJobsTable, audioGenerationJobsTable } from '../db/schema';
+import { type AudioGenerationJob } from '../schema';
+import { invalidateSegmentAudio } from './update_transcript_segment';
+import { publishAudioGenerationJobChange } from '../events/workflow_changes';
+import { and, eq, inArray } from 'drizzle-orm';
+
+// Regenerate the speech of one segment: its audio is marked stale and the finished audio jobs
+// of its translation are queued again. The job runner only re-synthesizes stale segments.
+export async function resynthesizeTranscriptSegment(id: number): Promise<AudioGenerationJob[]> {
+  try {
+    return await db.transaction(async (tx) => {
+      const segments = await tx.select()
+        .from(transcriptSegmentsTable)
+        .where(eq(transcriptSegmentsTable.id, id))
+        .execute();
+
+      if (segments.length === 0) {
+        throw new Error(`Transcript segment with id ${id} not found`);
+      }
+
+      // Audio waits for its translation, which would never complete
+      const translationJobs = await tx.select({ status: translationJobsTable.status })
+        .from(translationJobsTable)
+        .where(eq(translationJobsTable.id, segments[0].translation_job_id))
+        .execute();
+      const translationStatus = translationJobs[0]?.status;
+      if (translationStatus === 'failed' || translationStatus === 'cancelled') {
+        throw new Error(`Translation job ${segments[0].translation_job_id} is ${translationStatus}; retry it first`);
+      }
+
+      await invalidateSegmentAudio(tx, id);
+
+      const requeued = await tx.update(audioGenerationJobsTable)
+        .set({ status: 'pending', completed_at: null, error_message: null })
+        .where(and(
+          eq(audioGenerationJobsTable.translation_job_id, segments[0].translation_job_id),
+          inArray(audioGenerationJobsTable.status, ['completed', 'failed'])
+        ))
+        .returning()
+        .execute();
+
+      for (const audioJob of requeued) {
+        await publishAudioGenerationJobChange(audioJob.id, tx);
+      }
+      return requeued;
+    });
+  } catch (error) {
+    console.error('Transcript segment re-synthesis failed:', error);
+    throw error;
+  }
+}
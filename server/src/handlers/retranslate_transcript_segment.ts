@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { transcriptSegmentsTable, translationJobsTable } from '../db/schema';
+import { type TranscriptSegment } from '../schema';
+import { translationProviders } from '../providers/translation';
+import { updateTranscriptSegment } from './update_transcript_segment';
+import { eq } from 'drizzle-orm';
+
+// Machine-translate one segment again, e.g. after its source text was corrected
+export async function retranslateTranscriptSegment(id: number): Promise<TranscriptSegment> {
+  try {
+    const rows = await db.select({ segment: transcriptSegmentsTable, job: translationJobsTable })
+      .from(transcriptSegmentsTable)
+      .innerJoin(translationJobsTable, eq(transcriptSegmentsTable.translation_job_id, translationJobsTable.id))
+      .where(eq(transcriptSegmentsTable.id, id))
+      .execute();
+
+    if (rows.length === 0) {
+      throw new Error(`Transcript segment with id ${id} not found`);
+    }
+
+    const { segment, job } = rows[0];
+    const [translated] = await translationProviders.get().translate({
+      segments: [segment.source_text],
+      sourceLanguage: job.source_language,
+      targetLanguage: job.target_language,
+      glossary: job.glossary
+    });
+    if (!translated) {
+      throw new Error('Translation provider returned no translation');
+    }
+
+    return await updateTranscriptSegment({ id, translated_text: translated });
+  } catch (error) {
+    console.error('Transcript segment re-translation failed:', error);
+    throw error;
+  }
+}
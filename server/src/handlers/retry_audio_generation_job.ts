@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { translationJobsTable, audioGenerationJobsTable } from '../db/schema';
+import { type AudioGenerationJob } from '../schema';
+import { publishAudioGenerationJobChange } from '../events/workflow_changes';
+import { eq } from 'drizzle-orm';
+
+// Queue a failed or cancelled audio generation job again. Segment audio saved by the earlier
+// run is reused, so only what is missing gets synthesized.
+export async function retryAudioGenerationJob(id: number): Promise<AudioGenerationJob> {
+  try {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(audioGenerationJobsTable)
+        .where(eq(audioGenerationJobsTable.id, id))
+        .for('update')
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Audio generation job with id ${id} not found`);
+      }
+      const job = existing[0];
+      if (job.status !== 'failed' && job.status !== 'cancelled') {
+        throw new Error(`Audio generation job ${id} cannot be retried (status: ${job.status})`);
+      }
+
+      // Audio waits for its translation, which would never complete
+      const translationJobs = await tx.select({ status: translationJobsTable.status })
+        .from(translationJobsTable)
+        .where(eq(translationJobsTable.id, job.translation_job_id))
+        .execute();
+      const translationStatus = translationJobs[0]?.status;
+      if (translationStatus === 'failed' || translationStatus === 'cancelled') {
+        throw new Error(`Translation job ${job.translation_job_id} is ${translationStatus}; retry it first`);
+      }
+
+      const result = await tx.update(audioGenerationJobsTable)
+        .set({ status: 'pending', error_message: null, next_attempt_at: null, completed_at: null })
+        .where(eq(audioGenerationJobsTable.id, id))
+        .returning()
+        .execute();
+
+      await publishAudioGenerationJobChange(id, tx);
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Audio generation job retry failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,85 @@
+import { db, type DbExecutor } from '../db';
+import { translationJobsTable, audioGenerationJobsTable } from '../db/schema';
+import { type JobStatusChange } from '../schema';
+import { publishTranslationJobChange } from '../events/workflow_changes';
+import { and, eq, inArray, isNotNull, isNull } from 'drizzle-orm';
+
+// Queue a failed or cancelled translation job again. The job runner resumes it from the last stage
+// it completed. Jobs that it stopped before they started (the audio queued behind it, and jobs
+// waiting to share its transcript) are queued again with it.
+export async function retryTranslationJob(id: number): Promise<JobStatusChange> {
+  try {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(translationJobsTable)
+        .where(eq(translationJobsTable.id, id))
+        .for('update')
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Translation job with id ${id} not found`);
+      }
+      const job = existing[0];
+      if (job.status !== 'failed' && job.status !== 'cancelled') {
+        throw new Error(`Translation job ${id} cannot be retried (status: ${job.status})`);
+      }
+
+      // A job sharing a transcript can only run once the job producing it does
+      if (job.transcript_job_id !== null) {
+        const source = await tx.select({ status: translationJobsTable.status })
+          .from(translationJobsTable)
+          .where(eq(translationJobsTable.id, job.transcript_job_id))
+          .execute();
+        if (source[0]?.status === 'failed' || source[0]?.status === 'cancelled') {
+          throw new Error(`Translation job ${id} shares the transcript of translation job ${job.transcript_job_id}; retry that job instead`);
+        }
+      }
+
+      return await requeueTranslationJob(tx, id);
+    });
+  } catch (error) {
+    console.error('Translation job retry failed:', error);
+    throw error;
+  }
+}
+
+async function requeueTranslationJob(tx: DbExecutor, id: number): Promise<JobStatusChange> {
+  const requeued = await tx.update(translationJobsTable)
+    .set({ status: 'pending', error_message: null, next_attempt_at: null, started_at: null, completed_at: null })
+    .where(eq(translationJobsTable.id, id))
+    .returning()
+    .execute();
+
+  // Stopped along with this job: never started, and the error names the reason
+  const stoppedBehind = and(
+    inArray(audioGenerationJobsTable.status, ['failed', 'cancelled']),
+    isNull(audioGenerationJobsTable.started_at),
+    isNotNull(audioGenerationJobsTable.error_message)
+  );
+  const audioJobs = await tx.update(audioGenerationJobsTable)
+    .set({ status: 'pending', error_message: null, next_attempt_at: null })
+    .where(and(eq(audioGenerationJobsTable.translation_job_id, id), stoppedBehind))
+    .returning()
+    .execute();
+  await publishTranslationJobChange(id, tx);
+
+  const change: JobStatusChange = { translation_jobs: requeued, audio_generation_jobs: audioJobs, multi_track_jobs: [] };
+
+  const sharing = await tx.select({ id: translationJobsTable.id })
+    .from(translationJobsTable)
+    .where(and(
+      eq(translationJobsTable.transcript_job_id, id),
+      inArray(translationJobsTable.status, ['failed', 'cancelled']),
+      isNull(translationJobsTable.started_at),
+      isNotNull(translationJobsTable.error_message)
+    ))
+    .execute();
+
+  for (const sharingJob of sharing) {
+    const sharingChange = await requeueTranslationJob(tx, sharingJob.id);
+    change.translation_jobs.push(...sharingChange.translation_jobs);
+    change.audio_generation_jobs.push(...sharingChange.audio_generation_jobs);
+  }
+
+  return change;
+}
@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { voiceConsentsTable } from '../db/schema';
+import { type VoiceConsent } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Revoked consent is kept as a record but no longer allows new cloned-voice jobs
+export async function revokeVoiceConsent(id: number): Promise<VoiceConsent> {
+  try {
+    const existing = await db.select()
+      .from(voiceConsentsTable)
+      .where(eq(voiceConsentsTable.id, id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Voice consent with id ${id} not found`);
+    }
+    if (existing[0].revoked_at !== null) {
+      throw new Error(`Voice consent with id ${id} is already revoked`);
+    }
+
+    const result = await db.update(voiceConsentsTable)
+      .set({ revoked_at: new Date() })
+      .where(eq(voiceConsentsTable.id, id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Voice consent revocation failed:', error);
+    throw error;
+  }
+}
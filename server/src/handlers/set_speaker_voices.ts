@@ -0,0 +1,107 @@
+import { db, type DbExecutor } from '../db';
+import { audioGenerationJobsTable, audioSegmentsTable, transcriptSegmentsTable, translationJobsTable } from '../db/schema';
+import { type SetSpeakerVoicesInput, type AudioGenerationJob, type SpeakerVoice } from '../schema';
+import { publishTranslationJobChange } from '../events/workflow_changes';
+import { assertCloningConsent } from './get_voice_consents';
+import { assertStockVoices } from './create_audio_generation_job';
+import { and, eq, inArray } from 'drizzle-orm';
+
+// Whether two assignments dub a speaker alike; no assignment means the job-level voice
+export function sameSpeakerVoice(a: SpeakerVoice | undefined, b: SpeakerVoice | undefined): boolean {
+  return a?.voice_cloned === b?.voice_cloned && a?.voice_id === b?.voice_id;
+}
+
+// Mark the synthesized audio of the given speakers' segments as outdated in one audio job
+export async function invalidateSpeakerAudio(
+  executor: DbExecutor,
+  audioGenerationJobId: number,
+  translationJobId: number,
+  speakers: string[]
+): Promise<void> {
+  if (speakers.length === 0) {
+    return;
+  }
+
+  const segments = executor.select({ id: transcriptSegmentsTable.id })
+    .from(transcriptSegmentsTable)
+    .where(and(
+      eq(transcriptSegmentsTable.translation_job_id, translationJobId),
+      inArray(transcriptSegmentsTable.speaker, speakers)
+    ));
+
+  await executor.update(audioSegmentsTable)
+    .set({ stale: true })
+    .where(and(
+      eq(audioSegmentsTable.audio_generation_job_id, audioGenerationJobId),
+      inArray(audioSegmentsTable.transcript_segment_id, segments)
+    ))
+    .execute();
+}
+
+// Replace the per-speaker voices of an audio job. Finished jobs are queued again when a voice
+// changed; the job runner then re-synthesizes only the affected speakers' segments.
+export async function setSpeakerVoices(input: SetSpeakerVoicesInput): Promise<AudioGenerationJob> {
+  try {
+    return await db.transaction(async (tx) => {
+      // Locked, so the runner cannot claim the job between the check below and the update
+      const jobs = await tx.select()
+        .from(audioGenerationJobsTable)
+        .where(eq(audioGenerationJobsTable.id, input.audio_generation_job_id))
+        .for('update')
+        .execute();
+
+      const job = jobs[0];
+      if (!job) {
+        throw new Error(`Audio generation job with id ${input.audio_generation_job_id} not found`);
+      }
+      if (job.status === 'generating') {
+        throw new Error(`Cannot change voices while the audio generation job is running. Current status: ${job.status}`);
+      }
+
+      const transcriptSpeakers = await tx.selectDistinct({ speaker: transcriptSegmentsTable.speaker })
+        .from(transcriptSegmentsTable)
+        .where(eq(transcriptSegmentsTable.translation_job_id, job.translation_job_id))
+        .execute();
+      const speakers = new Set(transcriptSpeakers.map((row) => row.speaker));
+
+      for (const voice of input.speaker_voices) {
+        if (!speakers.has(voice.speaker)) {
+          throw new Error(`Speaker "${voice.speaker}" not found in the transcript of translation job ${job.translation_job_id}`);
+        }
+      }
+
+      assertStockVoices(input.speaker_voices.map((voice) => voice.voice_id));
+
+      // Speakers are cloned from their own speech in the video, which its consent must cover
+      if (input.speaker_voices.some((voice) => voice.voice_cloned)) {
+        const [translationJob] = await tx.select()
+          .from(translationJobsTable)
+          .where(eq(translationJobsTable.id, job.translation_job_id))
+          .execute();
+        await assertCloningConsent({ video_id: translationJob.video_id }, [translationJob.target_language], tx);
+      }
+
+      const changed = [...speakers].filter((speaker): speaker is string => speaker !== null && !sameSpeakerVoice(
+        job.speaker_voices.find((voice) => voice.speaker === speaker),
+        input.speaker_voices.find((voice) => voice.speaker === speaker)
+      ));
+      await invalidateSpeakerAudio(tx, job.id, job.translation_job_id, changed);
+
+      const requeue = changed.length > 0 && (job.status === 'completed' || job.status === 'failed');
+      const result = await tx.update(audioGenerationJobsTable)
+        .set({
+          speaker_voices: input.speaker_voices,
+          ...(requeue ? { status: 'pending' as const, completed_at: null, error_message: null } : {})
+        })
+        .where(eq(audioGenerationJobsTable.id, job.id))
+        .returning()
+        .execute();
+
+      await publishTranslationJobChange(job.translation_job_id, tx);
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Speaker voice assignment failed:', error);
+    throw error;
+  }
+}
@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { audioGenerationJobsTable } from '../db/schema';
 import { type UpdateAudioGenerationJobInput, type AudioGenerationJob } from '../schema';
+import { publishAudioGenerationJobChange } from '../events/workflow_changes';
 import { eq } from 'drizzle-orm';
 
 export async function updateAudioGenerationJob(input: UpdateAudioGenerationJobInput): Promise<AudioGenerationJob> {
@@ -11,12 +12,15 @@ export async function updateAudioGenerationJob(input: UpdateAudioGenerationJobIn
     if (input.status !== undefined) {
       updateData.status = input.status;
     }
-    if (input.generated_audio_path !== undefined) {
-      updateData.generated_audio_path = input.generated_audio_path;
+    if (input.voice_id !== undefined) {
+      updateData.voice_id = input.voice_id;
     }
     if (input.error_message !== undefined) {
       updateData.error_message = input.error_message;
     }
+    if (input.next_attempt_at !== undefined) {
+      updateData.next_attempt_at = input.next_attempt_at;
+    }
     if (input.started_at !== undefined) {
       updateData.started_at = input.started_at;
     }
@@ -36,6 +40,7 @@ export async function updateAudioGenerationJob(input: UpdateAudioGenerationJobIn
       throw new Error(`Audio generation job with id ${input.id} not found`);
     }
 
+    await publishAudioGenerationJobChange(input.id);
     return result[0];
   } catch (error) {
     console.error('Audio generation job update failed:', error);
@@ -0,0 +1,80 @@
+import { db, type DbExecutor } from '../db';
+import { transcriptSegmentsTable, translationJobsTable, audioSegmentsTable } from '../db/schema';
+import { type UpdateTranscriptSegmentInput, type TranscriptSegment } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+// Mark the synthesized audio of a segment as outdated, in every audio job of its translation
+export async function invalidateSegmentAudio(executor: DbExecutor, transcriptSegmentId: number): Promise<void> {
+  await executor.update(audioSegmentsTable)
+    .set({ stale: true })
+    .where(eq(audioSegmentsTable.transcript_segment_id, transcriptSegmentId))
+    .execute();
+}
+
+// Keep the job-level translated_text (one line per segment) in step with segment edits
+async function refreshTranslatedText(executor: DbExecutor, translationJobId: number): Promise<void> {
+  const segments = await executor.select({ translated_text: transcriptSegmentsTable.translated_text })
+    .from(transcriptSegmentsTable)
+    .where(eq(transcriptSegmentsTable.translation_job_id, translationJobId))
+    .orderBy(asc(transcriptSegmentsTable.segment_index))
+    .execute();
+
+  await executor.update(translationJobsTable)
+    .set({ translated_text: segments.map((segment) => segment.translated_text ?? '').join('\n') })
+    .where(eq(translationJobsTable.id, translationJobId))
+    .execute();
+}
+
+export async function updateTranscriptSegment(input: UpdateTranscriptSegmentInput): Promise<TranscriptSegment> {
+  try {
+    return await db.transaction(async (tx) => {
+      const rows = await tx.select({ segment: transcriptSegmentsTable, jobStatus: translationJobsTable.status })
+        .from(transcriptSegmentsTable)
+        .innerJoin(translationJobsTable, eq(transcriptSegmentsTable.translation_job_id, translationJobsTable.id))
+        .where(eq(transcriptSegmentsTable.id, input.id))
+        .execute();
+
+      if (rows.length === 0) {
+        throw new Error(`Transcript segment with id ${input.id} not found`);
+      }
+
+      const { segment, jobStatus } = rows[0];
+      // The runner rewrites segments while translating; edits would be lost
+      if (jobStatus !== 'completed' && jobStatus !== 'failed' && jobStatus !== 'cancelled') {
+        throw new Error(`Cannot edit segments while the translation job is running. Current status: ${jobStatus}`);
+      }
+
+      // Build the update object with only the fields that were provided
+      const updateData: Partial<typeof transcriptSegmentsTable.$inferInsert> = {};
+
+      if (input.source_text !== undefined) {
+        updateData.source_text = input.source_text;
+      }
+
+      if (input.translated_text !== undefined) {
+        updateData.translated_text = input.translated_text;
+      }
+
+      if (Object.keys(updateData).length === 0) {
+        return segment;
+      }
+
+      const result = await tx.update(transcriptSegmentsTable)
+        .set(updateData)
+        .where(eq(transcriptSegmentsTable.id, input.id))
+        .returning()
+        .execute();
+
+      // Only the audio spoken from this segment's translation is affected
+      if (input.translated_text !== undefined && input.translated_text !== segment.translated_text) {
+        await invalidateSegmentAudio(tx, segment.id);
+        await refreshTranslatedText(tx, segment.translation_job_id);
+      }
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Transcript segment update failed:', error);
+    throw error;
+  }
+}
@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { translationJobsTable } from '../db/schema';
 import { type UpdateTranslationJobInput, type TranslationJob } from '../schema';
+import { publishVideoChange } from '../events/workflow_changes';
 import { eq } from 'drizzle-orm';
 
 export async function updateTranslationJob(input: UpdateTranslationJobInput): Promise<TranslationJob> {
@@ -16,14 +17,30 @@ export async function updateTranslationJob(input: UpdateTranslationJobInput): Pr
       updateData.original_audio_path = input.original_audio_path;
     }
     
+    if (input.vocals_audio_path !== undefined) {
+      updateData.vocals_audio_path = input.vocals_audio_path;
+    }
+    
+    if (input.background_audio_path !== undefined) {
+      updateData.background_audio_path = input.background_audio_path;
+    }
+    
     if (input.translated_text !== undefined) {
       updateData.translated_text = input.translated_text;
     }
     
+    if (input.translation_provider !== undefined) {
+      updateData.translation_provider = input.translation_provider;
+    }
+    
     if (input.error_message !== undefined) {
       updateData.error_message = input.error_message;
     }
     
+    if (input.next_attempt_at !== undefined) {
+      updateData.next_attempt_at = input.next_attempt_at;
+    }
+    
     if (input.started_at !== undefined) {
       updateData.started_at = input.started_at;
     }
@@ -44,6 +61,8 @@ export async function updateTranslationJob(input: UpdateTranslationJobInput): Pr
       throw new Error(`Translation job with id ${input.id} not found`);
     }
 
+    await publishVideoChange(result[0].video_id);
+
     // Return the updated translation job
     return result[0];
   } catch (error) {
@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { videosTable } from '../db/schema';
 import { type UpdateVideoStatusInput, type Video } from '../schema';
+import { publishVideoChange } from '../events/workflow_changes';
 import { eq } from 'drizzle-orm';
 
 export const updateVideoStatus = async (input: UpdateVideoStatusInput): Promise<Video> => {
@@ -19,6 +20,18 @@ export const updateVideoStatus = async (input: UpdateVideoStatusInput): Promise<
       updateData.format = input.format;
     }
 
+    // Stream metadata filled in by the media probe
+    const probeFields = [
+      'container_format', 'video_codec', 'width', 'height', 'frame_rate',
+      'audio_track_count', 'audio_sample_rate', 'audio_channels', 'error_message'
+    ] as const;
+
+    for (const field of probeFields) {
+      if (input[field] !== undefined) {
+        updateData[field] = input[field];
+      }
+    }
+
     // Update the video record and return the updated data
     const result = await db.update(videosTable)
       .set(updateData)
@@ -31,6 +44,8 @@ export const updateVideoStatus = async (input: UpdateVideoStatusInput): Promise<
       throw new Error(`Video with ID ${input.id} not found`);
     }
 
+    await publishVideoChange(input.id);
+
     // Return the updated video record
     const video = result[0];
     return {
@@ -0,0 +1,74 @@
+import { db } from '../db';
+import { voiceConsentsTable, voiceProfilesTable } from '../db/schema';
+import { type UpdateVoiceProfileInput, type VoiceProfile } from '../schema';
+import { cloneVoiceFromClips, removeClonedVoiceFiles } from './create_voice_profile';
+import { and, eq, isNull } from 'drizzle-orm';
+
+export async function updateVoiceProfile(input: UpdateVoiceProfileInput): Promise<VoiceProfile> {
+  try {
+    const existing = await db.select()
+      .from(voiceProfilesTable)
+      .where(eq(voiceProfilesTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Voice profile with id ${input.id} not found`);
+    }
+
+    // Build the update object with only the fields that were provided
+    const updateData: Partial<typeof voiceProfilesTable.$inferInsert> = { updated_at: new Date() };
+
+    if (input.name !== undefined) {
+      updateData.name = input.name;
+    }
+
+    // Different clips make a different voice; jobs queued with the profile pick it up
+    const clipsChanged = input.clips !== undefined && JSON.stringify(input.clips) !== JSON.stringify(existing[0].clips);
+    const clonedVoice = input.clips !== undefined && clipsChanged ? await cloneVoiceFromClips(input.clips) : undefined;
+    if (clonedVoice) {
+      Object.assign(updateData, { clips: input.clips }, clonedVoice);
+    }
+
+    const { updated, replaced } = await db.transaction(async (tx) => {
+      // Locked and read again, so the recordings removed below are the ones this update replaces
+      const [replaced] = await tx.select()
+        .from(voiceProfilesTable)
+        .where(eq(voiceProfilesTable.id, input.id))
+        .for('update')
+        .execute();
+      if (!replaced) {
+        throw new Error(`Voice profile with id ${input.id} not found`);
+      }
+
+      const result = await tx.update(voiceProfilesTable)
+        .set(updateData)
+        .where(eq(voiceProfilesTable.id, input.id))
+        .returning()
+        .execute();
+
+      // Consent was given for the old voice, possibly of other people; the new one needs its own
+      if (clipsChanged) {
+        await tx.update(voiceConsentsTable)
+          .set({ revoked_at: new Date() })
+          .where(and(eq(voiceConsentsTable.voice_profile_id, input.id), isNull(voiceConsentsTable.revoked_at)))
+          .execute();
+      }
+
+      return { updated: result[0], replaced };
+    }).catch(async (error) => {
+      if (clonedVoice) {
+        await removeClonedVoiceFiles(clonedVoice);
+      }
+      throw error;
+    });
+
+    // The old voice's recordings are no longer referenced once the new one is stored
+    if (clonedVoice) {
+      await removeClonedVoiceFiles(replaced);
+    }
+    return updated;
+  } catch (error) {
+    console.error('Voice profile update failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,65 @@
+import path from 'node:path';
+import { mkdtemp, open, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { db } from '../db';
+import { audioGenerationJobsTable } from '../db/schema';
+import { type WatermarkVerification } from '../schema';
+import { mediaProviders } from '../providers/media';
+import { audioWatermarkers } from '../providers/watermark';
+import { eq } from 'drizzle-orm';
+
+async function isWavFile(filePath: string): Promise<boolean> {
+  const file = await open(filePath, 'r');
+  try {
+    const { buffer, bytesRead } = await file.read(Buffer.alloc(12), 0, 12, 0);
+    return bytesRead === 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WAVE';
+  } finally {
+    await file.close();
+  }
+}
+
+// Reports whether an audio or video file carries a dub watermark, and which job produced it
+export async function verifyWatermark(filePath: string): Promise<WatermarkVerification> {
+  const extractDir = await mkdtemp(path.join(tmpdir(), 'watermark-'));
+  try {
+    // Anything but PCM WAV (compressed audio, whole videos) is decoded first
+    let audioPath = filePath;
+    if (!(await isWavFile(filePath))) {
+      audioPath = path.join(extractDir, 'audio.wav');
+      await mediaProviders.get().extractAudio({ videoPath: filePath, durationSeconds: null, outputPath: audioPath });
+    }
+
+    const watermarker = audioWatermarkers.get();
+    const payload = await watermarker.detect({ audioPath });
+    if (!payload) {
+      return {
+        watermarked: false,
+        watermark_provider: watermarker.name,
+        audio_generation_job_id: null,
+        watermarked_at: null,
+        audio_generation_job: null,
+        matches_current_audio: false
+      };
+    }
+
+    const jobs = await db.select()
+      .from(audioGenerationJobsTable)
+      .where(eq(audioGenerationJobsTable.id, payload.audioGenerationJobId))
+      .execute();
+    const job = jobs[0] ?? null;
+
+    return {
+      watermarked: true,
+      watermark_provider: watermarker.name,
+      audio_generation_job_id: payload.audioGenerationJobId,
+      watermarked_at: payload.timestamp,
+      audio_generation_job: job,
+      matches_current_audio: job?.watermarked_at?.getTime() === payload.timestamp.getTime()
+    };
+  } catch (error) {
+    console.error('Watermark verification failed:', error);
+    throw error;
+  } finally {
+    await rm(extractDir, { recursive: true, force: true });
+  }
+}
@@ -8,14 +8,27 @@ import { z } from 'zod';
 // Import schemas
 import {
   createVideoInputSchema,
+  createUploadSessionInputSchema,
+  completeUploadSessionInputSchema,
   updateVideoStatusInputSchema,
   createTranslationJobInputSchema,
+  createTranslationRequestInputSchema,
   updateTranslationJobInputSchema,
   createAudioGenerationJobInputSchema,
   updateAudioGenerationJobInputSchema,
-  createFinalOutputInputSchema,
+  createMultiTrackJobInputSchema,
+  createVoiceProfileInputSchema,
+  updateVoiceProfileInputSchema,
   getVideosQuerySchema,
-  getTranslationJobsQuerySchema
+  getTranslationJobsQuerySchema,
+  getTranscriptSegmentsPageQuerySchema,
+  getVoiceConsentsQuerySchema,
+  updateTranscriptSegmentInputSchema,
+  renameSpeakerInputSchema,
+  setSpeakerVoicesInputSchema,
+  exportSubtitlesInputSchema,
+  cancelJobInputSchema,
+  getJobAttemptsInputSchema
 } from './schema';
 
 // Import handlers
@@ -23,15 +36,48 @@ import { createVideo } from './handlers/create_video';
 import { getVideos } from './handlers/get_videos';
 import { getVideoById } from './handlers/get_video_by_id';
 import { updateVideoStatus } from './handlers/update_video_status';
+import { probeVideo } from './handlers/probe_video';
+import { createUploadSession } from './handlers/create_upload_session';
+import { getUploadSession } from './handlers/get_upload_session';
+import { completeUploadSession } from './handlers/complete_upload_session';
 import { createTranslationJob } from './handlers/create_translation_job';
+import { createTranslationRequest } from './handlers/create_translation_request';
 import { getTranslationJobs } from './handlers/get_translation_jobs';
 import { updateTranslationJob } from './handlers/update_translation_job';
+import { retryTranslationJob } from './handlers/retry_translation_job';
+import { cancelJob } from './handlers/cancel_job';
+import { getJobAttempts } from './handlers/get_job_attempts';
+import { getTranscriptSegments } from './handlers/get_transcript_segments';
+import { getTranscriptSegmentById } from './handlers/get_transcript_segment_by_id';
+import { getTranscriptSegmentsPage } from './handlers/get_transcript_segments_page';
+import { updateTranscriptSegment } from './handlers/update_transcript_segment';
+import { retranslateTranscriptSegment } from './handlers/retranslate_transcript_segment';
+import { resynthesizeTranscriptSegment } from './handlers/resynthesize_transcript_segment';
+import { renameSpeaker } from './handlers/rename_speaker';
+import { exportSubtitles } from './handlers/export_subtitles';
 import { createAudioGenerationJob } from './handlers/create_audio_generation_job';
 import { updateAudioGenerationJob } from './handlers/update_audio_generation_job';
-import { createFinalOutput } from './handlers/create_final_output';
+import { retryAudioGenerationJob } from './handlers/retry_audio_generation_job';
+import { getAudioSegments } from './handlers/get_audio_segments';
+import { setSpeakerVoices } from './handlers/set_speaker_voices';
+import { createVoiceProfile } from './handlers/create_voice_profile';
+import { getVoiceProfiles } from './handlers/get_voice_profiles';
+import { getVoiceProfileById } from './handlers/get_voice_profile_by_id';
+import { updateVoiceProfile } from './handlers/update_voice_profile';
+import { deleteVoiceProfile } from './handlers/delete_voice_profile';
+import { getVoiceConsents } from './handlers/get_voice_consents';
+import { revokeVoiceConsent } from './handlers/revoke_voice_consent';
+import { createMultiTrackJob } from './handlers/create_multi_track_job';
 import { getFinalOutputs } from './handlers/get_final_outputs';
 import { getFinalOutputByVideoId } from './handlers/get_final_output_by_video_id';
 import { getTranslationWorkflowStatus } from './handlers/get_translation_workflow_status';
+import { onWorkflowStatus } from './handlers/on_workflow_status';
+
+// Import plain HTTP routes (uploads and downloads)
+import { handleHttpRoute } from './routes';
+
+// Import the background job runner
+import { startJobRunner } from './worker/runner';
 
 const t = initTRPC.create({
   transformer: superjson,
@@ -63,10 +109,32 @@ const appRouter = router({
     .input(updateVideoStatusInputSchema)
     .mutation(({ input }) => updateVideoStatus(input)),
 
+  probeVideo: publicProcedure
+    .input(z.number())
+    .mutation(({ input }) => probeVideo(input)),
+
+  // Chunked upload routes (chunk bytes are sent to PUT /upload/sessions/:id/chunks)
+  createUploadSession: publicProcedure
+    .input(createUploadSessionInputSchema)
+    .mutation(({ input }) => createUploadSession(input)),
+
+  getUploadSession: publicProcedure
+    .input(z.string().uuid())
+    .query(({ input }) => getUploadSession(input)),
+
+  completeUploadSession: publicProcedure
+    .input(completeUploadSessionInputSchema)
+    .mutation(({ input }) => completeUploadSession(input)),
+
   // Translation job routes
   createTranslationJob: publicProcedure
     .input(createTranslationJobInputSchema)
     .mutation(({ input }) => createTranslationJob(input)),
+
+  // One translation and audio generation job per target language, sharing one transcript
+  createTranslationRequest: publicProcedure
+    .input(createTranslationRequestInputSchema)
+    .mutation(({ input }) => createTranslationRequest(input)),
   
   getTranslationJobs: publicProcedure
     .input(getTranslationJobsQuerySchema.optional())
@@ -76,6 +144,54 @@ const appRouter = router({
     .input(updateTranslationJobInputSchema)
     .mutation(({ input }) => updateTranslationJob(input)),
 
+  // Failed or cancelled jobs resume from the last stage they completed
+  retryTranslationJob: publicProcedure
+    .input(z.number())
+    .mutation(({ input }) => retryTranslationJob(input)),
+
+  cancelJob: publicProcedure
+    .input(cancelJobInputSchema)
+    .mutation(({ input }) => cancelJob(input)),
+
+  // Attempts history of a translation or audio generation job
+  getJobAttempts: publicProcedure
+    .input(getJobAttemptsInputSchema)
+    .query(({ input }) => getJobAttempts(input)),
+
+  // Transcript segment routes
+  getTranscriptSegments: publicProcedure
+    .input(z.number())
+    .query(({ input }) => getTranscriptSegments(input)),
+
+  getTranscriptSegmentById: publicProcedure
+    .input(z.number())
+    .query(({ input }) => getTranscriptSegmentById(input)),
+
+  getTranscriptSegmentsPage: publicProcedure
+    .input(getTranscriptSegmentsPageQuerySchema)
+    .query(({ input }) => getTranscriptSegmentsPage(input)),
+
+  updateTranscriptSegment: publicProcedure
+    .input(updateTranscriptSegmentInputSchema)
+    .mutation(({ input }) => updateTranscriptSegment(input)),
+
+  retranslateTranscriptSegment: publicProcedure
+    .input(z.number())
+    .mutation(({ input }) => retranslateTranscriptSegment(input)),
+
+  resynthesizeTranscriptSegment: publicProcedure
+    .input(z.number())
+    .mutation(({ input }) => resynthesizeTranscriptSegment(input)),
+
+  renameSpeaker: publicProcedure
+    .input(renameSpeakerInputSchema)
+    .mutation(({ input }) => renameSpeaker(input)),
+
+  // Subtitle export (also downloadable from GET /translation-jobs/:id/subtitles.:format)
+  exportSubtitles: publicProcedure
+    .input(exportSubtitlesInputSchema)
+    .query(({ input }) => exportSubtitles(input)),
+
   // Audio generation job routes
   createAudioGenerationJob: publicProcedure
     .input(createAudioGenerationJobInputSchema)
@@ -85,10 +201,51 @@ const appRouter = router({
     .input(updateAudioGenerationJobInputSchema)
     .mutation(({ input }) => updateAudioGenerationJob(input)),
 
-  // Final output routes
-  createFinalOutput: publicProcedure
-    .input(createFinalOutputInputSchema)
-    .mutation(({ input }) => createFinalOutput(input)),
+  retryAudioGenerationJob: publicProcedure
+    .input(z.number())
+    .mutation(({ input }) => retryAudioGenerationJob(input)),
+
+  getAudioSegments: publicProcedure
+    .input(z.number())
+    .query(({ input }) => getAudioSegments(input)),
+
+  setSpeakerVoices: publicProcedure
+    .input(setSpeakerVoicesInputSchema)
+    .mutation(({ input }) => setSpeakerVoices(input)),
+
+  // Voice profile routes (preview audio from GET /voice-profiles/:id/preview)
+  createVoiceProfile: publicProcedure
+    .input(createVoiceProfileInputSchema)
+    .mutation(({ input }) => createVoiceProfile(input)),
+
+  getVoiceProfiles: publicProcedure
+    .query(() => getVoiceProfiles()),
+
+  getVoiceProfileById: publicProcedure
+    .input(z.number())
+    .query(({ input }) => getVoiceProfileById(input)),
+
+  updateVoiceProfile: publicProcedure
+    .input(updateVoiceProfileInputSchema)
+    .mutation(({ input }) => updateVoiceProfile(input)),
+
+  deleteVoiceProfile: publicProcedure
+    .input(z.number())
+    .mutation(({ input }) => deleteVoiceProfile(input)),
+
+  // Voice consent routes; records are created with their signed form via POST /voice-consents
+  getVoiceConsents: publicProcedure
+    .input(getVoiceConsentsQuerySchema.optional())
+    .query(({ input }) => getVoiceConsents(input)),
+
+  revokeVoiceConsent: publicProcedure
+    .input(z.number())
+    .mutation(({ input }) => revokeVoiceConsent(input)),
+
+  // Final output routes; single-language outputs are recorded by the worker once it has rendered them
+  createMultiTrackJob: publicProcedure
+    .input(createMultiTrackJobInputSchema)
+    .mutation(({ input }) => createMultiTrackJob(input)),
   
   getFinalOutputs: publicProcedure
     .query(() => getFinalOutputs()),
@@ -101,6 +258,11 @@ const appRouter = router({
   getTranslationWorkflowStatus: publicProcedure
     .input(z.number())
     .query(({ input }) => getTranslationWorkflowStatus(input)),
+
+  // Pushes the status above over SSE whenever a job of the video changes
+  onWorkflowStatus: publicProcedure
+    .input(z.number())
+    .subscription(({ input, signal }) => onWorkflowStatus(input, signal)),
 });
 
 export type AppRouter = typeof appRouter;
@@ -109,7 +271,15 @@ async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        handleHttpRoute(req, res)
+          .then((handled) => {
+            if (!handled) {
+              next();
+            }
+          })
+          .catch(next);
+      });
     },
     router: appRouter,
     createContext() {
@@ -118,6 +288,16 @@ async function start() {
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  // Process translation and audio generation jobs in this process unless disabled
+  if (process.env['JOB_RUNNER_ENABLED'] !== 'false') {
+    const runner = startJobRunner();
+    console.log('Job runner started');
+
+    process.once('SIGTERM', () => {
+      runner.stop().finally(() => process.exit(0));
+    });
+  }
 }
 
 start();
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { execFile } from 'node:child_process';
+
+// ffmpeg failed or is not installed
+export class MediaProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaProcessingError';
+  }
+}
+
+const FFMPEG_TIMEOUT_MS = 30 * 60_000;
+
+export function getFfmpegPath(): string {
+  return process.env['FFMPEG_PATH'] || 'ffmpeg';
+}
+
+export function runFfmpeg(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      getFfmpegPath(),
+      ['-v', 'error', '-nostdin', '-y', ...args],
+      { timeout: FFMPEG_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 },
+      (error, _stdout, stderr) => {
+        if (!error) {
+          resolve();
+        } else if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          reject(new MediaProcessingError(`ffmpeg executable not found at "${getFfmpegPath()}" (set FFMPEG_PATH)`));
+        } else {
+          reject(new MediaProcessingError(`ffmpeg failed: ${stderr.trim() || error.message}`));
+        }
+      }
+    );
+  });
+}
@@ -0,0 +1,17 @@
+import { type Language } from '../schema';
+
+// ISO 639-2/T codes, the form MP4 and Matroska expect in stream language tags
+export const ISO_639_2: Record<Language, string> = {
+  en: 'eng',
+  es: 'spa',
+  fr: 'fra',
+  de: 'deu',
+  it: 'ita',
+  pt: 'por',
+  ru: 'rus',
+  zh: 'zho',
+  ja: 'jpn',
+  ko: 'kor',
+  ar: 'ara',
+  hi: 'hin'
+};
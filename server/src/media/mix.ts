@@ -0,0 +1,64 @@
+import { PIPELINE_SAMPLE_RATE } from './wav';
+
+const BLOCK_MS = 10; // Resolution of the ducking envelope
+const FADE_MS = 200; // Ramp between full and ducked background level, before and after speech
+const SPEECH_THRESHOLD = 328; // About -40 dBFS; quieter samples count as silence
+
+// Mix dubbed speech over the background stem, lowering the background by `duckingDb` while
+// speech plays. The background fades down ahead of each line and back up after it, so the
+// ducking neither clips the first syllable nor pumps between words.
+export function mixWithDucking(speech: Int16Array, background: Int16Array, duckingDb: number, sampleRate = PIPELINE_SAMPLE_RATE): Int16Array {
+  const length = Math.max(speech.length, background.length);
+  const blockSize = Math.max(1, Math.round((BLOCK_MS / 1000) * sampleRate));
+  const blockCount = Math.ceil(length / blockSize);
+  const fadeBlocks = Math.max(1, Math.round(FADE_MS / BLOCK_MS));
+  const duckedGain = 10 ** (-duckingDb / 20);
+
+  // Distance of every block to the nearest block with speech, capped at the fade length
+  const distance = new Array<number>(blockCount).fill(fadeBlocks);
+  for (let i = 0; i < speech.length; i++) {
+    if (Math.abs(speech[i]) > SPEECH_THRESHOLD) {
+      distance[Math.floor(i / blockSize)] = 0;
+    }
+  }
+  for (let block = 1; block < blockCount; block++) {
+    distance[block] = Math.min(distance[block], distance[block - 1] + 1);
+  }
+  for (let block = blockCount - 2; block >= 0; block--) {
+    distance[block] = Math.min(distance[block], distance[block + 1] + 1);
+  }
+  const gains = distance.map((blocks) => duckedGain + (1 - duckedGain) * (blocks / fadeBlocks));
+
+  const mixed = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    // Interpolate between neighbouring blocks so the gain changes smoothly
+    const block = Math.floor(i / blockSize);
+    const position = (i % blockSize) / blockSize;
+    const gain = gains[block] + ((gains[block + 1] ?? gains[block]) - gains[block]) * position;
+    const sample = (speech[i] ?? 0) + (background[i] ?? 0) * gain;
+    mixed[i] = Math.max(-32768, Math.min(32767, Math.round(sample)));
+  }
+  return mixed;
+}
+
+const CHIME_NOTES = [880, 1320]; // Hz, played one after the other
+const CHIME_NOTE_MS = 120;
+const CHIME_AMPLITUDE = 0.1;
+
+// Mix a short, quiet two-note chime over the start of the audio so listeners can tell it is
+// synthetic. Each note is shaped with a sine envelope so it starts and ends without a click.
+export function mixAudibleMark(samples: Int16Array, sampleRate = PIPELINE_SAMPLE_RATE): Int16Array {
+  const noteLength = Math.round((CHIME_NOTE_MS / 1000) * sampleRate);
+  const marked = new Int16Array(Math.max(samples.length, noteLength * CHIME_NOTES.length));
+  marked.set(samples);
+
+  CHIME_NOTES.forEach((frequency, note) => {
+    for (let i = 0; i < noteLength; i++) {
+      const envelope = Math.sin((Math.PI * i) / noteLength);
+      const chime = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * envelope * CHIME_AMPLITUDE * 32767;
+      const index = note * noteLength + i;
+      marked[index] = Math.max(-32768, Math.min(32767, Math.round(marked[index] + chime)));
+    }
+  });
+  return marked;
+}
@@ -0,0 +1,110 @@
+import { execFile } from 'node:child_process';
+
+// Container and stream information read from a media file
+export interface MediaProbe {
+  duration_seconds: number | null;
+  container_format: string;
+  video_codec: string | null;
+  width: number | null;
+  height: number | null;
+  frame_rate: number | null;
+  audio_track_count: number;
+  audio_sample_rate: number | null; // Of the first audio track
+  audio_channels: number | null; // Of the first audio track
+}
+
+// Subset of `ffprobe -print_format json -show_format -show_streams` output that we read
+export interface FfprobeOutput {
+  format?: {
+    format_name?: string;
+    duration?: string;
+  };
+  streams?: Array<{
+    codec_type?: string;
+    codec_name?: string;
+    width?: number;
+    height?: number;
+    avg_frame_rate?: string;
+    r_frame_rate?: string;
+    sample_rate?: string;
+    channels?: number;
+  }>;
+}
+
+// The file could not be probed: unreadable, not a media container, or ffprobe is missing
+export class MediaProbeError extends Error {
+  constructor(message: string) {
+    super(`Media probe failed: ${message}`);
+    this.name = 'MediaProbeError';
+  }
+}
+
+const PROBE_TIMEOUT_MS = 60_000;
+
+export function getFfprobePath(): string {
+  return process.env['FFPROBE_PATH'] || 'ffprobe';
+}
+
+export async function probeMedia(filePath: string): Promise<MediaProbe> {
+  const stdout = await new Promise<string>((resolve, reject) => {
+    execFile(
+      getFfprobePath(),
+      ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', filePath],
+      { timeout: PROBE_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (!error) {
+          resolve(stdout);
+        } else if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          reject(new MediaProbeError(`ffprobe executable not found at "${getFfprobePath()}" (set FFPROBE_PATH)`));
+        } else {
+          reject(new MediaProbeError(`unreadable media file (${stderr.trim() || error.message})`));
+        }
+      }
+    );
+  });
+
+  let output: FfprobeOutput;
+  try {
+    output = JSON.parse(stdout);
+  } catch (error) {
+    throw new MediaProbeError('ffprobe returned invalid JSON');
+  }
+  return parseProbeOutput(output);
+}
+
+export function parseProbeOutput(output: FfprobeOutput): MediaProbe {
+  if (!output.format?.format_name) {
+    throw new MediaProbeError('no container format detected');
+  }
+
+  const streams = output.streams ?? [];
+  const video = streams.find((stream) => stream.codec_type === 'video');
+  const audioTracks = streams.filter((stream) => stream.codec_type === 'audio');
+  const audio = audioTracks[0];
+
+  return {
+    duration_seconds: parseNumber(output.format.duration),
+    container_format: output.format.format_name,
+    video_codec: video?.codec_name ?? null,
+    width: video?.width ?? null,
+    height: video?.height ?? null,
+    frame_rate: video ? parseFrameRate(video.avg_frame_rate) ?? parseFrameRate(video.r_frame_rate) : null,
+    audio_track_count: audioTracks.length,
+    audio_sample_rate: audio ? parseNumber(audio.sample_rate) : null,
+    audio_channels: audio?.channels ?? null
+  };
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// ffprobe reports rates as fractions such as "30000/1001"; "0/0" means unknown
+function parseFrameRate(value: string | undefined): number | null {
+  if (!value) return null;
+  const [numerator, denominator] = value.split('/').map(Number);
+  if (!numerator || !denominator) return null;
+  return Math.round((numerator / denominator) * 1000) / 1000;
+}
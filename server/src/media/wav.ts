@@ -0,0 +1,142 @@
+import { readFile, writeFile } from 'node:fs/promises';
+
+// Every audio file produced inside the pipeline is mono 16-bit PCM at this rate
+export const PIPELINE_SAMPLE_RATE = 24000;
+
+export interface WavAudio {
+  sampleRate: number;
+  samples: Int16Array; // Mono PCM samples
+}
+
+export function encodeWav(audio: WavAudio): Buffer {
+  const dataSize = audio.samples.length * 2;
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16); // PCM fmt chunk size
+  buffer.writeUInt16LE(1, 20); // PCM format
+  buffer.writeUInt16LE(1, 22); // Mono
+  buffer.writeUInt32LE(audio.sampleRate, 24);
+  buffer.writeUInt32LE(audio.sampleRate * 2, 28); // Byte rate
+  buffer.writeUInt16LE(2, 32); // Block align
+  buffer.writeUInt16LE(16, 34); // Bits per sample
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(dataSize, 40);
+
+  for (let i = 0; i < audio.samples.length; i++) {
+    buffer.writeInt16LE(audio.samples[i], 44 + i * 2);
+  }
+  return buffer;
+}
+
+// Decodes mono or multi-channel 16-bit PCM WAV data, downmixing to mono
+export function decodeWav(buffer: Buffer): WavAudio {
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let offset = 12;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      const format = buffer.readUInt16LE(body);
+      channels = buffer.readUInt16LE(body + 2);
+      sampleRate = buffer.readUInt32LE(body + 4);
+      bitsPerSample = buffer.readUInt16LE(body + 14);
+      if (format !== 1 || bitsPerSample !== 16) {
+        throw new Error(`Unsupported WAV encoding (format ${format}, ${bitsPerSample} bits)`);
+      }
+    } else if (chunkId === 'data') {
+      if (!channels) {
+        throw new Error('WAV data chunk appears before fmt chunk');
+      }
+      const frameCount = Math.floor(Math.min(chunkSize, buffer.length - body) / (2 * channels));
+      const samples = new Int16Array(frameCount);
+      for (let frame = 0; frame < frameCount; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+          sum += buffer.readInt16LE(body + (frame * channels + channel) * 2);
+        }
+        samples[frame] = Math.round(sum / channels);
+      }
+      return { sampleRate, samples };
+    }
+
+    // Chunks are padded to an even number of bytes
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+export async function readWav(filePath: string): Promise<WavAudio> {
+  return decodeWav(await readFile(filePath));
+}
+
+export async function writeWav(filePath: string, audio: WavAudio): Promise<void> {
+  await writeFile(filePath, encodeWav(audio));
+}
+
+export function wavDurationMs(audio: WavAudio): number {
+  return Math.round((audio.samples.length / audio.sampleRate) * 1000);
+}
+
+// Deterministic sine tone, used by the offline providers in place of real speech
+export function generateTone(durationMs: number, frequency: number, sampleRate = PIPELINE_SAMPLE_RATE, amplitude = 0.2): Int16Array {
+  const samples = new Int16Array(Math.round((durationMs / 1000) * sampleRate));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * amplitude * 32767);
+  }
+  return samples;
+}
+
+export function generateSilence(durationMs: number, sampleRate = PIPELINE_SAMPLE_RATE): Int16Array {
+  return new Int16Array(Math.round((durationMs / 1000) * sampleRate));
+}
+
+// Stretch or squeeze samples to a new length by linear interpolation
+export function resample(samples: Int16Array, length: number): Int16Array {
+  const resampled = new Int16Array(length);
+  if (samples.length === 0) {
+    return resampled;
+  }
+  const step = length > 1 ? (samples.length - 1) / (length - 1) : 0;
+  for (let i = 0; i < length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const next = samples[Math.min(index + 1, samples.length - 1)];
+    resampled[i] = Math.round(samples[index] + (next - samples[index]) * (position - index));
+  }
+  return resampled;
+}
+
+export interface TimelineClip {
+  startMs: number;
+  samples: Int16Array;
+}
+
+// Lay clips out in order at their start times. A clip that would overlap the previous one
+// starts when that one ends instead, so nothing is cut off or mixed together.
+export function layoutTimeline(clips: TimelineClip[], minDurationMs = 0, sampleRate = PIPELINE_SAMPLE_RATE): Int16Array {
+  const positions: number[] = [];
+  let cursor = 0;
+  for (const clip of clips) {
+    const start = Math.max(Math.round((clip.startMs / 1000) * sampleRate), cursor);
+    positions.push(start);
+    cursor = start + clip.samples.length;
+  }
+
+  const samples = new Int16Array(Math.max(cursor, Math.round((minDurationMs / 1000) * sampleRate)));
+  clips.forEach((clip, index) => samples.set(clip.samples, positions[index]));
+  return samples;
+}
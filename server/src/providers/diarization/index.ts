@@ -0,0 +1,22 @@
+import { ProviderRegistry } from '../registry';
+import { createLocalSpeakerDiarizer } from './local';
+
+export interface DiarizeInput {
+  audioPath: string; // Mono PCM WAV at PIPELINE_SAMPLE_RATE
+}
+
+export interface SpeakerTurn {
+  startMs: number;
+  endMs: number;
+  speaker: string; // Label, the same for every turn of one voice
+}
+
+// Tells apart who speaks when in the extracted soundtrack, in chronological order
+export interface SpeakerDiarizer {
+  readonly name: string;
+  diarize(input: DiarizeInput): Promise<SpeakerTurn[]>;
+}
+
+export const speakerDiarizers = new ProviderRegistry<SpeakerDiarizer>('speaker diarization', 'DIARIZATION_PROVIDER', 'local');
+
+speakerDiarizers.register('local', createLocalSpeakerDiarizer);
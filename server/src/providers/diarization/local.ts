@@ -0,0 +1,14 @@
+import { readWav, wavDurationMs } from '../../media/wav';
+import type { SpeakerDiarizer } from '.';
+
+// Offline stand-in that cannot tell voices apart: the whole soundtrack is one speaker
+export function createLocalSpeakerDiarizer(): SpeakerDiarizer {
+  return {
+    name: 'local',
+
+    async diarize({ audioPath }) {
+      const durationMs = wavDurationMs(await readWav(audioPath));
+      return durationMs > 0 ? [{ startMs: 0, endMs: durationMs, speaker: 'Speaker 1' }] : [];
+    }
+  };
+}
@@ -0,0 +1,11 @@
+// Thrown by providers for failures that may go away on their own (rate limits, timeouts, an
+// overloaded service), so the job runner retries the stage instead of failing the job
+export class TransientProviderError extends Error {
+  readonly retryAfterMs: number | null; // Wait the provider asked for, when it said
+
+  constructor(message: string, options?: { cause?: unknown; retryAfterMs?: number }) {
+    super(message, { cause: options?.cause });
+    this.name = 'TransientProviderError';
+    this.retryAfterMs = options?.retryAfterMs ?? null;
+  }
+}
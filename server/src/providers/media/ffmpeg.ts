@@ -0,0 +1,66 @@
+import { runFfmpeg } from '../../media/ffmpeg';
+import { PIPELINE_SAMPLE_RATE } from '../../media/wav';
+import type { MediaProvider } from '.';
+
+export function createFfmpegMediaProvider(): MediaProvider {
+  return {
+    name: 'ffmpeg',
+
+    async extractAudio({ videoPath, outputPath }) {
+      await runFfmpeg([
+        '-i', videoPath,
+        '-vn', '-ac', '1', '-ar', String(PIPELINE_SAMPLE_RATE), '-c:a', 'pcm_s16le',
+        outputPath
+      ]);
+    },
+
+    async renderVideo({ videoPath, audioPath, outputPath }) {
+      // Keep the original picture untouched and replace every audio track with the dub
+      await runFfmpeg([
+        '-i', videoPath,
+        '-i', audioPath,
+        '-map', '0:v:0', '-map', '1:a:0',
+        '-c:v', 'copy', '-c:a', 'aac', '-b:a', '192k',
+        '-movflags', '+faststart',
+        outputPath
+      ]);
+    },
+
+    async renderMultiTrackVideo({ videoPath, audioTracks, subtitleTracks, outputPath }) {
+      const inputs = [videoPath, ...audioTracks.map((track) => track.path), ...subtitleTracks.map((track) => track.path)];
+      const args = inputs.flatMap((input) => ['-i', input]);
+
+      // Input 0 is the video, then one input per audio track, then one per subtitle track
+      args.push('-map', '0:v:0');
+      audioTracks.forEach((_, index) => args.push('-map', `${index + 1}:a:0`));
+      subtitleTracks.forEach((_, index) => args.push('-map', `${audioTracks.length + index + 1}:s:0`));
+
+      audioTracks.forEach((track, index) => args.push(
+        `-metadata:s:a:${index}`, `language=${track.language}`,
+        `-metadata:s:a:${index}`, `title=${track.title}`,
+        `-disposition:a:${index}`, index === 0 ? 'default' : '0'
+      ));
+      subtitleTracks.forEach((track, index) => args.push(
+        `-metadata:s:s:${index}`, `language=${track.language}`,
+        `-metadata:s:s:${index}`, `title=${track.title}`
+      ));
+
+      await runFfmpeg([
+        ...args,
+        '-c:v', 'copy', '-c:a', 'aac', '-b:a', '192k', '-c:s', 'mov_text',
+        '-movflags', '+faststart',
+        outputPath
+      ]);
+    },
+
+    async timeStretch({ inputPath, outputPath, tempo }) {
+      // atempo keeps the pitch, so the voice only sounds faster, not higher
+      await runFfmpeg([
+        '-i', inputPath,
+        '-filter:a', `atempo=${tempo}`,
+        '-ac', '1', '-ar', String(PIPELINE_SAMPLE_RATE), '-c:a', 'pcm_s16le',
+        outputPath
+      ]);
+    }
+  };
+}
@@ -0,0 +1,49 @@
+import { ProviderRegistry } from '../registry';
+import { createFfmpegMediaProvider } from './ffmpeg';
+import { createLocalMediaProvider } from './local';
+
+export interface ExtractAudioInput {
+  videoPath: string;
+  durationSeconds: number | null; // As probed at upload, when known
+  outputPath: string; // Mono PCM WAV at PIPELINE_SAMPLE_RATE
+}
+
+export interface RenderVideoInput {
+  videoPath: string;
+  audioPath: string; // Replacement soundtrack
+  outputPath: string;
+}
+
+export interface TimeStretchInput {
+  inputPath: string; // Mono PCM WAV at PIPELINE_SAMPLE_RATE
+  outputPath: string; // Same format
+  tempo: number; // Playback speed factor, e.g. 1.2 makes the audio 20% shorter
+}
+
+export interface MediaTrack {
+  path: string;
+  language: string; // ISO 639-2 code, e.g. `spa`
+  title: string; // Shown in players' track menus
+}
+
+export interface RenderMultiTrackVideoInput {
+  videoPath: string;
+  audioTracks: MediaTrack[]; // In stream order; the first is the default
+  subtitleTracks: MediaTrack[]; // SRT files
+  outputPath: string;
+}
+
+// Container-level operations: pulling the soundtrack out and muxing the dubbed one back in,
+// plus speeding up synthesized speech so it fits its slot
+export interface MediaProvider {
+  readonly name: string;
+  extractAudio(input: ExtractAudioInput): Promise<void>;
+  renderVideo(input: RenderVideoInput): Promise<void>;
+  renderMultiTrackVideo(input: RenderMultiTrackVideoInput): Promise<void>;
+  timeStretch(input: TimeStretchInput): Promise<void>;
+}
+
+export const mediaProviders = new ProviderRegistry<MediaProvider>('media', 'MEDIA_PROVIDER', 'ffmpeg');
+
+mediaProviders.register('ffmpeg', createFfmpegMediaProvider);
+mediaProviders.register('local', createLocalMediaProvider);
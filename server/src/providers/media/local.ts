@@ -0,0 +1,34 @@
+import { access, copyFile } from 'node:fs/promises';
+import { PIPELINE_SAMPLE_RATE, generateSilence, readWav, resample, writeWav } from '../../media/wav';
+import type { MediaProvider } from '.';
+
+const DEFAULT_DURATION_SECONDS = 10;
+
+// Offline stand-in for ffmpeg: silent soundtrack on extraction, plain copy on render,
+// and plain resampling (which raises the pitch) to change the tempo
+export function createLocalMediaProvider(): MediaProvider {
+  return {
+    name: 'local',
+
+    async extractAudio({ videoPath, durationSeconds, outputPath }) {
+      await access(videoPath);
+      const durationMs = (durationSeconds ?? DEFAULT_DURATION_SECONDS) * 1000;
+      await writeWav(outputPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples: generateSilence(durationMs) });
+    },
+
+    async renderVideo({ videoPath, audioPath, outputPath }) {
+      await access(audioPath);
+      await copyFile(videoPath, outputPath);
+    },
+
+    async renderMultiTrackVideo({ videoPath, audioTracks, subtitleTracks, outputPath }) {
+      await Promise.all([...audioTracks, ...subtitleTracks].map((track) => access(track.path)));
+      await copyFile(videoPath, outputPath);
+    },
+
+    async timeStretch({ inputPath, outputPath, tempo }) {
+      const audio = await readWav(inputPath);
+      await writeWav(outputPath, { sampleRate: audio.sampleRate, samples: resample(audio.samples, Math.round(audio.samples.length / tempo)) });
+    }
+  };
+}
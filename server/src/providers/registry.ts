@@ -0,0 +1,41 @@
+// Named implementations of one provider interface, selected by an environment variable
+export class ProviderRegistry<T> {
+  private readonly factories = new Map<string, () => T>();
+  private readonly instances = new Map<string, T>();
+
+  constructor(
+    private readonly kind: string,
+    private readonly envVar: string,
+    private readonly defaultName: string
+  ) {}
+
+  register(name: string, factory: () => T): void {
+    this.factories.set(name, factory);
+    this.instances.delete(name);
+  }
+
+  // Resolve a provider by name, defaulting to the configured one
+  get(name: string = this.configuredName()): T {
+    const cached = this.instances.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown ${this.kind} provider "${name}". Available: ${this.names().join(', ')}`);
+    }
+
+    const instance = factory();
+    this.instances.set(name, instance);
+    return instance;
+  }
+
+  configuredName(): string {
+    return process.env[this.envVar] || this.defaultName;
+  }
+
+  names(): string[] {
+    return [...this.factories.keys()];
+  }
+}
@@ -0,0 +1,25 @@
+import { type Language } from '../../schema';
+import { ProviderRegistry } from '../registry';
+import { createLocalSpeechToTextProvider } from './local';
+
+export interface TranscribeInput {
+  audioPath: string; // Mono PCM WAV at PIPELINE_SAMPLE_RATE
+  language: Language; // Language spoken in the audio
+}
+
+export interface TranscriptionSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+  confidence: number; // 0..1
+}
+
+// Turns the extracted soundtrack into timed text, in chronological order
+export interface SpeechToTextProvider {
+  readonly name: string;
+  transcribe(input: TranscribeInput): Promise<TranscriptionSegment[]>;
+}
+
+export const speechToTextProviders = new ProviderRegistry<SpeechToTextProvider>('speech-to-text', 'SPEECH_TO_TEXT_PROVIDER', 'local');
+
+speechToTextProviders.register('local', createLocalSpeechToTextProvider);
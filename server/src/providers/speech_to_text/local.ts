@@ -0,0 +1,27 @@
+import { readWav, wavDurationMs } from '../../media/wav';
+import type { SpeechToTextProvider } from '.';
+
+const SEGMENT_MS = 4000;
+const CONFIDENCES = [0.95, 0.9, 0.85];
+
+// Deterministic offline provider: one canned sentence per fixed window of audio
+export function createLocalSpeechToTextProvider(): SpeechToTextProvider {
+  return {
+    name: 'local',
+
+    async transcribe({ audioPath, language }) {
+      const durationMs = wavDurationMs(await readWav(audioPath));
+
+      const segments = [];
+      for (let startMs = 0, index = 0; startMs < durationMs; startMs += SEGMENT_MS, index++) {
+        segments.push({
+          startMs,
+          endMs: Math.min(startMs + SEGMENT_MS, durationMs),
+          text: `(${language}) Spoken sentence ${index + 1}.`,
+          confidence: CONFIDENCES[index % CONFIDENCES.length]
+        });
+      }
+      return segments;
+    }
+  };
+}
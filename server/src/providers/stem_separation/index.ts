@@ -0,0 +1,19 @@
+import { ProviderRegistry } from '../registry';
+import { createLocalStemSeparator } from './local';
+
+export interface SeparateStemsInput {
+  audioPath: string; // Mono PCM WAV at PIPELINE_SAMPLE_RATE
+  vocalsPath: string; // Where to write the speech stem, same format
+  backgroundPath: string; // Where to write the music and effects stem, same format
+}
+
+// Splits the extracted soundtrack into speech and everything else, so the dub can replace
+// only the speech. Both stems are as long as the input.
+export interface StemSeparator {
+  readonly name: string;
+  separate(input: SeparateStemsInput): Promise<void>;
+}
+
+export const stemSeparators = new ProviderRegistry<StemSeparator>('stem separation', 'STEM_SEPARATION_PROVIDER', 'local');
+
+stemSeparators.register('local', createLocalStemSeparator);
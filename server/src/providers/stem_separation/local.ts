@@ -0,0 +1,17 @@
+import { copyFile } from 'node:fs/promises';
+import { readWav, writeWav } from '../../media/wav';
+import type { StemSeparator } from '.';
+
+// Offline passthrough: the whole soundtrack counts as speech and the background is silent,
+// so preserving the background changes nothing until a real separator is configured
+export function createLocalStemSeparator(): StemSeparator {
+  return {
+    name: 'local',
+
+    async separate({ audioPath, vocalsPath, backgroundPath }) {
+      const audio = await readWav(audioPath);
+      await copyFile(audioPath, vocalsPath);
+      await writeWav(backgroundPath, { sampleRate: audio.sampleRate, samples: new Int16Array(audio.samples.length) });
+    }
+  };
+}
@@ -0,0 +1,38 @@
+import { type Language } from '../../schema';
+import { ProviderRegistry } from '../registry';
+import { createLocalTextToSpeechProvider } from './local';
+
+// Speak in the original speaker's cloned voice, or in one of the provider's stock voices
+export type VoiceSelection =
+  // Original speech to clone the voice from. A voice cloned from it earlier is reused by its
+  // handle instead; the reference is still passed for providers that keep no voices.
+  | { kind: 'cloned'; referenceAudioPath: string; voiceId?: string }
+  | { kind: 'stock'; voiceId: string };
+
+export interface SynthesizeSegmentsInput {
+  segments: string[]; // Translated text of each segment, in order
+  language: Language;
+  voice: VoiceSelection;
+  outputDir: string; // Existing directory to write the segment audio into
+}
+
+export interface SynthesizedSegment {
+  audioPath: string; // Mono PCM WAV at PIPELINE_SAMPLE_RATE
+  durationMs: number;
+}
+
+export interface SynthesisResult {
+  voiceId: string; // Stock voice used, or the id the provider gave the cloned voice
+  segments: SynthesizedSegment[]; // One per input segment, in the same order
+}
+
+export interface TextToSpeechProvider {
+  readonly name: string;
+  readonly defaultVoiceId: string;
+  readonly stockVoiceIds: string[]; // Every id a stock voice selection may name
+  synthesize(input: SynthesizeSegmentsInput): Promise<SynthesisResult>;
+}
+
+export const textToSpeechProviders = new ProviderRegistry<TextToSpeechProvider>('text-to-speech', 'TEXT_TO_SPEECH_PROVIDER', 'local');
+
+textToSpeechProviders.register('local', createLocalTextToSpeechProvider);
@@ -0,0 +1,58 @@
+import { createHash } from 'node:crypto';
+import { access } from 'node:fs/promises';
+import path from 'node:path';
+import { PIPELINE_SAMPLE_RATE, generateSilence, generateTone, wavDurationMs, writeWav } from '../../media/wav';
+import type { TextToSpeechProvider } from '.';
+
+const MS_PER_CHARACTER = 60;
+const PAUSE_MS = 500; // Stands in for segments with nothing to say
+const CLONED_VOICE_FREQUENCY = 220;
+
+// Stock voices and the pitch each one is rendered at
+const STOCK_VOICES: Record<string, number> = {
+  'local-alto': 330,
+  'local-tenor': 262,
+  'local-soprano': 440
+};
+
+// Deterministic offline provider: a tone per segment as long as its text, silence for blank segments
+export function createLocalTextToSpeechProvider(): TextToSpeechProvider {
+  return {
+    name: 'local',
+    defaultVoiceId: 'local-alto',
+    stockVoiceIds: Object.keys(STOCK_VOICES),
+
+    async synthesize({ segments, voice, outputDir }) {
+      let voiceId: string;
+      let frequency: number;
+
+      if (voice.kind === 'cloned') {
+        await access(voice.referenceAudioPath);
+        voiceId = voice.voiceId ?? `local-clone-${createHash('sha256').update(voice.referenceAudioPath).digest('hex').slice(0, 12)}`;
+        frequency = CLONED_VOICE_FREQUENCY;
+      } else {
+        const stockFrequency = STOCK_VOICES[voice.voiceId];
+        if (stockFrequency === undefined) {
+          throw new Error(`Unknown voice "${voice.voiceId}". Available: ${Object.keys(STOCK_VOICES).join(', ')}`);
+        }
+        voiceId = voice.voiceId;
+        frequency = stockFrequency;
+      }
+
+      const synthesized = [];
+      for (const [index, text] of segments.entries()) {
+        const spoken = text.trim();
+        const samples = spoken
+          ? generateTone(spoken.length * MS_PER_CHARACTER, frequency)
+          : generateSilence(PAUSE_MS);
+
+        const audioPath = path.join(outputDir, `segment_${String(index).padStart(4, '0')}.wav`);
+        const audio = { sampleRate: PIPELINE_SAMPLE_RATE, samples };
+        await writeWav(audioPath, audio);
+        synthesized.push({ audioPath, durationMs: wavDurationMs(audio) });
+      }
+
+      return { voiceId, segments: synthesized };
+    }
+  };
+}
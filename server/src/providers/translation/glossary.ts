@@ -0,0 +1,36 @@
+import { type GlossaryEntry } from '../../schema';
+
+export interface ProtectedText {
+  text: string; // Source text with glossary terms swapped for placeholders
+  restore(translated: string): string; // Swap the placeholders for the forced target terms
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Mask glossary terms so a translation engine passes them through untouched.
+// Matching is case-insensitive on whole words, longest term first.
+export function protectGlossaryTerms(text: string, glossary: GlossaryEntry[]): ProtectedText {
+  if (glossary.length === 0) {
+    return { text, restore: (translated) => translated };
+  }
+
+  const entries = [...glossary].sort((a, b) => b.source_term.length - a.source_term.length);
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}_])(?:${entries.map((entry) => escapeRegExp(entry.source_term)).join('|')})(?![\\p{L}\\p{N}_])`,
+    'giu'
+  );
+
+  const targets: string[] = [];
+  const masked = text.replace(pattern, (match) => {
+    const entry = entries.find((candidate) => candidate.source_term.toLowerCase() === match.toLowerCase());
+    targets.push(entry ? entry.target_term : match);
+    return `⟦${targets.length - 1}⟧`;
+  });
+
+  return {
+    text: masked,
+    restore: (translated) => translated.replace(/⟦(\d+)⟧/g, (placeholder, index: string) => targets[Number(index)] ?? placeholder)
+  };
+}
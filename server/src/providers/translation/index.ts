@@ -0,0 +1,29 @@
+import { type GlossaryEntry, type Language } from '../../schema';
+import { ProviderRegistry } from '../registry';
+import { createLocalTranslationProvider } from './local';
+
+export interface TranslateSegmentsInput {
+  segments: string[]; // Source text of each transcript segment, in order
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  glossary: GlossaryEntry[]; // Terms that must come out exactly as given
+}
+
+export interface ShortenTranslationInput {
+  text: string; // Translated segment that takes too long to speak
+  language: Language; // Language of the text
+  maxCharacters: number; // Length the shorter wording should stay within
+  glossary: GlossaryEntry[]; // Target terms must survive the rewording
+}
+
+// Machine translation, one output segment per input segment in the same order
+export interface TranslationProvider {
+  readonly name: string;
+  translate(input: TranslateSegmentsInput): Promise<string[]>;
+  // Reword a translation more concisely so its speech fits the original timing
+  shorten(input: ShortenTranslationInput): Promise<string>;
+}
+
+export const translationProviders = new ProviderRegistry<TranslationProvider>('translation', 'TRANSLATION_PROVIDER', 'local');
+
+translationProviders.register('local', createLocalTranslationProvider);
@@ -0,0 +1,29 @@
+import { protectGlossaryTerms } from './glossary';
+import type { TranslationProvider } from '.';
+
+// Deterministic offline provider: each segment tagged with the target language, glossary terms forced.
+// Shortening drops trailing words, except those of glossary target terms, until the text fits.
+export function createLocalTranslationProvider(): TranslationProvider {
+  return {
+    name: 'local',
+
+    async translate({ segments, targetLanguage, glossary }) {
+      return segments.map((segment) => {
+        const masked = protectGlossaryTerms(segment, glossary);
+        return masked.restore(`[${targetLanguage}] ${masked.text}`);
+      });
+    },
+
+    async shorten({ text, maxCharacters, glossary }) {
+      const protectedWords = new Set(glossary.flatMap((entry) => entry.target_term.toLowerCase().split(/\s+/)));
+      const words = text.trim().split(/\s+/);
+
+      for (let index = words.length - 1; index > 0 && words.join(' ').length > maxCharacters; index--) {
+        if (!protectedWords.has(words[index].toLowerCase())) {
+          words.splice(index, 1);
+        }
+      }
+      return words.join(' ');
+    }
+  };
+}
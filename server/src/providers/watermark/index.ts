@@ -0,0 +1,28 @@
+import { ProviderRegistry } from '../registry';
+import { createLocalAudioWatermarker } from './local';
+
+// What a watermark identifies: the audio generation job that produced the audio, and when
+export interface WatermarkPayload {
+  audioGenerationJobId: number;
+  timestamp: Date;
+}
+
+export interface EmbedWatermarkInput {
+  audioPath: string; // Mono PCM WAV at PIPELINE_SAMPLE_RATE, rewritten with the mark in place
+  payload: WatermarkPayload;
+}
+
+export interface DetectWatermarkInput {
+  audioPath: string; // PCM WAV
+}
+
+// Marks generated audio inaudibly so copies of it can be traced back to their job
+export interface AudioWatermarker {
+  readonly name: string;
+  embed(input: EmbedWatermarkInput): Promise<void>;
+  detect(input: DetectWatermarkInput): Promise<WatermarkPayload | null>; // Null when no mark is found
+}
+
+export const audioWatermarkers = new ProviderRegistry<AudioWatermarker>('watermark', 'WATERMARK_PROVIDER', 'local');
+
+audioWatermarkers.register('local', createLocalAudioWatermarker);
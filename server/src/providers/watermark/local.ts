@@ -0,0 +1,118 @@
+import { createHash } from 'node:crypto';
+import { readWav, writeWav } from '../../media/wav';
+import type { AudioWatermarker, WatermarkPayload } from '.';
+
+const MAGIC = Buffer.from('DUBW');
+const FRAME_BYTES = 18; // Magic, job id, timestamp in ms (48 bits), checksum
+const FRAME_BITS = FRAME_BYTES * 8;
+
+// Each bit is spread over a block of samples by a pseudo-random chip sequence. Every chip swings up
+// then down over a few samples, which puts the mark above the low frequencies where speech is
+// loudest and below the high ones lossy codecs drop.
+const CHIP_SAMPLES = 4;
+const CHIPS_PER_BIT = 60;
+const BIT_SAMPLES = CHIP_SAMPLES * CHIPS_PER_BIT;
+const FRAME_SAMPLES = FRAME_BITS * BIT_SAMPLES; // 1.44 s at 24 kHz
+const STRENGTH = 32; // Correlation per sample a bit is embedded with, about -60 dBFS on silence
+
+// Same sequence for every bit, from a fixed seed, so copies decode without knowing the job
+const CHIPS = (() => {
+  let state = 0x2545f491;
+  return Int8Array.from({ length: BIT_SAMPLES }, (_, index) => {
+    if (index % CHIP_SAMPLES === 0) {
+      state ^= state << 13;
+      state ^= state >>> 17;
+      state ^= state << 5;
+    }
+    const sign = (state & 1) === 1 ? 1 : -1;
+    return index % CHIP_SAMPLES < CHIP_SAMPLES / 2 ? sign : -sign;
+  });
+})();
+
+function encodeFrame({ audioGenerationJobId, timestamp }: WatermarkPayload): number[] {
+  const frame = Buffer.alloc(FRAME_BYTES);
+  MAGIC.copy(frame, 0);
+  frame.writeUInt32BE(audioGenerationJobId, 4);
+  frame.writeUIntBE(timestamp.getTime(), 8, 6);
+  createHash('sha256').update(frame.subarray(0, 14)).digest().copy(frame, 14, 0, 4);
+  return [...frame].flatMap((byte) => Array.from({ length: 8 }, (_, bit) => (byte >> (7 - bit)) & 1));
+}
+
+function decodeFrame(bits: number[]): WatermarkPayload | null {
+  const frame = Buffer.alloc(FRAME_BYTES);
+  bits.forEach((bit, index) => {
+    frame[index >> 3] |= bit << (7 - (index & 7));
+  });
+  if (!frame.subarray(0, 4).equals(MAGIC)) {
+    return null;
+  }
+  const checksum = createHash('sha256').update(frame.subarray(0, 14)).digest().subarray(0, 4);
+  if (!frame.subarray(14).equals(checksum)) {
+    return null;
+  }
+  return { audioGenerationJobId: frame.readUInt32BE(4), timestamp: new Date(frame.readUIntBE(8, 6)) };
+}
+
+// Offline stand-in: improved spread spectrum. Every block of samples carries one bit of the
+// repeated frame, and embedding first removes the audio's own correlation with the chips, so the
+// mark stays readable under loud speech. The change follows the audio's level and hides under it;
+// the mark survives trimming and lossy re-encoding such as the AAC of rendered videos, but not
+// resampling or time stretching.
+export function createLocalAudioWatermarker(): AudioWatermarker {
+  return {
+    name: 'local',
+
+    async embed({ audioPath, payload }) {
+      const audio = await readWav(audioPath);
+      const bits = encodeFrame(payload);
+      const { samples } = audio;
+
+      for (let start = 0; start < samples.length; start += BIT_SAMPLES) {
+        const end = Math.min(start + BIT_SAMPLES, samples.length);
+        let correlation = 0;
+        for (let i = start; i < end; i++) {
+          correlation += samples[i] * CHIPS[i - start];
+        }
+        const target = bits[(start / BIT_SAMPLES) % FRAME_BITS] === 1 ? STRENGTH : -STRENGTH;
+        const shift = target - correlation / (end - start);
+        for (let i = start; i < end; i++) {
+          samples[i] = Math.max(-32768, Math.min(32767, Math.round(samples[i] + shift * CHIPS[i - start])));
+        }
+      }
+      await writeWav(audioPath, audio);
+    },
+
+    async detect({ audioPath }) {
+      const { samples } = await readWav(audioPath);
+      if (samples.length < FRAME_SAMPLES) {
+        return null;
+      }
+
+      // The mark repeats every frame: fold the audio onto one frame so the repeats add up
+      const folded = new Float64Array(FRAME_SAMPLES);
+      for (let i = 0; i < samples.length; i++) {
+        folded[i % FRAME_SAMPLES] += samples[i];
+      }
+
+      // Copies may be trimmed or delayed by a codec: try every alignment of the blocks, then of the frame
+      for (let offset = 0; offset < BIT_SAMPLES; offset++) {
+        const votes = Array.from({ length: FRAME_BITS }, (_, block) => {
+          let correlation = 0;
+          const start = offset + block * BIT_SAMPLES;
+          for (let i = 0; i < BIT_SAMPLES; i++) {
+            correlation += folded[(start + i) % FRAME_SAMPLES] * CHIPS[i];
+          }
+          return correlation > 0 ? 1 : 0;
+        });
+
+        for (let rotation = 0; rotation < FRAME_BITS; rotation++) {
+          const payload = decodeFrame([...votes.slice(rotation), ...votes.slice(0, rotation)]);
+          if (payload) {
+            return payload;
+          }
+        }
+      }
+      return null;
+    }
+  };
+}
@@ -0,0 +1,36 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import path from 'node:path';
+import { db } from '../db';
+import { finalOutputsTable, translationJobsTable, videosTable } from '../db/schema';
+import { HttpError } from './http';
+import { sendFile } from './send_file';
+import { eq } from 'drizzle-orm';
+
+// GET|HEAD /final-outputs/:id/video?disposition=attachment|inline
+export async function downloadFinalVideo(req: IncomingMessage, res: ServerResponse, [outputId]: string[]): Promise<void> {
+  const disposition = new URL(req.url ?? '/', 'http://localhost').searchParams.get('disposition') ?? 'attachment';
+  if (disposition !== 'attachment' && disposition !== 'inline') {
+    throw new HttpError(400, 'Query parameter "disposition" must be "attachment" or "inline"');
+  }
+
+  const rows = await db.select({
+    final_video_path: finalOutputsTable.final_video_path,
+    original_filename: videosTable.original_filename,
+    target_language: translationJobsTable.target_language
+  })
+    .from(finalOutputsTable)
+    .innerJoin(videosTable, eq(finalOutputsTable.video_id, videosTable.id))
+    .leftJoin(translationJobsTable, eq(finalOutputsTable.translation_job_id, translationJobsTable.id))
+    .where(eq(finalOutputsTable.id, Number(outputId)))
+    .execute();
+
+  if (rows.length === 0) {
+    throw new HttpError(404, `Final output ${outputId} not found`);
+  }
+
+  // Name the download after the upload, e.g. `keynote.es.mp4`, or `keynote.multi.mp4` with every language inside
+  const { final_video_path, original_filename, target_language } = rows[0];
+  const filename = `${path.parse(original_filename).name}.${target_language ?? 'multi'}${path.extname(final_video_path)}`;
+
+  await sendFile(req, res, final_video_path, { filename, disposition });
+}
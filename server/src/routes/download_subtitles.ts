@@ -0,0 +1,37 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { subtitleFormatSchema, subtitleTextSchema } from '../schema';
+import { SubtitleExportError, exportSubtitles } from '../handlers/export_subtitles';
+import { HttpError, contentDisposition } from './http';
+
+// GET /translation-jobs/:id/subtitles.:format?text=translated|source
+export async function downloadSubtitles(req: IncomingMessage, res: ServerResponse, [jobId, format]: string[]): Promise<void> {
+  const text = subtitleTextSchema.safeParse(new URL(req.url ?? '/', 'http://localhost').searchParams.get('text') ?? 'translated');
+  if (!text.success) {
+    throw new HttpError(400, 'Query parameter "text" must be "translated" or "source"');
+  }
+
+  let file;
+  try {
+    file = await exportSubtitles({
+      translation_job_id: Number(jobId),
+      format: subtitleFormatSchema.parse(format),
+      text: text.data
+    });
+  } catch (error) {
+    if (error instanceof SubtitleExportError) {
+      throw new HttpError(409, error.message);
+    }
+    throw error;
+  }
+
+  if (!file) {
+    throw new HttpError(404, `Translation job ${jobId} not found`);
+  }
+
+  const body = Buffer.from(file.content, 'utf8');
+  res.statusCode = 200;
+  res.setHeader('Content-Type', file.content_type);
+  res.setHeader('Content-Length', body.length);
+  res.setHeader('Content-Disposition', contentDisposition('attachment', file.filename));
+  res.end(body);
+}
@@ -0,0 +1,14 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { getVoiceConsentById } from '../handlers/get_voice_consent_by_id';
+import { HttpError } from './http';
+import { sendFile } from './send_file';
+
+// GET|HEAD /voice-consents/:id/artifact - the signed consent form as it was uploaded
+export async function downloadVoiceConsent(req: IncomingMessage, res: ServerResponse, [consentId]: string[]): Promise<void> {
+  const consent = await getVoiceConsentById(Number(consentId));
+  if (!consent) {
+    throw new HttpError(404, `Voice consent ${consentId} not found`);
+  }
+
+  await sendFile(req, res, consent.artifact_path, { filename: consent.artifact_filename, disposition: 'attachment' });
+}
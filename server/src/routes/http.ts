@@ -0,0 +1,153 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { createHash } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { unlink } from 'node:fs/promises';
+import { Transform, type Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import busboy from 'busboy';
+import superjson from 'superjson';
+
+// Error carrying the HTTP status code a raw route should respond with
+export class HttpError extends Error {
+  constructor(public readonly statusCode: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Serialize with superjson so clients decode Dates the same way as tRPC responses
+export function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.statusCode = statusCode;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(superjson.stringify(body));
+}
+
+export function sendError(res: ServerResponse, statusCode: number, message: string): void {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  sendJson(res, statusCode, { error: message });
+}
+
+// Quoted ASCII fallback plus the RFC 5987 UTF-8 form, so browsers keep non-ASCII names. Header
+// values must not carry anything outside printable ASCII, so the fallback replaces it.
+export function contentDisposition(type: 'attachment' | 'inline', filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+export interface ReceiveSingleFileOptions {
+  accept: (mimeType: string) => boolean;
+  maxSize: number; // Bytes; larger files are rejected with 413
+  store: (info: busboy.FileInfo) => Promise<string>; // Where to write the file
+}
+
+export interface ReceivedFile {
+  path: string;
+  filename: string; // As named by the client
+  mimeType: string;
+  size: number;
+  sha256: string;
+}
+
+// Receive a multipart/form-data body with one file in the "file" field, plus any text fields.
+// Other files are skipped. A rejected or failed upload leaves nothing behind where it was stored.
+export function receiveSingleFile(
+  req: IncomingMessage,
+  options: ReceiveSingleFileOptions
+): Promise<{ fields: Record<string, string[]>; file: ReceivedFile }> {
+  return new Promise((resolve, reject) => {
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({ headers: req.headers, limits: { files: 1, fileSize: options.maxSize } });
+    } catch (error) {
+      reject(new HttpError(400, 'Expected a multipart/form-data request'));
+      return;
+    }
+
+    const fields: Record<string, string[]> = {};
+    let stored: Promise<ReceivedFile> | null = null;
+    let rejection: HttpError | null = null;
+
+    parser.on('field', (name, value) => {
+      (fields[name] ??= []).push(value);
+    });
+
+    parser.on('file', (field, stream, info) => {
+      if (field !== 'file' || stored || rejection) {
+        stream.resume();
+        return;
+      }
+      if (!options.accept(info.mimeType)) {
+        rejection = new HttpError(415, `Unsupported file type: ${info.mimeType}`);
+        stream.resume();
+        return;
+      }
+      stored = storeFileStream(stream, info, options);
+      // Errors are surfaced once the whole request has been consumed
+      stored.catch(() => {});
+    });
+
+    parser.on('close', () => {
+      if (rejection) {
+        reject(rejection);
+      } else if (!stored) {
+        reject(new HttpError(400, 'No file provided in the "file" field'));
+      } else {
+        stored.then((file) => resolve({ fields, file }), reject);
+      }
+    });
+
+    parser.on('error', (error) => {
+      reject(new HttpError(400, `Malformed multipart body: ${(error as Error).message}`));
+    });
+
+    req.pipe(parser);
+  });
+}
+
+async function storeFileStream(
+  stream: Readable & { truncated?: boolean },
+  info: busboy.FileInfo,
+  options: ReceiveSingleFileOptions
+): Promise<ReceivedFile> {
+  // A stream nobody reads would stall the parser, so drain it if there is nowhere to write it
+  let filePath: string;
+  try {
+    filePath = await options.store(info);
+  } catch (error) {
+    stream.resume();
+    throw error;
+  }
+
+  let size = 0;
+  const hash = createHash('sha256');
+  const digester = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      hash.update(chunk);
+      callback(null, chunk);
+    }
+  });
+
+  try {
+    await pipeline(stream, digester, createWriteStream(filePath));
+  } catch (error) {
+    await unlink(filePath).catch(() => {});
+    throw error;
+  }
+
+  if (stream.truncated) {
+    await unlink(filePath).catch(() => {});
+    throw new HttpError(413, `File exceeds the maximum upload size of ${options.maxSize} bytes`);
+  }
+
+  if (size === 0) {
+    await unlink(filePath).catch(() => {});
+    throw new HttpError(400, 'Uploaded file is empty');
+  }
+
+  return { path: filePath, filename: info.filename, mimeType: info.mimeType, size, sha256: hash.digest('hex') };
+}
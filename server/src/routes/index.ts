@@ -0,0 +1,65 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { HttpError, sendError } from './http';
+import { uploadVideo } from './upload_video';
+import { uploadChunk } from './upload_chunk';
+import { downloadSubtitles } from './download_subtitles';
+import { downloadFinalVideo } from './download_final_video';
+import { streamVideo } from './stream_video';
+import { streamGeneratedAudio } from './stream_generated_audio';
+import { streamVoicePreview } from './stream_voice_preview';
+import { uploadVoiceConsent } from './upload_voice_consent';
+import { downloadVoiceConsent } from './download_voice_consent';
+import { verifyWatermarkUpload } from './verify_watermark';
+
+type RouteHandler = (req: IncomingMessage, res: ServerResponse, params: string[]) => Promise<void>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+// Plain HTTP routes served next to tRPC, for payloads that are not JSON (file uploads, downloads)
+const routes: Route[] = [
+  { method: 'POST', pattern: /^\/upload\/video$/, handler: uploadVideo },
+  { method: 'PUT', pattern: /^\/upload\/sessions\/([0-9a-f-]{36})\/chunks$/, handler: uploadChunk },
+  { method: 'GET', pattern: /^\/translation-jobs\/(\d+)\/subtitles\.(srt|vtt|ttml)$/, handler: downloadSubtitles },
+  { method: 'GET', pattern: /^\/final-outputs\/(\d+)\/video$/, handler: downloadFinalVideo },
+  { method: 'HEAD', pattern: /^\/final-outputs\/(\d+)\/video$/, handler: downloadFinalVideo },
+  { method: 'GET', pattern: /^\/videos\/(\d+)\/media$/, handler: streamVideo },
+  { method: 'HEAD', pattern: /^\/videos\/(\d+)\/media$/, handler: streamVideo },
+  { method: 'GET', pattern: /^\/audio-generation-jobs\/(\d+)\/audio$/, handler: streamGeneratedAudio },
+  { method: 'HEAD', pattern: /^\/audio-generation-jobs\/(\d+)\/audio$/, handler: streamGeneratedAudio },
+  { method: 'GET', pattern: /^\/voice-profiles\/(\d+)\/preview$/, handler: streamVoicePreview },
+  { method: 'HEAD', pattern: /^\/voice-profiles\/(\d+)\/preview$/, handler: streamVoicePreview },
+  { method: 'POST', pattern: /^\/voice-consents$/, handler: uploadVoiceConsent },
+  { method: 'GET', pattern: /^\/voice-consents\/(\d+)\/artifact$/, handler: downloadVoiceConsent },
+  { method: 'HEAD', pattern: /^\/voice-consents\/(\d+)\/artifact$/, handler: downloadVoiceConsent },
+  { method: 'POST', pattern: /^\/watermarks\/verify$/, handler: verifyWatermarkUpload },
+];
+
+// Returns false when no route matches so the request can fall through to tRPC
+export async function handleHttpRoute(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+  for (const route of routes) {
+    const match = route.pattern.exec(pathname);
+    if (!match || req.method !== route.method) {
+      continue;
+    }
+
+    try {
+      await route.handler(req, res, match.slice(1));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendError(res, error.statusCode, error.message);
+      } else {
+        console.error(`HTTP route ${req.method} ${pathname} failed:`, error);
+        sendError(res, 500, 'Internal server error');
+      }
+    }
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,100 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { pipeline } from 'node:stream/promises';
+import path from 'node:path';
+import { getContentType, getStorageRoot } from '../storage';
+import { HttpError, contentDisposition } from './http';
+
+export interface SendFileOptions {
+  filename: string; // Offered to the browser, not the name on disk
+  disposition: 'attachment' | 'inline';
+}
+
+interface ByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+// Parse a single-range `Range: bytes=...` header. Returns undefined when the header should be
+// ignored (absent, other units, several ranges) and null when no byte of the file is covered.
+export function parseRange(header: string | undefined, size: number): ByteRange | null | undefined {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return undefined;
+  }
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const length = Number(match[2]);
+    return length === 0 || size === 0 ? null : { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  if (start >= size || end < start) {
+    return null;
+  }
+  return { start, end };
+}
+
+// Stream a stored file with ETag revalidation and Range support (seeking in players, resumed downloads).
+// Paths come from the database; anything outside the storage root is answered as missing.
+export async function sendFile(req: IncomingMessage, res: ServerResponse, storedPath: string, options: SendFileOptions): Promise<void> {
+  const filePath = path.resolve(storedPath);
+  const relative = path.relative(getStorageRoot(), filePath);
+  if (relative === '' || relative.split(path.sep)[0] === '..' || path.isAbsolute(relative)) {
+    throw new HttpError(404, `File for ${options.filename} is missing from storage`);
+  }
+
+  const stats = await stat(filePath).catch(() => null);
+  if (!stats?.isFile()) {
+    throw new HttpError(404, `File for ${options.filename} is missing from storage`);
+  }
+
+  const etag = `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', stats.mtime.toUTCString());
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Content-Type', getContentType(filePath));
+  res.setHeader('Content-Disposition', contentDisposition(options.disposition, options.filename));
+
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch && ifNoneMatch.split(',').some((tag) => tag.trim() === etag || tag.trim() === '*')) {
+    res.statusCode = 304;
+    res.end();
+    return;
+  }
+
+  // A stale If-Range means the client's partial copy is outdated: send the whole file
+  const ifRange = req.headers['if-range'];
+  const range = ifRange && ifRange !== etag ? undefined : parseRange(req.headers.range, stats.size);
+
+  if (range === null) {
+    res.statusCode = 416;
+    res.setHeader('Content-Range', `bytes */${stats.size}`);
+    res.end();
+    return;
+  }
+
+  const { start, end } = range ?? { start: 0, end: stats.size - 1 };
+  res.statusCode = range ? 206 : 200;
+  if (range) {
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${stats.size}`);
+  }
+  res.setHeader('Content-Length', Math.max(0, end - start + 1));
+
+  if (req.method === 'HEAD' || stats.size === 0) {
+    res.end();
+    return;
+  }
+
+  try {
+    await pipeline(createReadStream(filePath, { start, end }), res);
+  } catch (error) {
+    // Players routinely abort a range request when seeking; that is not a server error
+    if (!res.destroyed) {
+      throw error;
+    }
+  }
+}
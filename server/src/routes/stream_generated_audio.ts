@@ -0,0 +1,33 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import path from 'node:path';
+import { db } from '../db';
+import { audioGenerationJobsTable, translationJobsTable, videosTable } from '../db/schema';
+import { HttpError } from './http';
+import { sendFile } from './send_file';
+import { eq } from 'drizzle-orm';
+
+// GET|HEAD /audio-generation-jobs/:id/audio - the dubbed audio track, for in-browser playback
+export async function streamGeneratedAudio(req: IncomingMessage, res: ServerResponse, [jobId]: string[]): Promise<void> {
+  const rows = await db.select({
+    generated_audio_path: audioGenerationJobsTable.generated_audio_path,
+    original_filename: videosTable.original_filename,
+    target_language: translationJobsTable.target_language
+  })
+    .from(audioGenerationJobsTable)
+    .innerJoin(translationJobsTable, eq(audioGenerationJobsTable.translation_job_id, translationJobsTable.id))
+    .innerJoin(videosTable, eq(translationJobsTable.video_id, videosTable.id))
+    .where(eq(audioGenerationJobsTable.id, Number(jobId)))
+    .execute();
+
+  if (rows.length === 0) {
+    throw new HttpError(404, `Audio generation job ${jobId} not found`);
+  }
+
+  const { generated_audio_path, original_filename, target_language } = rows[0];
+  if (!generated_audio_path) {
+    throw new HttpError(409, `Audio generation job ${jobId} has no generated audio yet`);
+  }
+
+  const filename = `${path.parse(original_filename).name}.${target_language}${path.extname(generated_audio_path)}`;
+  await sendFile(req, res, generated_audio_path, { filename, disposition: 'inline' });
+}
@@ -0,0 +1,20 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { db } from '../db';
+import { videosTable } from '../db/schema';
+import { HttpError } from './http';
+import { sendFile } from './send_file';
+import { eq } from 'drizzle-orm';
+
+// GET|HEAD /videos/:id/media - the uploaded video, for in-browser playback
+export async function streamVideo(req: IncomingMessage, res: ServerResponse, [videoId]: string[]): Promise<void> {
+  const videos = await db.select({ file_path: videosTable.file_path, original_filename: videosTable.original_filename })
+    .from(videosTable)
+    .where(eq(videosTable.id, Number(videoId)))
+    .execute();
+
+  if (videos.length === 0) {
+    throw new HttpError(404, `Video ${videoId} not found`);
+  }
+
+  await sendFile(req, res, videos[0].file_path, { filename: videos[0].original_filename, disposition: 'inline' });
+}
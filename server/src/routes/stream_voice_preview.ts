@@ -0,0 +1,16 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import path from 'node:path';
+import { getVoiceProfileById } from '../handlers/get_voice_profile_by_id';
+import { HttpError } from './http';
+import { sendFile } from './send_file';
+
+// GET|HEAD /voice-profiles/:id/preview - a sample sentence spoken in the profile's voice
+export async function streamVoicePreview(req: IncomingMessage, res: ServerResponse, [profileId]: string[]): Promise<void> {
+  const profile = await getVoiceProfileById(Number(profileId));
+  if (!profile) {
+    throw new HttpError(404, `Voice profile ${profileId} not found`);
+  }
+
+  const filename = `${profile.name}.preview${path.extname(profile.preview_audio_path)}`;
+  await sendFile(req, res, profile.preview_audio_path, { filename, disposition: 'inline' });
+}
@@ -0,0 +1,92 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { createHash } from 'node:crypto';
+import { open } from 'node:fs/promises';
+import { db } from '../db';
+import { uploadSessionsTable } from '../db/schema';
+import { getUploadSession } from '../handlers/get_upload_session';
+import { HttpError, sendJson } from './http';
+import { and, eq } from 'drizzle-orm';
+
+// PUT /upload/sessions/:id/chunks?offset=<bytes> - raw chunk body, SHA-256 of the chunk in X-Chunk-Sha256
+export async function uploadChunk(req: IncomingMessage, res: ServerResponse, [sessionId]: string[]): Promise<void> {
+  const offset = Number(new URL(req.url ?? '/', 'http://localhost').searchParams.get('offset'));
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new HttpError(400, 'Query parameter "offset" must be a non-negative integer');
+  }
+
+  const session = await getUploadSession(sessionId);
+  if (!session) {
+    throw new HttpError(404, `Upload session ${sessionId} not found`);
+  }
+  if (session.status !== 'receiving') {
+    throw new HttpError(409, `Upload session is no longer receiving chunks (status: ${session.status})`);
+  }
+  if (offset % session.chunk_size !== 0 || offset >= session.total_size) {
+    throw new HttpError(400, `Offset ${offset} is not a chunk boundary of this upload`);
+  }
+  if (offset > session.received_bytes) {
+    // A gap would corrupt the file; tell the client where to resume from
+    sendJson(res, 409, {
+      error: `Expected chunk at offset ${session.received_bytes}, got ${offset}`,
+      received_bytes: session.received_bytes
+    });
+    return;
+  }
+
+  const expectedLength = Math.min(session.chunk_size, session.total_size - offset);
+  const chunk = await readBody(req, expectedLength);
+  if (chunk.length !== expectedLength) {
+    throw new HttpError(400, `Chunk at offset ${offset} must be ${expectedLength} bytes, got ${chunk.length}`);
+  }
+
+  const checksum = req.headers['x-chunk-sha256'];
+  if (typeof checksum !== 'string' || createHash('sha256').update(chunk).digest('hex') !== checksum.toLowerCase()) {
+    throw new HttpError(422, `Checksum mismatch for chunk at offset ${offset}`);
+  }
+
+  // Chunks below received_bytes are retries of data already stored
+  if (offset < session.received_bytes) {
+    sendJson(res, 200, session);
+    return;
+  }
+
+  // Positional writes keep retried chunks idempotent
+  const file = await open(session.temp_path, 'r+');
+  try {
+    await file.write(chunk, 0, chunk.length, offset);
+  } finally {
+    await file.close();
+  }
+
+  const updated = await db.update(uploadSessionsTable)
+    .set({ received_bytes: offset + chunk.length, updated_at: new Date() })
+    .where(and(
+      eq(uploadSessionsTable.id, session.id),
+      eq(uploadSessionsTable.received_bytes, offset)
+    ))
+    .returning()
+    .execute();
+
+  // A concurrent request already recorded this chunk
+  sendJson(res, 200, updated.length > 0 ? updated[0] : await getUploadSession(session.id));
+}
+
+function readBody(req: IncomingMessage, maxLength: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const parts: Buffer[] = [];
+    let length = 0;
+
+    req.on('data', (part: Buffer) => {
+      length += part.length;
+      if (length > maxLength) {
+        req.removeAllListeners('data');
+        req.resume();
+        reject(new HttpError(413, `Chunk exceeds the expected size of ${maxLength} bytes`));
+        return;
+      }
+      parts.push(part);
+    });
+    req.on('end', () => resolve(Buffer.concat(parts)));
+    req.on('error', reject);
+  });
+}
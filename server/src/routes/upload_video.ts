@@ -0,0 +1,44 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { unlink } from 'node:fs/promises';
+import path from 'node:path';
+import { db } from '../db';
+import { videosTable } from '../db/schema';
+import { createVideo } from '../handlers/create_video';
+import { probeVideo } from '../handlers/probe_video';
+import { ensureStorageDir, generateStorageFilename, getFileExtension } from '../storage';
+import { getMaxUploadSize } from '../storage/upload_limits';
+import { receiveSingleFile, sendJson } from './http';
+import { eq } from 'drizzle-orm';
+
+// POST /upload/video - multipart/form-data with the video in the "file" field
+export async function uploadVideo(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const { file } = await receiveSingleFile(req, {
+    accept: (mimeType) => mimeType.startsWith('video/'),
+    maxSize: getMaxUploadSize(),
+    store: async (info) => path.join(await ensureStorageDir('videos'), generateStorageFilename('video', getFileExtension(info.filename, info.mimeType)))
+  });
+
+  let videoId: number | undefined;
+  try {
+    const video = await createVideo({
+      filename: path.basename(file.path),
+      original_filename: file.filename,
+      file_size: file.size,
+      duration: null, // Filled in once the file has been probed
+      format: getFileExtension(file.filename, file.mimeType)
+    }, file.path);
+    videoId = video.id;
+
+    // The file is stored either way; a failed probe is reported through upload_status and error_message
+    const probedVideo = await probeVideo(video.id);
+
+    sendJson(res, 201, probedVideo);
+  } catch (error) {
+    // Neither the file nor a row pointing at it outlives a failed upload
+    if (videoId !== undefined) {
+      await db.delete(videosTable).where(eq(videosTable.id, videoId)).execute().catch(() => {});
+    }
+    await unlink(file.path).catch(() => {});
+    throw error;
+  }
+}
@@ -0,0 +1,44 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { unlink } from 'node:fs/promises';
+import path from 'node:path';
+import { createVoiceConsentInputSchema } from '../schema';
+import { VoiceConsentError, createVoiceConsent } from '../handlers/create_voice_consent';
+import { ensureStorageDir, generateStorageFilename, getFileExtension } from '../storage';
+import { getMaxConsentArtifactSize } from '../storage/upload_limits';
+import { HttpError, receiveSingleFile, sendJson } from './http';
+
+// Scanned or digitally signed forms
+const ARTIFACT_TYPES = ['application/pdf', 'image/png', 'image/jpeg'];
+
+// POST /voice-consents - multipart/form-data with the signed form in the "file" field and the
+// consent details as fields; repeat "scope_languages" once per language, or omit it for any
+export async function uploadVoiceConsent(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const { fields, file } = await receiveSingleFile(req, {
+    accept: (mimeType) => ARTIFACT_TYPES.includes(mimeType),
+    maxSize: getMaxConsentArtifactSize(),
+    store: async (info) => path.join(await ensureStorageDir('consents'), generateStorageFilename('consent', getFileExtension(info.filename, info.mimeType)))
+  });
+  const artifact = { path: file.path, filename: file.filename, sha256: file.sha256 };
+
+  try {
+    const input = createVoiceConsentInputSchema.safeParse({
+      voice_profile_id: fields['voice_profile_id']?.[0],
+      video_id: fields['video_id']?.[0],
+      consented_by: fields['consented_by']?.[0],
+      scope_languages: fields['scope_languages'] ?? [],
+      expires_at: fields['expires_at']?.[0]
+    });
+    if (!input.success) {
+      throw new HttpError(400, input.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+    }
+
+    const consent = await createVoiceConsent(input.data, artifact);
+    sendJson(res, 201, consent);
+  } catch (error) {
+    await unlink(artifact.path).catch(() => {});
+    if (error instanceof VoiceConsentError) {
+      throw new HttpError(422, error.message);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,24 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { verifyWatermark } from '../handlers/verify_watermark';
+import { getFileExtension } from '../storage';
+import { getMaxUploadSize } from '../storage/upload_limits';
+import { receiveSingleFile, sendJson } from './http';
+
+// POST /watermarks/verify - multipart/form-data with an audio or video file in the "file" field.
+// The file is only inspected, never kept.
+export async function verifyWatermarkUpload(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const workDir = await mkdtemp(path.join(tmpdir(), 'watermark-upload-'));
+  try {
+    const { file } = await receiveSingleFile(req, {
+      accept: (mimeType) => mimeType.startsWith('audio/') || mimeType.startsWith('video/'),
+      maxSize: getMaxUploadSize(),
+      store: async (info) => path.join(workDir, `sample.${getFileExtension(info.filename, info.mimeType)}`)
+    });
+    sendJson(res, 200, await verifyWatermark(file.path));
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
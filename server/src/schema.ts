@@ -2,12 +2,33 @@ import { z } from 'zod';
 
 // Enum schemas for status tracking
 export const uploadStatusSchema = z.enum(['pending', 'uploaded', 'processing', 'failed']);
-export const translationStatusSchema = z.enum(['pending', 'extracting_audio', 'translating', 'completed', 'failed']);
-export const audioGenerationStatusSchema = z.enum(['pending', 'generating', 'completed', 'failed']);
+export const translationStatusSchema = z.enum(['pending', 'extracting_audio', 'translating', 'completed', 'failed', 'cancelled']);
+export const audioGenerationStatusSchema = z.enum(['pending', 'generating', 'completed', 'failed', 'cancelled']);
+export const uploadSessionStatusSchema = z.enum(['receiving', 'completed', 'failed']);
+export const subtitleFormatSchema = z.enum(['srt', 'vtt', 'ttml']);
+export const subtitleTextSchema = z.enum(['translated', 'source']); // Which side of the transcript to render
+export const subtitleImportFormatSchema = z.enum(['srt', 'vtt']);
+export const transcriptSourceSchema = z.enum(['speech_recognition', 'subtitles']);
+export const finalOutputKindSchema = z.enum(['single_language', 'multi_track']);
+export const multiTrackStatusSchema = z.enum(['pending', 'rendering', 'completed', 'failed', 'cancelled']);
+export const jobStageSchema = z.enum(['extracting_audio', 'translating', 'generating', 'rendering']);
+export const jobAttemptOutcomeSchema = z.enum(['succeeded', 'failed', 'cancelled']);
+// Only transient errors are retried automatically; input errors need the job's input fixed first
+export const errorClassSchema = z.enum(['transient', 'permanent', 'input']);
 
 export type UploadStatus = z.infer<typeof uploadStatusSchema>;
 export type TranslationStatus = z.infer<typeof translationStatusSchema>;
 export type AudioGenerationStatus = z.infer<typeof audioGenerationStatusSchema>;
+export type UploadSessionStatus = z.infer<typeof uploadSessionStatusSchema>;
+export type SubtitleFormat = z.infer<typeof subtitleFormatSchema>;
+export type SubtitleText = z.infer<typeof subtitleTextSchema>;
+export type SubtitleImportFormat = z.infer<typeof subtitleImportFormatSchema>;
+export type TranscriptSource = z.infer<typeof transcriptSourceSchema>;
+export type FinalOutputKind = z.infer<typeof finalOutputKindSchema>;
+export type MultiTrackStatus = z.infer<typeof multiTrackStatusSchema>;
+export type JobStage = z.infer<typeof jobStageSchema>;
+export type JobAttemptOutcome = z.infer<typeof jobAttemptOutcomeSchema>;
+export type ErrorClass = z.infer<typeof errorClassSchema>;
 
 // Supported languages enum
 export const languageSchema = z.enum([
@@ -24,13 +45,48 @@ export const videoSchema = z.object({
   file_size: z.number().int(),
   duration: z.number().nullable(), // Duration in seconds
   format: z.string(), // Video format (mp4, avi, etc.)
+  container_format: z.string().nullable(),
+  video_codec: z.string().nullable(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  frame_rate: z.number().nullable(),
+  audio_track_count: z.number().int().nullable(),
+  audio_sample_rate: z.number().int().nullable(),
+  audio_channels: z.number().int().nullable(),
   upload_status: uploadStatusSchema,
+  error_message: z.string().nullable(),
   uploaded_at: z.coerce.date(),
   created_at: z.coerce.date()
 });
 
 export type Video = z.infer<typeof videoSchema>;
 
+// Upload session schema (chunked, resumable uploads)
+export const uploadSessionSchema = z.object({
+  id: z.string().uuid(),
+  original_filename: z.string(),
+  mime_type: z.string(),
+  total_size: z.number().int(),
+  chunk_size: z.number().int(),
+  received_bytes: z.number().int(),
+  temp_path: z.string(),
+  status: uploadSessionStatusSchema,
+  video_id: z.number().nullable(),
+  error_message: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type UploadSession = z.infer<typeof uploadSessionSchema>;
+
+// Forced translation of a term, e.g. a brand or product name
+export const glossaryEntrySchema = z.object({
+  source_term: z.string().trim().min(1),
+  target_term: z.string().trim().min(1)
+});
+
+export type GlossaryEntry = z.infer<typeof glossaryEntrySchema>;
+
 // Translation job schema
 export const translationJobSchema = z.object({
   id: z.number(),
@@ -38,9 +94,17 @@ export const translationJobSchema = z.object({
   source_language: languageSchema,
   target_language: languageSchema,
   status: translationStatusSchema,
+  transcript_source: transcriptSourceSchema,
+  transcript_job_id: z.number().nullable(),
   original_audio_path: z.string().nullable(),
+  vocals_audio_path: z.string().nullable(),
+  background_audio_path: z.string().nullable(),
   translated_text: z.string().nullable(),
+  translation_provider: z.string().nullable(),
+  glossary: z.array(glossaryEntrySchema),
   error_message: z.string().nullable(),
+  attempt_count: z.number().int(),
+  next_attempt_at: z.coerce.date().nullable(),
   started_at: z.coerce.date().nullable(),
   completed_at: z.coerce.date().nullable(),
   created_at: z.coerce.date()
@@ -48,6 +112,82 @@ export const translationJobSchema = z.object({
 
 export type TranslationJob = z.infer<typeof translationJobSchema>;
 
+// Transcript segment schema
+export const transcriptSegmentSchema = z.object({
+  id: z.number(),
+  translation_job_id: z.number(),
+  segment_index: z.number().int(),
+  start_ms: z.number().int(),
+  end_ms: z.number().int(),
+  speaker: z.string().nullable(),
+  source_text: z.string(),
+  translated_text: z.string().nullable(),
+  confidence: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type TranscriptSegment = z.infer<typeof transcriptSegmentSchema>;
+
+// Speaker labels come from diarization or imported subtitles, and can be renamed by users
+export const speakerLabelSchema = z.string().trim().min(1).max(100);
+
+// Voice a speaker is dubbed in, overriding the job-level voice for that speaker's segments
+export const speakerVoiceSchema = z.object({
+  speaker: speakerLabelSchema,
+  voice_cloned: z.boolean(), // Cloned from this speaker's own speech only
+  voice_id: z.string().trim().min(1).optional() // Stock voice when not cloning; provider default otherwise
+}).refine((voice) => !voice.voice_cloned || voice.voice_id === undefined, {
+  message: 'A stock voice_id cannot be combined with voice cloning',
+  path: ['voice_id']
+});
+
+export type SpeakerVoice = z.infer<typeof speakerVoiceSchema>;
+
+export const speakerVoicesSchema = z.array(speakerVoiceSchema).max(100)
+  .refine((voices) => new Set(voices.map((voice) => voice.speaker)).size === voices.length, 'Each speaker can only be assigned one voice');
+
+// Stretch of a video's soundtrack in which the speaker to clone talks
+export const voiceProfileClipSchema = z.object({
+  video_id: z.number(),
+  start_ms: z.number().int().nonnegative(),
+  end_ms: z.number().int().positive()
+}).refine((clip) => clip.end_ms > clip.start_ms, { message: 'A clip must end after it starts', path: ['end_ms'] });
+
+export type VoiceProfileClip = z.infer<typeof voiceProfileClipSchema>;
+
+// Voice profile schema
+export const voiceProfileSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  clips: z.array(voiceProfileClipSchema),
+  source_video_ids: z.array(z.number()),
+  reference_audio_path: z.string(),
+  tts_provider: z.string(),
+  provider_voice_id: z.string(),
+  preview_audio_path: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type VoiceProfile = z.infer<typeof voiceProfileSchema>;
+
+// Voice consent schema
+export const voiceConsentSchema = z.object({
+  id: z.number(),
+  voice_profile_id: z.number().nullable(),
+  video_id: z.number().nullable(),
+  consented_by: z.string(),
+  scope_languages: z.array(languageSchema),
+  expires_at: z.coerce.date(),
+  artifact_path: z.string(),
+  artifact_filename: z.string(),
+  artifact_sha256: z.string(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type VoiceConsent = z.infer<typeof voiceConsentSchema>;
+
 // Audio generation job schema
 export const audioGenerationJobSchema = z.object({
   id: z.number(),
@@ -55,7 +195,20 @@ export const audioGenerationJobSchema = z.object({
   status: audioGenerationStatusSchema,
   generated_audio_path: z.string().nullable(),
   voice_cloned: z.boolean(),
+  voice_profile_id: z.number().nullable(),
+  speaker_voices: z.array(speakerVoiceSchema),
+  preserve_background: z.boolean(),
+  ducking_db: z.number(),
+  audible_watermark: z.boolean(),
+  overrun_segment_count: z.number().int().nullable(),
+  max_overrun_ms: z.number().int().nullable(),
+  tts_provider: z.string().nullable(),
+  voice_id: z.string().nullable(),
+  watermark_provider: z.string().nullable(),
+  watermarked_at: z.coerce.date().nullable(),
   error_message: z.string().nullable(),
+  attempt_count: z.number().int(),
+  next_attempt_at: z.coerce.date().nullable(),
   started_at: z.coerce.date().nullable(),
   completed_at: z.coerce.date().nullable(),
   created_at: z.coerce.date()
@@ -63,23 +216,90 @@ export const audioGenerationJobSchema = z.object({
 
 export type AudioGenerationJob = z.infer<typeof audioGenerationJobSchema>;
 
+// What a watermark check found in a submitted audio file
+export const watermarkVerificationSchema = z.object({
+  watermarked: z.boolean(),
+  watermark_provider: z.string(),
+  audio_generation_job_id: z.number().nullable(),
+  watermarked_at: z.coerce.date().nullable(),
+  audio_generation_job: audioGenerationJobSchema.nullable(), // Null when the job no longer exists
+  matches_current_audio: z.boolean() // False for copies of audio the job has since regenerated
+});
+
+export type WatermarkVerification = z.infer<typeof watermarkVerificationSchema>;
+
+// Audio segment schema
+export const audioSegmentSchema = z.object({
+  id: z.number(),
+  audio_generation_job_id: z.number(),
+  transcript_segment_id: z.number(),
+  audio_path: z.string(),
+  duration_ms: z.number().int(),
+  voice_id: z.string().nullable(),
+  spoken_text: z.string().nullable(),
+  stretch_ratio: z.number(),
+  overrun_ms: z.number().int(),
+  stale: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type AudioSegment = z.infer<typeof audioSegmentSchema>;
+
 // Final output schema
 export const finalOutputSchema = z.object({
   id: z.number(),
   video_id: z.number(),
-  translation_job_id: z.number(),
-  audio_generation_job_id: z.number(),
+  kind: finalOutputKindSchema,
+  translation_job_id: z.number().nullable(), // Null for multi-track outputs
+  audio_generation_job_id: z.number().nullable(), // Null for multi-track outputs
   final_video_path: z.string(),
   created_at: z.coerce.date()
 });
 
 export type FinalOutput = z.infer<typeof finalOutputSchema>;
 
+// Final output track schema (one audio stream of a multi-track output)
+export const finalOutputTrackSchema = z.object({
+  id: z.number(),
+  final_output_id: z.number(),
+  audio_generation_job_id: z.number(),
+  track_index: z.number().int(),
+  language: languageSchema,
+  has_subtitles: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type FinalOutputTrack = z.infer<typeof finalOutputTrackSchema>;
+
+export const multiTrackOutputSchema = finalOutputSchema.extend({
+  tracks: z.array(finalOutputTrackSchema) // In stream order
+});
+
+export type MultiTrackOutput = z.infer<typeof multiTrackOutputSchema>;
+
+// A queued mux of several languages' dubs into one container, run by the job runner
+export const multiTrackJobSchema = z.object({
+  id: z.number(),
+  video_id: z.number(),
+  status: multiTrackStatusSchema,
+  audio_generation_job_ids: z.array(z.number()), // One per language, in stream order
+  include_subtitles: z.boolean(),
+  final_output_id: z.number().nullable(), // Set once rendered
+  error_message: z.string().nullable(),
+  attempt_count: z.number().int(),
+  next_attempt_at: z.coerce.date().nullable(),
+  started_at: z.coerce.date().nullable(),
+  completed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type MultiTrackJob = z.infer<typeof multiTrackJobSchema>;
+
 // Input schemas for creating records
+// No file path: the upload routes store the file and pass its path to the handler themselves
 export const createVideoInputSchema = z.object({
-  filename: z.string(),
+  filename: z.string(), // Name on disk in the videos storage area
   original_filename: z.string(),
-  file_path: z.string(),
   file_size: z.number().int().positive(),
   duration: z.number().positive().nullable(),
   format: z.string()
@@ -87,27 +307,106 @@ export const createVideoInputSchema = z.object({
 
 export type CreateVideoInput = z.infer<typeof createVideoInputSchema>;
 
+export const createUploadSessionInputSchema = z.object({
+  original_filename: z.string().min(1),
+  mime_type: z.string().startsWith('video/'),
+  total_size: z.number().int().positive()
+});
+
+export type CreateUploadSessionInput = z.infer<typeof createUploadSessionInputSchema>;
+
+export const completeUploadSessionInputSchema = z.object({
+  id: z.string().uuid(),
+  chunk_checksums: z.array(z.string().regex(/^[0-9a-f]{64}$/)) // SHA-256 hex digest of every chunk, in order
+});
+
+export type CompleteUploadSessionInput = z.infer<typeof completeUploadSessionInputSchema>;
+
 export const createTranslationJobInputSchema = z.object({
   video_id: z.number(),
   source_language: languageSchema,
-  target_language: languageSchema
+  target_language: languageSchema,
+  glossary: z.array(glossaryEntrySchema).max(500).default([]),
+  source_subtitles: z.object({ // Existing captions to use instead of speech recognition
+    format: subtitleImportFormatSchema,
+    content: z.string().min(1).max(5_000_000)
+  }).optional()
 });
 
 export type CreateTranslationJobInput = z.infer<typeof createTranslationJobInputSchema>;
 
+// One translation job plus one audio generation job per target language, all sharing one transcript
+export const createTranslationRequestInputSchema = createTranslationJobInputSchema
+  .omit({ target_language: true })
+  .extend({
+    target_languages: z.array(languageSchema).min(1).max(languageSchema.options.length)
+      .refine((languages) => new Set(languages).size === languages.length, 'Target languages must be unique'),
+    voice_cloned: z.boolean().default(false),
+    voice_id: z.string().trim().min(1).optional(),
+    voice_profile_id: z.number().optional(),
+    preserve_background: z.boolean().default(false),
+    ducking_db: z.number().min(0).max(60).default(12),
+    audible_watermark: z.boolean().default(false)
+  })
+  .refine((input) => !input.target_languages.includes(input.source_language), {
+    message: 'Target languages must differ from the source language',
+    path: ['target_languages']
+  });
+
+export type CreateTranslationRequestInput = z.infer<typeof createTranslationRequestInputSchema>;
+
 export const createAudioGenerationJobInputSchema = z.object({
   translation_job_id: z.number(),
-  voice_cloned: z.boolean().default(true)
+  voice_cloned: z.boolean().default(false),
+  voice_id: z.string().trim().min(1).optional(), // Stock voice to use when not cloning; provider default otherwise
+  voice_profile_id: z.number().optional(), // Cloned voice from the library instead of a clone from the video
+  speaker_voices: speakerVoicesSchema.default([]), // Per-speaker overrides of the voice above
+  // Separate the original soundtrack and keep its music and effects under the dub
+  preserve_background: z.boolean().default(false),
+  ducking_db: z.number().min(0).max(60).default(12), // Background attenuation while the dub speaks
+  // Every dub carries an inaudible mark; this adds a chime listeners can hear
+  audible_watermark: z.boolean().default(false)
 });
 
 export type CreateAudioGenerationJobInput = z.infer<typeof createAudioGenerationJobInputSchema>;
 
+export const createVoiceProfileInputSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  clips: z.array(voiceProfileClipSchema).min(1).max(50)
+});
+
+export type CreateVoiceProfileInput = z.infer<typeof createVoiceProfileInputSchema>;
+
+// Sent as multipart form fields next to the signed form, hence the coercion
+export const createVoiceConsentInputSchema = z.object({
+  voice_profile_id: z.coerce.number().int().positive().optional(),
+  video_id: z.coerce.number().int().positive().optional(),
+  consented_by: z.string().trim().min(1).max(200),
+  scope_languages: z.array(languageSchema)
+    .refine((languages) => new Set(languages).size === languages.length, 'Scope languages must be unique'),
+  expires_at: z.coerce.date()
+}).refine((input) => (input.voice_profile_id === undefined) !== (input.video_id === undefined), {
+  message: 'Consent covers exactly one of a voice profile or a video',
+  path: ['voice_profile_id']
+});
+
+export type CreateVoiceConsentInput = z.infer<typeof createVoiceConsentInputSchema>;
+
 // Update schemas
 export const updateVideoStatusInputSchema = z.object({
   id: z.number(),
   upload_status: uploadStatusSchema,
   duration: z.number().positive().optional(),
-  format: z.string().optional()
+  format: z.string().optional(),
+  container_format: z.string().nullable().optional(),
+  video_codec: z.string().nullable().optional(),
+  width: z.number().int().nullable().optional(),
+  height: z.number().int().nullable().optional(),
+  frame_rate: z.number().nullable().optional(),
+  audio_track_count: z.number().int().nullable().optional(),
+  audio_sample_rate: z.number().int().nullable().optional(),
+  audio_channels: z.number().int().nullable().optional(),
+  error_message: z.string().nullable().optional()
 });
 
 export type UpdateVideoStatusInput = z.infer<typeof updateVideoStatusInputSchema>;
@@ -116,25 +415,65 @@ export const updateTranslationJobInputSchema = z.object({
   id: z.number(),
   status: translationStatusSchema.optional(),
   original_audio_path: z.string().nullable().optional(),
+  vocals_audio_path: z.string().nullable().optional(),
+  background_audio_path: z.string().nullable().optional(),
   translated_text: z.string().nullable().optional(),
+  translation_provider: z.string().nullable().optional(),
   error_message: z.string().nullable().optional(),
+  next_attempt_at: z.coerce.date().nullable().optional(),
   started_at: z.coerce.date().nullable().optional(),
   completed_at: z.coerce.date().nullable().optional()
 });
 
 export type UpdateTranslationJobInput = z.infer<typeof updateTranslationJobInputSchema>;
 
+export const updateTranscriptSegmentInputSchema = z.object({
+  id: z.number(),
+  source_text: z.string().trim().min(1).optional(),
+  translated_text: z.string().trim().min(1).optional()
+});
+
+export type UpdateTranscriptSegmentInput = z.infer<typeof updateTranscriptSegmentInputSchema>;
+
+// New clips re-clone the voice
+export const updateVoiceProfileInputSchema = createVoiceProfileInputSchema.partial().extend({
+  id: z.number()
+});
+
+export type UpdateVoiceProfileInput = z.infer<typeof updateVoiceProfileInputSchema>;
+
+// Renaming a speaker to a label already in the transcript merges the two
+export const renameSpeakerInputSchema = z.object({
+  translation_job_id: z.number(),
+  speaker: speakerLabelSchema,
+  new_speaker: speakerLabelSchema
+});
+
+export type RenameSpeakerInput = z.infer<typeof renameSpeakerInputSchema>;
+
+export const setSpeakerVoicesInputSchema = z.object({
+  audio_generation_job_id: z.number(),
+  speaker_voices: speakerVoicesSchema
+});
+
+export type SetSpeakerVoicesInput = z.infer<typeof setSpeakerVoicesInputSchema>;
+
+// What the worker records about the dub it made (where it is, how it was made and marked, how well it
+// keeps sync) is written by the worker alone, so it stays trustworthy
 export const updateAudioGenerationJobInputSchema = z.object({
   id: z.number(),
   status: audioGenerationStatusSchema.optional(),
-  generated_audio_path: z.string().nullable().optional(),
+  voice_id: z.string().nullable().optional(),
   error_message: z.string().nullable().optional(),
+  next_attempt_at: z.coerce.date().nullable().optional(),
   started_at: z.coerce.date().nullable().optional(),
   completed_at: z.coerce.date().nullable().optional()
 });
 
 export type UpdateAudioGenerationJobInput = z.infer<typeof updateAudioGenerationJobInputSchema>;
 
+// Internal: the worker records the file it rendered. Not exposed through the API, so no client can
+// point an output at a file of its choosing.
 export const createFinalOutputInputSchema = z.object({
   video_id: z.number(),
   translation_job_id: z.number(),
@@ -144,6 +483,16 @@ export const createFinalOutputInputSchema = z.object({
 
 export type CreateFinalOutputInput = z.infer<typeof createFinalOutputInputSchema>;
 
+// One container holding the original picture once and one dubbed audio track per language
+export const createMultiTrackJobInputSchema = z.object({
+  video_id: z.number(),
+  // Defaults to the most recent completed audio generation job of every target language
+  audio_generation_job_ids: z.array(z.number()).min(1).optional(),
+  include_subtitles: z.boolean().default(true) // Add a translated subtitle track per language
+});
+
+export type CreateMultiTrackJobInput = z.infer<typeof createMultiTrackJobInputSchema>;
+
 // Query schemas for filtering and pagination
 export const getVideosQuerySchema = z.object({
   status: uploadStatusSchema.optional(),
@@ -160,4 +509,98 @@ export const getTranslationJobsQuerySchema = z.object({
   offset: z.number().int().nonnegative().default(0)
 });
 
-export type GetTranslationJobsQuery = z.infer<typeof getTranslationJobsQuerySchema>;
\ No newline at end of file
+export type GetTranslationJobsQuery = z.infer<typeof getTranslationJobsQuerySchema>;
+
+export const getTranscriptSegmentsPageQuerySchema = z.object({
+  translation_job_id: z.number(),
+  limit: z.number().int().positive().max(500).default(50),
+  offset: z.number().int().nonnegative().default(0)
+});
+
+export type GetTranscriptSegmentsPageQuery = z.infer<typeof getTranscriptSegmentsPageQuerySchema>;
+
+export const getVoiceConsentsQuerySchema = z.object({
+  voice_profile_id: z.number().optional(),
+  video_id: z.number().optional()
+});
+
+export type GetVoiceConsentsQuery = z.infer<typeof getVoiceConsentsQuerySchema>;
+
+export const transcriptSegmentPageSchema = z.object({
+  segments: z.array(transcriptSegmentSchema),
+  total: z.number().int(),
+  limit: z.number().int(),
+  offset: z.number().int()
+});
+
+export type TranscriptSegmentPage = z.infer<typeof transcriptSegmentPageSchema>;
+
+export const translationRequestSchema = z.object({
+  translation_jobs: z.array(translationJobSchema),
+  audio_generation_jobs: z.array(audioGenerationJobSchema) // None when the imported subtitles were rejected
+});
+
+export type TranslationRequest = z.infer<typeof translationRequestSchema>;
+
+export const exportSubtitlesInputSchema = z.object({
+  translation_job_id: z.number(),
+  format: subtitleFormatSchema,
+  text: subtitleTextSchema.default('translated')
+});
+
+export type ExportSubtitlesInput = z.infer<typeof exportSubtitlesInputSchema>;
+
+export const subtitleFileSchema = z.object({
+  filename: z.string(),
+  content_type: z.string(),
+  content: z.string()
+});
+
+export type SubtitleFile = z.infer<typeof subtitleFileSchema>;
+
+export const jobTypeSchema = z.enum(['translation', 'audio_generation', 'multi_track']);
+
+export type JobType = z.infer<typeof jobTypeSchema>;
+
+export const cancelJobInputSchema = z.object({
+  job_type: jobTypeSchema,
+  id: z.number()
+});
+
+export type CancelJobInput = z.infer<typeof cancelJobInputSchema>;
+
+// Every job a retry or cancellation moved, including those queued behind the one asked for
+export const jobStatusChangeSchema = z.object({
+  translation_jobs: z.array(translationJobSchema),
+  audio_generation_jobs: z.array(audioGenerationJobSchema),
+  multi_track_jobs: z.array(multiTrackJobSchema)
+});
+
+export type JobStatusChange = z.infer<typeof jobStatusChangeSchema>;
+
+export const getJobAttemptsInputSchema = z.object({
+  job_type: jobTypeSchema,
+  id: z.number()
+});
+
+export type GetJobAttemptsInput = z.infer<typeof getJobAttemptsInputSchema>;
+
+// One run of a job by the job runner
+export const jobAttemptSchema = z.object({
+  id: z.number(),
+  translation_job_id: z.number().nullable(),
+  audio_generation_job_id: z.number().nullable(),
+  multi_track_job_id: z.number().nullable(),
+  attempt: z.number().int(),
+  stage: jobStageSchema,
+  outcome: jobAttemptOutcomeSchema,
+  provider: z.string().nullable(),
+  error_message: z.string().nullable(),
+  error_class: errorClassSchema.nullable(),
+  retry_at: z.coerce.date().nullable(),
+  duration_ms: z.number().int(),
+  started_at: z.coerce.date(),
+  finished_at: z.coerce.date()
+});
+
+export type JobAttempt = z.infer<typeof jobAttemptSchema>;
@@ -0,0 +1,53 @@
+import path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { mkdir } from 'node:fs/promises';
+
+// Sub-directories of the storage root, one per kind of stored media
+export type StorageArea = 'videos' | 'uploads' | 'audio' | 'outputs' | 'voices' | 'consents';
+
+// Root directory for all stored media, configurable via STORAGE_DIR
+export function getStorageRoot(): string {
+  return path.resolve(process.env['STORAGE_DIR'] || './storage');
+}
+
+// Resolve (and create if needed) the directory for a storage area
+export async function ensureStorageDir(area: StorageArea): Promise<string> {
+  const dir = path.join(getStorageRoot(), area);
+  await mkdir(dir, { recursive: true });
+  return dir;
+}
+
+// Generate a collision-safe filename such as `video_1718000000000_a1b2c3d4.mp4`
+export function generateStorageFilename(prefix: string, extension: string): string {
+  const suffix = randomBytes(4).toString('hex');
+  return `${prefix}_${Date.now()}_${suffix}.${extension}`;
+}
+
+// Derive a lowercase file extension from an original filename, falling back to the MIME subtype
+export function getFileExtension(originalFilename: string, mimeType?: string): string {
+  const ext = path.extname(originalFilename).slice(1).toLowerCase();
+  if (ext) {
+    return ext;
+  }
+  const subtype = mimeType?.split('/')[1];
+  return subtype ? subtype.toLowerCase() : 'bin';
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  avi: 'video/x-msvideo',
+  wav: 'audio/wav',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg'
+};
+
+// MIME type to serve a stored file with, from its extension
+export function getContentType(filePath: string): string {
+  return CONTENT_TYPES[path.extname(filePath).slice(1).toLowerCase()] ?? 'application/octet-stream';
+}
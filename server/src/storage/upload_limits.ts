@@ -0,0 +1,23 @@
+import { readPositiveInt } from '../env';
+
+const MB = 1024 * 1024;
+
+// Largest file accepted by the single-request multipart upload route
+export function getMaxUploadSize(): number {
+  return readPositiveInt('MAX_UPLOAD_SIZE', 100 * MB);
+}
+
+// Largest file accepted through a chunked upload session
+export function getMaxChunkedUploadSize(): number {
+  return readPositiveInt('MAX_CHUNKED_UPLOAD_SIZE', 20 * 1024 * MB);
+}
+
+// Size of every chunk but the last; kept below the reverse proxy's request body limit
+export function getUploadChunkSize(): number {
+  return readPositiveInt('UPLOAD_CHUNK_SIZE', 8 * MB);
+}
+
+// Largest signed consent form accepted alongside a voice consent record
+export function getMaxConsentArtifactSize(): number {
+  return readPositiveInt('MAX_CONSENT_ARTIFACT_SIZE', 20 * MB);
+}
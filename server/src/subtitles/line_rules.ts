@@ -0,0 +1,66 @@
+import { type Language } from '../schema';
+
+export interface LineRules {
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+  breakAnywhere: boolean; // Scripts written without spaces may wrap between any two characters
+}
+
+// Common broadcast limits: 42 characters for alphabetic scripts, far fewer for full-width CJK characters
+const DEFAULT_RULES: LineRules = { maxCharsPerLine: 42, maxLinesPerCue: 2, breakAnywhere: false };
+
+const LANGUAGE_RULES: Partial<Record<Language, LineRules>> = {
+  zh: { maxCharsPerLine: 16, maxLinesPerCue: 2, breakAnywhere: true },
+  ja: { maxCharsPerLine: 16, maxLinesPerCue: 2, breakAnywhere: true },
+  ko: { maxCharsPerLine: 20, maxLinesPerCue: 2, breakAnywhere: false }
+};
+
+export function getLineRules(language: Language): LineRules {
+  return LANGUAGE_RULES[language] ?? DEFAULT_RULES;
+}
+
+// Greedy wrap to at most maxCharsPerLine characters per line. Words longer than a line are split.
+export function wrapText(text: string, rules: LineRules): string[] {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (!normalized) {
+    return [];
+  }
+
+  const max = rules.maxCharsPerLine;
+  const lines: string[] = [];
+
+  if (rules.breakAnywhere) {
+    let line = '';
+    for (const char of normalized) {
+      if (line.length >= max) {
+        lines.push(line.trim());
+        line = '';
+      }
+      line += char;
+    }
+    lines.push(line.trim());
+    return lines.filter((wrapped) => wrapped.length > 0);
+  }
+
+  let line = '';
+  for (const word of normalized.split(' ')) {
+    // Hard-split words that cannot fit on any line
+    const chars = Array.from(word);
+    const pieces: string[] = [];
+    for (let i = 0; i < chars.length; i += max) {
+      pieces.push(chars.slice(i, i + max).join(''));
+    }
+
+    for (const piece of pieces) {
+      const candidate = line ? `${line} ${piece}` : piece;
+      if (Array.from(candidate).length <= max) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = piece;
+      }
+    }
+  }
+  lines.push(line);
+  return lines;
+}
@@ -0,0 +1,167 @@
+import { type SubtitleImportFormat } from '../schema';
+
+export interface ParsedCue {
+  startMs: number;
+  endMs: number;
+  text: string;
+  speaker: string | null; // From WebVTT <v Name> voice spans
+}
+
+// Malformed subtitle file; `line` is 1-based in the original file
+export class SubtitleParseError extends Error {
+  constructor(public readonly line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'SubtitleParseError';
+  }
+}
+
+interface Line {
+  number: number;
+  text: string;
+}
+
+const TIMING_ARROW = '-->';
+
+// SRT: HH:MM:SS,mmm (a '.' separator is tolerated, many tools emit it)
+const SRT_TIMESTAMP = /^(\d{1,3}):([0-5]\d):([0-5]\d)[,.](\d{3})$/;
+
+// WebVTT: [HH:]MM:SS.mmm
+const VTT_TIMESTAMP = /^(?:(\d{1,3}):)?([0-5]\d):([0-5]\d)\.(\d{3})$/;
+
+export function parseSubtitles(content: string, format: SubtitleImportFormat): ParsedCue[] {
+  const lines = content
+    .replace(/^\uFEFF/, '') // Byte order mark
+    .split(/\r\n|\r|\n/)
+    .map((text, index) => ({ number: index + 1, text }));
+
+  const cues = format === 'srt' ? parseSrt(lines) : parseWebVtt(lines);
+  if (cues.length === 0) {
+    throw new SubtitleParseError(1, 'file contains no cues');
+  }
+  return cues.sort((a, b) => a.startMs - b.startMs);
+}
+
+// Split into runs of non-blank lines
+function blocks(lines: Line[]): Line[][] {
+  const result: Line[][] = [];
+  let current: Line[] = [];
+  for (const line of lines) {
+    if (line.text.trim() === '') {
+      if (current.length > 0) {
+        result.push(current);
+        current = [];
+      }
+    } else {
+      current.push(line);
+    }
+  }
+  if (current.length > 0) {
+    result.push(current);
+  }
+  return result;
+}
+
+function parseTimestamp(value: string, pattern: RegExp): number | null {
+  const match = pattern.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, millis] = match;
+  return Number(hours ?? 0) * 3_600_000 + Number(minutes) * 60_000 + Number(seconds) * 1000 + Number(millis);
+}
+
+function parseTiming(line: Line, pattern: RegExp): { startMs: number; endMs: number } {
+  const [start, rest] = line.text.split(TIMING_ARROW).map((part) => part.trim());
+  // WebVTT cue settings follow the end timestamp
+  const end = rest?.split(/\s+/)[0];
+
+  const startMs = start === undefined ? null : parseTimestamp(start, pattern);
+  const endMs = end === undefined ? null : parseTimestamp(end, pattern);
+  if (startMs === null || endMs === null) {
+    throw new SubtitleParseError(line.number, `invalid cue timing "${line.text.trim()}"`);
+  }
+  if (endMs <= startMs) {
+    throw new SubtitleParseError(line.number, `cue ends before it starts "${line.text.trim()}"`);
+  }
+  return { startMs, endMs };
+}
+
+function cueText(textLines: Line[], timingLine: Line): string {
+  const text = textLines.map((line) => line.text.trim()).join(' ').trim();
+  if (!text) {
+    throw new SubtitleParseError(timingLine.number, 'cue has no text');
+  }
+  return text;
+}
+
+function parseSrt(lines: Line[]): ParsedCue[] {
+  return blocks(lines).map((block) => {
+    const [first, ...rest] = block;
+    // The cue number is optional in practice; accept blocks that start with the timing line
+    const hasNumber = !first.text.includes(TIMING_ARROW);
+    if (hasNumber && !/^\d+$/.test(first.text.trim())) {
+      throw new SubtitleParseError(first.number, `expected a cue number, got "${first.text.trim()}"`);
+    }
+
+    const timingLine = hasNumber ? rest[0] : first;
+    if (!timingLine || !timingLine.text.includes(TIMING_ARROW)) {
+      const line = timingLine ?? first;
+      throw new SubtitleParseError(line.number, timingLine ? `expected a cue timing, got "${line.text.trim()}"` : 'cue has no timing');
+    }
+
+    const timing = parseTiming(timingLine, SRT_TIMESTAMP);
+    const textLines = hasNumber ? rest.slice(1) : rest;
+    const text = stripSrtFormatting(cueText(textLines, timingLine));
+    if (!text) {
+      throw new SubtitleParseError(timingLine.number, 'cue has no text');
+    }
+    return { ...timing, text, speaker: null };
+  });
+}
+
+function stripSrtFormatting(text: string): string {
+  // <i>, <b>, <font ...> tags and ASS-style {\an8} overrides
+  return text.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function parseWebVtt(lines: Line[]): ParsedCue[] {
+  const [header, ...bodyBlocks] = blocks(lines);
+  if (!header || header[0].number !== 1 || !/^WEBVTT(?:[ \t].*)?$/.test(header[0].text)) {
+    throw new SubtitleParseError(1, 'missing "WEBVTT" header');
+  }
+
+  const cues: ParsedCue[] = [];
+  for (const block of bodyBlocks) {
+    const first = block[0];
+    if (/^(NOTE|STYLE|REGION)(?:\s|$)/.test(first.text)) {
+      continue;
+    }
+
+    // An optional cue identifier precedes the timing line
+    const timingIndex = first.text.includes(TIMING_ARROW) ? 0 : 1;
+    const timingLine = block[timingIndex];
+    if (!timingLine || !timingLine.text.includes(TIMING_ARROW)) {
+      const line = timingLine ?? first;
+      throw new SubtitleParseError(line.number, timingLine ? `expected a cue timing, got "${line.text.trim()}"` : 'cue has no timing');
+    }
+
+    const timing = parseTiming(timingLine, VTT_TIMESTAMP);
+    const raw = cueText(block.slice(timingIndex + 1), timingLine);
+    const speaker = /<v(?:\.[^\s>]+)*\s+([^>]+)>/.exec(raw)?.[1]?.trim() ?? null;
+    const text = decodeEntities(raw.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+    if (!text) {
+      throw new SubtitleParseError(timingLine.number, 'cue has no text');
+    }
+    cues.push({ ...timing, text, speaker });
+  }
+  return cues;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&amp;/g, '&');
+}
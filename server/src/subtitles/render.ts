@@ -0,0 +1,120 @@
+import { type Language, type SubtitleFormat } from '../schema';
+import { getLineRules, wrapText } from './line_rules';
+
+export interface SubtitleSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export interface SubtitleCue {
+  startMs: number;
+  endMs: number;
+  lines: string[];
+}
+
+// Wrap every segment and split those that need more lines than a cue allows,
+// sharing the segment's time between the parts in proportion to their length
+export function buildCues(segments: SubtitleSegment[], language: Language): SubtitleCue[] {
+  const rules = getLineRules(language);
+  const cues: SubtitleCue[] = [];
+
+  for (const segment of segments) {
+    const lines = wrapText(segment.text, rules);
+    if (lines.length === 0) {
+      continue;
+    }
+
+    const groups: string[][] = [];
+    for (let i = 0; i < lines.length; i += rules.maxLinesPerCue) {
+      groups.push(lines.slice(i, i + rules.maxLinesPerCue));
+    }
+
+    const totalChars = lines.reduce((total, line) => total + line.length, 0);
+    const durationMs = Math.max(segment.endMs - segment.startMs, 1);
+    let startMs = segment.startMs;
+    let charsSoFar = 0;
+
+    for (const [index, group] of groups.entries()) {
+      charsSoFar += group.reduce((total, line) => total + line.length, 0);
+      const endMs = index === groups.length - 1
+        ? segment.startMs + durationMs
+        : segment.startMs + Math.round((durationMs * charsSoFar) / totalChars);
+      cues.push({ startMs, endMs, lines: group });
+      startMs = endMs;
+    }
+  }
+
+  return cues;
+}
+
+// HH:MM:SS<separator>mmm; hours keep growing past 99 rather than wrapping
+export function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  const millis = total % 1000;
+
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function escapeMarkup(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function renderSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, index) => [
+      String(index + 1),
+      `${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}`,
+      ...cue.lines
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+export function renderWebVtt(cues: SubtitleCue[]): string {
+  const blocks = cues.map((cue) => [
+    `${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}`,
+    ...cue.lines.map(escapeMarkup)
+  ].join('\n'));
+
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+export function renderTtml(cues: SubtitleCue[], language: Language): string {
+  const paragraphs = cues.map((cue) =>
+    `      <p begin="${formatTimestamp(cue.startMs, '.')}" end="${formatTimestamp(cue.endMs, '.')}">` +
+    `${cue.lines.map(escapeMarkup).join('<br/>')}</p>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="${language}">`,
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>'
+  ].join('\n') + '\n';
+}
+
+export const SUBTITLE_CONTENT_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  ttml: 'application/ttml+xml; charset=utf-8'
+};
+
+export function renderSubtitles(format: SubtitleFormat, segments: SubtitleSegment[], language: Language): string {
+  const cues = buildCues(segments, language);
+  switch (format) {
+    case 'srt':
+      return renderSrt(cues);
+    case 'vtt':
+      return renderWebVtt(cues);
+    case 'ttml':
+      return renderTtml(cues, language);
+  }
+}
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable, audioGenerationJobsTable } from '../db/schema';
+import { cancelJob } from '../handlers/cancel_job';
+import { eq } from 'drizzle-orm';
+
+async function createTestVideo() {
+  const result = await db.insert(videosTable)
+    .values({
+      filename: 'test-video.mp4',
+      original_filename: 'original-test.mp4',
+      file_path: '/uploads/test-video.mp4',
+      file_size: 1024000,
+      duration: 120,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+async function getTranslationJob(id: number) {
+  const rows = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, id)).execute();
+  return rows[0];
+}
+
+describe('cancelJob', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should cancel a running audio generation job', async () => {
+    const video = await createTestVideo();
+    const translationJob = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'es', status: 'completed' })
+      .returning()
+      .execute();
+    const audioJob = await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: translationJob[0].id, status: 'generating', started_at: new Date() })
+      .returning()
+      .execute();
+
+    const result = await cancelJob({ job_type: 'audio_generation', id: audioJob[0].id });
+
+    expect(result.translation_jobs).toEqual([]);
+    expect(result.audio_generation_jobs).toHaveLength(1);
+    expect(result.audio_generation_jobs[0].id).toEqual(audioJob[0].id);
+    expect(result.audio_generation_jobs[0].status).toEqual('cancelled');
+    expect(result.audio_generation_jobs[0].error_message).toBeNull();
+  });
+
+  it('should cancel the audio queued behind a translation and the languages waiting for its transcript', async () => {
+    const video = await createTestVideo();
+    const transcriptJob = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'es', status: 'extracting_audio', started_at: new Date() })
+      .returning()
+      .execute();
+    const sharingJob = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'fr', transcript_job_id: transcriptJob[0].id })
+      .returning()
+      .execute();
+    const audioJobs = await db.insert(audioGenerationJobsTable)
+      .values([
+        { translation_job_id: transcriptJob[0].id },
+        { translation_job_id: sharingJob[0].id }
+      ])
+      .returning()
+      .execute();
+
+    const result = await cancelJob({ job_type: 'translation', id: transcriptJob[0].id });
+
+    expect(result.translation_jobs.map((job) => job.id)).toEqual([transcriptJob[0].id, sharingJob[0].id]);
+    expect(result.audio_generation_jobs.map((job) => job.id)).toEqual(audioJobs.map((job) => job.id));
+    expect(result.translation_jobs[0].error_message).toBeNull();
+    expect(result.translation_jobs[1].error_message).toEqual(`Translation job ${transcriptJob[0].id} was cancelled`);
+    expect(result.audio_generation_jobs[0].error_message).toEqual(`Translation job ${transcriptJob[0].id} was cancelled`);
+    expect([...result.translation_jobs, ...result.audio_generation_jobs].every((job) => job.status === 'cancelled')).toBe(true);
+  });
+
+  it('should leave languages sharing an existing transcript running', async () => {
+    const video = await createTestVideo();
+    const transcriptJob = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'es', status: 'translating', started_at: new Date() })
+      .returning()
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values({ translation_job_id: transcriptJob[0].id, segment_index: 0, start_ms: 0, end_ms: 2000, source_text: 'Hello.' })
+      .execute();
+    const sharingJob = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'fr', transcript_job_id: transcriptJob[0].id })
+      .returning()
+      .execute();
+
+    const result = await cancelJob({ job_type: 'translation', id: transcriptJob[0].id });
+
+    expect(result.translation_jobs.map((job) => job.id)).toEqual([transcriptJob[0].id]);
+    expect((await getTranslationJob(sharingJob[0].id)).status).toEqual('pending');
+  });
+
+  it('should refuse to cancel finished jobs', async () => {
+    const video = await createTestVideo();
+    const translationJob = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'es', status: 'completed' })
+      .returning()
+      .execute();
+    const audioJob = await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: translationJob[0].id, status: 'failed', error_message: 'Boom' })
+      .returning()
+      .execute();
+
+    await expect(cancelJob({ job_type: 'translation', id: translationJob[0].id }))
+      .rejects.toThrow(/cannot be cancelled \(status: completed\)/i);
+    await expect(cancelJob({ job_type: 'audio_generation', id: audioJob[0].id }))
+      .rejects.toThrow(/cannot be cancelled \(status: failed\)/i);
+  });
+
+  it('should throw error when the job does not exist', async () => {
+    await expect(cancelJob({ job_type: 'translation', id: 999 }))
+      .rejects.toThrow(/translation job with id 999 not found/i);
+    await expect(cancelJob({ job_type: 'audio_generation', id: 999 }))
+      .rejects.toThrow(/audio generation job with id 999 not found/i);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'bun:test';
+import { TransientProviderError } from '../providers/errors';
+import { JobInputError, classifyError, requestedRetryDelayMs } from '../worker/errors';
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`Request failed with status ${status}`), { status });
+}
+
+describe('classifyError', () => {
+  it('should retry what providers mark as transient, and network failures', () => {
+    expect(classifyError(new TransientProviderError('Rate limited'))).toEqual('transient');
+    expect(classifyError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toEqual('transient');
+    expect(classifyError(new DOMException('The operation timed out', 'TimeoutError'))).toEqual('transient');
+    expect(classifyError(httpError(429))).toEqual('transient');
+    expect(classifyError(httpError(503))).toEqual('transient');
+  });
+
+  it('should treat client errors and anything unrecognized as permanent', () => {
+    expect(classifyError(httpError(401))).toEqual('permanent');
+    expect(classifyError(Object.assign(new Error('no such file'), { code: 'ENOENT' }))).toEqual('permanent');
+    expect(classifyError(new Error('Unknown voice'))).toEqual('permanent');
+    expect(classifyError('boom')).toEqual('permanent');
+  });
+
+  it('should recognize input errors', () => {
+    expect(classifyError(new JobInputError('No speech was recognized in the extracted audio'))).toEqual('input');
+  });
+
+  it('should classify a wrapped error by its cause', () => {
+    const wrapped = new Error('Stem separation failed: Overloaded', { cause: new TransientProviderError('Overloaded') });
+
+    expect(classifyError(wrapped)).toEqual('transient');
+  });
+});
+
+describe('requestedRetryDelayMs', () => {
+  it('should find the wait a provider asked for', () => {
+    const cause = new TransientProviderError('Rate limited', { retryAfterMs: 30_000 });
+
+    expect(requestedRetryDelayMs(new Error('Final video rendering failed: Rate limited', { cause }))).toEqual(30_000);
+    expect(requestedRetryDelayMs(new TransientProviderError('Overloaded'))).toBeNull();
+    expect(requestedRetryDelayMs(new Error('Unknown voice'))).toBeNull();
+  });
+});
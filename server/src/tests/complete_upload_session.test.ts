@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createHash } from 'node:crypto';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { uploadSessionsTable, videosTable } from '../db/schema';
+import { completeUploadSession } from '../handlers/complete_upload_session';
+import { eq, sql } from 'drizzle-orm';
+
+const CHUNK_SIZE = 1024;
+
+let storageDir: string;
+
+function sha256(data: Uint8Array) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// 2.5 chunks of distinguishable bytes
+function fileContent() {
+  const content = Buffer.alloc(CHUNK_SIZE * 2 + 512);
+  for (let i = 0; i < content.length; i++) {
+    content[i] = i % 251;
+  }
+  return content;
+}
+
+function chunkChecksums(content: Buffer) {
+  const checksums: string[] = [];
+  for (let offset = 0; offset < content.length; offset += CHUNK_SIZE) {
+    checksums.push(sha256(content.subarray(offset, offset + CHUNK_SIZE)));
+  }
+  return checksums;
+}
+
+async function createTestSession(content: Buffer, receivedBytes = content.length) {
+  const tempPath = path.join(storageDir, 'upload_test.part');
+  await writeFile(tempPath, content.subarray(0, receivedBytes));
+
+  const result = await db.insert(uploadSessionsTable)
+    .values({
+      original_filename: 'Team Webinar.MP4',
+      mime_type: 'video/mp4',
+      total_size: content.length,
+      chunk_size: CHUNK_SIZE,
+      received_bytes: receivedBytes,
+      temp_path: tempPath
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+describe('completeUploadSession', () => {
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'complete-upload-'));
+    process.env['STORAGE_DIR'] = storageDir;
+  });
+
+  afterEach(async () => {
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['STORAGE_DIR'];
+    await resetDB();
+  });
+
+  it('should assemble the file and create a probed video', async () => {
+    const content = fileContent();
+    const session = await createTestSession(content);
+
+    const video = await completeUploadSession({ id: session.id, chunk_checksums: chunkChecksums(content) });
+
+    expect(video.original_filename).toEqual('Team Webinar.MP4');
+    expect(video.format).toEqual('mp4');
+    expect(video.file_size).toEqual(content.length);
+    // Probing ran on the assembled file; arbitrary bytes are not a readable container
+    expect(video.upload_status).toEqual('failed');
+    expect(video.error_message).toMatch(/^Media probe failed/);
+    expect(video.file_path).toEqual(path.join(storageDir, 'videos', video.filename));
+
+    // The partial file was moved into place
+    expect(existsSync(session.temp_path)).toBe(false);
+    expect((await readFile(video.file_path)).equals(content)).toBe(true);
+
+    const sessions = await db.select()
+      .from(uploadSessionsTable)
+      .where(eq(uploadSessionsTable.id, session.id))
+      .execute();
+
+    expect(sessions[0].status).toEqual('completed');
+    expect(sessions[0].video_id).toEqual(video.id);
+  });
+
+  it('should return the same video when completed twice', async () => {
+    const content = fileContent();
+    const session = await createTestSession(content);
+    const checksums = chunkChecksums(content);
+
+    const first = await completeUploadSession({ id: session.id, chunk_checksums: checksums });
+    const second = await completeUploadSession({ id: session.id, chunk_checksums: checksums });
+
+    expect(second.id).toEqual(first.id);
+    expect(await db.select().from(videosTable).execute()).toHaveLength(1);
+  });
+
+  it('should not create a video while bytes are missing', async () => {
+    const content = fileContent();
+    const session = await createTestSession(content, CHUNK_SIZE);
+
+    await expect(completeUploadSession({ id: session.id, chunk_checksums: chunkChecksums(content) }))
+      .rejects.toThrow(/upload incomplete: received 1024 of 2560 bytes/i);
+
+    expect(await db.select().from(videosTable).execute()).toHaveLength(0);
+  });
+
+  it('should fail the session without creating a video when a chunk checksum does not match', async () => {
+    const content = fileContent();
+    const session = await createTestSession(content);
+    const checksums = chunkChecksums(content);
+    checksums[1] = sha256(Buffer.from('corrupted'));
+
+    await expect(completeUploadSession({ id: session.id, chunk_checksums: checksums }))
+      .rejects.toThrow(/checksum verification failed for chunk 1/i);
+
+    expect(await db.select().from(videosTable).execute()).toHaveLength(0);
+    expect(existsSync(session.temp_path)).toBe(false);
+
+    const sessions = await db.select()
+      .from(uploadSessionsTable)
+      .where(eq(uploadSessionsTable.id, session.id))
+      .execute();
+
+    expect(sessions[0].status).toEqual('failed');
+    expect(sessions[0].error_message).toMatch(/chunk 1/);
+  });
+
+  it('should leave neither a video nor a moved file behind when completion rolls back', async () => {
+    const content = fileContent();
+    const session = await createTestSession(content);
+    const checksums = chunkChecksums(content);
+
+    // Fail the session update, the last write of the transaction
+    await db.execute(sql`
+      create function fail_session_completion() returns trigger as $$
+      begin raise exception 'session update failed'; end;
+      $$ language plpgsql
+    `);
+    await db.execute(sql`
+      create trigger fail_session_completion before update on upload_sessions
+      for each row when (new.status = 'completed') execute function fail_session_completion()
+    `);
+
+    await expect(completeUploadSession({ id: session.id, chunk_checksums: checksums }))
+      .rejects.toThrow(/session update failed/);
+
+    expect(await db.select().from(videosTable).execute()).toHaveLength(0);
+    expect((await readFile(session.temp_path)).equals(content)).toBe(true);
+
+    // Once the failure is gone the same session completes
+    await db.execute(sql`drop trigger fail_session_completion on upload_sessions`);
+    const video = await completeUploadSession({ id: session.id, chunk_checksums: checksums });
+    expect((await readFile(video.file_path)).equals(content)).toBe(true);
+  });
+
+  it('should create one video when completed concurrently', async () => {
+    const content = fileContent();
+    const session = await createTestSession(content);
+    const checksums = chunkChecksums(content);
+
+    const [first, second] = await Promise.all([
+      completeUploadSession({ id: session.id, chunk_checksums: checksums }),
+      completeUploadSession({ id: session.id, chunk_checksums: checksums })
+    ]);
+
+    expect(second.id).toEqual(first.id);
+    expect(await db.select().from(videosTable).execute()).toHaveLength(1);
+  });
+
+  it('should reject a wrong number of checksums', async () => {
+    const content = fileContent();
+    const session = await createTestSession(content);
+
+    await expect(completeUploadSession({ id: session.id, chunk_checksums: chunkChecksums(content).slice(0, 2) }))
+      .rejects.toThrow(/expected 3 chunk checksums, got 2/i);
+  });
+
+  it('should throw for an unknown session', async () => {
+    await expect(completeUploadSession({ id: '00000000-0000-4000-8000-000000000000', chunk_checksums: [] }))
+      .rejects.toThrow(/not found/i);
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { videosTable, translationJobsTable, audioGenerationJobsTable } from '../db/schema';
+import { videosTable, translationJobsTable, audioGenerationJobsTable, voiceProfilesTable, voiceConsentsTable } from '../db/schema';
 import { type CreateAudioGenerationJobInput } from '../schema';
 import { createAudioGenerationJob } from '../handlers/create_audio_generation_job';
 import { eq } from 'drizzle-orm';
@@ -39,15 +39,39 @@ describe('createAudioGenerationJob', () => {
       .returning()
       .execute();
 
+    // The video's speakers consented to having their voices cloned
+    await grantConsent({ video_id: videoResult[0].id });
+
     return {
       video: videoResult[0],
       translationJob: translationJobResult[0]
     };
   };
 
+  const grantConsent = async (subject: { video_id: number } | { voice_profile_id: number }, expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000)) => {
+    const result = await db.insert(voiceConsentsTable)
+      .values({
+        ...subject,
+        consented_by: 'Jane Speaker',
+        scope_languages: [],
+        expires_at: expiresAt,
+        artifact_path: '/consents/consent.pdf',
+        artifact_filename: 'consent.pdf',
+        artifact_sha256: 'a'.repeat(64)
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  };
+
   const testInput: CreateAudioGenerationJobInput = {
     translation_job_id: 1,
-    voice_cloned: true
+    voice_cloned: true,
+    speaker_voices: [],
+    preserve_background: false,
+    ducking_db: 12,
+    audible_watermark: false
   };
 
   it('should create an audio generation job when translation job is completed', async () => {
@@ -55,7 +79,11 @@ describe('createAudioGenerationJob', () => {
     
     const input: CreateAudioGenerationJobInput = {
       translation_job_id: translationJob.id,
-      voice_cloned: true
+      voice_cloned: true,
+      speaker_voices: [],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false
     };
 
     const result = await createAudioGenerationJob(input);
@@ -66,6 +94,8 @@ describe('createAudioGenerationJob', () => {
     expect(result.status).toEqual('pending');
     expect(result.voice_cloned).toEqual(true);
     expect(result.generated_audio_path).toBeNull();
+    expect(result.tts_provider).toBeNull();
+    expect(result.voice_id).toBeNull();
     expect(result.error_message).toBeNull();
     expect(result.started_at).toBeNull();
     expect(result.completed_at).toBeNull();
@@ -77,7 +107,11 @@ describe('createAudioGenerationJob', () => {
     
     const input: CreateAudioGenerationJobInput = {
       translation_job_id: translationJob.id,
-      voice_cloned: false
+      voice_cloned: false,
+      speaker_voices: [],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false
     };
 
     const result = await createAudioGenerationJob(input);
@@ -98,27 +132,31 @@ describe('createAudioGenerationJob', () => {
   it('should use voice_cloned default value when not provided', async () => {
     const { translationJob } = await createPrerequisiteData();
     
-    // Input without voice_cloned (should use Zod default of true)
+    // Input without voice_cloned (should use the default of false; cloning needs consent)
     const input = {
       translation_job_id: translationJob.id
     } as CreateAudioGenerationJobInput;
 
     const result = await createAudioGenerationJob(input);
 
-    expect(result.voice_cloned).toEqual(true);
+    expect(result.voice_cloned).toEqual(false);
   });
 
   it('should throw error when translation job does not exist', async () => {
     const input: CreateAudioGenerationJobInput = {
       translation_job_id: 999, // Non-existent ID
-      voice_cloned: true
+      voice_cloned: true,
+      speaker_voices: [],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false
     };
 
     await expect(createAudioGenerationJob(input))
       .rejects.toThrow(/translation job with id 999 not found/i);
   });
 
-  it('should throw error when translation job is not completed', async () => {
+  it('should queue audio generation behind an unfinished translation job', async () => {
     const { video } = await createPrerequisiteData();
 
     // Create a pending translation job
@@ -134,11 +172,17 @@ describe('createAudioGenerationJob', () => {
 
     const input: CreateAudioGenerationJobInput = {
       translation_job_id: pendingTranslationJob[0].id,
-      voice_cloned: true
+      voice_cloned: true,
+      speaker_voices: [],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false
     };
 
-    await expect(createAudioGenerationJob(input))
-      .rejects.toThrow(/translation job must be completed.*current status: pending/i);
+    const result = await createAudioGenerationJob(input);
+
+    expect(result.translation_job_id).toEqual(pendingTranslationJob[0].id);
+    expect(result.status).toEqual('pending');
   });
 
   it('should throw error when translation job is in failed status', async () => {
@@ -158,11 +202,15 @@ describe('createAudioGenerationJob', () => {
 
     const input: CreateAudioGenerationJobInput = {
       translation_job_id: failedTranslationJob[0].id,
-      voice_cloned: true
+      voice_cloned: true,
+      speaker_voices: [],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false
     };
 
     await expect(createAudioGenerationJob(input))
-      .rejects.toThrow(/translation job must be completed.*current status: failed/i);
+      .rejects.toThrow(/failed translation job.*current status: failed/i);
   });
 
   it('should allow multiple audio generation jobs for same translation job', async () => {
@@ -170,12 +218,20 @@ describe('createAudioGenerationJob', () => {
     
     const input1: CreateAudioGenerationJobInput = {
       translation_job_id: translationJob.id,
-      voice_cloned: true
+      voice_cloned: true,
+      speaker_voices: [],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false
     };
 
     const input2: CreateAudioGenerationJobInput = {
       translation_job_id: translationJob.id,
-      voice_cloned: false
+      voice_cloned: false,
+      speaker_voices: [],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false
     };
 
     const result1 = await createAudioGenerationJob(input1);
@@ -194,4 +250,167 @@ describe('createAudioGenerationJob', () => {
 
     expect(allJobs).toHaveLength(2);
   });
-});
\ No newline at end of file
+
+  it('should store the requested stock voice', async () => {
+    const { translationJob } = await createPrerequisiteData();
+
+    const result = await createAudioGenerationJob({
+      translation_job_id: translationJob.id,
+      voice_cloned: false,
+      speaker_voices: [],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false,
+      voice_id: 'local-tenor'
+    });
+
+    expect(result.voice_id).toEqual('local-tenor');
+    expect(result.tts_provider).toBeNull(); // Recorded once the job runs
+  });
+
+  it('should store per-speaker voices', async () => {
+    const { translationJob } = await createPrerequisiteData();
+
+    const result = await createAudioGenerationJob({
+      translation_job_id: translationJob.id,
+      voice_cloned: true,
+      speaker_voices: [
+        { speaker: 'Host', voice_cloned: true },
+        { speaker: 'Guest', voice_cloned: false, voice_id: 'local-tenor' }
+      ],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false
+    });
+
+    expect(result.speaker_voices).toEqual([
+      { speaker: 'Host', voice_cloned: true },
+      { speaker: 'Guest', voice_cloned: false, voice_id: 'local-tenor' }
+    ]);
+  });
+
+  it('should reject stock voices the text-to-speech provider does not offer', async () => {
+    const { translationJob } = await createPrerequisiteData();
+    const input = {
+      translation_job_id: translationJob.id,
+      voice_cloned: false,
+      speaker_voices: [],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false
+    };
+
+    await expect(createAudioGenerationJob({ ...input, voice_id: 'local-tenr' }))
+      .rejects.toThrow(/unknown voice "local-tenr"/i);
+    await expect(createAudioGenerationJob({ ...input, speaker_voices: [{ speaker: 'Guest', voice_cloned: false, voice_id: 'local-bass' }] }))
+      .rejects.toThrow(/unknown voice "local-bass"/i);
+
+    const jobs = await db.select().from(audioGenerationJobsTable).execute();
+    expect(jobs).toHaveLength(0);
+  });
+
+  it('should reject a stock voice combined with voice cloning', async () => {
+    const { translationJob } = await createPrerequisiteData();
+
+    await expect(createAudioGenerationJob({
+      translation_job_id: translationJob.id,
+      voice_cloned: true,
+      speaker_voices: [],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false,
+      voice_id: 'local-tenor'
+    })).rejects.toThrow(/cannot be combined with voice cloning/i);
+  });
+
+  it('should clone from a voice profile', async () => {
+    const { translationJob, video } = await createPrerequisiteData();
+    const profile = await db.insert(voiceProfilesTable)
+      .values({
+        name: 'Presenter',
+        clips: [{ video_id: video.id, start_ms: 0, end_ms: 2000 }],
+        source_video_ids: [video.id],
+        reference_audio_path: '/voices/reference.wav',
+        tts_provider: 'local',
+        provider_voice_id: 'local-clone-presenter',
+        preview_audio_path: '/voices/preview.wav'
+      })
+      .returning()
+      .execute();
+    const input: CreateAudioGenerationJobInput = {
+      translation_job_id: translationJob.id,
+      voice_cloned: true,
+      speaker_voices: [],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false,
+      voice_profile_id: profile[0].id
+    };
+
+    // Consent from the video does not cover a profile
+    await expect(createAudioGenerationJob(input))
+      .rejects.toThrow(/no valid, unexpired consent covers voice profile \d+/i);
+
+    await grantConsent({ voice_profile_id: profile[0].id });
+    const result = await createAudioGenerationJob(input);
+
+    expect(result.voice_profile_id).toEqual(profile[0].id);
+
+    await expect(createAudioGenerationJob({
+      translation_job_id: translationJob.id,
+      voice_cloned: false,
+      speaker_voices: [],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false,
+      voice_profile_id: profile[0].id
+    })).rejects.toThrow(/voice profile can only be used with voice cloning/i);
+  });
+
+  it('should throw error when the voice profile does not exist', async () => {
+    const { translationJob } = await createPrerequisiteData();
+
+    await expect(createAudioGenerationJob({
+      translation_job_id: translationJob.id,
+      voice_cloned: true,
+      speaker_voices: [],
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false,
+      voice_profile_id: 999
+    })).rejects.toThrow(/voice profile with id 999 not found/i);
+  });
+
+  it('should reject cloning once consent has expired or was revoked', async () => {
+    const video = await db.insert(videosTable)
+      .values({
+        filename: 'interview.mp4',
+        original_filename: 'interview.mp4',
+        file_path: '/uploads/interview.mp4',
+        file_size: 1024000,
+        duration: 60,
+        format: 'mp4',
+        upload_status: 'uploaded'
+      })
+      .returning()
+      .execute();
+    const translationJob = await db.insert(translationJobsTable)
+      .values({ video_id: video[0].id, source_language: 'en', target_language: 'es' })
+      .returning()
+      .execute();
+    const input: CreateAudioGenerationJobInput = { ...testInput, translation_job_id: translationJob[0].id };
+
+    await grantConsent({ video_id: video[0].id }, new Date(Date.now() - 1000));
+    await expect(createAudioGenerationJob(input))
+      .rejects.toThrow(/voice cloning requires consent/i);
+
+    const consent = await grantConsent({ video_id: video[0].id });
+    await db.update(voiceConsentsTable).set({ revoked_at: new Date() }).where(eq(voiceConsentsTable.id, consent.id)).execute();
+    await expect(createAudioGenerationJob(input))
+      .rejects.toThrow(/voice cloning requires consent/i);
+    await expect(createAudioGenerationJob({ ...input, voice_cloned: false, speaker_voices: [{ speaker: 'Host', voice_cloned: true }] }))
+      .rejects.toThrow(/voice cloning requires consent/i);
+
+    expect(await db.select().from(audioGenerationJobsTable).execute()).toHaveLength(0);
+  });
+});
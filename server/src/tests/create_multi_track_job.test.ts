@@ -0,0 +1,248 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile, access } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable, audioGenerationJobsTable, finalOutputsTable, finalOutputTracksTable } from '../db/schema';
+import { createMultiTrackJobInputSchema, type Language } from '../schema';
+import { createMultiTrackJob } from '../handlers/create_multi_track_job';
+import { getTranslationWorkflowStatus } from '../handlers/get_translation_workflow_status';
+import { cancelJob } from '../handlers/cancel_job';
+import { getJobAttempts } from '../handlers/get_job_attempts';
+import { mediaProviders, type RenderMultiTrackVideoInput } from '../providers/media';
+import { TransientProviderError } from '../providers/errors';
+import { runNextJob } from '../worker/runner';
+import { eq } from 'drizzle-orm';
+
+let storageDir: string;
+let renders: { input: RenderMultiTrackVideoInput; subtitles: string[] }[];
+let beforeRender: (() => Promise<void>) | null;
+
+// The local provider, recording what it was asked to mux (subtitle files are removed afterwards)
+mediaProviders.register('recording', () => {
+  const local = mediaProviders.get('local');
+  return {
+    ...local,
+    name: 'recording',
+    async renderMultiTrackVideo(input) {
+      await beforeRender?.();
+      renders.push({ input, subtitles: await Promise.all(input.subtitleTracks.map((track) => readFile(track.path, 'utf8'))) });
+      await local.renderMultiTrackVideo(input);
+    }
+  };
+});
+
+async function createVideo() {
+  const filePath = path.join(storageDir, 'video_1.mp4');
+  await writeFile(filePath, 'video');
+
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'video_1.mp4',
+      original_filename: 'keynote.mp4',
+      file_path: filePath,
+      file_size: 5,
+      duration: 10,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  return video[0];
+}
+
+async function createDub(videoId: number, language: Language, translatedText: string, completed = true) {
+  const job = await db.insert(translationJobsTable)
+    .values({ video_id: videoId, source_language: 'en', target_language: language, status: 'completed' })
+    .returning()
+    .execute();
+
+  await db.insert(transcriptSegmentsTable)
+    .values({ translation_job_id: job[0].id, segment_index: 0, start_ms: 0, end_ms: 2000, source_text: 'Hello.', translated_text: translatedText })
+    .execute();
+
+  const audioPath = path.join(storageDir, `dub_${job[0].id}.wav`);
+  await writeFile(audioPath, 'audio');
+
+  const audioJob = await db.insert(audioGenerationJobsTable)
+    .values({
+      translation_job_id: job[0].id,
+      status: completed ? 'completed' : 'generating',
+      voice_cloned: false,
+      generated_audio_path: completed ? audioPath : null
+    })
+    .returning()
+    .execute();
+
+  return audioJob[0];
+}
+
+describe('createMultiTrackJob', () => {
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'multi-track-'));
+    process.env['STORAGE_DIR'] = storageDir;
+    process.env['MEDIA_PROVIDER'] = 'recording';
+    renders = [];
+    beforeRender = null;
+  });
+
+  afterEach(async () => {
+    delete process.env['STORAGE_DIR'];
+    delete process.env['MEDIA_PROVIDER'];
+    await rm(storageDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should queue the latest completed dub of every language without rendering', async () => {
+    const video = await createVideo();
+    const spanish = await createDub(video.id, 'es', 'Hola.');
+    const german = await createDub(video.id, 'de', 'Hallo.');
+    await createDub(video.id, 'fr', 'Bonjour.', false);
+
+    const job = await createMultiTrackJob(createMultiTrackJobInputSchema.parse({ video_id: video.id }));
+
+    expect(job.status).toEqual('pending');
+    expect(job.audio_generation_job_ids).toEqual([spanish.id, german.id]);
+    expect(job.include_subtitles).toBe(true);
+    expect(job.final_output_id).toBeNull();
+    expect(renders).toHaveLength(0);
+    expect(await db.select().from(finalOutputsTable).execute()).toEqual([]);
+  });
+
+  it('should mux one tagged audio and subtitle track per language when the runner picks it up', async () => {
+    const video = await createVideo();
+    const spanish = await createDub(video.id, 'es', 'Hola.');
+    const german = await createDub(video.id, 'de', 'Hallo.');
+    const job = await createMultiTrackJob({ video_id: video.id, include_subtitles: true });
+
+    expect(await runNextJob()).toBe(true);
+
+    expect(renders).toHaveLength(1);
+    const { input, subtitles } = renders[0];
+    expect(input.videoPath).toEqual(video.file_path);
+    expect(input.audioTracks.map((track) => track.path)).toEqual([spanish.generated_audio_path!, german.generated_audio_path!]);
+    expect(input.audioTracks.map((track) => [track.language, track.title])).toEqual([['spa', 'Spanish'], ['deu', 'German']]);
+    expect(input.subtitleTracks.map((track) => track.language)).toEqual(['spa', 'deu']);
+    expect(subtitles[0]).toContain('Hola.');
+    expect(subtitles[1]).toContain('Hallo.');
+
+    const status = await getTranslationWorkflowStatus(video.id);
+    expect(status.multiTrackJobs.map((candidate) => [candidate.id, candidate.status])).toEqual([[job.id, 'completed']]);
+    expect(status.multiTrackOutputs).toHaveLength(1);
+    const output = status.multiTrackOutputs[0];
+    expect(status.multiTrackJobs[0].final_output_id).toEqual(output.id);
+    expect(output.kind).toEqual('multi_track');
+    expect(output.translation_job_id).toBeNull();
+    expect(output.audio_generation_job_id).toBeNull();
+    expect(output.tracks.map((track) => [track.track_index, track.language, track.audio_generation_job_id, track.has_subtitles]))
+      .toEqual([[0, 'es', spanish.id, true], [1, 'de', german.id, true]]);
+    await access(output.final_video_path);
+    // The per-language outputs are not replaced
+    expect(status.finalOutput).toBeNull();
+
+    const attempts = await getJobAttempts({ job_type: 'multi_track', id: job.id });
+    expect(attempts.map((attempt) => [attempt.stage, attempt.outcome, attempt.provider])).toEqual([['rendering', 'succeeded', 'media:recording']]);
+    expect(await runNextJob()).toBe(false);
+  });
+
+  it('should use the picked jobs in the given order, without subtitles on request', async () => {
+    const video = await createVideo();
+    const spanish = await createDub(video.id, 'es', 'Hola.');
+    const german = await createDub(video.id, 'de', 'Hallo.');
+
+    const job = await createMultiTrackJob({ video_id: video.id, audio_generation_job_ids: [german.id, spanish.id], include_subtitles: false });
+    await runNextJob();
+
+    const tracks = await db.select().from(finalOutputTracksTable).execute();
+    expect(job.audio_generation_job_ids).toEqual([german.id, spanish.id]);
+    expect(tracks.sort((a, b) => a.track_index - b.track_index).map((track) => track.language)).toEqual(['de', 'es']);
+    expect(tracks.every((track) => !track.has_subtitles)).toBe(true);
+    expect(renders[0].input.subtitleTracks).toEqual([]);
+  });
+
+  it('should retry a transient render failure after a backoff', async () => {
+    const video = await createVideo();
+    await createDub(video.id, 'es', 'Hola.');
+    const job = await createMultiTrackJob({ video_id: video.id, include_subtitles: true });
+    beforeRender = async () => {
+      throw new TransientProviderError('Disk busy');
+    };
+
+    await runNextJob();
+
+    const status = await getTranslationWorkflowStatus(video.id);
+    expect(status.multiTrackJobs[0].status).toEqual('pending');
+    expect(status.multiTrackJobs[0].error_message).toEqual('Disk busy');
+    expect(status.multiTrackJobs[0].next_attempt_at!.getTime()).toBeGreaterThan(Date.now());
+    expect(status.multiTrackOutputs).toEqual([]);
+    expect(await runNextJob()).toBe(false);
+
+    const attempts = await getJobAttempts({ job_type: 'multi_track', id: job.id });
+    expect(attempts.map((attempt) => [attempt.outcome, attempt.error_class])).toEqual([['failed', 'transient']]);
+  });
+
+  it('should fail when a picked dub is no longer completed', async () => {
+    const video = await createVideo();
+    const spanish = await createDub(video.id, 'es', 'Hola.');
+    const job = await createMultiTrackJob({ video_id: video.id, include_subtitles: true });
+    await db.update(audioGenerationJobsTable).set({ status: 'failed' }).where(eq(audioGenerationJobsTable.id, spanish.id)).execute();
+
+    await runNextJob();
+
+    const status = await getTranslationWorkflowStatus(video.id);
+    expect(status.multiTrackJobs[0].status).toEqual('failed');
+    expect(status.multiTrackJobs[0].error_message).toMatch(/is not completed/);
+    expect(renders).toHaveLength(0);
+
+    const attempts = await getJobAttempts({ job_type: 'multi_track', id: job.id });
+    expect(attempts[0].error_class).toEqual('input');
+  });
+
+  it('should stop without an output when cancelled while rendering', async () => {
+    const video = await createVideo();
+    await createDub(video.id, 'es', 'Hola.');
+    const job = await createMultiTrackJob({ video_id: video.id, include_subtitles: true });
+    beforeRender = async () => {
+      await cancelJob({ job_type: 'multi_track', id: job.id });
+    };
+
+    await runNextJob();
+
+    const status = await getTranslationWorkflowStatus(video.id);
+    expect(status.multiTrackJobs[0].status).toEqual('cancelled');
+    expect(status.multiTrackOutputs).toEqual([]);
+    const attempts = await getJobAttempts({ job_type: 'multi_track', id: job.id });
+    expect(attempts.map((attempt) => attempt.outcome)).toEqual(['cancelled']);
+    await expect(cancelJob({ job_type: 'multi_track', id: job.id })).rejects.toThrow(/cannot be cancelled/);
+  });
+
+  it('should reject jobs that are unfinished, foreign or share a language', async () => {
+    const video = await createVideo();
+    const spanish = await createDub(video.id, 'es', 'Hola.');
+    const pending = await createDub(video.id, 'fr', 'Bonjour.', false);
+    const secondSpanish = await createDub(video.id, 'es', 'Hola de nuevo.');
+    const otherVideo = await createVideo();
+    const foreign = await createDub(otherVideo.id, 'de', 'Hallo.');
+
+    await expect(createMultiTrackJob({ video_id: video.id, audio_generation_job_ids: [pending.id], include_subtitles: true }))
+      .rejects.toThrow(/is not completed/);
+    await expect(createMultiTrackJob({ video_id: video.id, audio_generation_job_ids: [foreign.id], include_subtitles: true }))
+      .rejects.toThrow(/not found for video/);
+    await expect(createMultiTrackJob({ video_id: video.id, audio_generation_job_ids: [spanish.id, secondSpanish.id], include_subtitles: true }))
+      .rejects.toThrow(/More than one audio generation job selected for language es/);
+    expect((await getTranslationWorkflowStatus(video.id)).multiTrackJobs).toEqual([]);
+  });
+
+  it('should reject a video without completed dubs', async () => {
+    const video = await createVideo();
+    await createDub(video.id, 'fr', 'Bonjour.', false);
+
+    await expect(createMultiTrackJob({ video_id: video.id, include_subtitles: true }))
+      .rejects.toThrow(/has no completed audio generation jobs/);
+    await expect(createMultiTrackJob({ video_id: 999, include_subtitles: true }))
+      .rejects.toThrow(/not found/);
+  });
+});
@@ -1,8 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { videosTable, translationJobsTable } from '../db/schema';
-import { type CreateTranslationJobInput } from '../schema';
+import { videosTable, translationJobsTable, transcriptSegmentsTable } from '../db/schema';
+import { type CreateTranslationJobInput, createTranslationJobInputSchema } from '../schema';
 import { createTranslationJob } from '../handlers/create_translation_job';
 import { eq } from 'drizzle-orm';
 
@@ -31,7 +31,8 @@ describe('createTranslationJob', () => {
   const testInput: CreateTranslationJobInput = {
     video_id: 1, // Will be updated in tests with actual video ID
     source_language: 'en',
-    target_language: 'es'
+    target_language: 'es',
+    glossary: []
   };
 
   it('should create a translation job for an uploaded video', async () => {
@@ -49,6 +50,8 @@ describe('createTranslationJob', () => {
     expect(result.status).toEqual('pending');
     expect(result.original_audio_path).toBeNull();
     expect(result.translated_text).toBeNull();
+    expect(result.translation_provider).toBeNull();
+    expect(result.glossary).toEqual([]);
     expect(result.error_message).toBeNull();
     expect(result.started_at).toBeNull();
     expect(result.completed_at).toBeNull();
@@ -121,7 +124,8 @@ describe('createTranslationJob', () => {
       const input: CreateTranslationJobInput = {
         video_id: video.id,
         source_language: pair.source,
-        target_language: pair.target
+        target_language: pair.target,
+        glossary: []
       };
 
       const result = await createTranslationJob(input);
@@ -140,7 +144,8 @@ describe('createTranslationJob', () => {
     const input1 = {
       video_id: video.id,
       source_language: 'en' as const,
-      target_language: 'es' as const
+      target_language: 'es' as const,
+      glossary: []
     };
     const job1 = await createTranslationJob(input1);
 
@@ -148,7 +153,8 @@ describe('createTranslationJob', () => {
     const input2 = {
       video_id: video.id,
       source_language: 'en' as const,
-      target_language: 'fr' as const
+      target_language: 'fr' as const,
+      glossary: []
     };
     const job2 = await createTranslationJob(input2);
 
@@ -165,4 +171,89 @@ describe('createTranslationJob', () => {
 
     expect(allJobs).toHaveLength(2);
   });
-});
\ No newline at end of file
+
+  it('should store the glossary with the job', async () => {
+    const video = await createTestVideo('uploaded');
+    const glossary = [
+      { source_term: 'Acme Cloud', target_term: 'Acme Cloud' },
+      { source_term: 'dashboard', target_term: 'panel de control' }
+    ];
+
+    const result = await createTranslationJob({ ...testInput, video_id: video.id, glossary });
+    expect(result.glossary).toEqual(glossary);
+
+    const saved = await db.select()
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.id, result.id))
+      .execute();
+    expect(saved[0].glossary).toEqual(glossary);
+  });
+
+  it('should default to an empty glossary and reject blank terms', () => {
+    const parsed = createTranslationJobInputSchema.parse({ video_id: 1, source_language: 'en', target_language: 'es' });
+    expect(parsed.glossary).toEqual([]);
+
+    const blank = createTranslationJobInputSchema.safeParse({
+      video_id: 1,
+      source_language: 'en',
+      target_language: 'es',
+      glossary: [{ source_term: '  ', target_term: 'x' }]
+    });
+    expect(blank.success).toBe(false);
+  });
+
+  it('should import subtitles as the source transcript', async () => {
+    const video = await createTestVideo('uploaded');
+
+    const result = await createTranslationJob({
+      ...testInput,
+      video_id: video.id,
+      source_subtitles: {
+        format: 'vtt',
+        content: 'WEBVTT\n\n00:00.500 --> 00:02.000\n<v Host>Hello.\n\n00:02.500 --> 00:04.000\nWelcome back.\n'
+      }
+    });
+
+    expect(result.status).toEqual('pending');
+    expect(result.transcript_source).toEqual('subtitles');
+    expect(result.error_message).toBeNull();
+
+    const segments = await db.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.translation_job_id, result.id))
+      .orderBy(transcriptSegmentsTable.segment_index)
+      .execute();
+
+    expect(segments).toHaveLength(2);
+    expect(segments[0]).toMatchObject({ segment_index: 0, start_ms: 500, end_ms: 2000, speaker: 'Host', source_text: 'Hello.', translated_text: null, confidence: null });
+    expect(segments[1]).toMatchObject({ segment_index: 1, start_ms: 2500, end_ms: 4000, speaker: null, source_text: 'Welcome back.' });
+  });
+
+  it('should create a failed job for malformed subtitles', async () => {
+    const video = await createTestVideo('uploaded');
+
+    const result = await createTranslationJob({
+      ...testInput,
+      video_id: video.id,
+      source_subtitles: { format: 'srt', content: '1\n00:00:01,000 --> 00:00:02,000\nFine.\n\n2\n00:00:03,000 --> 00:00:04\nBroken.\n' }
+    });
+
+    expect(result.status).toEqual('failed');
+    expect(result.transcript_source).toEqual('subtitles');
+    expect(result.error_message).toEqual('Invalid SRT subtitles: Line 6: invalid cue timing "00:00:03,000 --> 00:00:04"');
+
+    const segments = await db.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.translation_job_id, result.id))
+      .execute();
+    expect(segments).toHaveLength(0);
+  });
+
+  it('should default to speech recognition without subtitles', async () => {
+    const video = await createTestVideo('uploaded');
+
+    const result = await createTranslationJob({ ...testInput, video_id: video.id });
+
+    expect(result.transcript_source).toEqual('speech_recognition');
+  });
+});
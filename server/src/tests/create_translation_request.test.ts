@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable, audioGenerationJobsTable, voiceConsentsTable } from '../db/schema';
+import { type CreateTranslationRequestInput, type Language, createTranslationRequestInputSchema } from '../schema';
+import { createTranslationRequest } from '../handlers/create_translation_request';
+import { eq } from 'drizzle-orm';
+
+describe('createTranslationRequest', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestVideo = async (uploadStatus: 'pending' | 'uploaded' = 'uploaded') => {
+    const result = await db.insert(videosTable)
+      .values({
+        filename: 'test-video.mp4',
+        original_filename: 'user-video.mp4',
+        file_path: '/uploads/test-video.mp4',
+        file_size: 1024000,
+        duration: 120,
+        format: 'mp4',
+        upload_status: uploadStatus
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  };
+
+  // Consent from the video's speakers, valid for a day
+  const grantConsent = async (videoId: number, scopeLanguages: Language[] = []) => {
+    await db.insert(voiceConsentsTable)
+      .values({
+        video_id: videoId,
+        consented_by: 'Jane Speaker',
+        scope_languages: scopeLanguages,
+        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        artifact_path: '/consents/consent.pdf',
+        artifact_filename: 'consent.pdf',
+        artifact_sha256: 'a'.repeat(64)
+      })
+      .execute();
+  };
+
+  const testInput: CreateTranslationRequestInput = {
+    video_id: 1,
+    source_language: 'en',
+    target_languages: ['es', 'fr', 'de'],
+    glossary: [{ source_term: 'Acme', target_term: 'ACME' }],
+    voice_cloned: true,
+    preserve_background: false,
+    ducking_db: 12,
+    audible_watermark: false
+  };
+
+  it('should create a translation and an audio job per target language', async () => {
+    const video = await createTestVideo();
+    await grantConsent(video.id);
+
+    const result = await createTranslationRequest({ ...testInput, video_id: video.id });
+
+    expect(result.translation_jobs.map((job) => job.target_language)).toEqual(['es', 'fr', 'de']);
+    const [transcriptJob, ...sharingJobs] = result.translation_jobs;
+    expect(transcriptJob.transcript_job_id).toBeNull();
+    expect(transcriptJob.transcript_source).toEqual('speech_recognition');
+    sharingJobs.forEach((job) => {
+      expect(job.transcript_job_id).toEqual(transcriptJob.id);
+      expect(job.status).toEqual('pending');
+      expect(job.glossary).toEqual([{ source_term: 'Acme', target_term: 'ACME' }]);
+    });
+
+    expect(result.audio_generation_jobs.map((job) => job.translation_job_id))
+      .toEqual(result.translation_jobs.map((job) => job.id));
+    result.audio_generation_jobs.forEach((job) => {
+      expect(job.status).toEqual('pending');
+      expect(job.voice_cloned).toBe(true);
+    });
+
+    expect(await db.select().from(translationJobsTable).execute()).toHaveLength(3);
+    expect(await db.select().from(audioGenerationJobsTable).execute()).toHaveLength(3);
+  });
+
+  it('should store imported subtitles once, on the first job', async () => {
+    const video = await createTestVideo();
+    await grantConsent(video.id);
+
+    const result = await createTranslationRequest({
+      ...testInput,
+      video_id: video.id,
+      target_languages: ['es', 'fr'],
+      source_subtitles: { format: 'srt', content: '1\n00:00:01,000 --> 00:00:02,000\nHello.\n' }
+    });
+
+    const [transcriptJob, sharingJob] = result.translation_jobs;
+    expect(transcriptJob.transcript_source).toEqual('subtitles');
+    expect(sharingJob.transcript_source).toEqual('subtitles');
+    expect(sharingJob.transcript_job_id).toEqual(transcriptJob.id);
+
+    const segments = await db.select().from(transcriptSegmentsTable).execute();
+    expect(segments).toHaveLength(1);
+    expect(segments[0].translation_job_id).toEqual(transcriptJob.id);
+  });
+
+  it('should fail every language and queue no audio for malformed subtitles', async () => {
+    const video = await createTestVideo();
+    await grantConsent(video.id);
+
+    const result = await createTranslationRequest({
+      ...testInput,
+      video_id: video.id,
+      source_subtitles: { format: 'srt', content: 'not subtitles' }
+    });
+
+    expect(result.translation_jobs).toHaveLength(3);
+    result.translation_jobs.forEach((job) => {
+      expect(job.status).toEqual('failed');
+      expect(job.error_message).toMatch(/^Invalid SRT subtitles: Line 1/);
+    });
+    expect(result.audio_generation_jobs).toEqual([]);
+  });
+
+  it('should create nothing for a video that is not uploaded', async () => {
+    const video = await createTestVideo('pending');
+
+    await expect(createTranslationRequest({ ...testInput, video_id: video.id }))
+      .rejects.toThrow(/must be uploaded/i);
+    expect(await db.select().from(translationJobsTable).where(eq(translationJobsTable.video_id, video.id)).execute()).toHaveLength(0);
+  });
+
+  it('should reject a stock voice combined with voice cloning', async () => {
+    const video = await createTestVideo();
+
+    await expect(createTranslationRequest({ ...testInput, video_id: video.id, voice_id: 'local-tenor' }))
+      .rejects.toThrow(/cannot be combined with voice cloning/i);
+  });
+
+  it('should reject cloning unless consent covers every target language', async () => {
+    const video = await createTestVideo();
+
+    await expect(createTranslationRequest({ ...testInput, video_id: video.id }))
+      .rejects.toThrow(/voice cloning requires consent: no valid, unexpired consent covers the speakers of video \d+ for es, fr, de$/i);
+
+    await grantConsent(video.id, ['es', 'fr']);
+    await expect(createTranslationRequest({ ...testInput, video_id: video.id }))
+      .rejects.toThrow(/for de$/i);
+    expect(await db.select().from(translationJobsTable).execute()).toHaveLength(0);
+
+    // Stock voices need no consent
+    const result = await createTranslationRequest({ ...testInput, video_id: video.id, voice_cloned: false });
+    expect(result.audio_generation_jobs).toHaveLength(3);
+  });
+
+  it('should validate the target languages', () => {
+    const parse = (target_languages: string[]) => createTranslationRequestInputSchema.safeParse({
+      video_id: 1,
+      source_language: 'en',
+      target_languages
+    });
+
+    expect(parse(['es', 'fr']).success).toBe(true);
+    expect(parse(['es', 'fr']).data?.voice_cloned).toBe(false); // Cloning needs consent, so it is opted into
+    expect(parse([]).success).toBe(false);
+    expect(parse(['es', 'es']).success).toBe(false);
+    expect(parse(['es', 'en']).success).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { uploadSessionsTable } from '../db/schema';
+import { type CreateUploadSessionInput } from '../schema';
+import { createUploadSession } from '../handlers/create_upload_session';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateUploadSessionInput = {
+  original_filename: 'quarterly-webinar.mp4',
+  mime_type: 'video/mp4',
+  total_size: 3 * 1024 * 1024 * 1024 // 3GB, larger than a 32-bit integer
+};
+
+let storageDir: string;
+
+describe('createUploadSession', () => {
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'upload-sessions-'));
+    process.env['STORAGE_DIR'] = storageDir;
+  });
+
+  afterEach(async () => {
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['STORAGE_DIR'];
+    delete process.env['UPLOAD_CHUNK_SIZE'];
+    delete process.env['MAX_CHUNKED_UPLOAD_SIZE'];
+    await resetDB();
+  });
+
+  it('should create a receiving session with an empty partial file', async () => {
+    const result = await createUploadSession(testInput);
+
+    expect(result.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(result.original_filename).toEqual('quarterly-webinar.mp4');
+    expect(result.mime_type).toEqual('video/mp4');
+    expect(result.total_size).toEqual(3 * 1024 * 1024 * 1024);
+    expect(result.chunk_size).toEqual(8 * 1024 * 1024);
+    expect(result.received_bytes).toEqual(0);
+    expect(result.status).toEqual('receiving');
+    expect(result.video_id).toBeNull();
+    expect(result.created_at).toBeInstanceOf(Date);
+
+    expect(path.dirname(result.temp_path)).toEqual(path.join(storageDir, 'uploads'));
+    expect((await stat(result.temp_path)).size).toEqual(0);
+  });
+
+  it('should save the session to the database', async () => {
+    const result = await createUploadSession(testInput);
+
+    const sessions = await db.select()
+      .from(uploadSessionsTable)
+      .where(eq(uploadSessionsTable.id, result.id))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].total_size).toEqual(testInput.total_size);
+    expect(sessions[0].temp_path).toEqual(result.temp_path);
+  });
+
+  it('should use the configured chunk size', async () => {
+    process.env['UPLOAD_CHUNK_SIZE'] = '1048576';
+
+    const result = await createUploadSession(testInput);
+
+    expect(result.chunk_size).toEqual(1048576);
+  });
+
+  it('should reject files above the maximum chunked upload size', async () => {
+    process.env['MAX_CHUNKED_UPLOAD_SIZE'] = '1000';
+
+    await expect(createUploadSession(testInput)).rejects.toThrow(/exceeds the maximum upload size/i);
+
+    const sessions = await db.select().from(uploadSessionsTable).execute();
+    expect(sessions).toHaveLength(0);
+  });
+});
@@ -1,16 +1,17 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import path from 'node:path';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { videosTable } from '../db/schema';
 import { type CreateVideoInput } from '../schema';
 import { createVideo } from '../handlers/create_video';
+import { getStorageRoot } from '../storage';
 import { eq } from 'drizzle-orm';
 
 // Test input data
 const testInput: CreateVideoInput = {
   filename: 'video_123.mp4',
   original_filename: 'my-awesome-video.mp4',
-  file_path: '/uploads/videos/video_123.mp4',
   file_size: 52428800, // 50MB in bytes
   duration: 150, // 2 minutes 30 seconds (in whole seconds)
   format: 'mp4'
@@ -19,7 +20,6 @@ const testInput: CreateVideoInput = {
 const testInputWithNullDuration: CreateVideoInput = {
   filename: 'video_456.avi',
   original_filename: 'unprocessed-video.avi',
-  file_path: '/uploads/videos/video_456.avi',
   file_size: 104857600, // 100MB in bytes
   duration: null, // Not yet processed
   format: 'avi'
@@ -30,7 +30,7 @@ describe('createVideo', () => {
   afterEach(resetDB);
 
   it('should create a video with all fields', async () => {
-    const result = await createVideo(testInput);
+    const result = await createVideo(testInput, '/uploads/videos/video_123.mp4');
 
     // Verify all fields are correctly set
     expect(result.filename).toEqual('video_123.mp4');
@@ -46,7 +46,7 @@ describe('createVideo', () => {
   });
 
   it('should create a video with null duration', async () => {
-    const result = await createVideo(testInputWithNullDuration);
+    const result = await createVideo(testInputWithNullDuration, '/uploads/videos/video_456.avi');
 
     // Verify null duration is handled correctly
     expect(result.filename).toEqual('video_456.avi');
@@ -62,7 +62,7 @@ describe('createVideo', () => {
   });
 
   it('should save video to database correctly', async () => {
-    const result = await createVideo(testInput);
+    const result = await createVideo(testInput, '/uploads/videos/video_123.mp4');
 
     // Query the database to verify record was saved
     const videos = await db.select()
@@ -84,6 +84,15 @@ describe('createVideo', () => {
     expect(savedVideo.created_at).toBeInstanceOf(Date);
   });
 
+  it('should look up videos registered without a path in the videos storage area', async () => {
+    const result = await createVideo(testInput);
+    expect(result.file_path).toEqual(path.join(getStorageRoot(), 'videos', 'video_123.mp4'));
+
+    // A filename cannot climb out of the storage area
+    const escaping = await createVideo({ ...testInput, filename: '../../../etc/passwd' });
+    expect(escaping.file_path).toEqual(path.join(getStorageRoot(), 'videos', 'passwd'));
+  });
+
   it('should set default upload_status to pending', async () => {
     const result = await createVideo(testInput);
 
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { existsSync } from 'node:fs';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, voiceConsentsTable, voiceProfilesTable } from '../db/schema';
+import { createVoiceProfile } from '../handlers/create_voice_profile';
+import { readWav, wavDurationMs } from '../media/wav';
+import { sql } from 'drizzle-orm';
+
+let storageDir: string;
+
+async function createTestVideo(name: string, duration: number, uploadStatus: 'uploaded' | 'pending' = 'uploaded', consented = true) {
+  const filePath = path.join(storageDir, name);
+  await writeFile(filePath, 'video bytes');
+
+  const result = await db.insert(videosTable)
+    .values({
+      filename: name,
+      original_filename: name,
+      file_path: filePath,
+      file_size: 11,
+      duration,
+      format: 'mp4',
+      upload_status: uploadStatus
+    })
+    .returning()
+    .execute();
+
+  if (consented) {
+    await grantConsent({ video_id: result[0].id });
+  }
+  return result[0];
+}
+
+// The speakers of the video agreed to have their voice cloned
+async function grantConsent(subject: { video_id: number } | { voice_profile_id: number }) {
+  const consent = await db.insert(voiceConsentsTable)
+    .values({
+      ...subject,
+      consented_by: 'Jane Speaker',
+      scope_languages: [],
+      expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      artifact_path: path.join(storageDir, 'consent.pdf'),
+      artifact_filename: 'consent.pdf',
+      artifact_sha256: 'a'.repeat(64)
+    })
+    .returning()
+    .execute();
+
+  return consent[0];
+}
+
+describe('createVoiceProfile', () => {
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'voice-profile-'));
+    process.env['STORAGE_DIR'] = storageDir;
+    process.env['MEDIA_PROVIDER'] = 'local';
+  });
+
+  afterEach(async () => {
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['STORAGE_DIR'];
+    delete process.env['MEDIA_PROVIDER'];
+    await resetDB();
+  });
+
+  it('should clone a voice from clips of several videos', async () => {
+    const keynote = await createTestVideo('keynote.mp4', 10);
+    const webinar = await createTestVideo('webinar.mp4', 5);
+
+    const profile = await createVoiceProfile({
+      name: 'Presenter',
+      clips: [
+        { video_id: keynote.id, start_ms: 1000, end_ms: 3000 },
+        { video_id: webinar.id, start_ms: 0, end_ms: 1500 },
+        { video_id: keynote.id, start_ms: 8000, end_ms: 8500 }
+      ]
+    });
+
+    expect(profile.name).toEqual('Presenter');
+    expect(profile.source_video_ids).toEqual([keynote.id, webinar.id]);
+    expect(profile.clips).toHaveLength(3);
+    expect(profile.tts_provider).toEqual('local');
+    expect(profile.provider_voice_id).toMatch(/^local-clone-[0-9a-f]{12}$/);
+    expect(profile.created_at).toBeInstanceOf(Date);
+
+    // The clips joined end to end
+    expect(profile.reference_audio_path).toStartWith(path.join(storageDir, 'voices'));
+    expect(wavDurationMs(await readWav(profile.reference_audio_path))).toEqual(4000);
+    expect(existsSync(profile.preview_audio_path)).toBe(true);
+
+    const saved = await db.select().from(voiceProfilesTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].provider_voice_id).toEqual(profile.provider_voice_id);
+  });
+
+  it('should remove the reference recording and preview when the profile cannot be saved', async () => {
+    const keynote = await createTestVideo('keynote.mp4', 10);
+    await db.execute(sql`
+      create function fail_voice_profile_insert() returns trigger as $$
+      begin raise exception 'voice profile insert failed'; end;
+      $$ language plpgsql
+    `);
+    await db.execute(sql`create trigger fail_voice_profile_insert before insert on voice_profiles for each row execute function fail_voice_profile_insert()`);
+
+    await expect(createVoiceProfile({ name: 'Presenter', clips: [{ video_id: keynote.id, start_ms: 0, end_ms: 1000 }] }))
+      .rejects.toThrow(/voice profile insert failed/i);
+    expect(await readdir(path.join(storageDir, 'voices'))).toEqual([]);
+  });
+
+  it('should not clone without consent from the speakers of every source video', async () => {
+    const keynote = await createTestVideo('keynote.mp4', 10);
+    const interview = await createTestVideo('interview.mp4', 10, 'uploaded', false);
+
+    await expect(createVoiceProfile({
+      name: 'Presenter',
+      clips: [{ video_id: keynote.id, start_ms: 0, end_ms: 1000 }, { video_id: interview.id, start_ms: 0, end_ms: 1000 }]
+    })).rejects.toThrow(new RegExp(`requires consent.*video ${interview.id}`, 'i'));
+    expect(existsSync(path.join(storageDir, 'voices'))).toBe(false);
+    expect(await db.select().from(voiceProfilesTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject a clip outside its video', async () => {
+    const video = await createTestVideo('short.mp4', 2);
+
+    await expect(createVoiceProfile({ name: 'Presenter', clips: [{ video_id: video.id, start_ms: 1000, end_ms: 2500 }] }))
+      .rejects.toThrow(/clip 1000-2500ms is outside video \d+, which is 2000ms long/i);
+    expect(await db.select().from(voiceProfilesTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject unknown and unfinished videos', async () => {
+    const pending = await createTestVideo('partial.mp4', 10, 'pending');
+
+    await expect(createVoiceProfile({ name: 'Presenter', clips: [{ video_id: 999, start_ms: 0, end_ms: 1000 }] }))
+      .rejects.toThrow(/video with id 999 not found/i);
+    await expect(createVoiceProfile({ name: 'Presenter', clips: [{ video_id: pending.id, start_ms: 0, end_ms: 1000 }] }))
+      .rejects.toThrow(/is not uploaded/i);
+  });
+});
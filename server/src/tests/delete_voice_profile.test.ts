@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, audioGenerationJobsTable, voiceProfilesTable } from '../db/schema';
+import { deleteVoiceProfile } from '../handlers/delete_voice_profile';
+import { eq } from 'drizzle-orm';
+
+async function createTestProfile() {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'keynote.mp4',
+      original_filename: 'keynote.mp4',
+      file_path: '/uploads/keynote.mp4',
+      file_size: 1024000,
+      duration: 10,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const profile = await db.insert(voiceProfilesTable)
+    .values({
+      name: 'Presenter',
+      clips: [{ video_id: video[0].id, start_ms: 0, end_ms: 2000 }],
+      source_video_ids: [video[0].id],
+      reference_audio_path: '/voices/reference.wav',
+      tts_provider: 'local',
+      provider_voice_id: 'local-clone-presenter',
+      preview_audio_path: '/voices/preview.wav'
+    })
+    .returning()
+    .execute();
+
+  return { video: video[0], profile: profile[0] };
+}
+
+describe('deleteVoiceProfile', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete an unused profile', async () => {
+    const { profile } = await createTestProfile();
+
+    const result = await deleteVoiceProfile(profile.id);
+
+    expect(result.id).toEqual(profile.id);
+    expect(await db.select().from(voiceProfilesTable).execute()).toHaveLength(0);
+  });
+
+  it('should remove the reference recording and preview of the deleted profile', async () => {
+    const { profile } = await createTestProfile();
+    const voicesDir = await mkdtemp(path.join(tmpdir(), 'voices-'));
+    try {
+      const referenceAudioPath = path.join(voicesDir, 'reference.wav');
+      const previewDir = path.join(voicesDir, 'preview_abc123');
+      await writeFile(referenceAudioPath, 'reference');
+      await mkdir(previewDir);
+      await writeFile(path.join(previewDir, 'segment_0000.wav'), 'preview');
+      await db.update(voiceProfilesTable)
+        .set({ reference_audio_path: referenceAudioPath, preview_audio_path: path.join(previewDir, 'segment_0000.wav') })
+        .where(eq(voiceProfilesTable.id, profile.id))
+        .execute();
+
+      await deleteVoiceProfile(profile.id);
+
+      expect(existsSync(referenceAudioPath)).toBe(false);
+      expect(existsSync(previewDir)).toBe(false);
+      expect(existsSync(voicesDir)).toBe(true);
+    } finally {
+      await rm(voicesDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep a profile that audio generation jobs use', async () => {
+    const { video, profile } = await createTestProfile();
+    const job = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'es' })
+      .returning()
+      .execute();
+    await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: job[0].id, voice_cloned: true, voice_profile_id: profile.id })
+      .execute();
+
+    await expect(deleteVoiceProfile(profile.id)).rejects.toThrow(/is used by 1 audio generation job/i);
+    expect(await db.select().from(voiceProfilesTable).execute()).toHaveLength(1);
+  });
+
+  it('should throw error when the profile does not exist', async () => {
+    await expect(deleteVoiceProfile(999)).rejects.toThrow(/voice profile with id 999 not found/i);
+  });
+});
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { speakerDiarizers } from '../providers/diarization';
+import { assignSpeakers } from '../worker/speakers';
+import { PIPELINE_SAMPLE_RATE, generateTone, writeWav } from '../media/wav';
+
+let workDir: string;
+
+describe('speaker diarization providers', () => {
+  beforeEach(async () => {
+    workDir = await mkdtemp(path.join(tmpdir(), 'diarization-'));
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+    delete process.env['DIARIZATION_PROVIDER'];
+  });
+
+  it('should default to the local provider', () => {
+    expect(speakerDiarizers.get().name).toEqual('local');
+  });
+
+  it('should reject an unknown configured provider', () => {
+    process.env['DIARIZATION_PROVIDER'] = 'nonexistent';
+    expect(() => speakerDiarizers.get()).toThrow(/unknown speaker diarization provider "nonexistent"/i);
+  });
+
+  it('should hear the whole soundtrack as one speaker', async () => {
+    const audioPath = path.join(workDir, 'source.wav');
+    await writeWav(audioPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples: generateTone(2500, 220) });
+
+    expect(await speakerDiarizers.get('local').diarize({ audioPath })).toEqual([
+      { startMs: 0, endMs: 2500, speaker: 'Speaker 1' }
+    ]);
+  });
+
+  it('should find no speaker in empty audio', async () => {
+    const audioPath = path.join(workDir, 'empty.wav');
+    await writeWav(audioPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples: new Int16Array(0) });
+
+    expect(await speakerDiarizers.get('local').diarize({ audioPath })).toEqual([]);
+  });
+});
+
+describe('assignSpeakers', () => {
+  const segment = (startMs: number, endMs: number) => ({ startMs, endMs, text: 'Words.', confidence: 0.9 });
+
+  it('should label each segment with the speaker who talks longest during it', () => {
+    const turns = [
+      { startMs: 0, endMs: 1200, speaker: 'Ana' },
+      { startMs: 1200, endMs: 1500, speaker: 'Ben' },
+      { startMs: 1500, endMs: 1900, speaker: 'Ana' },
+      { startMs: 1900, endMs: 4000, speaker: 'Ben' }
+    ];
+
+    const labeled = assignSpeakers([segment(0, 1000), segment(1000, 2000), segment(2000, 4000)], turns);
+
+    // 1000-2000: Ana speaks 200 + 400ms, Ben 300 + 100ms
+    expect(labeled.map((labeledSegment) => labeledSegment.speaker)).toEqual(['Ana', 'Ana', 'Ben']);
+    expect(labeled[0]).toEqual({ ...segment(0, 1000), speaker: 'Ana' });
+  });
+
+  it('should leave segments no turn overlaps unlabeled', () => {
+    const labeled = assignSpeakers([segment(0, 1000), segment(1000, 2000)], [{ startMs: 0, endMs: 1000, speaker: 'Ana' }]);
+
+    expect(labeled.map((labeledSegment) => labeledSegment.speaker)).toEqual(['Ana', null]);
+  });
+});
@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, audioGenerationJobsTable, finalOutputsTable } from '../db/schema';
+import { handleHttpRoute } from '../routes';
+import { parseRange } from '../routes/send_file';
+import { eq } from 'drizzle-orm';
+
+let server: Server;
+let baseUrl: string;
+let storageDir: string;
+
+// 256 distinct bytes, so every range is recognisable
+const CONTENT = Buffer.from(Array.from({ length: 256 }, (_, index) => index));
+
+async function startServer() {
+  server = createServer((req, res) => {
+    handleHttpRoute(req, res).then((handled) => {
+      if (!handled) {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+}
+
+async function createFinalOutput(writeFileToDisk = true, originalFilename = 'Q3 keynote.mov') {
+  const finalVideoPath = path.join(storageDir, 'output_1_es_123.mp4');
+  if (writeFileToDisk) {
+    await writeFile(finalVideoPath, CONTENT);
+  }
+
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'video_1.mp4',
+      original_filename: originalFilename,
+      file_path: '/uploads/video_1.mp4',
+      file_size: 1024000,
+      duration: 10,
+      format: 'mov',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const job = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'en', target_language: 'es', status: 'completed' })
+    .returning()
+    .execute();
+
+  const audioJob = await db.insert(audioGenerationJobsTable)
+    .values({ translation_job_id: job[0].id, status: 'completed', voice_cloned: false })
+    .returning()
+    .execute();
+
+  const output = await db.insert(finalOutputsTable)
+    .values({ video_id: video[0].id, translation_job_id: job[0].id, audio_generation_job_id: audioJob[0].id, final_video_path: finalVideoPath })
+    .returning()
+    .execute();
+
+  return output[0];
+}
+
+describe('downloadFinalVideo route', () => {
+  beforeEach(async () => {
+    await createDB();
+    await startServer();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'final-video-'));
+    process.env['STORAGE_DIR'] = storageDir;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['STORAGE_DIR'];
+    await resetDB();
+  });
+
+  it('should download the whole video as an attachment named after the upload', async () => {
+    const output = await createFinalOutput();
+
+    const response = await fetch(`${baseUrl}/final-outputs/${output.id}/video`);
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toEqual('video/mp4');
+    expect(response.headers.get('content-length')).toEqual('256');
+    expect(response.headers.get('accept-ranges')).toEqual('bytes');
+    expect(response.headers.get('etag')).toMatch(/^"100-[0-9a-f]+"$/);
+    expect(response.headers.get('content-disposition')).toEqual(`attachment; filename="Q3 keynote.es.mp4"; filename*=UTF-8''Q3%20keynote.es.mp4`);
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(CONTENT);
+  });
+
+  it('should keep a name outside Latin-1 in the UTF-8 form only', async () => {
+    const output = await createFinalOutput(true, '会議 "Q3".mov');
+
+    const response = await fetch(`${baseUrl}/final-outputs/${output.id}/video`);
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-disposition')).toEqual(
+      `attachment; filename="__ _Q3_.es.mp4"; filename*=UTF-8''%E4%BC%9A%E8%AD%B0%20%22Q3%22.es.mp4`
+    );
+  });
+
+  it('should name a multi-track output after the upload alone', async () => {
+    const output = await createFinalOutput();
+    const multiTrack = await db.insert(finalOutputsTable)
+      .values({ video_id: output.video_id, kind: 'multi_track', final_video_path: output.final_video_path })
+      .returning()
+      .execute();
+
+    const response = await fetch(`${baseUrl}/final-outputs/${multiTrack[0].id}/video`, { method: 'HEAD' });
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-disposition')).toStartWith('attachment; filename="Q3 keynote.multi.mp4"');
+  });
+
+  it('should serve inline for players', async () => {
+    const output = await createFinalOutput();
+
+    const response = await fetch(`${baseUrl}/final-outputs/${output.id}/video?disposition=inline`);
+    await response.arrayBuffer();
+
+    expect(response.headers.get('content-disposition')).toStartWith('inline; ');
+  });
+
+  it('should answer range requests with partial content', async () => {
+    const output = await createFinalOutput();
+
+    const middle = await fetch(`${baseUrl}/final-outputs/${output.id}/video`, { headers: { Range: 'bytes=10-19' } });
+    expect(middle.status).toEqual(206);
+    expect(middle.headers.get('content-range')).toEqual('bytes 10-19/256');
+    expect(middle.headers.get('content-length')).toEqual('10');
+    expect(Buffer.from(await middle.arrayBuffer())).toEqual(CONTENT.subarray(10, 20));
+
+    const tail = await fetch(`${baseUrl}/final-outputs/${output.id}/video`, { headers: { Range: 'bytes=-6' } });
+    expect(tail.headers.get('content-range')).toEqual('bytes 250-255/256');
+    expect(Buffer.from(await tail.arrayBuffer())).toEqual(CONTENT.subarray(250));
+
+    const unsatisfiable = await fetch(`${baseUrl}/final-outputs/${output.id}/video`, { headers: { Range: 'bytes=300-' } });
+    expect(unsatisfiable.status).toEqual(416);
+    expect(unsatisfiable.headers.get('content-range')).toEqual('bytes */256');
+  });
+
+  it('should revalidate with the ETag and ignore a range against a stale one', async () => {
+    const output = await createFinalOutput();
+    const first = await fetch(`${baseUrl}/final-outputs/${output.id}/video`);
+    await first.arrayBuffer();
+    const etag = first.headers.get('etag')!;
+
+    const notModified = await fetch(`${baseUrl}/final-outputs/${output.id}/video`, { headers: { 'If-None-Match': etag } });
+    expect(notModified.status).toEqual(304);
+
+    const resumed = await fetch(`${baseUrl}/final-outputs/${output.id}/video`, { headers: { Range: 'bytes=100-', 'If-Range': etag } });
+    expect(resumed.status).toEqual(206);
+    await resumed.arrayBuffer();
+
+    const stale = await fetch(`${baseUrl}/final-outputs/${output.id}/video`, { headers: { Range: 'bytes=100-', 'If-Range': '"0-0"' } });
+    expect(stale.status).toEqual(200);
+    expect((await stale.arrayBuffer()).byteLength).toEqual(256);
+  });
+
+  it('should answer HEAD without a body', async () => {
+    const output = await createFinalOutput();
+
+    const response = await fetch(`${baseUrl}/final-outputs/${output.id}/video`, { method: 'HEAD' });
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-length')).toEqual('256');
+    expect(await response.text()).toEqual('');
+  });
+
+  it('should respond 404 for an unknown output or a missing file', async () => {
+    const unknown = await fetch(`${baseUrl}/final-outputs/999/video`);
+    expect(unknown.status).toEqual(404);
+    expect(await unknown.text()).toContain('Final output 999 not found');
+
+    const output = await createFinalOutput(false);
+    const missing = await fetch(`${baseUrl}/final-outputs/${output.id}/video`);
+    expect(missing.status).toEqual(404);
+  });
+
+  it('should refuse files outside the storage root', async () => {
+    const output = await createFinalOutput();
+    for (const outside of ['/etc/passwd', path.join(storageDir, '..', path.basename(storageDir) + '-other', 'output.mp4')]) {
+      await db.update(finalOutputsTable).set({ final_video_path: outside }).where(eq(finalOutputsTable.id, output.id)).execute();
+
+      const response = await fetch(`${baseUrl}/final-outputs/${output.id}/video`);
+      expect(response.status).toEqual(404);
+      expect(await response.text()).not.toContain('root:');
+    }
+  });
+
+  it('should respond 400 for an unknown disposition', async () => {
+    const output = await createFinalOutput();
+
+    const response = await fetch(`${baseUrl}/final-outputs/${output.id}/video?disposition=download`);
+
+    expect(response.status).toEqual(400);
+  });
+});
+
+describe('parseRange', () => {
+  it('should parse single byte ranges and reject the rest', () => {
+    expect(parseRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+    expect(parseRange('bytes=900-', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRange('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRange('bytes=-2000', 1000)).toEqual({ start: 0, end: 999 });
+    expect(parseRange('bytes=1000-', 1000)).toBeNull();
+    expect(parseRange('bytes=50-10', 1000)).toBeNull();
+    expect(parseRange(undefined, 1000)).toBeUndefined();
+    expect(parseRange('bytes=0-1,5-6', 1000)).toBeUndefined();
+    expect(parseRange('items=0-1', 1000)).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable } from '../db/schema';
+import { handleHttpRoute } from '../routes';
+
+let server: Server;
+let baseUrl: string;
+
+async function startServer() {
+  server = createServer((req, res) => {
+    handleHttpRoute(req, res).then((handled) => {
+      if (!handled) {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+}
+
+async function createTranslatedJob() {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'video_1.mp4',
+      original_filename: 'démo "final".mp4',
+      file_path: '/uploads/video_1.mp4',
+      file_size: 1024000,
+      duration: 10,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const job = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'fr', target_language: 'en', status: 'translating' })
+    .returning()
+    .execute();
+
+  await db.insert(transcriptSegmentsTable)
+    .values({ translation_job_id: job[0].id, segment_index: 0, start_ms: 500, end_ms: 2000, source_text: 'Bonjour.' })
+    .execute();
+
+  return job[0];
+}
+
+describe('downloadSubtitles route', () => {
+  beforeEach(async () => {
+    await createDB();
+    await startServer();
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await resetDB();
+  });
+
+  it('should download subtitles as an attachment', async () => {
+    const job = await createTranslatedJob();
+
+    const response = await fetch(`${baseUrl}/translation-jobs/${job.id}/subtitles.vtt?text=source`);
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toEqual('text/vtt; charset=utf-8');
+    expect(response.headers.get('content-disposition')).toEqual(
+      `attachment; filename="d_mo _final_.fr.vtt"; filename*=UTF-8''${encodeURIComponent('démo "final".fr.vtt')}`
+    );
+    expect(await response.text()).toEqual('WEBVTT\n\n00:00:00.500 --> 00:00:02.000\nBonjour.\n');
+  });
+
+  it('should respond 409 while the translation is unfinished', async () => {
+    const job = await createTranslatedJob();
+
+    const response = await fetch(`${baseUrl}/translation-jobs/${job.id}/subtitles.srt`);
+
+    expect(response.status).toEqual(409);
+    expect(await response.text()).toMatch(/untranslated segments/i);
+  });
+
+  it('should respond 404 for an unknown job', async () => {
+    const response = await fetch(`${baseUrl}/translation-jobs/999/subtitles.ttml`);
+
+    expect(response.status).toEqual(404);
+  });
+
+  it('should reject an unknown text selection', async () => {
+    const job = await createTranslatedJob();
+
+    const response = await fetch(`${baseUrl}/translation-jobs/${job.id}/subtitles.srt?text=both`);
+
+    expect(response.status).toEqual(400);
+  });
+
+  it('should not match unsupported formats', async () => {
+    const job = await createTranslatedJob();
+
+    const response = await fetch(`${baseUrl}/translation-jobs/${job.id}/subtitles.ass`);
+
+    expect(response.status).toEqual(404);
+  });
+});
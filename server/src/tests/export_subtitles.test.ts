@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable } from '../db/schema';
+import { exportSubtitlesInputSchema } from '../schema';
+import { exportSubtitles, SubtitleExportError } from '../handlers/export_subtitles';
+
+async function createTranslatedJob(translated = true) {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'video_1.mp4',
+      original_filename: 'Quarterly Review.mp4',
+      file_path: '/uploads/video_1.mp4',
+      file_size: 1024000,
+      duration: 10,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const job = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'en', target_language: 'es', status: 'completed' })
+    .returning()
+    .execute();
+
+  await db.insert(transcriptSegmentsTable)
+    .values([
+      { translation_job_id: job[0].id, segment_index: 0, start_ms: 0, end_ms: 2500, source_text: 'Good morning.', translated_text: 'Buenos días.' },
+      { translation_job_id: job[0].id, segment_index: 1, start_ms: 3000, end_ms: 5000, source_text: 'Let us begin.', translated_text: translated ? 'Empecemos.' : null }
+    ])
+    .execute();
+
+  return job[0];
+}
+
+describe('exportSubtitles', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should export the translation as SRT named after the upload', async () => {
+    const job = await createTranslatedJob();
+
+    const file = await exportSubtitles(exportSubtitlesInputSchema.parse({ translation_job_id: job.id, format: 'srt' }));
+
+    expect(file).toEqual({
+      filename: 'Quarterly Review.es.srt',
+      content_type: 'application/x-subrip; charset=utf-8',
+      content: '1\n00:00:00,000 --> 00:00:02,500\nBuenos días.\n\n2\n00:00:03,000 --> 00:00:05,000\nEmpecemos.\n'
+    });
+  });
+
+  it('should export the source transcript on request', async () => {
+    const job = await createTranslatedJob(false);
+
+    const file = await exportSubtitles({ translation_job_id: job.id, format: 'vtt', text: 'source' });
+
+    expect(file!.filename).toEqual('Quarterly Review.en.vtt');
+    expect(file!.content_type).toEqual('text/vtt; charset=utf-8');
+    expect(file!.content).toContain('00:00:03.000 --> 00:00:05.000\nLet us begin.');
+  });
+
+  it('should export TTML in the target language', async () => {
+    const job = await createTranslatedJob();
+
+    const file = await exportSubtitles({ translation_job_id: job.id, format: 'ttml', text: 'translated' });
+
+    expect(file!.content_type).toEqual('application/ttml+xml; charset=utf-8');
+    expect(file!.content).toContain('xml:lang="es"');
+    expect(file!.content).toContain('<p begin="00:00:00.000" end="00:00:02.500">Buenos días.</p>');
+  });
+
+  it('should refuse a translation with untranslated segments', async () => {
+    const job = await createTranslatedJob(false);
+
+    await expect(exportSubtitles({ translation_job_id: job.id, format: 'srt', text: 'translated' }))
+      .rejects.toBeInstanceOf(SubtitleExportError);
+  });
+
+  it('should refuse a job without a transcript', async () => {
+    const job = await createTranslatedJob();
+    await db.delete(transcriptSegmentsTable).execute();
+
+    await expect(exportSubtitles({ translation_job_id: job.id, format: 'srt', text: 'translated' }))
+      .rejects.toThrow(/has no transcript yet/i);
+  });
+
+  it('should return null for a non-existent job', async () => {
+    expect(await exportSubtitles({ translation_job_id: 999, format: 'srt', text: 'translated' })).toBeNull();
+  });
+});
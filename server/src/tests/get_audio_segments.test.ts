@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable, audioGenerationJobsTable, audioSegmentsTable } from '../db/schema';
+import { getAudioSegments } from '../handlers/get_audio_segments';
+
+async function createTestAudioJob() {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'test-video.mp4',
+      original_filename: 'original-test.mp4',
+      file_path: '/uploads/test-video.mp4',
+      file_size: 1024000,
+      duration: 120,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const job = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'en', target_language: 'es', status: 'completed' })
+    .returning()
+    .execute();
+
+  // Inserted out of transcript order on purpose
+  const segments = await db.insert(transcriptSegmentsTable)
+    .values([
+      { translation_job_id: job[0].id, segment_index: 1, start_ms: 2000, end_ms: 4000, source_text: 'Second.', translated_text: 'Segundo.' },
+      { translation_job_id: job[0].id, segment_index: 0, start_ms: 0, end_ms: 2000, source_text: 'First.', translated_text: 'Primero.' }
+    ])
+    .returning()
+    .execute();
+
+  const audioJob = await db.insert(audioGenerationJobsTable)
+    .values({ translation_job_id: job[0].id, status: 'completed', voice_cloned: false })
+    .returning()
+    .execute();
+
+  return { audioJob: audioJob[0], segments };
+}
+
+describe('getAudioSegments', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return an empty list before the job has synthesized anything', async () => {
+    const { audioJob } = await createTestAudioJob();
+
+    expect(await getAudioSegments(audioJob.id)).toEqual([]);
+  });
+
+  it('should return the synthesized segments in transcript order', async () => {
+    const { audioJob, segments } = await createTestAudioJob();
+    const [second, first] = segments;
+
+    await db.insert(audioSegmentsTable)
+      .values([
+        { audio_generation_job_id: audioJob.id, transcript_segment_id: second.id, audio_path: '/audio/second.wav', duration_ms: 480, stale: true },
+        { audio_generation_job_id: audioJob.id, transcript_segment_id: first.id, audio_path: '/audio/first.wav', duration_ms: 420 }
+      ])
+      .execute();
+
+    const result = await getAudioSegments(audioJob.id);
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({
+      audio_generation_job_id: audioJob.id,
+      transcript_segment_id: first.id,
+      audio_path: '/audio/first.wav',
+      duration_ms: 420,
+      stale: false
+    });
+    expect(result[0].created_at).toBeInstanceOf(Date);
+    expect(result[1].transcript_segment_id).toEqual(second.id);
+    expect(result[1].stale).toBe(true);
+  });
+
+  it('should reject a second audio segment for the same transcript segment', async () => {
+    const { audioJob, segments } = await createTestAudioJob();
+    const row = { audio_generation_job_id: audioJob.id, transcript_segment_id: segments[0].id, audio_path: '/audio/a.wav', duration_ms: 100 };
+
+    await db.insert(audioSegmentsTable).values(row).execute();
+    await expect(db.insert(audioSegmentsTable).values(row).execute()).rejects.toThrow();
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, audioGenerationJobsTable, jobAttemptsTable } from '../db/schema';
+import { getJobAttempts } from '../handlers/get_job_attempts';
+
+async function createTestJobs() {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'test-video.mp4',
+      original_filename: 'original-test.mp4',
+      file_path: '/uploads/test-video.mp4',
+      file_size: 1024000,
+      duration: 120,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const translationJob = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'en', target_language: 'es', status: 'completed', attempt_count: 2 })
+    .returning()
+    .execute();
+
+  const audioJob = await db.insert(audioGenerationJobsTable)
+    .values({ translation_job_id: translationJob[0].id, attempt_count: 1 })
+    .returning()
+    .execute();
+
+  return { translationJob: translationJob[0], audioJob: audioJob[0] };
+}
+
+describe('getJobAttempts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list the attempts of one job, oldest first', async () => {
+    const { translationJob, audioJob } = await createTestJobs();
+    const startedAt = new Date('2026-01-01T10:00:00Z');
+    const finishedAt = new Date('2026-01-01T10:00:02Z');
+    await db.insert(jobAttemptsTable)
+      .values([
+        {
+          translation_job_id: translationJob.id,
+          attempt: 2,
+          stage: 'translating',
+          outcome: 'succeeded',
+          provider: 'translation:local',
+          duration_ms: 2000,
+          started_at: startedAt,
+          finished_at: finishedAt
+        },
+        {
+          translation_job_id: translationJob.id,
+          attempt: 1,
+          stage: 'translating',
+          outcome: 'failed',
+          provider: 'translation:local',
+          error_message: 'Rate limited',
+          error_class: 'transient',
+          retry_at: finishedAt,
+          duration_ms: 2000,
+          started_at: startedAt,
+          finished_at: finishedAt
+        },
+        {
+          audio_generation_job_id: audioJob.id,
+          attempt: 1,
+          stage: 'generating',
+          outcome: 'succeeded',
+          duration_ms: 2000,
+          started_at: startedAt,
+          finished_at: finishedAt
+        }
+      ])
+      .execute();
+
+    const attempts = await getJobAttempts({ job_type: 'translation', id: translationJob.id });
+
+    expect(attempts.map((attempt) => attempt.attempt)).toEqual([1, 2]);
+    expect(attempts[0]).toMatchObject({
+      outcome: 'failed',
+      error_class: 'transient',
+      error_message: 'Rate limited',
+      provider: 'translation:local',
+      retry_at: finishedAt
+    });
+
+    const audioAttempts = await getJobAttempts({ job_type: 'audio_generation', id: audioJob.id });
+    expect(audioAttempts).toHaveLength(1);
+    expect(audioAttempts[0].stage).toEqual('generating');
+  });
+
+  it('should return an empty list for a job that never ran', async () => {
+    expect(await getJobAttempts({ job_type: 'audio_generation', id: 999 })).toEqual([]);
+  });
+});
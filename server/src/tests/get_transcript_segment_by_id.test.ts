@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable } from '../db/schema';
+import { getTranscriptSegmentById } from '../handlers/get_transcript_segment_by_id';
+
+describe('getTranscriptSegmentById', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the segment', async () => {
+    const video = await db.insert(videosTable)
+      .values({
+        filename: 'test-video.mp4',
+        original_filename: 'original-test.mp4',
+        file_path: '/uploads/test-video.mp4',
+        file_size: 1024000,
+        duration: 120,
+        format: 'mp4',
+        upload_status: 'uploaded'
+      })
+      .returning()
+      .execute();
+    const job = await db.insert(translationJobsTable)
+      .values({ video_id: video[0].id, source_language: 'en', target_language: 'fr' })
+      .returning()
+      .execute();
+    const inserted = await db.insert(transcriptSegmentsTable)
+      .values({ translation_job_id: job[0].id, segment_index: 0, start_ms: 250, end_ms: 1750, source_text: 'Good morning.' })
+      .returning()
+      .execute();
+
+    const result = await getTranscriptSegmentById(inserted[0].id);
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(inserted[0].id);
+    expect(result!.start_ms).toEqual(250);
+    expect(result!.end_ms).toEqual(1750);
+    expect(result!.source_text).toEqual('Good morning.');
+    expect(result!.translated_text).toBeNull();
+    expect(result!.speaker).toBeNull();
+    expect(result!.confidence).toBeNull();
+  });
+
+  it('should return null for a non-existent segment', async () => {
+    expect(await getTranscriptSegmentById(999)).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable } from '../db/schema';
+import { getTranscriptSegments } from '../handlers/get_transcript_segments';
+
+async function createTestTranslationJob() {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'test-video.mp4',
+      original_filename: 'original-test.mp4',
+      file_path: '/uploads/test-video.mp4',
+      file_size: 1024000,
+      duration: 120,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const job = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'en', target_language: 'es', status: 'completed' })
+    .returning()
+    .execute();
+
+  return job[0];
+}
+
+describe('getTranscriptSegments', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return an empty list for a job without segments', async () => {
+    const job = await createTestTranslationJob();
+
+    expect(await getTranscriptSegments(job.id)).toEqual([]);
+  });
+
+  it('should return the segments of one job in transcript order', async () => {
+    const job = await createTestTranslationJob();
+    const otherJob = await createTestTranslationJob();
+
+    // Inserted out of order on purpose
+    await db.insert(transcriptSegmentsTable)
+      .values([
+        { translation_job_id: job.id, segment_index: 1, start_ms: 2000, end_ms: 4500, speaker: 'A', source_text: 'Second.', translated_text: 'Segundo.', confidence: 0.8 },
+        { translation_job_id: job.id, segment_index: 0, start_ms: 0, end_ms: 2000, speaker: 'A', source_text: 'First.', translated_text: 'Primero.', confidence: 0.9 },
+        { translation_job_id: otherJob.id, segment_index: 0, start_ms: 0, end_ms: 1000, source_text: 'Other.' }
+      ])
+      .execute();
+
+    const result = await getTranscriptSegments(job.id);
+
+    expect(result).toHaveLength(2);
+    expect(result.map((segment) => segment.segment_index)).toEqual([0, 1]);
+    expect(result[0].translation_job_id).toEqual(job.id);
+    expect(result[0].start_ms).toEqual(0);
+    expect(result[0].end_ms).toEqual(2000);
+    expect(result[0].speaker).toEqual('A');
+    expect(result[0].source_text).toEqual('First.');
+    expect(result[0].translated_text).toEqual('Primero.');
+    expect(result[0].confidence).toBeCloseTo(0.9);
+    expect(result[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should reject a duplicate segment index within a job', async () => {
+    const job = await createTestTranslationJob();
+    const segment = { translation_job_id: job.id, segment_index: 0, start_ms: 0, end_ms: 1000, source_text: 'Hi.' };
+
+    await db.insert(transcriptSegmentsTable).values(segment).execute();
+    await expect(db.insert(transcriptSegmentsTable).values(segment).execute()).rejects.toThrow();
+  });
+});
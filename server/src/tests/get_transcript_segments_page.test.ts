@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable } from '../db/schema';
+import { getTranscriptSegmentsPageQuerySchema } from '../schema';
+import { getTranscriptSegmentsPage } from '../handlers/get_transcript_segments_page';
+
+async function createJobWithSegments(count: number) {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'test-video.mp4',
+      original_filename: 'original-test.mp4',
+      file_path: '/uploads/test-video.mp4',
+      file_size: 1024000,
+      duration: 120,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+  const job = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'en', target_language: 'de' })
+    .returning()
+    .execute();
+
+  if (count > 0) {
+    await db.insert(transcriptSegmentsTable)
+      .values(Array.from({ length: count }, (_, index) => ({
+        translation_job_id: job[0].id,
+        segment_index: index,
+        start_ms: index * 1000,
+        end_ms: (index + 1) * 1000,
+        source_text: `Sentence ${index + 1}.`
+      })))
+      .execute();
+  }
+
+  return job[0];
+}
+
+describe('getTranscriptSegmentsPage', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return one page with the overall total', async () => {
+    const job = await createJobWithSegments(7);
+
+    const result = await getTranscriptSegmentsPage({ translation_job_id: job.id, limit: 3, offset: 3 });
+
+    expect(result.total).toEqual(7);
+    expect(result.limit).toEqual(3);
+    expect(result.offset).toEqual(3);
+    expect(result.segments.map((segment) => segment.segment_index)).toEqual([3, 4, 5]);
+  });
+
+  it('should return a short last page and an empty page past the end', async () => {
+    const job = await createJobWithSegments(5);
+
+    const last = await getTranscriptSegmentsPage({ translation_job_id: job.id, limit: 3, offset: 3 });
+    expect(last.segments.map((segment) => segment.source_text)).toEqual(['Sentence 4.', 'Sentence 5.']);
+
+    const beyond = await getTranscriptSegmentsPage({ translation_job_id: job.id, limit: 3, offset: 9 });
+    expect(beyond.segments).toEqual([]);
+    expect(beyond.total).toEqual(5);
+  });
+
+  it('should report zero for a job without segments', async () => {
+    const job = await createJobWithSegments(0);
+
+    const result = await getTranscriptSegmentsPage(getTranscriptSegmentsPageQuerySchema.parse({ translation_job_id: job.id }));
+
+    expect(result).toEqual({ segments: [], total: 0, limit: 50, offset: 0 });
+  });
+
+  it('should cap the page size', () => {
+    expect(getTranscriptSegmentsPageQuerySchema.safeParse({ translation_job_id: 1, limit: 501 }).success).toBe(false);
+  });
+});
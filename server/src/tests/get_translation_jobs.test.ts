@@ -2,12 +2,12 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { videosTable, translationJobsTable } from '../db/schema';
-import { type GetTranslationJobsQuery, type CreateVideoInput, type CreateTranslationJobInput } from '../schema';
+import { type GetTranslationJobsQuery, type CreateTranslationJobInput } from '../schema';
 import { getTranslationJobs } from '../handlers/get_translation_jobs';
 import { eq } from 'drizzle-orm';
 
 // Test data
-const testVideoInput: CreateVideoInput = {
+const testVideoInput: typeof videosTable.$inferInsert = {
   filename: 'test_video.mp4',
   original_filename: 'original_test.mp4',
   file_path: '/uploads/test_video.mp4',
@@ -19,19 +19,22 @@ const testVideoInput: CreateVideoInput = {
 const testTranslationJobInput1: CreateTranslationJobInput = {
   video_id: 1,
   source_language: 'en',
-  target_language: 'es'
+  target_language: 'es',
+  glossary: []
 };
 
 const testTranslationJobInput2: CreateTranslationJobInput = {
   video_id: 1,
   source_language: 'en',
-  target_language: 'fr'
+  target_language: 'fr',
+  glossary: []
 };
 
 const testTranslationJobInput3: CreateTranslationJobInput = {
   video_id: 2,
   source_language: 'es',
-  target_language: 'en'
+  target_language: 'en',
+  glossary: []
 };
 
 describe('getTranslationJobs', () => {
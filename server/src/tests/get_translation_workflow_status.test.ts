@@ -1,8 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { videosTable, translationJobsTable, audioGenerationJobsTable, finalOutputsTable } from '../db/schema';
+import { videosTable, translationJobsTable, audioGenerationJobsTable, finalOutputsTable, transcriptSegmentsTable } from '../db/schema';
 import { getTranslationWorkflowStatus, type WorkflowStatus } from '../handlers/get_translation_workflow_status';
+import { eq } from 'drizzle-orm';
 
 // Helper function to create test video
 async function createTestVideo(uploadStatus: 'pending' | 'uploaded' | 'processing' | 'failed' = 'uploaded') {
@@ -47,7 +48,7 @@ async function createTestTranslationJob(
 // Helper function to create test audio generation job
 async function createTestAudioGenerationJob(
     translationJobId: number,
-    status: 'pending' | 'generating' | 'completed' | 'failed' = 'pending'
+    status: 'pending' | 'generating' | 'completed' | 'failed' | 'cancelled' = 'pending'
 ) {
     const result = await db.insert(audioGenerationJobsTable)
         .values({
@@ -90,6 +91,8 @@ describe('getTranslationWorkflowStatus', () => {
         expect(result.translationJob).toBeNull();
         expect(result.audioGenerationJob).toBeNull();
         expect(result.finalOutput).toBeNull();
+        expect(result.segmentCounts).toEqual({ total: 0, translated: 0 });
+        expect(result.languages).toEqual([]);
         expect(result.overallStatus).toBe('not_started');
         expect(result.progress).toBe(0);
     });
@@ -187,6 +190,18 @@ describe('getTranslationWorkflowStatus', () => {
         expect(result.progress).toBe(25);
     });
 
+    it('should return cancelled status for a cancelled audio generation job', async () => {
+        const video = await createTestVideo('uploaded');
+        const translationJob = await createTestTranslationJob(video.id, 'completed');
+        await createTestAudioGenerationJob(translationJob.id, 'cancelled');
+
+        const result = await getTranslationWorkflowStatus(video.id);
+
+        expect(result.audioGenerationJob?.status).toBe('cancelled');
+        expect(result.overallStatus).toBe('cancelled');
+        expect(result.progress).toBe(75);
+    });
+
     it('should return translating status for completed translation job with no audio generation job', async () => {
         const video = await createTestVideo('uploaded');
         const translationJob = await createTestTranslationJob(video.id, 'completed');
@@ -329,4 +344,138 @@ describe('getTranslationWorkflowStatus', () => {
         expect(result.overallStatus).toBe('completed');
         expect(result.progress).toBe(100);
     });
-});
\ No newline at end of file
+
+    it('should count transcript segments of the latest translation job', async () => {
+        const video = await createTestVideo('uploaded');
+        const translationJob = await createTestTranslationJob(video.id, 'translating');
+        await db.insert(transcriptSegmentsTable)
+            .values([
+                { translation_job_id: translationJob.id, segment_index: 0, start_ms: 0, end_ms: 1500, source_text: 'Hello.', translated_text: 'Hola.' },
+                { translation_job_id: translationJob.id, segment_index: 1, start_ms: 1500, end_ms: 3000, source_text: 'Welcome.', translated_text: 'Bienvenido.' },
+                { translation_job_id: translationJob.id, segment_index: 2, start_ms: 3000, end_ms: 4000, source_text: 'Bye.' }
+            ])
+            .execute();
+
+        const result = await getTranslationWorkflowStatus(video.id);
+
+        expect(result.segmentCounts).toEqual({ total: 3, translated: 2 });
+    });
+
+    it('should count attempts and show when an automatic retry is due', async () => {
+        const video = await createTestVideo('uploaded');
+        const translationJob = await createTestTranslationJob(video.id, 'completed');
+        const nextAttemptAt = new Date(Date.now() + 10_000);
+        await db.update(translationJobsTable)
+            .set({ attempt_count: 3 })
+            .where(eq(translationJobsTable.id, translationJob.id))
+            .execute();
+        await db.insert(audioGenerationJobsTable)
+            .values({ translation_job_id: translationJob.id, status: 'pending', attempt_count: 1, next_attempt_at: nextAttemptAt, error_message: 'Rate limited' })
+            .execute();
+
+        const result = await getTranslationWorkflowStatus(video.id);
+        const branch = result.languages[0].branches[0];
+
+        expect(branch.attemptCounts).toEqual({ translation: 3, audioGeneration: 1 });
+        expect(branch.nextAttemptAt).toEqual(nextAttemptAt);
+        expect(result.overallStatus).toBe('generating_audio');
+    });
+
+    it('should report progress per target language', async () => {
+        const video = await createTestVideo('uploaded');
+        const spanish = await createTestTranslationJob(video.id, 'completed');
+        const spanishAudio = await createTestAudioGenerationJob(spanish.id, 'completed');
+        const spanishOutput = await createTestFinalOutput(video.id, spanish.id, spanishAudio.id);
+
+        const french = await db.insert(translationJobsTable)
+            .values({ video_id: video.id, source_language: 'en', target_language: 'fr', status: 'translating', transcript_job_id: spanish.id })
+            .returning()
+            .execute();
+        await createTestAudioGenerationJob(french[0].id, 'pending');
+
+        const german = await db.insert(translationJobsTable)
+            .values({ video_id: video.id, source_language: 'en', target_language: 'de', status: 'failed', error_message: 'Provider down' })
+            .returning()
+            .execute();
+
+        const result = await getTranslationWorkflowStatus(video.id);
+
+        expect(result.languages.map((language) => language.targetLanguage)).toEqual(['es', 'fr', 'de']);
+        expect(result.languages[0]).toMatchObject({ status: 'completed', progress: 100 });
+        expect(result.languages[0].branches[0].finalOutputs.map((output) => output.id)).toEqual([spanishOutput.id]);
+        expect(result.languages[1]).toMatchObject({ status: 'translating', progress: 50 });
+        expect(result.languages[1].branches[0].finalOutputs).toEqual([]);
+        expect(result.languages[1].branches[0].audioGenerationJobs[0].status).toBe('pending');
+        expect(result.languages[2]).toMatchObject({ status: 'failed', progress: 25 });
+        expect(result.languages[2].branches[0].audioGenerationJobs).toEqual([]);
+        expect(result.languages[2].branches[0].translationJob.id).toBe(german[0].id);
+
+        // Still running in one language
+        expect(result.overallStatus).toBe('translating');
+        expect(result.progress).toBe(58);
+    });
+
+    it('should keep earlier jobs of a language as history behind the most recent one', async () => {
+        const video = await createTestVideo('uploaded');
+        const failed = await createTestTranslationJob(video.id, 'failed');
+        await new Promise(resolve => setTimeout(resolve, 10));
+        const retried = await createTestTranslationJob(video.id, 'pending');
+
+        const result = await getTranslationWorkflowStatus(video.id);
+
+        expect(result.languages).toHaveLength(1);
+        expect(result.languages[0].branches.map((branch) => branch.translationJob.id)).toEqual([retried.id, failed.id]);
+        expect(result.languages[0].branches.map((branch) => branch.status)).toEqual(['translating', 'failed']);
+        expect(result.languages[0].status).toBe('translating');
+    });
+
+    it('should return every audio job and final output of a translation', async () => {
+        const video = await createTestVideo('uploaded');
+        const translationJob = await createTestTranslationJob(video.id, 'completed');
+        const clonedAudio = await createTestAudioGenerationJob(translationJob.id, 'completed');
+        const clonedOutput = await createTestFinalOutput(video.id, translationJob.id, clonedAudio.id);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        const stockAudio = await createTestAudioGenerationJob(translationJob.id, 'generating');
+
+        const result = await getTranslationWorkflowStatus(video.id);
+        const [branch] = result.languages[0].branches;
+
+        expect(branch.audioGenerationJobs.map((job) => job.id)).toEqual([stockAudio.id, clonedAudio.id]);
+        expect(branch.finalOutputs.map((output) => output.id)).toEqual([clonedOutput.id]);
+        // The newest audio job has no output yet
+        expect(branch.status).toBe('generating_audio');
+        expect(branch.progress).toBe(85);
+    });
+
+    it('should aggregate settled languages into completed, partially completed or failed', async () => {
+        const video = await createTestVideo('uploaded');
+        const spanish = await createTestTranslationJob(video.id, 'completed');
+        const spanishAudio = await createTestAudioGenerationJob(spanish.id, 'completed');
+        await createTestFinalOutput(video.id, spanish.id, spanishAudio.id);
+
+        const french = await db.insert(translationJobsTable)
+            .values({ video_id: video.id, source_language: 'en', target_language: 'fr', status: 'completed' })
+            .returning()
+            .execute();
+        const frenchAudio = await createTestAudioGenerationJob(french[0].id, 'completed');
+        await createTestFinalOutput(video.id, french[0].id, frenchAudio.id);
+
+        expect(await getTranslationWorkflowStatus(video.id)).toMatchObject({ overallStatus: 'completed', progress: 100 });
+
+        await db.insert(translationJobsTable)
+            .values({ video_id: video.id, source_language: 'en', target_language: 'de', status: 'failed' })
+            .execute();
+
+        expect(await getTranslationWorkflowStatus(video.id)).toMatchObject({ overallStatus: 'partially_completed', progress: 75 });
+    });
+
+    it('should report failed when every language failed', async () => {
+        const video = await createTestVideo('uploaded');
+        await createTestTranslationJob(video.id, 'failed');
+        await db.insert(translationJobsTable)
+            .values({ video_id: video.id, source_language: 'en', target_language: 'fr', status: 'failed' })
+            .execute();
+
+        expect(await getTranslationWorkflowStatus(video.id)).toMatchObject({ overallStatus: 'failed', progress: 25 });
+    });
+});
@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { uploadSessionsTable } from '../db/schema';
+import { getUploadSession } from '../handlers/get_upload_session';
+
+describe('getUploadSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the session with its resume offset', async () => {
+    const inserted = await db.insert(uploadSessionsTable)
+      .values({
+        original_filename: 'lecture.mov',
+        mime_type: 'video/quicktime',
+        total_size: 25000000,
+        chunk_size: 8388608,
+        received_bytes: 16777216,
+        temp_path: '/tmp/upload_1.part'
+      })
+      .returning()
+      .execute();
+
+    const result = await getUploadSession(inserted[0].id);
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(inserted[0].id);
+    expect(result!.original_filename).toEqual('lecture.mov');
+    expect(result!.received_bytes).toEqual(16777216);
+    expect(result!.status).toEqual('receiving');
+    expect(result!.updated_at).toBeInstanceOf(Date);
+  });
+
+  it('should return null for an unknown session', async () => {
+    const result = await getUploadSession('00000000-0000-4000-8000-000000000000');
+
+    expect(result).toBeNull();
+  });
+});
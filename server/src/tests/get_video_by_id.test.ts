@@ -2,11 +2,10 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { videosTable } from '../db/schema';
-import { type CreateVideoInput } from '../schema';
 import { getVideoById } from '../handlers/get_video_by_id';
 
 // Test video data
-const testVideoInput: CreateVideoInput = {
+const testVideoInput: typeof videosTable.$inferInsert = {
   filename: 'test-video-123.mp4',
   original_filename: 'my-video.mp4',
   file_path: '/uploads/videos/test-video-123.mp4',
@@ -2,11 +2,11 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { videosTable } from '../db/schema';
-import { type GetVideosQuery, type CreateVideoInput } from '../schema';
+import { type GetVideosQuery } from '../schema';
 import { getVideos } from '../handlers/get_videos';
 
 // Test video inputs
-const testVideo1: CreateVideoInput = {
+const testVideo1: typeof videosTable.$inferInsert = {
   filename: 'test_video_1.mp4',
   original_filename: 'Original Video 1.mp4',
   file_path: '/uploads/test_video_1.mp4',
@@ -15,7 +15,7 @@ const testVideo1: CreateVideoInput = {
   format: 'mp4'
 };
 
-const testVideo2: CreateVideoInput = {
+const testVideo2: typeof videosTable.$inferInsert = {
   filename: 'test_video_2.avi',
   original_filename: 'Original Video 2.avi',
   file_path: '/uploads/test_video_2.avi',
@@ -24,7 +24,7 @@ const testVideo2: CreateVideoInput = {
   format: 'avi'
 };
 
-const testVideo3: CreateVideoInput = {
+const testVideo3: typeof videosTable.$inferInsert = {
   filename: 'test_video_3.mov',
   original_filename: 'Original Video 3.mov',
   file_path: '/uploads/test_video_3.mov',
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, voiceConsentsTable, voiceProfilesTable } from '../db/schema';
+import { type Language } from '../schema';
+import { assertCloningConsent, getVoiceConsents } from '../handlers/get_voice_consents';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function createSubjects() {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'interview.mp4',
+      original_filename: 'interview.mp4',
+      file_path: '/uploads/interview.mp4',
+      file_size: 1024000,
+      duration: 60,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const profile = await db.insert(voiceProfilesTable)
+    .values({
+      name: 'Presenter',
+      clips: [{ video_id: video[0].id, start_ms: 0, end_ms: 2000 }],
+      source_video_ids: [video[0].id],
+      reference_audio_path: '/voices/reference.wav',
+      tts_provider: 'local',
+      provider_voice_id: 'local-clone-presenter',
+      preview_audio_path: '/voices/preview.wav'
+    })
+    .returning()
+    .execute();
+
+  return { video: video[0], profile: profile[0] };
+}
+
+async function createConsent(subject: { video_id: number } | { voice_profile_id: number }, scopeLanguages: Language[] = [], expiresInMs = DAY_MS) {
+  const result = await db.insert(voiceConsentsTable)
+    .values({
+      ...subject,
+      consented_by: 'Jane Speaker',
+      scope_languages: scopeLanguages,
+      expires_at: new Date(Date.now() + expiresInMs),
+      artifact_path: '/consents/consent.pdf',
+      artifact_filename: 'consent.pdf',
+      artifact_sha256: 'a'.repeat(64)
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+describe('voice consents', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list consents by subject, newest first', async () => {
+    const { video, profile } = await createSubjects();
+    const older = await createConsent({ video_id: video.id });
+    const newer = await createConsent({ video_id: video.id }, ['es']);
+    const forProfile = await createConsent({ voice_profile_id: profile.id });
+
+    expect((await getVoiceConsents({ video_id: video.id })).map((consent) => consent.id)).toEqual([newer.id, older.id]);
+    expect((await getVoiceConsents({ voice_profile_id: profile.id })).map((consent) => consent.id)).toEqual([forProfile.id]);
+    expect(await getVoiceConsents()).toHaveLength(3);
+  });
+
+  it('should accept cloning only within an unexpired, unrevoked consent\'s scope', async () => {
+    const { video, profile } = await createSubjects();
+    await createConsent({ video_id: video.id }, ['es']);
+    await createConsent({ video_id: video.id }, ['fr'], -1000);
+    await createConsent({ voice_profile_id: profile.id });
+
+    await assertCloningConsent({ video_id: video.id }, ['es']);
+    await assertCloningConsent({ voice_profile_id: profile.id }, ['es', 'ja']);
+    await expect(assertCloningConsent({ video_id: video.id }, ['es', 'fr']))
+      .rejects.toThrow('Voice cloning requires consent: no valid, unexpired consent covers the speakers of video 1 for fr');
+  });
+});
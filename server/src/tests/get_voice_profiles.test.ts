@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { voiceProfilesTable } from '../db/schema';
+import { getVoiceProfiles } from '../handlers/get_voice_profiles';
+import { getVoiceProfileById } from '../handlers/get_voice_profile_by_id';
+
+async function createTestProfile(name: string) {
+  const result = await db.insert(voiceProfilesTable)
+    .values({
+      name,
+      clips: [{ video_id: 1, start_ms: 0, end_ms: 2000 }],
+      source_video_ids: [1],
+      reference_audio_path: `/voices/${name}.wav`,
+      tts_provider: 'local',
+      provider_voice_id: `local-clone-${name.toLowerCase()}`,
+      preview_audio_path: `/voices/${name}.preview.wav`
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+describe('voice profile queries', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list profiles by name', async () => {
+    await createTestProfile('Zoe');
+    await createTestProfile('Adam');
+
+    const result = await getVoiceProfiles();
+
+    expect(result.map((profile) => profile.name)).toEqual(['Adam', 'Zoe']);
+    expect(result[0].clips).toEqual([{ video_id: 1, start_ms: 0, end_ms: 2000 }]);
+    expect(result[0].source_video_ids).toEqual([1]);
+  });
+
+  it('should get one profile by id, or null', async () => {
+    const profile = await createTestProfile('Adam');
+
+    expect(await getVoiceProfileById(profile.id)).toEqual(profile);
+    expect(await getVoiceProfileById(999)).toBeNull();
+  });
+});
@@ -0,0 +1,986 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable, audioGenerationJobsTable, audioSegmentsTable, finalOutputsTable, voiceProfilesTable, voiceConsentsTable } from '../db/schema';
+import { mediaProviders } from '../providers/media';
+import { stemSeparators } from '../providers/stem_separation';
+import { speechToTextProviders } from '../providers/speech_to_text';
+import { speakerDiarizers } from '../providers/diarization';
+import { translationProviders } from '../providers/translation';
+import { textToSpeechProviders } from '../providers/text_to_speech';
+import { audioWatermarkers } from '../providers/watermark';
+import { TransientProviderError } from '../providers/errors';
+import { type PipelineProviders } from '../worker/pipeline_providers';
+import { claimTranslationJob } from '../worker/claim_jobs';
+import { getTranscriptSegments } from '../handlers/get_transcript_segments';
+import { createTranslationJob } from '../handlers/create_translation_job';
+import { createTranslationRequest } from '../handlers/create_translation_request';
+import { getAudioSegments } from '../handlers/get_audio_segments';
+import { updateTranscriptSegment } from '../handlers/update_transcript_segment';
+import { resynthesizeTranscriptSegment } from '../handlers/resynthesize_transcript_segment';
+import { setSpeakerVoices } from '../handlers/set_speaker_voices';
+import { retryTranslationJob } from '../handlers/retry_translation_job';
+import { retryAudioGenerationJob } from '../handlers/retry_audio_generation_job';
+import { cancelJob } from '../handlers/cancel_job';
+import { getJobAttempts } from '../handlers/get_job_attempts';
+import { revokeVoiceConsent } from '../handlers/revoke_voice_consent';
+import { type ConsentSubject } from '../handlers/get_voice_consents';
+import { runNextJob, startJobRunner } from '../worker/runner';
+import { PIPELINE_SAMPLE_RATE, generateSilence, generateTone, readWav, wavDurationMs, writeWav } from '../media/wav';
+import { type GlossaryEntry } from '../schema';
+import { eq, sql } from 'drizzle-orm';
+
+const localProviders: PipelineProviders = {
+  media: mediaProviders.get('local'),
+  stemSeparation: stemSeparators.get('local'),
+  speechToText: speechToTextProviders.get('local'),
+  diarization: speakerDiarizers.get('local'),
+  translation: translationProviders.get('local'),
+  textToSpeech: textToSpeechProviders.get('local'),
+  watermark: audioWatermarkers.get('local')
+};
+
+let storageDir: string;
+
+async function createTestVideo(writeFileToDisk = true, duration = 3) {
+  const filePath = path.join(storageDir, 'source.mp4');
+  if (writeFileToDisk) {
+    await writeFile(filePath, 'video bytes');
+  }
+
+  const result = await db.insert(videosTable)
+    .values({
+      filename: 'source.mp4',
+      original_filename: 'keynote.mp4',
+      file_path: filePath,
+      file_size: 11,
+      duration,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+// The audio job clones the video's speaker, so its consent is granted too
+async function createPendingJobs(videoId: number, glossary: GlossaryEntry[] = []) {
+  await grantConsent({ video_id: videoId });
+  const translationJob = await db.insert(translationJobsTable)
+    .values({ video_id: videoId, source_language: 'en', target_language: 'es', glossary })
+    .returning()
+    .execute();
+
+  const audioJob = await db.insert(audioGenerationJobsTable)
+    .values({ translation_job_id: translationJob[0].id, voice_cloned: true })
+    .returning()
+    .execute();
+
+  return { translationJob: translationJob[0], audioJob: audioJob[0] };
+}
+
+// Lets the handlers queue, and the runner speak in, clones of the subject's voice
+async function grantConsent(subject: ConsentSubject) {
+  const consent = await db.insert(voiceConsentsTable)
+    .values({
+      ...subject,
+      consented_by: 'Jane Speaker',
+      scope_languages: [],
+      expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      artifact_path: path.join(storageDir, 'consent.pdf'),
+      artifact_filename: 'consent.pdf',
+      artifact_sha256: 'a'.repeat(64)
+    })
+    .returning()
+    .execute();
+
+  return consent[0];
+}
+
+async function getTranslationJob(id: number) {
+  const rows = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, id)).execute();
+  return rows[0];
+}
+
+async function getAudioJob(id: number) {
+  const rows = await db.select().from(audioGenerationJobsTable).where(eq(audioGenerationJobsTable.id, id)).execute();
+  return rows[0];
+}
+
+function rms(samples: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+describe('job runner', () => {
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'job-runner-'));
+    process.env['STORAGE_DIR'] = storageDir;
+  });
+
+  afterEach(async () => {
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['STORAGE_DIR'];
+    await resetDB();
+  });
+
+  it('should return false when no job is pending', async () => {
+    expect(await runNextJob(localProviders)).toBe(false);
+  });
+
+  it('should run translation, then audio generation, then create the final output', async () => {
+    const video = await createTestVideo();
+    const { translationJob, audioJob } = await createPendingJobs(video.id);
+
+    // First run: the translation job, since audio waits for it
+    expect(await runNextJob(localProviders)).toBe(true);
+
+    const translated = await getTranslationJob(translationJob.id);
+    expect(translated.status).toEqual('completed');
+    expect(translated.started_at).toBeInstanceOf(Date);
+    expect(translated.completed_at).toBeInstanceOf(Date);
+    expect(translated.error_message).toBeNull();
+    expect(translated.translated_text).toEqual('[es] (en) Spoken sentence 1.');
+    expect(translated.translation_provider).toEqual('local');
+    expect(translated.original_audio_path).toStartWith(path.join(storageDir, 'audio'));
+
+    // The timed transcript is stored segment by segment
+    const segments = await getTranscriptSegments(translationJob.id);
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({
+      segment_index: 0,
+      start_ms: 0,
+      end_ms: 3000,
+      speaker: 'Speaker 1', // The local diarizer hears a single voice
+      source_text: '(en) Spoken sentence 1.',
+      translated_text: '[es] (en) Spoken sentence 1.',
+      confidence: 0.95
+    });
+
+    // The extracted soundtrack matches the probed duration
+    const extracted = await readWav(translated.original_audio_path!);
+    expect(extracted.samples.length / extracted.sampleRate).toEqual(3);
+
+    expect((await getAudioJob(audioJob.id)).status).toEqual('pending');
+
+    // Second run: the audio generation job
+    expect(await runNextJob(localProviders)).toBe(true);
+
+    const generated = await getAudioJob(audioJob.id);
+    expect(generated.status).toEqual('completed');
+    expect(generated.started_at).toBeInstanceOf(Date);
+    expect(generated.completed_at).toBeInstanceOf(Date);
+    expect(generated.tts_provider).toEqual('local');
+    expect(generated.voice_id).toMatch(/^local-clone-[0-9a-f]{12}$/);
+
+    // The dub covers the whole video even though the single segment is spoken in 1.68s
+    const dub = await readWav(generated.generated_audio_path!);
+    expect(wavDurationMs(dub)).toEqual(3000);
+
+    // The dub is marked with the job that produced it
+    expect(generated.watermark_provider).toEqual('local');
+    expect(generated.watermarked_at).toBeInstanceOf(Date);
+    const mark = await localProviders.watermark.detect({ audioPath: generated.generated_audio_path! });
+    expect(mark).toEqual({ audioGenerationJobId: audioJob.id, timestamp: generated.watermarked_at! });
+
+    const outputs = await db.select().from(finalOutputsTable).execute();
+    expect(outputs).toHaveLength(1);
+    expect(outputs[0].video_id).toEqual(video.id);
+    expect(outputs[0].translation_job_id).toEqual(translationJob.id);
+    expect(outputs[0].audio_generation_job_id).toEqual(audioJob.id);
+    expect(outputs[0].final_video_path).toStartWith(path.join(storageDir, 'outputs', `output_${video.id}_es_`));
+    expect(existsSync(outputs[0].final_video_path)).toBe(true);
+
+    expect(await runNextJob(localProviders)).toBe(false);
+  });
+
+  it('should re-synthesize only the edited segment and replace the final output', async () => {
+    const video = await createTestVideo(true, 9);
+    const { translationJob, audioJob } = await createPendingJobs(video.id);
+    await runNextJob(localProviders);
+    await runNextJob(localProviders);
+
+    const before = await getAudioSegments(audioJob.id);
+    expect(before).toHaveLength(3);
+    expect(before.every((segment) => !segment.stale && existsSync(segment.audio_path))).toBe(true);
+    const [firstOutput] = await db.select().from(finalOutputsTable).execute();
+
+    const segments = await getTranscriptSegments(translationJob.id);
+    await updateTranscriptSegment({ id: segments[1].id, translated_text: 'Una frase mucho más larga.' });
+    expect((await getAudioSegments(audioJob.id)).map((segment) => segment.stale)).toEqual([false, true, false]);
+
+    const requeued = await resynthesizeTranscriptSegment(segments[1].id);
+    expect(requeued.map((job) => job.id)).toEqual([audioJob.id]);
+    expect(requeued[0].status).toEqual('pending');
+
+    expect(await runNextJob(localProviders)).toBe(true);
+    expect((await getAudioJob(audioJob.id)).status).toEqual('completed');
+
+    const after = await getAudioSegments(audioJob.id);
+    expect(after.map((segment) => segment.stale)).toEqual([false, false, false]);
+    expect(after[0].audio_path).toEqual(before[0].audio_path);
+    expect(after[1].audio_path).not.toEqual(before[1].audio_path);
+    expect(after[1].duration_ms).toEqual('Una frase mucho más larga.'.length * 60);
+    expect(after[2].audio_path).toEqual(before[2].audio_path);
+
+    const outputs = await db.select().from(finalOutputsTable).execute();
+    expect(outputs).toHaveLength(1);
+    expect(outputs[0].id).toEqual(firstOutput.id);
+    expect(outputs[0].final_video_path).not.toEqual(firstOutput.final_video_path);
+    expect(await db.select().from(audioSegmentsTable).execute()).toHaveLength(3);
+  });
+
+  it('should apply the job glossary to every translated segment', async () => {
+    const video = await createTestVideo(true, 6);
+    const { translationJob } = await createPendingJobs(video.id, [{ source_term: 'spoken sentence', target_term: 'Frase Hablada' }]);
+
+    expect(await runNextJob(localProviders)).toBe(true);
+
+    const translated = await getTranslationJob(translationJob.id);
+    expect(translated.translated_text).toEqual('[es] (en) Frase Hablada 1.\n[es] (en) Frase Hablada 2.');
+  });
+
+  it('should synthesize with the requested stock voice', async () => {
+    const video = await createTestVideo(true, 6);
+    const { translationJob } = await createPendingJobs(video.id);
+    const audioJob = await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: translationJob.id, voice_cloned: false, voice_id: 'local-tenor' })
+      .returning()
+      .execute();
+
+    await runNextJob(localProviders); // Translation
+    await runNextJob(localProviders); // Cloned-voice audio from createPendingJobs
+    await runNextJob(localProviders); // Stock-voice audio
+
+    const generated = await getAudioJob(audioJob[0].id);
+    expect(generated.status).toEqual('completed');
+    expect(generated.tts_provider).toEqual('local');
+    expect(generated.voice_id).toEqual('local-tenor');
+
+    // Each segment is spoken where the original was: 0-1.68s and 4-5.68s of a 6s track
+    const dub = await readWav(generated.generated_audio_path!);
+    // Silence still carries the inaudible watermark, about -60 dBFS
+    const isSilentAt = (ms: number) => rms(dub.samples.subarray(dub.sampleRate * ms / 1000, dub.sampleRate * (ms + 100) / 1000)) < 64;
+    expect(wavDurationMs(dub)).toEqual(6000);
+    expect(isSilentAt(100)).toBe(false);
+    expect(isSilentAt(2500)).toBe(true);
+    expect(isSilentAt(4100)).toBe(false);
+    expect(isSilentAt(5800)).toBe(true);
+  });
+
+  it('should keep the separated background under the dub, ducked while it speaks', async () => {
+    const video = await createTestVideo();
+    const { translationJob } = await createPendingJobs(video.id);
+    const audioJob = await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: translationJob.id, voice_cloned: false, preserve_background: true, ducking_db: 12 })
+      .returning()
+      .execute();
+
+    // A separator that finds a steady hum behind the speech
+    const providers: PipelineProviders = {
+      ...localProviders,
+      stemSeparation: {
+        name: 'hum',
+        async separate({ audioPath, vocalsPath, backgroundPath }) {
+          const audio = await readWav(audioPath);
+          await writeWav(vocalsPath, audio);
+          await writeWav(backgroundPath, { sampleRate: audio.sampleRate, samples: generateTone(wavDurationMs(audio), 60, audio.sampleRate, 0.1) });
+        }
+      }
+    };
+
+    await runNextJob(providers); // Translation
+    await runNextJob(providers); // Cloned-voice audio from createPendingJobs, without background
+    await runNextJob(providers); // Stock-voice audio over the background
+
+    const separated = await getTranslationJob(translationJob.id);
+    expect(separated.vocals_audio_path).toStartWith(path.join(storageDir, 'audio', `vocals_${translationJob.id}_`));
+    expect(separated.background_audio_path).toStartWith(path.join(storageDir, 'audio', `background_${translationJob.id}_`));
+
+    const generated = await getAudioJob(audioJob[0].id);
+    expect(generated.status).toEqual('completed');
+    const dub = await readWav(generated.generated_audio_path!);
+    const background = await readWav(separated.background_audio_path!);
+    const [speech] = await getAudioSegments(audioJob[0].id);
+    const speechSamples = (await readWav(speech.audio_path)).samples;
+
+    // While the single segment is spoken (0-1.68s) the hum is 12 dB down; after it, at full level
+    const at = (ms: number) => Math.round((ms / 1000) * dub.sampleRate);
+    // Within rounding and the watermark, which stays 30 dB below the mix
+    const duckedGain = 10 ** (-12 / 20);
+    const spoken = dub.samples.subarray(at(400), at(600));
+    const spokenMix = Array.from(spoken, (_, index) => speechSamples[at(400) + index] + background.samples[at(400) + index] * duckedGain);
+    const spokenChange = Array.from(spoken, (sample, index) => sample - spokenMix[index]);
+    expect(20 * Math.log10(rms(spokenMix) / rms(spokenChange))).toBeGreaterThan(30);
+    const tail = background.samples.subarray(at(2500), at(3000));
+    const tailChange = Array.from(dub.samples.subarray(at(2500), at(3000)), (sample, index) => sample - tail[index]);
+    expect(20 * Math.log10(rms(tail) / rms(tailChange))).toBeGreaterThan(30);
+  });
+
+  it('should label diarized speakers and dub each in its assigned voice', async () => {
+    const video = await createTestVideo(true, 9);
+    const { translationJob, audioJob } = await createPendingJobs(video.id);
+    const providers: PipelineProviders = {
+      ...localProviders,
+      diarization: {
+        name: 'two-voices',
+        diarize: async () => [
+          { startMs: 0, endMs: 4000, speaker: 'Speaker 1' },
+          { startMs: 4000, endMs: 9000, speaker: 'Speaker 2' }
+        ]
+      }
+    };
+
+    await runNextJob(providers);
+    expect((await getTranscriptSegments(translationJob.id)).map((segment) => segment.speaker)).toEqual(['Speaker 1', 'Speaker 2', 'Speaker 2']);
+
+    // Speakers are known once transcribed; the job-level clone covers everyone else
+    await setSpeakerVoices({ audio_generation_job_id: audioJob.id, speaker_voices: [{ speaker: 'Speaker 2', voice_cloned: false, voice_id: 'local-tenor' }] });
+    await runNextJob(providers);
+
+    const generated = await getAudioJob(audioJob.id);
+    expect(generated.status).toEqual('completed');
+    expect(generated.voice_id).toMatch(/^local-clone-/);
+    const before = await getAudioSegments(audioJob.id);
+    expect(before.map((segment) => segment.voice_id)).toEqual([generated.voice_id, 'local-tenor', 'local-tenor']);
+
+    // Speaker 1 gets a clone of their own voice; only their segment is synthesized again
+    await grantConsent({ video_id: video.id });
+    await setSpeakerVoices({
+      audio_generation_job_id: audioJob.id,
+      speaker_voices: [{ speaker: 'Speaker 1', voice_cloned: true }, { speaker: 'Speaker 2', voice_cloned: false, voice_id: 'local-tenor' }]
+    });
+    await runNextJob(providers);
+
+    const after = await getAudioSegments(audioJob.id);
+    expect(after[0].voice_id).toMatch(/^local-clone-/);
+    expect(after[0].voice_id).not.toEqual(generated.voice_id);
+    expect(after[0].audio_path).not.toEqual(before[0].audio_path);
+    expect(after.slice(1)).toEqual(before.slice(1));
+    expect((await getAudioJob(audioJob.id)).voice_id).toEqual(generated.voice_id);
+  });
+
+  it('should fall back to the provider default voice and fail on an unknown one', async () => {
+    const video = await createTestVideo();
+    const translationJob = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'fr', status: 'completed', translated_text: 'Bonjour.' })
+      .returning()
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values({ translation_job_id: translationJob[0].id, segment_index: 0, start_ms: 0, end_ms: 1000, source_text: 'Hello.', translated_text: 'Bonjour.' })
+      .execute();
+    const defaultVoiceJob = await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: translationJob[0].id, voice_cloned: false })
+      .returning()
+      .execute();
+    const unknownVoiceJob = await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: translationJob[0].id, voice_cloned: false, voice_id: 'nobody' })
+      .returning()
+      .execute();
+
+    await runNextJob(localProviders);
+    await runNextJob(localProviders);
+
+    expect((await getAudioJob(defaultVoiceJob[0].id)).voice_id).toEqual('local-alto');
+
+    const failed = await getAudioJob(unknownVoiceJob[0].id);
+    expect(failed.status).toEqual('failed');
+    expect(failed.error_message).toMatch(/unknown voice "nobody"/i);
+  });
+
+  it('should fail the translation job and the audio queued behind it', async () => {
+    const video = await createTestVideo(false); // File missing on disk
+    const { translationJob, audioJob } = await createPendingJobs(video.id);
+
+    expect(await runNextJob(localProviders)).toBe(true);
+
+    const failed = await getTranslationJob(translationJob.id);
+    expect(failed.status).toEqual('failed');
+    expect(failed.error_message).toMatch(/no such file/i);
+    expect(failed.started_at).toBeInstanceOf(Date);
+
+    const audio = await getAudioJob(audioJob.id);
+    expect(audio.status).toEqual('failed');
+    expect(audio.error_message).toMatch(new RegExp(`translation job ${translationJob.id} failed`, 'i'));
+
+    expect(await db.select().from(finalOutputsTable).execute()).toHaveLength(0);
+  });
+
+  it('should fail the translation job when no speech is recognized', async () => {
+    const video = await createTestVideo(true, 0);
+    const { translationJob } = await createPendingJobs(video.id);
+
+    expect(await runNextJob(localProviders)).toBe(true);
+
+    const failed = await getTranslationJob(translationJob.id);
+    expect(failed.status).toEqual('failed');
+    expect(failed.error_message).toMatch(/no speech was recognized/i);
+
+    // Nothing to gain from running it again
+    const attempts = await getJobAttempts({ job_type: 'translation', id: translationJob.id });
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0]).toMatchObject({ outcome: 'failed', error_class: 'input', retry_at: null });
+  });
+
+  it('should not clone a voice whose consent was revoked after the job was queued', async () => {
+    const video = await createTestVideo();
+    const { audioJob } = await createPendingJobs(video.id);
+    const consents = await db.select().from(voiceConsentsTable).where(eq(voiceConsentsTable.video_id, video.id)).execute();
+    await revokeVoiceConsent(consents[0].id);
+
+    await runNextJob(localProviders); // Translation
+    await runNextJob(localProviders); // Audio
+
+    const failed = await getAudioJob(audioJob.id);
+    expect(failed.status).toEqual('failed');
+    expect(failed.error_message).toMatch(/voice cloning requires consent/i);
+    expect(await getAudioSegments(audioJob.id)).toEqual([]);
+
+    // Not retried automatically, and a manual retry fails the same way until consent is given again
+    const attempts = await getJobAttempts({ job_type: 'audio_generation', id: audioJob.id });
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0]).toMatchObject({ outcome: 'failed', error_class: 'input', retry_at: null });
+
+    await retryAudioGenerationJob(audioJob.id);
+    await runNextJob(localProviders);
+    expect((await getAudioJob(audioJob.id)).status).toEqual('failed');
+
+    await grantConsent({ video_id: video.id });
+    await retryAudioGenerationJob(audioJob.id);
+    await runNextJob(localProviders);
+    expect((await getAudioJob(audioJob.id)).status).toEqual('completed');
+  });
+
+  it('should fail the audio job when the translation has no translated segments', async () => {
+    const video = await createTestVideo();
+    const translationJob = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'fr', status: 'completed' })
+      .returning()
+      .execute();
+    const audioJob = await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: translationJob[0].id, voice_cloned: false })
+      .returning()
+      .execute();
+
+    expect(await runNextJob(localProviders)).toBe(true);
+
+    const audio = await getAudioJob(audioJob[0].id);
+    expect(audio.status).toEqual('failed');
+    expect(audio.error_message).toMatch(/has no translated segments/i);
+  });
+
+  it('should fit each segment to its window and record where the dub still overruns', async () => {
+    const video = await createTestVideo();
+    const translationJob = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'de', status: 'completed' })
+      .returning()
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values([
+        { translation_job_id: translationJob[0].id, segment_index: 0, start_ms: 0, end_ms: 1000, source_text: 'Hi.', translated_text: 'Hallo.' },
+        { translation_job_id: translationJob[0].id, segment_index: 1, start_ms: 1000, end_ms: 2000, source_text: 'Ship company.', translated_text: 'Donaudampfschifffahrtsgesellschaft' },
+        { translation_job_id: translationJob[0].id, segment_index: 2, start_ms: 2000, end_ms: 3000, source_text: 'Good morning all.', translated_text: 'Guten Morgen allen.' }
+      ])
+      .execute();
+    const audioJob = await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: translationJob[0].id, voice_cloned: false })
+      .returning()
+      .execute();
+
+    expect(await runNextJob(localProviders)).toBe(true);
+
+    const generated = await getAudioJob(audioJob[0].id);
+    expect(generated.status).toEqual('completed');
+    expect(generated.overrun_segment_count).toEqual(1);
+    expect(generated.max_overrun_ms).toEqual(632);
+
+    const audioSegments = await getAudioSegments(audioJob[0].id);
+    expect(audioSegments.map(({ spoken_text, stretch_ratio, overrun_ms }) => ({ spoken_text, stretch_ratio, overrun_ms }))).toEqual([
+      { spoken_text: null, stretch_ratio: 1, overrun_ms: 0 },
+      // One word cannot be reworded shorter, and 2040ms only speeds up to 1632ms
+      { spoken_text: null, stretch_ratio: 1.25, overrun_ms: 632 },
+      // 1140ms speeds up to exactly fill its second
+      { spoken_text: null, stretch_ratio: expect.closeTo(1.14), overrun_ms: 0 }
+    ]);
+    expect(audioSegments[2].duration_ms).toEqual(1000);
+  });
+
+  it('should translate imported subtitles without transcribing, extracting audio only to clone the voice', async () => {
+    const video = await createTestVideo();
+    const job = await createTranslationJob({
+      video_id: video.id,
+      source_language: 'en',
+      target_language: 'fr',
+      glossary: [],
+      source_subtitles: { format: 'srt', content: '1\n00:00:00,200 --> 00:00:01,000\nHi team.\n' }
+    });
+    await grantConsent({ video_id: video.id });
+    const audioJob = await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: job.id, voice_cloned: true })
+      .returning()
+      .execute();
+
+    // Claimed straight into translating
+    const claimed = await claimTranslationJob();
+    expect(claimed!.status).toEqual('translating');
+    await db.update(translationJobsTable).set({ status: 'pending' }).where(eq(translationJobsTable.id, job.id)).execute();
+
+    expect(await runNextJob(localProviders)).toBe(true);
+
+    const translated = await getTranslationJob(job.id);
+    expect(translated.status).toEqual('completed');
+    expect(translated.original_audio_path).toBeNull();
+    expect(translated.translated_text).toEqual('[fr] Hi team.');
+
+    const segments = await getTranscriptSegments(job.id);
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ start_ms: 200, end_ms: 1000, source_text: 'Hi team.', translated_text: '[fr] Hi team.' });
+
+    expect(await runNextJob(localProviders)).toBe(true);
+
+    const generated = await getAudioJob(audioJob[0].id);
+    expect(generated.status).toEqual('completed');
+    expect(generated.voice_id).toMatch(/^local-clone-/);
+    expect((await getTranslationJob(job.id)).original_audio_path).toStartWith(path.join(storageDir, 'audio'));
+  });
+
+  it('should speak in a voice profile without extracting the source audio', async () => {
+    const video = await createTestVideo();
+    const referenceAudioPath = path.join(storageDir, 'reference.wav');
+    await writeWav(referenceAudioPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples: generateSilence(2000) });
+    const profile = await db.insert(voiceProfilesTable)
+      .values({
+        name: 'Presenter',
+        clips: [{ video_id: video.id, start_ms: 0, end_ms: 2000 }],
+        source_video_ids: [video.id],
+        reference_audio_path: referenceAudioPath,
+        tts_provider: 'local',
+        provider_voice_id: 'local-clone-presenter',
+        preview_audio_path: path.join(storageDir, 'preview.wav')
+      })
+      .returning()
+      .execute();
+    await grantConsent({ voice_profile_id: profile[0].id });
+    const job = await createTranslationJob({
+      video_id: video.id,
+      source_language: 'en',
+      target_language: 'fr',
+      glossary: [],
+      source_subtitles: { format: 'srt', content: '1\n00:00:00,200 --> 00:00:01,000\nHi team.\n' }
+    });
+    const audioJob = await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: job.id, voice_cloned: true, voice_profile_id: profile[0].id })
+      .returning()
+      .execute();
+
+    await runNextJob(localProviders); // Translation
+    await runNextJob(localProviders); // Audio
+
+    const generated = await getAudioJob(audioJob[0].id);
+    expect(generated.status).toEqual('completed');
+    expect(generated.voice_id).toEqual('local-clone-presenter');
+    expect((await getTranslationJob(job.id)).original_audio_path).toBeNull();
+  });
+
+  it('should transcribe once and translate the shared transcript into every requested language', async () => {
+    const video = await createTestVideo();
+    let transcriptions = 0;
+    const providers: PipelineProviders = {
+      ...localProviders,
+      speechToText: {
+        ...localProviders.speechToText,
+        transcribe: (input) => {
+          transcriptions++;
+          return localProviders.speechToText.transcribe(input);
+        }
+      }
+    };
+    await grantConsent({ video_id: video.id });
+
+    const request = await createTranslationRequest({
+      video_id: video.id,
+      source_language: 'en',
+      target_languages: ['es', 'fr'],
+      glossary: [],
+      voice_cloned: true,
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false
+    });
+    const [spanish, french] = request.translation_jobs;
+
+    // The French job waits for the Spanish job's transcript
+    expect(await runNextJob(providers)).toBe(true);
+    expect((await getTranslationJob(spanish.id)).status).toEqual('completed');
+    expect((await getTranslationJob(french.id)).status).toEqual('pending');
+
+    expect(await runNextJob(providers)).toBe(true);
+    const frenchDone = await getTranslationJob(french.id);
+    expect(frenchDone.status).toEqual('completed');
+    expect(frenchDone.translated_text).toEqual('[fr] (en) Spoken sentence 1.');
+    expect(frenchDone.original_audio_path).toEqual((await getTranslationJob(spanish.id)).original_audio_path);
+    expect(transcriptions).toBe(1);
+
+    // Each language keeps its own copy of the segments
+    const frenchSegments = await getTranscriptSegments(french.id);
+    expect(frenchSegments).toHaveLength(1);
+    expect(frenchSegments[0]).toMatchObject({ start_ms: 0, end_ms: 3000, source_text: '(en) Spoken sentence 1.', confidence: 0.95 });
+    expect((await getTranscriptSegments(spanish.id))[0].translated_text).toEqual('[es] (en) Spoken sentence 1.');
+
+    expect(await runNextJob(providers)).toBe(true);
+    expect(await runNextJob(providers)).toBe(true);
+    expect(await runNextJob(providers)).toBe(false);
+
+    const outputs = await db.select().from(finalOutputsTable).execute();
+    expect(outputs.map((output) => output.translation_job_id!).sort((a, b) => a - b)).toEqual([spanish.id, french.id]);
+  });
+
+  it('should fail the languages sharing a transcript that was never produced', async () => {
+    const video = await createTestVideo(false);
+    const request = await createTranslationRequest({
+      video_id: video.id,
+      source_language: 'en',
+      target_languages: ['es', 'fr'],
+      glossary: [],
+      voice_cloned: false,
+      preserve_background: false,
+      ducking_db: 12,
+      audible_watermark: false
+    });
+    const [spanish, french] = request.translation_jobs;
+
+    expect(await runNextJob(localProviders)).toBe(true);
+
+    const frenchFailed = await getTranslationJob(french.id);
+    expect(frenchFailed.status).toEqual('failed');
+    expect(frenchFailed.error_message).toStartWith(`Translation job ${spanish.id} failed: `);
+    expect((await getAudioJob(request.audio_generation_jobs[1].id)).status).toEqual('failed');
+    expect(await runNextJob(localProviders)).toBe(false);
+  });
+
+  it('should resume a retried translation job from the soundtrack and transcript it already has', async () => {
+    const video = await createTestVideo();
+    const { translationJob, audioJob } = await createPendingJobs(video.id);
+    let extractions = 0;
+    let translationAttempts = 0;
+    const providers: PipelineProviders = {
+      ...localProviders,
+      media: {
+        ...localProviders.media,
+        async extractAudio(input) {
+          extractions++;
+          await localProviders.media.extractAudio(input);
+        }
+      },
+      translation: {
+        ...localProviders.translation,
+        async translate(input) {
+          if (++translationAttempts === 1) {
+            throw new Error('Translation provider unavailable');
+          }
+          return localProviders.translation.translate(input);
+        }
+      }
+    };
+
+    await runNextJob(providers);
+    const failed = await getTranslationJob(translationJob.id);
+    expect(failed.status).toEqual('failed');
+    expect((await getAudioJob(audioJob.id)).status).toEqual('failed');
+    const transcript = await getTranscriptSegments(translationJob.id);
+
+    await retryTranslationJob(translationJob.id);
+    await runNextJob(providers);
+
+    const resumed = await getTranslationJob(translationJob.id);
+    expect(resumed.status).toEqual('completed');
+    expect(resumed.original_audio_path).toEqual(failed.original_audio_path);
+    expect(extractions).toEqual(1);
+    expect((await getTranscriptSegments(translationJob.id)).map((segment) => segment.id)).toEqual(transcript.map((segment) => segment.id));
+
+    // The audio stopped by the failure was queued again with it
+    await runNextJob(providers);
+    expect((await getAudioJob(audioJob.id)).status).toEqual('completed');
+  });
+
+  it('should keep the voices already spoken when a retried audio job resumes', async () => {
+    const video = await createTestVideo(true, 9);
+    const { translationJob, audioJob } = await createPendingJobs(video.id);
+    const synthesized: string[] = [];
+    let quotaExceeded = true;
+    const providers: PipelineProviders = {
+      ...localProviders,
+      diarization: {
+        name: 'two-voices',
+        diarize: async () => [
+          { startMs: 0, endMs: 4000, speaker: 'Speaker 1' },
+          { startMs: 4000, endMs: 9000, speaker: 'Speaker 2' }
+        ]
+      },
+      textToSpeech: {
+        ...localProviders.textToSpeech,
+        async synthesize(input) {
+          // The second voice fails the first time round
+          if (input.voice.kind === 'stock' && quotaExceeded) {
+            quotaExceeded = false;
+            throw new Error('Text-to-speech quota exceeded');
+          }
+          synthesized.push(input.voice.kind);
+          return localProviders.textToSpeech.synthesize(input);
+        }
+      }
+    };
+
+    await runNextJob(providers);
+    await setSpeakerVoices({ audio_generation_job_id: audioJob.id, speaker_voices: [{ speaker: 'Speaker 2', voice_cloned: false, voice_id: 'local-tenor' }] });
+    await runNextJob(providers);
+
+    expect((await getAudioJob(audioJob.id)).status).toEqual('failed');
+    const saved = await getAudioSegments(audioJob.id);
+    expect(saved).toHaveLength(1); // Speaker 1, in the cloned voice
+
+    await retryAudioGenerationJob(audioJob.id);
+    await runNextJob(providers);
+
+    const generated = await getAudioJob(audioJob.id);
+    expect(generated.status).toEqual('completed');
+    expect(synthesized.filter((kind) => kind === 'cloned')).toHaveLength(1); // Not spoken again
+    expect(generated.voice_id).toEqual(saved[0].voice_id);
+    expect((await getAudioSegments(audioJob.id))[0]).toEqual(saved[0]);
+    expect(await getTranscriptSegments(translationJob.id)).toHaveLength(3);
+  });
+
+  it('should stop a running job at its next stage once cancelled, and resume it on retry', async () => {
+    const video = await createTestVideo();
+    const { translationJob, audioJob } = await createPendingJobs(video.id);
+    const providers: PipelineProviders = {
+      ...localProviders,
+      translation: {
+        ...localProviders.translation,
+        async translate(input) {
+          await cancelJob({ job_type: 'translation', id: translationJob.id });
+          return localProviders.translation.translate(input);
+        }
+      }
+    };
+
+    await runNextJob(providers);
+
+    const cancelled = await getTranslationJob(translationJob.id);
+    expect(cancelled.status).toEqual('cancelled');
+    expect(cancelled.error_message).toBeNull();
+    expect((await getTranscriptSegments(translationJob.id))[0].translated_text).toBeNull();
+    expect((await getAudioJob(audioJob.id)).status).toEqual('cancelled');
+    expect(await runNextJob(providers)).toBe(false);
+
+    await retryTranslationJob(translationJob.id);
+    await runNextJob(localProviders);
+    await runNextJob(localProviders);
+
+    expect((await getTranslationJob(translationJob.id)).status).toEqual('completed');
+    expect((await getAudioJob(audioJob.id)).status).toEqual('completed');
+  });
+
+  it('should keep a job cancelled when its provider call then fails transiently', async () => {
+    const video = await createTestVideo();
+    const { translationJob, audioJob } = await createPendingJobs(video.id);
+    const providers: PipelineProviders = {
+      ...localProviders,
+      translation: {
+        ...localProviders.translation,
+        async translate() {
+          await cancelJob({ job_type: 'translation', id: translationJob.id });
+          throw new TransientProviderError('Translation service unavailable');
+        }
+      },
+      textToSpeech: {
+        ...localProviders.textToSpeech,
+        async synthesize() {
+          await cancelJob({ job_type: 'audio_generation', id: audioJob.id });
+          throw new TransientProviderError('Speech service unavailable');
+        }
+      }
+    };
+
+    await runNextJob(providers);
+
+    const translation = await getTranslationJob(translationJob.id);
+    expect(translation.status).toEqual('cancelled');
+    expect(translation.next_attempt_at).toBeNull();
+    expect(translation.error_message).toBeNull();
+    expect((await getAudioJob(audioJob.id)).status).toEqual('cancelled');
+    expect((await getJobAttempts({ job_type: 'translation', id: translationJob.id })).map((attempt) => attempt.outcome)).toEqual(['cancelled']);
+
+    // Same for audio generation, once the translation has been retried and completed
+    await retryTranslationJob(translationJob.id);
+    await runNextJob(localProviders);
+    expect((await getAudioJob(audioJob.id)).status).toEqual('pending');
+    await runNextJob(providers);
+
+    const audio = await getAudioJob(audioJob.id);
+    expect(audio.status).toEqual('cancelled');
+    expect(audio.next_attempt_at).toBeNull();
+    expect((await getJobAttempts({ job_type: 'audio_generation', id: audioJob.id })).map((attempt) => attempt.outcome)).toEqual(['cancelled']);
+    expect(await runNextJob(providers)).toBe(false);
+  });
+
+  it('should not complete a job cancelled after its last cancellation check', async () => {
+    const video = await createTestVideo();
+    const { translationJob } = await createPendingJobs(video.id);
+
+    // The cancellation lands while the translations are saved, after the runner last looked
+    await db.execute(sql`
+      create function cancel_on_translation() returns trigger as $$
+      begin update translation_jobs set status = 'cancelled' where id = new.translation_job_id; return new; end;
+      $$ language plpgsql
+    `);
+    await db.execute(sql`
+      create trigger cancel_on_translation after update of translated_text on transcript_segments
+      for each row execute function cancel_on_translation()
+    `);
+
+    await runNextJob(localProviders);
+
+    const cancelled = await getTranslationJob(translationJob.id);
+    expect(cancelled.status).toEqual('cancelled');
+    expect(cancelled.completed_at).toBeNull();
+    expect((await getJobAttempts({ job_type: 'translation', id: translationJob.id })).map((attempt) => attempt.outcome)).toEqual(['cancelled']);
+  });
+
+  it('should retry a transient provider failure after a backoff, keeping the queue behind it waiting', async () => {
+    const video = await createTestVideo();
+    const { translationJob, audioJob } = await createPendingJobs(video.id);
+    let translateCalls = 0;
+    const providers: PipelineProviders = {
+      ...localProviders,
+      translation: {
+        ...localProviders.translation,
+        async translate(input) {
+          translateCalls++;
+          if (translateCalls === 1) {
+            throw new TransientProviderError('Rate limited');
+          }
+          return localProviders.translation.translate(input);
+        }
+      }
+    };
+
+    const failedAt = Date.now();
+    await runNextJob(providers);
+
+    const waiting = await getTranslationJob(translationJob.id);
+    expect(waiting.status).toEqual('pending');
+    expect(waiting.error_message).toEqual('Rate limited');
+    expect(waiting.attempt_count).toEqual(1);
+    // Translating backs off 10s, give or take 20%
+    expect(waiting.next_attempt_at!.getTime() - failedAt).toBeGreaterThanOrEqual(8000);
+    expect(waiting.next_attempt_at!.getTime() - failedAt).toBeLessThanOrEqual(12_000 + 1000);
+    expect((await getAudioJob(audioJob.id)).status).toEqual('pending');
+    expect(await runNextJob(providers)).toBe(false);
+
+    await db.update(translationJobsTable).set({ next_attempt_at: new Date() }).where(eq(translationJobsTable.id, translationJob.id)).execute();
+    await runNextJob(providers);
+
+    const completed = await getTranslationJob(translationJob.id);
+    expect(completed.status).toEqual('completed');
+    expect(completed.attempt_count).toEqual(2);
+    expect(completed.next_attempt_at).toBeNull();
+
+    const attempts = await getJobAttempts({ job_type: 'translation', id: translationJob.id });
+    expect(attempts).toHaveLength(2);
+    expect(attempts[0]).toMatchObject({
+      attempt: 1,
+      stage: 'translating',
+      outcome: 'failed',
+      provider: 'translation:local',
+      error_message: 'Rate limited',
+      error_class: 'transient',
+      retry_at: waiting.next_attempt_at
+    });
+    expect(attempts[0].duration_ms).toBeGreaterThanOrEqual(0);
+    expect(attempts[1]).toMatchObject({ attempt: 2, stage: 'translating', outcome: 'succeeded', error_class: null });
+  });
+
+  it('should fail the job once its stage runs out of attempts', async () => {
+    process.env['JOB_RETRY_GENERATING_MAX_ATTEMPTS'] = '2';
+    const video = await createTestVideo();
+    const { audioJob } = await createPendingJobs(video.id);
+    const providers: PipelineProviders = {
+      ...localProviders,
+      textToSpeech: {
+        ...localProviders.textToSpeech,
+        async synthesize() {
+          throw Object.assign(new Error('Service unavailable'), { status: 503 });
+        }
+      }
+    };
+
+    try {
+      await runNextJob(providers);
+      await runNextJob(providers);
+      expect((await getAudioJob(audioJob.id)).status).toEqual('pending');
+
+      await db.update(audioGenerationJobsTable).set({ next_attempt_at: new Date() }).where(eq(audioGenerationJobsTable.id, audioJob.id)).execute();
+      await runNextJob(providers);
+    } finally {
+      delete process.env['JOB_RETRY_GENERATING_MAX_ATTEMPTS'];
+    }
+
+    const failed = await getAudioJob(audioJob.id);
+    expect(failed.status).toEqual('failed');
+    expect(failed.attempt_count).toEqual(2);
+    expect(failed.next_attempt_at).toBeNull();
+
+    const attempts = await getJobAttempts({ job_type: 'audio_generation', id: audioJob.id });
+    expect(attempts.map((attempt) => [attempt.outcome, attempt.error_class, attempt.provider])).toEqual([
+      ['failed', 'transient', 'textToSpeech:local'],
+      ['failed', 'transient', 'textToSpeech:local']
+    ]);
+    expect(attempts[0].retry_at).toBeInstanceOf(Date);
+    expect(attempts[1].retry_at).toBeNull();
+
+    // A manual retry gets a fresh set of attempts
+    await retryAudioGenerationJob(audioJob.id);
+    await runNextJob(providers);
+    expect((await getAudioJob(audioJob.id)).status).toEqual('pending');
+  });
+
+  it('should never hand the same job to two concurrent claims', async () => {
+    const video = await createTestVideo();
+    const { translationJob } = await createPendingJobs(video.id);
+
+    const claims = await Promise.all([claimTranslationJob(), claimTranslationJob(), claimTranslationJob()]);
+    const claimed = claims.filter((job) => job !== null);
+
+    expect(claimed).toHaveLength(1);
+    expect(claimed[0]!.id).toEqual(translationJob.id);
+    expect(claimed[0]!.status).toEqual('extracting_audio');
+  });
+
+  it('should process queued jobs in the background until stopped', async () => {
+    const video = await createTestVideo();
+    const { audioJob } = await createPendingJobs(video.id);
+
+    const runner = startJobRunner({ pollIntervalMs: 10, providers: localProviders });
+    try {
+      for (let attempt = 0; attempt < 200; attempt++) {
+        if ((await getAudioJob(audioJob.id)).status === 'completed') break;
+        await new Promise((resolve) => setTimeout(resolve, 25));
+      }
+    } finally {
+      await runner.stop();
+    }
+
+    expect((await getAudioJob(audioJob.id)).status).toEqual('completed');
+    expect(await db.select().from(finalOutputsTable).execute()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'bun:test';
+import { mixAudibleMark, mixWithDucking } from '../media/mix';
+import { generateSilence, generateTone } from '../media/wav';
+
+const SAMPLE_RATE = 1000; // 1 sample per ms keeps the arithmetic readable
+
+function constant(durationMs: number, value: number): Int16Array {
+  return new Int16Array(durationMs).fill(value);
+}
+
+describe('mixWithDucking', () => {
+  it('should lower the background under speech and leave it untouched away from speech', () => {
+    // Speech from 1000ms to 2000ms of a 4000ms background
+    const speech = new Int16Array(4000);
+    speech.set(constant(1000, 1000), 1000);
+    const background = constant(4000, 10000);
+
+    const mixed = mixWithDucking(speech, background, 20, SAMPLE_RATE);
+
+    expect(mixed[1500]).toEqual(1000 + 1000); // -20 dB is a tenth of the level
+    expect(mixed[0]).toEqual(10000);
+    expect(mixed[3500]).toEqual(10000);
+  });
+
+  it('should fade the background down before speech and back up after it', () => {
+    const speech = new Int16Array(4000);
+    speech.set(constant(1000, 1000), 1000);
+    const background = constant(4000, 10000);
+
+    const mixed = mixWithDucking(speech, background, 20, SAMPLE_RATE);
+
+    // Monotonic ramp over the 200ms ahead of the speech, and back after it
+    const before = Array.from(mixed.subarray(790, 1000));
+    expect(before.every((sample, index) => index === 0 || sample <= before[index - 1])).toBe(true);
+    expect(mixed[900]).toBeGreaterThan(1000);
+    expect(mixed[900]).toBeLessThan(10000);
+    expect(mixed[2100]).toBeLessThan(10000);
+    expect(mixed[2250]).toEqual(10000);
+  });
+
+  it('should simply add the stems without ducking', () => {
+    const speech = generateTone(500, 440, SAMPLE_RATE * 24);
+    const background = generateTone(800, 110, SAMPLE_RATE * 24);
+
+    const mixed = mixWithDucking(speech, background, 0, SAMPLE_RATE * 24);
+
+    expect(mixed.length).toEqual(background.length);
+    expect(mixed.every((sample, index) => sample === (speech[index] ?? 0) + background[index])).toBe(true);
+  });
+
+  it('should clip instead of wrapping around', () => {
+    const mixed = mixWithDucking(constant(10, 30000), constant(10, 30000), 0, SAMPLE_RATE);
+
+    expect(Array.from(mixed)).toEqual(new Array(10).fill(32767));
+  });
+
+  it('should not duck under silence', () => {
+    const background = constant(1000, 5000);
+
+    expect(mixWithDucking(generateSilence(1000, SAMPLE_RATE), background, 30, SAMPLE_RATE)).toEqual(background);
+  });
+});
+
+describe('mixAudibleMark', () => {
+  const CHIME_RATE = 24000; // High enough to carry the chime's notes
+
+  it('should play a quiet chime over the start and leave the rest untouched', () => {
+    const speech = constant(CHIME_RATE, 1000); // One second
+
+    const marked = mixAudibleMark(speech, CHIME_RATE);
+
+    const chimeLength = Math.round(0.24 * CHIME_RATE); // Two 120ms notes
+    const peak = Math.max(...Array.from(marked.subarray(0, chimeLength), (sample) => Math.abs(sample - 1000)));
+    expect(peak).toBeGreaterThan(1000);
+    expect(peak).toBeLessThanOrEqual(3277); // -20 dBFS
+    expect(marked[0]).toEqual(1000); // Faded in without a click
+    expect(marked.subarray(chimeLength)).toEqual(speech.subarray(chimeLength));
+  });
+
+  it('should lengthen audio shorter than the chime', () => {
+    const marked = mixAudibleMark(generateSilence(100, CHIME_RATE), CHIME_RATE);
+
+    expect(marked.length).toEqual(Math.round(0.24 * CHIME_RATE));
+  });
+});
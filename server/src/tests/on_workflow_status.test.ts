@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable } from '../db/schema';
+import { onWorkflowStatus } from '../handlers/on_workflow_status';
+import { createTranslationJob } from '../handlers/create_translation_job';
+import { updateTranslationJob } from '../handlers/update_translation_job';
+import { stopListening } from '../events/workflow_changes';
+
+async function createTestVideo() {
+  const result = await db.insert(videosTable)
+    .values({
+      filename: 'test-video.mp4',
+      original_filename: 'original-test.mp4',
+      file_path: '/uploads/test-video.mp4',
+      file_size: 1024000,
+      duration: 120,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+// Resolves to null when nothing arrives in time
+function nextWithin<T>(iterator: AsyncGenerator<T>, ms: number): Promise<IteratorResult<T> | null> {
+  return Promise.race([
+    iterator.next(),
+    new Promise<null>((resolve) => setTimeout(() => resolve(null), ms))
+  ]);
+}
+
+describe('onWorkflowStatus', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    await stopListening();
+    await resetDB();
+  });
+
+  it('should send the current status, then every change as it happens', async () => {
+    const video = await createTestVideo();
+    const controller = new AbortController();
+    const updates = onWorkflowStatus(video.id, controller.signal);
+
+    const initial = await updates.next();
+    expect(initial.value!.overallStatus).toEqual('not_started');
+
+    const job = await createTranslationJob({ video_id: video.id, source_language: 'en', target_language: 'es', glossary: [] });
+    const queued = await updates.next();
+    expect(queued.value!.overallStatus).toEqual('translating');
+    expect(queued.value!.translationJob?.status).toEqual('pending');
+
+    await updateTranslationJob({ id: job.id, status: 'failed', error_message: 'Provider down' });
+    const failed = await updates.next();
+    expect(failed.value!.overallStatus).toEqual('failed');
+    expect(failed.value!.translationJob?.error_message).toEqual('Provider down');
+
+    controller.abort();
+    expect(await nextWithin(updates, 1000)).toEqual({ done: true, value: undefined });
+  });
+
+  it('should ignore changes to other videos', async () => {
+    const video = await createTestVideo();
+    const otherVideo = await createTestVideo();
+    const controller = new AbortController();
+    const updates = onWorkflowStatus(video.id, controller.signal);
+    await updates.next();
+
+    await createTranslationJob({ video_id: otherVideo.id, source_language: 'en', target_language: 'es', glossary: [] });
+    expect(await nextWithin(updates, 300)).toBeNull();
+
+    controller.abort();
+    await updates.return(undefined);
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { spawnSync } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable } from '../db/schema';
+import { probeVideo } from '../handlers/probe_video';
+import { MediaProbeError, getFfprobePath, parseProbeOutput, type FfprobeOutput } from '../media/probe';
+import { eq } from 'drizzle-orm';
+
+const fixturesDir = path.join(import.meta.dir, 'fixtures');
+const ffprobeAvailable = spawnSync(getFfprobePath(), ['-version']).status === 0;
+
+let workDir: string;
+
+async function createTestVideo(filePath: string) {
+  const result = await db.insert(videosTable)
+    .values({
+      filename: path.basename(filePath),
+      original_filename: 'interview.mp4',
+      file_path: filePath,
+      file_size: 5808,
+      duration: 999, // Client-reported value the probe should replace
+      format: 'mp4',
+      upload_status: 'pending'
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+describe('probeVideo', () => {
+  beforeEach(async () => {
+    await createDB();
+    workDir = await mkdtemp(path.join(tmpdir(), 'probe-video-'));
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it.skipIf(!ffprobeAvailable)('should persist stream info and mark the video uploaded', async () => {
+    const video = await createTestVideo(path.join(fixturesDir, 'sample.mp4'));
+
+    const result = await probeVideo(video.id);
+
+    expect(result.upload_status).toEqual('uploaded');
+    expect(result.error_message).toBeNull();
+    expect(result.duration).toEqual(1);
+    expect(result.container_format).toMatch(/mp4/);
+    expect(result.video_codec).toEqual('h264');
+    expect(result.width).toEqual(64);
+    expect(result.height).toEqual(48);
+    expect(result.frame_rate).toEqual(10);
+    expect(result.audio_track_count).toEqual(1);
+    expect(result.audio_sample_rate).toEqual(22050);
+    expect(result.audio_channels).toEqual(1);
+
+    const saved = await db.select()
+      .from(videosTable)
+      .where(eq(videosTable.id, video.id))
+      .execute();
+
+    expect(saved[0].video_codec).toEqual('h264');
+    expect(saved[0].upload_status).toEqual('uploaded');
+  });
+
+  it.skipIf(!ffprobeAvailable)('should fail videos without an audio stream', async () => {
+    const video = await createTestVideo(path.join(fixturesDir, 'no_audio.mp4'));
+
+    const result = await probeVideo(video.id);
+
+    expect(result.upload_status).toEqual('failed');
+    expect(result.error_message).toEqual('Video has no audio stream to translate');
+    expect(result.audio_track_count).toEqual(0);
+    expect(result.video_codec).toEqual('h264');
+  });
+
+  it('should fail unreadable files with an error message', async () => {
+    const filePath = path.join(workDir, 'garbage.mp4');
+    await writeFile(filePath, 'this is not a video');
+    const video = await createTestVideo(filePath);
+
+    const result = await probeVideo(video.id);
+
+    expect(result.upload_status).toEqual('failed');
+    expect(result.error_message).toMatch(/^Media probe failed/);
+    expect(result.video_codec).toBeNull();
+  });
+
+  it('should throw for a non-existent video', async () => {
+    await expect(probeVideo(99999)).rejects.toThrow(/not found/i);
+  });
+});
+
+describe('parseProbeOutput', () => {
+  const output: FfprobeOutput = {
+    format: { format_name: 'matroska,webm', duration: '754.320000' },
+    streams: [
+      { codec_type: 'video', codec_name: 'vp9', width: 1920, height: 1080, avg_frame_rate: '30000/1001' },
+      { codec_type: 'audio', codec_name: 'opus', sample_rate: '48000', channels: 2 },
+      { codec_type: 'audio', codec_name: 'opus', sample_rate: '48000', channels: 6 },
+      { codec_type: 'subtitle', codec_name: 'webvtt' }
+    ]
+  };
+
+  it('should read container, video and audio details', () => {
+    const probe = parseProbeOutput(output);
+
+    expect(probe.duration_seconds).toEqual(754.32);
+    expect(probe.container_format).toEqual('matroska,webm');
+    expect(probe.video_codec).toEqual('vp9');
+    expect(probe.width).toEqual(1920);
+    expect(probe.height).toEqual(1080);
+    expect(probe.frame_rate).toEqual(29.97);
+    expect(probe.audio_track_count).toEqual(2);
+    expect(probe.audio_sample_rate).toEqual(48000);
+    expect(probe.audio_channels).toEqual(2);
+  });
+
+  it('should fall back to r_frame_rate when avg_frame_rate is unknown', () => {
+    const probe = parseProbeOutput({
+      format: { format_name: 'mov,mp4,m4a,3gp,3g2,mj2' },
+      streams: [{ codec_type: 'video', codec_name: 'h264', avg_frame_rate: '0/0', r_frame_rate: '25/1' }]
+    });
+
+    expect(probe.frame_rate).toEqual(25);
+    expect(probe.duration_seconds).toBeNull();
+    expect(probe.audio_track_count).toEqual(0);
+    expect(probe.audio_sample_rate).toBeNull();
+  });
+
+  it('should reject output without a container format', () => {
+    expect(() => parseProbeOutput({ streams: [] })).toThrow(MediaProbeError);
+  });
+});
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable, audioGenerationJobsTable, audioSegmentsTable } from '../db/schema';
+import { renameSpeaker } from '../handlers/rename_speaker';
+import { getTranscriptSegments } from '../handlers/get_transcript_segments';
+import { type SpeakerVoice } from '../schema';
+import { eq } from 'drizzle-orm';
+
+async function createTestPanel(speakerVoices: SpeakerVoice[], status: 'completed' | 'translating' | 'failed' = 'completed') {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'panel.mp4',
+      original_filename: 'panel.mp4',
+      file_path: '/uploads/panel.mp4',
+      file_size: 1024000,
+      duration: 6,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const job = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'en', target_language: 'fr', status })
+    .returning()
+    .execute();
+
+  const segments = await db.insert(transcriptSegmentsTable)
+    .values([
+      { translation_job_id: job[0].id, segment_index: 0, start_ms: 0, end_ms: 2000, speaker: 'Speaker 1', source_text: 'Hi.', translated_text: 'Salut.' },
+      { translation_job_id: job[0].id, segment_index: 1, start_ms: 2000, end_ms: 4000, speaker: 'Speaker 2', source_text: 'Hello.', translated_text: 'Bonjour.' },
+      { translation_job_id: job[0].id, segment_index: 2, start_ms: 4000, end_ms: 6000, speaker: 'Speaker 3', source_text: 'Hey.', translated_text: 'Coucou.' }
+    ])
+    .returning()
+    .execute();
+
+  const audioJob = await db.insert(audioGenerationJobsTable)
+    .values({ translation_job_id: job[0].id, status: 'completed', voice_cloned: false, speaker_voices: speakerVoices })
+    .returning()
+    .execute();
+
+  await db.insert(audioSegmentsTable)
+    .values(segments.map((segment) => ({
+      audio_generation_job_id: audioJob[0].id,
+      transcript_segment_id: segment.id,
+      audio_path: `/audio/segment_${segment.segment_index}.wav`,
+      duration_ms: 900
+    })))
+    .execute();
+
+  return { job: job[0], audioJob: audioJob[0] };
+}
+
+async function getAudioState(audioGenerationJobId: number) {
+  const jobs = await db.select().from(audioGenerationJobsTable).where(eq(audioGenerationJobsTable.id, audioGenerationJobId)).execute();
+  const segments = await db.select()
+    .from(audioSegmentsTable)
+    .where(eq(audioSegmentsTable.audio_generation_job_id, audioGenerationJobId))
+    .orderBy(audioSegmentsTable.id)
+    .execute();
+  return { status: jobs[0].status, speakerVoices: jobs[0].speaker_voices, stale: segments.map((segment) => segment.stale) };
+}
+
+describe('renameSpeaker', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should relabel the speaker and carry its voice along', async () => {
+    const { job, audioJob } = await createTestPanel([{ speaker: 'Speaker 2', voice_cloned: false, voice_id: 'local-tenor' }]);
+
+    const result = await renameSpeaker({ translation_job_id: job.id, speaker: 'Speaker 2', new_speaker: 'Dr. Chen' });
+
+    expect(result.map((segment) => segment.speaker)).toEqual(['Speaker 1', 'Dr. Chen', 'Speaker 3']);
+    expect((await getTranscriptSegments(job.id)).map((segment) => segment.speaker)).toEqual(['Speaker 1', 'Dr. Chen', 'Speaker 3']);
+    expect(await getAudioState(audioJob.id)).toEqual({
+      status: 'completed',
+      speakerVoices: [{ speaker: 'Dr. Chen', voice_cloned: false, voice_id: 'local-tenor' }],
+      stale: [false, false, false]
+    });
+  });
+
+  it('should merge into an existing speaker, which keeps its voice', async () => {
+    const { job, audioJob } = await createTestPanel([
+      { speaker: 'Speaker 1', voice_cloned: false, voice_id: 'local-alto' },
+      { speaker: 'Speaker 3', voice_cloned: false, voice_id: 'local-tenor' }
+    ]);
+
+    const result = await renameSpeaker({ translation_job_id: job.id, speaker: 'Speaker 3', new_speaker: 'Speaker 1' });
+
+    expect(result.map((segment) => segment.speaker)).toEqual(['Speaker 1', 'Speaker 2', 'Speaker 1']);
+    // Only the merged-in segments change voice; the finished dub is queued to re-synthesize them
+    expect(await getAudioState(audioJob.id)).toEqual({
+      status: 'pending',
+      speakerVoices: [{ speaker: 'Speaker 1', voice_cloned: false, voice_id: 'local-alto' }],
+      stale: [false, false, true]
+    });
+  });
+
+  it('should outdate all of a cloned speaker\'s audio when another speaker is merged into it', async () => {
+    const { job, audioJob } = await createTestPanel([{ speaker: 'Speaker 1', voice_cloned: true }]);
+
+    await renameSpeaker({ translation_job_id: job.id, speaker: 'Speaker 2', new_speaker: 'Speaker 1' });
+
+    expect((await getAudioState(audioJob.id)).stale).toEqual([true, true, false]);
+  });
+
+  it('should not queue audio again behind a translation that failed', async () => {
+    const { job, audioJob } = await createTestPanel([{ speaker: 'Speaker 1', voice_cloned: true }], 'failed');
+
+    await renameSpeaker({ translation_job_id: job.id, speaker: 'Speaker 2', new_speaker: 'Speaker 1' });
+
+    expect(await getAudioState(audioJob.id)).toMatchObject({ status: 'completed', stale: [true, true, false] });
+  });
+
+  it('should leave audio alone when merging speakers that share the job-level voice', async () => {
+    const { job, audioJob } = await createTestPanel([]);
+
+    await renameSpeaker({ translation_job_id: job.id, speaker: 'Speaker 2', new_speaker: 'Speaker 3' });
+
+    expect(await getAudioState(audioJob.id)).toMatchObject({ status: 'completed', stale: [false, false, false] });
+  });
+
+  it('should reject an unknown speaker', async () => {
+    const { job } = await createTestPanel([]);
+
+    await expect(renameSpeaker({ translation_job_id: job.id, speaker: 'Speaker 9', new_speaker: 'Host' }))
+      .rejects.toThrow(/speaker "Speaker 9" not found/i);
+  });
+
+  it('should reject renames while the translation job is running', async () => {
+    const { job } = await createTestPanel([], 'translating');
+
+    await expect(renameSpeaker({ translation_job_id: job.id, speaker: 'Speaker 1', new_speaker: 'Host' }))
+      .rejects.toThrow(/while the translation job is running/i);
+  });
+
+  it('should throw error when the translation job does not exist', async () => {
+    await expect(renameSpeaker({ translation_job_id: 999, speaker: 'Speaker 1', new_speaker: 'Host' }))
+      .rejects.toThrow(/translation job with id 999 not found/i);
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable, audioGenerationJobsTable, audioSegmentsTable } from '../db/schema';
+import { resynthesizeTranscriptSegment } from '../handlers/resynthesize_transcript_segment';
+import { eq } from 'drizzle-orm';
+
+async function createTestTranscript() {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'test-video.mp4',
+      original_filename: 'original-test.mp4',
+      file_path: '/uploads/test-video.mp4',
+      file_size: 1024000,
+      duration: 120,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const job = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'en', target_language: 'es', status: 'completed' })
+    .returning()
+    .execute();
+
+  const segments = await db.insert(transcriptSegmentsTable)
+    .values([
+      { translation_job_id: job[0].id, segment_index: 0, start_ms: 0, end_ms: 2000, source_text: 'Hello.', translated_text: 'Hola.' },
+      { translation_job_id: job[0].id, segment_index: 1, start_ms: 2000, end_ms: 4000, source_text: 'Goodbye.', translated_text: 'Adiós.' }
+    ])
+    .returning()
+    .execute();
+
+  return { job: job[0], segments };
+}
+
+describe('resynthesizeTranscriptSegment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should mark the segment audio stale and requeue finished audio jobs', async () => {
+    const { job, segments } = await createTestTranscript();
+
+    const audioJobs = await db.insert(audioGenerationJobsTable)
+      .values([
+        { translation_job_id: job.id, status: 'completed', voice_cloned: false, completed_at: new Date() },
+        { translation_job_id: job.id, status: 'failed', voice_cloned: true, error_message: 'Boom' },
+        { translation_job_id: job.id, status: 'generating', voice_cloned: false }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(audioSegmentsTable)
+      .values(segments.map((segment) => ({
+        audio_generation_job_id: audioJobs[0].id,
+        transcript_segment_id: segment.id,
+        audio_path: `/audio/segment_${segment.segment_index}.wav`,
+        duration_ms: 300
+      })))
+      .execute();
+
+    const result = await resynthesizeTranscriptSegment(segments[0].id);
+
+    expect(result.map((audioJob) => audioJob.id).sort((a, b) => a - b)).toEqual([audioJobs[0].id, audioJobs[1].id]);
+    result.forEach((audioJob) => {
+      expect(audioJob.status).toEqual('pending');
+      expect(audioJob.completed_at).toBeNull();
+      expect(audioJob.error_message).toBeNull();
+    });
+
+    const audioSegments = await db.select().from(audioSegmentsTable).orderBy(audioSegmentsTable.id).execute();
+    expect(audioSegments.map((segment) => segment.stale)).toEqual([true, false]);
+  });
+
+  it('should refuse while its translation job has failed', async () => {
+    const { job, segments } = await createTestTranscript();
+    await db.update(translationJobsTable).set({ status: 'failed' }).where(eq(translationJobsTable.id, job.id)).execute();
+    const audioJob = await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: job.id, status: 'failed', voice_cloned: false, error_message: `Translation job ${job.id} failed: Boom` })
+      .returning()
+      .execute();
+
+    await expect(resynthesizeTranscriptSegment(segments[0].id))
+      .rejects.toThrow(new RegExp(`translation job ${job.id} is failed; retry it first`, 'i'));
+
+    const unchanged = await db.select().from(audioGenerationJobsTable).where(eq(audioGenerationJobsTable.id, audioJob[0].id)).execute();
+    expect(unchanged[0].status).toEqual('failed');
+  });
+
+  it('should throw error when the segment does not exist', async () => {
+    await expect(resynthesizeTranscriptSegment(999))
+      .rejects.toThrow(/transcript segment with id 999 not found/i);
+  });
+});
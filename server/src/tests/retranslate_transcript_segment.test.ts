@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable } from '../db/schema';
+import { retranslateTranscriptSegment } from '../handlers/retranslate_transcript_segment';
+import { eq } from 'drizzle-orm';
+
+async function createTestSegment() {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'test-video.mp4',
+      original_filename: 'original-test.mp4',
+      file_path: '/uploads/test-video.mp4',
+      file_size: 1024000,
+      duration: 120,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const job = await db.insert(translationJobsTable)
+    .values({
+      video_id: video[0].id,
+      source_language: 'en',
+      target_language: 'es',
+      status: 'completed',
+      glossary: [{ source_term: 'Acme', target_term: 'ACME Corp' }],
+      translated_text: 'Hola.'
+    })
+    .returning()
+    .execute();
+
+  const segment = await db.insert(transcriptSegmentsTable)
+    .values({ translation_job_id: job[0].id, segment_index: 0, start_ms: 0, end_ms: 2000, source_text: 'Welcome to acme.', translated_text: 'Hola.' })
+    .returning()
+    .execute();
+
+  return { job: job[0], segment: segment[0] };
+}
+
+describe('retranslateTranscriptSegment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should translate the segment again with the job glossary', async () => {
+    const { job, segment } = await createTestSegment();
+
+    const result = await retranslateTranscriptSegment(segment.id);
+
+    expect(result.id).toEqual(segment.id);
+    expect(result.translated_text).toEqual('[es] Welcome to ACME Corp.');
+
+    const saved = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, job.id)).execute();
+    expect(saved[0].translated_text).toEqual('[es] Welcome to ACME Corp.');
+  });
+
+  it('should throw error when the segment does not exist', async () => {
+    await expect(retranslateTranscriptSegment(999))
+      .rejects.toThrow(/transcript segment with id 999 not found/i);
+  });
+});
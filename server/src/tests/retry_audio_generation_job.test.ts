@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, audioGenerationJobsTable } from '../db/schema';
+import { retryAudioGenerationJob } from '../handlers/retry_audio_generation_job';
+
+async function createTestTranslationJob(status: 'completed' | 'failed' | 'cancelled' = 'completed') {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'test-video.mp4',
+      original_filename: 'original-test.mp4',
+      file_path: '/uploads/test-video.mp4',
+      file_size: 1024000,
+      duration: 120,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const result = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'en', target_language: 'es', status })
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+describe('retryAudioGenerationJob', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should queue a failed or cancelled job again', async () => {
+    const translationJob = await createTestTranslationJob();
+    const audioJobs = await db.insert(audioGenerationJobsTable)
+      .values([
+        { translation_job_id: translationJob.id, status: 'failed', error_message: 'Boom', started_at: new Date(), completed_at: new Date() },
+        { translation_job_id: translationJob.id, status: 'cancelled' }
+      ])
+      .returning()
+      .execute();
+
+    for (const audioJob of audioJobs) {
+      const result = await retryAudioGenerationJob(audioJob.id);
+
+      expect(result.id).toEqual(audioJob.id);
+      expect(result.status).toEqual('pending');
+      expect(result.error_message).toBeNull();
+      expect(result.completed_at).toBeNull();
+    }
+  });
+
+  it('should refuse while its translation job has failed', async () => {
+    const translationJob = await createTestTranslationJob('failed');
+    const audioJob = await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: translationJob.id, status: 'failed', error_message: `Translation job ${translationJob.id} failed: Boom` })
+      .returning()
+      .execute();
+
+    await expect(retryAudioGenerationJob(audioJob[0].id))
+      .rejects.toThrow(new RegExp(`translation job ${translationJob.id} is failed; retry it first`, 'i'));
+  });
+
+  it('should refuse to retry jobs that have not stopped', async () => {
+    const translationJob = await createTestTranslationJob();
+    const audioJob = await db.insert(audioGenerationJobsTable)
+      .values({ translation_job_id: translationJob.id, status: 'completed' })
+      .returning()
+      .execute();
+
+    await expect(retryAudioGenerationJob(audioJob[0].id))
+      .rejects.toThrow(/cannot be retried \(status: completed\)/i);
+  });
+
+  it('should throw error when the job does not exist', async () => {
+    await expect(retryAudioGenerationJob(999))
+      .rejects.toThrow(/audio generation job with id 999 not found/i);
+  });
+});
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { getRetryPolicy, retryDelayMs, type RetryPolicy } from '../worker/retry_policy';
+
+const policy: RetryPolicy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5000, jitter: 0.2 };
+
+describe('getRetryPolicy', () => {
+  afterEach(() => {
+    delete process.env['JOB_RETRY_GENERATING_MAX_ATTEMPTS'];
+    delete process.env['JOB_RETRY_GENERATING_BASE_DELAY_MS'];
+  });
+
+  it('should give each stage its own policy', () => {
+    expect(getRetryPolicy('extracting_audio').maxAttempts).toEqual(3);
+    expect(getRetryPolicy('translating').maxAttempts).toEqual(5);
+    expect(getRetryPolicy('generating').baseDelayMs).toEqual(10_000);
+  });
+
+  it('should let the environment override one stage', () => {
+    process.env['JOB_RETRY_GENERATING_MAX_ATTEMPTS'] = '2';
+    process.env['JOB_RETRY_GENERATING_BASE_DELAY_MS'] = 'soon'; // Ignored
+
+    expect(getRetryPolicy('generating')).toMatchObject({ maxAttempts: 2, baseDelayMs: 10_000 });
+    expect(getRetryPolicy('translating').maxAttempts).toEqual(5);
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('should double the delay after each failure, up to the maximum', () => {
+    const noJitter = () => 0.5;
+
+    expect([1, 2, 3, 4].map((failures) => retryDelayMs(policy, failures, noJitter))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('should spread the delay by the jitter either way', () => {
+    expect(retryDelayMs(policy, 2, () => 0)).toEqual(1600);
+    expect(retryDelayMs(policy, 2, () => 1)).toEqual(2400);
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, audioGenerationJobsTable } from '../db/schema';
+import { retryTranslationJob } from '../handlers/retry_translation_job';
+import { eq } from 'drizzle-orm';
+
+async function createTestVideo() {
+  const result = await db.insert(videosTable)
+    .values({
+      filename: 'test-video.mp4',
+      original_filename: 'original-test.mp4',
+      file_path: '/uploads/test-video.mp4',
+      file_size: 1024000,
+      duration: 120,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+async function getAudioJob(id: number) {
+  const rows = await db.select().from(audioGenerationJobsTable).where(eq(audioGenerationJobsTable.id, id)).execute();
+  return rows[0];
+}
+
+describe('retryTranslationJob', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should queue a failed job again, keeping its extracted audio', async () => {
+    const video = await createTestVideo();
+    const job = await db.insert(translationJobsTable)
+      .values({
+        video_id: video.id,
+        source_language: 'en',
+        target_language: 'es',
+        status: 'failed',
+        original_audio_path: '/audio/source_1.wav',
+        error_message: 'Translation provider unavailable',
+        started_at: new Date(),
+        completed_at: new Date()
+      })
+      .returning()
+      .execute();
+
+    const result = await retryTranslationJob(job[0].id);
+
+    expect(result.translation_jobs).toHaveLength(1);
+    expect(result.translation_jobs[0]).toMatchObject({
+      id: job[0].id,
+      status: 'pending',
+      original_audio_path: '/audio/source_1.wav',
+      error_message: null,
+      started_at: null,
+      completed_at: null
+    });
+  });
+
+  it('should queue again the jobs it stopped, but not those that ran or were cancelled on their own', async () => {
+    const video = await createTestVideo();
+    const transcriptJob = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'es', status: 'failed', error_message: 'No speech', started_at: new Date() })
+      .returning()
+      .execute();
+    const sharingJob = await db.insert(translationJobsTable)
+      .values({
+        video_id: video.id,
+        source_language: 'en',
+        target_language: 'fr',
+        transcript_job_id: transcriptJob[0].id,
+        status: 'failed',
+        error_message: `Translation job ${transcriptJob[0].id} failed: No speech`
+      })
+      .returning()
+      .execute();
+    const audioJobs = await db.insert(audioGenerationJobsTable)
+      .values([
+        { translation_job_id: transcriptJob[0].id, status: 'failed', error_message: `Translation job ${transcriptJob[0].id} failed: No speech` },
+        { translation_job_id: sharingJob[0].id, status: 'failed', error_message: `Translation job ${sharingJob[0].id} failed: No speech` },
+        { translation_job_id: transcriptJob[0].id, status: 'cancelled' },
+        { translation_job_id: transcriptJob[0].id, status: 'failed', error_message: 'Voice not found', started_at: new Date() }
+      ])
+      .returning()
+      .execute();
+
+    const result = await retryTranslationJob(transcriptJob[0].id);
+
+    expect(result.translation_jobs.map((job) => job.id)).toEqual([transcriptJob[0].id, sharingJob[0].id]);
+    expect(result.audio_generation_jobs.map((job) => job.id)).toEqual([audioJobs[0].id, audioJobs[1].id]);
+    expect([...result.translation_jobs, ...result.audio_generation_jobs].every((job) => job.status === 'pending' && job.error_message === null)).toBe(true);
+    expect((await getAudioJob(audioJobs[2].id)).status).toEqual('cancelled');
+    expect((await getAudioJob(audioJobs[3].id)).status).toEqual('failed');
+  });
+
+  it('should send a job sharing a failed transcript back to the job producing it', async () => {
+    const video = await createTestVideo();
+    const transcriptJob = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'es', status: 'cancelled' })
+      .returning()
+      .execute();
+    const sharingJob = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'fr', transcript_job_id: transcriptJob[0].id, status: 'cancelled', error_message: 'Cancelled' })
+      .returning()
+      .execute();
+
+    await expect(retryTranslationJob(sharingJob[0].id))
+      .rejects.toThrow(new RegExp(`shares the transcript of translation job ${transcriptJob[0].id}; retry that job instead`, 'i'));
+  });
+
+  it('should refuse to retry jobs that have not stopped', async () => {
+    const video = await createTestVideo();
+    const job = await db.insert(translationJobsTable)
+      .values({ video_id: video.id, source_language: 'en', target_language: 'es', status: 'translating' })
+      .returning()
+      .execute();
+
+    await expect(retryTranslationJob(job[0].id))
+      .rejects.toThrow(/cannot be retried \(status: translating\)/i);
+  });
+
+  it('should throw error when the job does not exist', async () => {
+    await expect(retryTranslationJob(999))
+      .rejects.toThrow(/translation job with id 999 not found/i);
+  });
+});
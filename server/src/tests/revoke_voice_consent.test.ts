@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, voiceConsentsTable } from '../db/schema';
+import { revokeVoiceConsent } from '../handlers/revoke_voice_consent';
+import { assertCloningConsent } from '../handlers/get_voice_consents';
+
+async function createTestConsent() {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'interview.mp4',
+      original_filename: 'interview.mp4',
+      file_path: '/uploads/interview.mp4',
+      file_size: 1024000,
+      duration: 60,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const consent = await db.insert(voiceConsentsTable)
+    .values({
+      video_id: video[0].id,
+      consented_by: 'Jane Speaker',
+      scope_languages: [],
+      expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      artifact_path: '/consents/consent.pdf',
+      artifact_filename: 'consent.pdf',
+      artifact_sha256: 'a'.repeat(64)
+    })
+    .returning()
+    .execute();
+
+  return consent[0];
+}
+
+describe('revokeVoiceConsent', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should keep the record but stop it allowing clones', async () => {
+    const consent = await createTestConsent();
+
+    const result = await revokeVoiceConsent(consent.id);
+
+    expect(result.revoked_at).toBeInstanceOf(Date);
+    expect(await db.select().from(voiceConsentsTable).execute()).toHaveLength(1);
+    await expect(assertCloningConsent({ video_id: consent.video_id! }, ['es'])).rejects.toThrow(/voice cloning requires consent/i);
+  });
+
+  it('should reject unknown or already revoked consent', async () => {
+    const consent = await createTestConsent();
+    await revokeVoiceConsent(consent.id);
+
+    await expect(revokeVoiceConsent(consent.id)).rejects.toThrow(/already revoked/i);
+    await expect(revokeVoiceConsent(999)).rejects.toThrow(/voice consent with id 999 not found/i);
+  });
+});
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable, audioGenerationJobsTable, audioSegmentsTable } from '../db/schema';
+import { setSpeakerVoices } from '../handlers/set_speaker_voices';
+import { setSpeakerVoicesInputSchema } from '../schema';
+import { eq } from 'drizzle-orm';
+
+async function createTestInterview(status: 'completed' | 'generating' = 'completed') {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'interview.mp4',
+      original_filename: 'interview.mp4',
+      file_path: '/uploads/interview.mp4',
+      file_size: 1024000,
+      duration: 6,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const job = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'en', target_language: 'es', status: 'completed' })
+    .returning()
+    .execute();
+
+  const segments = await db.insert(transcriptSegmentsTable)
+    .values([
+      { translation_job_id: job[0].id, segment_index: 0, start_ms: 0, end_ms: 2000, speaker: 'Host', source_text: 'Welcome.', translated_text: 'Bienvenidos.' },
+      { translation_job_id: job[0].id, segment_index: 1, start_ms: 2000, end_ms: 4000, speaker: 'Guest', source_text: 'Thanks.', translated_text: 'Gracias.' },
+      { translation_job_id: job[0].id, segment_index: 2, start_ms: 4000, end_ms: 6000, speaker: 'Host', source_text: 'Let us start.', translated_text: 'Empecemos.' }
+    ])
+    .returning()
+    .execute();
+
+  const audioJob = await db.insert(audioGenerationJobsTable)
+    .values({
+      translation_job_id: job[0].id,
+      status,
+      voice_cloned: true,
+      speaker_voices: [{ speaker: 'Guest', voice_cloned: false, voice_id: 'local-tenor' }],
+      completed_at: status === 'completed' ? new Date() : null
+    })
+    .returning()
+    .execute();
+
+  await db.insert(audioSegmentsTable)
+    .values(segments.map((segment) => ({
+      audio_generation_job_id: audioJob[0].id,
+      transcript_segment_id: segment.id,
+      audio_path: `/audio/segment_${segment.segment_index}.wav`,
+      duration_ms: 900
+    })))
+    .execute();
+
+  return { job: job[0], segments, audioJob: audioJob[0] };
+}
+
+async function getStaleFlags(audioGenerationJobId: number) {
+  const segments = await db.select()
+    .from(audioSegmentsTable)
+    .where(eq(audioSegmentsTable.audio_generation_job_id, audioGenerationJobId))
+    .orderBy(audioSegmentsTable.id)
+    .execute();
+  return segments.map((segment) => segment.stale);
+}
+
+describe('setSpeakerVoices', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should mark only the changed speakers\' audio stale and requeue the finished job', async () => {
+    const { audioJob } = await createTestInterview();
+
+    const result = await setSpeakerVoices({
+      audio_generation_job_id: audioJob.id,
+      speaker_voices: [
+        { speaker: 'Host', voice_cloned: false, voice_id: 'local-alto' },
+        { speaker: 'Guest', voice_cloned: false, voice_id: 'local-tenor' }
+      ]
+    });
+
+    expect(result.speaker_voices).toEqual([
+      { speaker: 'Host', voice_cloned: false, voice_id: 'local-alto' },
+      { speaker: 'Guest', voice_cloned: false, voice_id: 'local-tenor' }
+    ]);
+    expect(result.status).toEqual('pending');
+    expect(result.completed_at).toBeNull();
+    expect(await getStaleFlags(audioJob.id)).toEqual([true, false, true]);
+  });
+
+  it('should fall back to the job-level voice for a speaker whose assignment is removed', async () => {
+    const { audioJob } = await createTestInterview();
+
+    const result = await setSpeakerVoices({ audio_generation_job_id: audioJob.id, speaker_voices: [] });
+
+    expect(result.speaker_voices).toEqual([]);
+    expect(await getStaleFlags(audioJob.id)).toEqual([false, true, false]);
+  });
+
+  it('should leave the job alone when no voice changed', async () => {
+    const { audioJob } = await createTestInterview();
+
+    const result = await setSpeakerVoices({
+      audio_generation_job_id: audioJob.id,
+      speaker_voices: [{ speaker: 'Guest', voice_cloned: false, voice_id: 'local-tenor' }]
+    });
+
+    expect(result.status).toEqual('completed');
+    expect(result.completed_at).toBeInstanceOf(Date);
+    expect(await getStaleFlags(audioJob.id)).toEqual([false, false, false]);
+  });
+
+  it('should reject speakers that are not in the transcript', async () => {
+    const { audioJob } = await createTestInterview();
+
+    await expect(setSpeakerVoices({
+      audio_generation_job_id: audioJob.id,
+      speaker_voices: [{ speaker: 'Narrator', voice_cloned: true }]
+    })).rejects.toThrow(/speaker "Narrator" not found/i);
+  });
+
+  it('should reject stock voices the text-to-speech provider does not offer', async () => {
+    const { audioJob } = await createTestInterview();
+
+    await expect(setSpeakerVoices({
+      audio_generation_job_id: audioJob.id,
+      speaker_voices: [{ speaker: 'Guest', voice_cloned: false, voice_id: 'local-bass' }]
+    })).rejects.toThrow(/unknown voice "local-bass"/i);
+  });
+
+  it('should reject cloning a speaker without consent from the video', async () => {
+    const { audioJob } = await createTestInterview();
+
+    await expect(setSpeakerVoices({
+      audio_generation_job_id: audioJob.id,
+      speaker_voices: [{ speaker: 'Guest', voice_cloned: true }]
+    })).rejects.toThrow(/no valid, unexpired consent covers the speakers of video \d+ for es/i);
+  });
+
+  it('should reject changes while the job is running', async () => {
+    const { audioJob } = await createTestInterview('generating');
+
+    await expect(setSpeakerVoices({ audio_generation_job_id: audioJob.id, speaker_voices: [] }))
+      .rejects.toThrow(/while the audio generation job is running/i);
+  });
+
+  it('should throw error when the audio generation job does not exist', async () => {
+    await expect(setSpeakerVoices({ audio_generation_job_id: 999, speaker_voices: [] }))
+      .rejects.toThrow(/audio generation job with id 999 not found/i);
+  });
+
+  it('should only accept one voice per speaker, and no stock voice for clones', () => {
+    expect(setSpeakerVoicesInputSchema.safeParse({
+      audio_generation_job_id: 1,
+      speaker_voices: [{ speaker: 'Host', voice_cloned: true }, { speaker: 'Host', voice_cloned: false }]
+    }).success).toBe(false);
+    expect(setSpeakerVoicesInputSchema.safeParse({
+      audio_generation_job_id: 1,
+      speaker_voices: [{ speaker: 'Host', voice_cloned: true, voice_id: 'local-alto' }]
+    }).success).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { speechToTextProviders } from '../providers/speech_to_text';
+import { PIPELINE_SAMPLE_RATE, generateSilence, writeWav } from '../media/wav';
+
+let workDir: string;
+
+async function writeTestAudio(durationMs: number): Promise<string> {
+  const audioPath = path.join(workDir, `audio_${durationMs}.wav`);
+  await writeWav(audioPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples: generateSilence(durationMs) });
+  return audioPath;
+}
+
+describe('speech-to-text providers', () => {
+  beforeEach(async () => {
+    workDir = await mkdtemp(path.join(tmpdir(), 'stt-'));
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+    delete process.env['SPEECH_TO_TEXT_PROVIDER'];
+  });
+
+  it('should default to the local provider', () => {
+    expect(speechToTextProviders.get().name).toEqual('local');
+  });
+
+  it('should reject an unknown configured provider', () => {
+    process.env['SPEECH_TO_TEXT_PROVIDER'] = 'nonexistent';
+    expect(() => speechToTextProviders.get()).toThrow(/unknown speech-to-text provider "nonexistent"/i);
+  });
+
+  it('should split audio into contiguous timed segments', async () => {
+    const provider = speechToTextProviders.get('local');
+    const segments = await provider.transcribe({ audioPath: await writeTestAudio(10000), language: 'fr' });
+
+    expect(segments).toEqual([
+      { startMs: 0, endMs: 4000, text: '(fr) Spoken sentence 1.', confidence: 0.95 },
+      { startMs: 4000, endMs: 8000, text: '(fr) Spoken sentence 2.', confidence: 0.9 },
+      { startMs: 8000, endMs: 10000, text: '(fr) Spoken sentence 3.', confidence: 0.85 }
+    ]);
+  });
+
+  it('should be deterministic', async () => {
+    const provider = speechToTextProviders.get('local');
+    const audioPath = await writeTestAudio(6500);
+
+    const first = await provider.transcribe({ audioPath, language: 'en' });
+    const second = await provider.transcribe({ audioPath, language: 'en' });
+    expect(second).toEqual(first);
+  });
+
+  it('should return no segments for empty audio', async () => {
+    const provider = speechToTextProviders.get('local');
+    expect(await provider.transcribe({ audioPath: await writeTestAudio(0), language: 'en' })).toEqual([]);
+  });
+
+  it('should fail on a missing audio file', async () => {
+    const provider = speechToTextProviders.get('local');
+    await expect(provider.transcribe({ audioPath: path.join(workDir, 'missing.wav'), language: 'en' }))
+      .rejects.toThrow(/no such file/i);
+  });
+});
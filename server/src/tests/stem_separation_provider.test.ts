@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { stemSeparators } from '../providers/stem_separation';
+import { PIPELINE_SAMPLE_RATE, generateTone, readWav, writeWav } from '../media/wav';
+
+let workDir: string;
+
+describe('stem separation providers', () => {
+  beforeEach(async () => {
+    workDir = await mkdtemp(path.join(tmpdir(), 'stems-'));
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+    delete process.env['STEM_SEPARATION_PROVIDER'];
+  });
+
+  it('should default to the local provider', () => {
+    expect(stemSeparators.get().name).toEqual('local');
+  });
+
+  it('should reject an unknown configured provider', () => {
+    process.env['STEM_SEPARATION_PROVIDER'] = 'nonexistent';
+    expect(() => stemSeparators.get()).toThrow(/unknown stem separation provider "nonexistent"/i);
+  });
+
+  it('should pass the whole soundtrack through as speech over a silent background', async () => {
+    const audioPath = path.join(workDir, 'source.wav');
+    const samples = generateTone(1500, 220);
+    await writeWav(audioPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples });
+
+    const vocalsPath = path.join(workDir, 'vocals.wav');
+    const backgroundPath = path.join(workDir, 'background.wav');
+    await stemSeparators.get('local').separate({ audioPath, vocalsPath, backgroundPath });
+
+    expect((await readWav(vocalsPath)).samples).toEqual(samples);
+    const background = await readWav(backgroundPath);
+    expect(background.sampleRate).toEqual(PIPELINE_SAMPLE_RATE);
+    expect(background.samples.length).toEqual(samples.length);
+    expect(background.samples.every((sample) => sample === 0)).toBe(true);
+  });
+
+  it('should fail on a missing audio file', async () => {
+    await expect(stemSeparators.get('local').separate({
+      audioPath: path.join(workDir, 'missing.wav'),
+      vocalsPath: path.join(workDir, 'vocals.wav'),
+      backgroundPath: path.join(workDir, 'background.wav')
+    })).rejects.toThrow(/no such file/i);
+  });
+});
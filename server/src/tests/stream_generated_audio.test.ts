@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, audioGenerationJobsTable } from '../db/schema';
+import { handleHttpRoute } from '../routes';
+
+let server: Server;
+let baseUrl: string;
+let storageDir: string;
+
+const CONTENT = Buffer.from('RIFF....WAVEfmt pretend audio');
+
+async function startServer() {
+  server = createServer((req, res) => {
+    handleHttpRoute(req, res).then((handled) => {
+      if (!handled) {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+}
+
+async function createAudioJob(generated: boolean) {
+  const audioPath = path.join(storageDir, 'dub_1.wav');
+  await writeFile(audioPath, CONTENT);
+
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'video_1.mp4',
+      original_filename: 'keynote.mp4',
+      file_path: '/uploads/video_1.mp4',
+      file_size: 1024000,
+      duration: 10,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const job = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'en', target_language: 'fr', status: 'completed' })
+    .returning()
+    .execute();
+
+  const audioJob = await db.insert(audioGenerationJobsTable)
+    .values({
+      translation_job_id: job[0].id,
+      status: generated ? 'completed' : 'generating',
+      voice_cloned: false,
+      generated_audio_path: generated ? audioPath : null
+    })
+    .returning()
+    .execute();
+
+  return audioJob[0];
+}
+
+describe('streamGeneratedAudio route', () => {
+  beforeEach(async () => {
+    await createDB();
+    await startServer();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'stream-audio-'));
+    process.env['STORAGE_DIR'] = storageDir;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['STORAGE_DIR'];
+    await resetDB();
+  });
+
+  it('should stream the generated audio inline', async () => {
+    const audioJob = await createAudioJob(true);
+
+    const response = await fetch(`${baseUrl}/audio-generation-jobs/${audioJob.id}/audio`);
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toEqual('audio/wav');
+    expect(response.headers.get('accept-ranges')).toEqual('bytes');
+    expect(response.headers.get('content-disposition')).toStartWith('inline; filename="keynote.fr.wav"');
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(CONTENT);
+  });
+
+  it('should respond 409 while the audio has not been generated', async () => {
+    const audioJob = await createAudioJob(false);
+
+    const response = await fetch(`${baseUrl}/audio-generation-jobs/${audioJob.id}/audio`);
+
+    expect(response.status).toEqual(409);
+    expect(await response.text()).toContain('has no generated audio yet');
+  });
+
+  it('should respond 404 for an unknown job', async () => {
+    const response = await fetch(`${baseUrl}/audio-generation-jobs/999/audio`);
+
+    expect(response.status).toEqual(404);
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable } from '../db/schema';
+import { handleHttpRoute } from '../routes';
+
+let server: Server;
+let baseUrl: string;
+let storageDir: string;
+
+const CONTENT = Buffer.from('not really a video, but bytes all the same');
+
+async function startServer() {
+  server = createServer((req, res) => {
+    handleHttpRoute(req, res).then((handled) => {
+      if (!handled) {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+}
+
+async function createVideo() {
+  const filePath = path.join(storageDir, 'video_1.mp4');
+  await writeFile(filePath, CONTENT);
+
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'video_1.mp4',
+      original_filename: 'keynote.mp4',
+      file_path: filePath,
+      file_size: CONTENT.length,
+      duration: 10,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  return video[0];
+}
+
+describe('streamVideo route', () => {
+  beforeEach(async () => {
+    await createDB();
+    await startServer();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'stream-video-'));
+    process.env['STORAGE_DIR'] = storageDir;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['STORAGE_DIR'];
+    await resetDB();
+  });
+
+  it('should stream the uploaded video inline', async () => {
+    const video = await createVideo();
+
+    const response = await fetch(`${baseUrl}/videos/${video.id}/media`);
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toEqual('video/mp4');
+    expect(response.headers.get('content-disposition')).toStartWith('inline; filename="keynote.mp4"');
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(CONTENT);
+  });
+
+  it('should support seeking with range requests', async () => {
+    const video = await createVideo();
+
+    const response = await fetch(`${baseUrl}/videos/${video.id}/media`, { headers: { Range: 'bytes=4-9' } });
+
+    expect(response.status).toEqual(206);
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(CONTENT.subarray(4, 10));
+  });
+
+  it('should respond 404 for an unknown video', async () => {
+    const response = await fetch(`${baseUrl}/videos/999/media`);
+
+    expect(response.status).toEqual(404);
+    expect(await response.text()).toContain('Video 999 not found');
+  });
+});
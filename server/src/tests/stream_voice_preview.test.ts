@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { voiceProfilesTable } from '../db/schema';
+import { handleHttpRoute } from '../routes';
+
+let server: Server;
+let baseUrl: string;
+let storageDir: string;
+
+const CONTENT = Buffer.from('RIFF....WAVEfmt pretend preview');
+
+async function startServer() {
+  server = createServer((req, res) => {
+    handleHttpRoute(req, res).then((handled) => {
+      if (!handled) {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+}
+
+describe('streamVoicePreview route', () => {
+  beforeEach(async () => {
+    await createDB();
+    await startServer();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'voice-preview-'));
+    process.env['STORAGE_DIR'] = storageDir;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['STORAGE_DIR'];
+    await resetDB();
+  });
+
+  it('should stream the preview inline', async () => {
+    const previewPath = path.join(storageDir, 'segment_0000.wav');
+    await writeFile(previewPath, CONTENT);
+    const profile = await db.insert(voiceProfilesTable)
+      .values({
+        name: 'Presenter',
+        clips: [{ video_id: 1, start_ms: 0, end_ms: 2000 }],
+        source_video_ids: [1],
+        reference_audio_path: path.join(storageDir, 'reference.wav'),
+        tts_provider: 'local',
+        provider_voice_id: 'local-clone-presenter',
+        preview_audio_path: previewPath
+      })
+      .returning()
+      .execute();
+
+    const response = await fetch(`${baseUrl}/voice-profiles/${profile[0].id}/preview`);
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toEqual('audio/wav');
+    expect(response.headers.get('content-disposition')).toStartWith('inline; filename="Presenter.preview.wav"');
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(CONTENT);
+  });
+
+  it('should respond 404 for an unknown profile', async () => {
+    const response = await fetch(`${baseUrl}/voice-profiles/999/preview`);
+
+    expect(response.status).toEqual(404);
+  });
+});
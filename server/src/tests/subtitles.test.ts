@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'bun:test';
+import { getLineRules, wrapText } from '../subtitles/line_rules';
+import { buildCues, formatTimestamp, renderSrt, renderTtml, renderWebVtt } from '../subtitles/render';
+import { parseSubtitles, SubtitleParseError } from '../subtitles/parse';
+
+describe('formatTimestamp', () => {
+  it('should format with the requested millisecond separator', () => {
+    expect(formatTimestamp(0, ',')).toEqual('00:00:00,000');
+    expect(formatTimestamp(3_723_045, ',')).toEqual('01:02:03,045');
+    expect(formatTimestamp(59_999.6, '.')).toEqual('00:01:00.000');
+  });
+
+  it('should keep counting hours past 99', () => {
+    expect(formatTimestamp(360_000_000, '.')).toEqual('100:00:00.000');
+  });
+});
+
+describe('wrapText', () => {
+  it('should wrap on word boundaries within the line limit', () => {
+    const lines = wrapText('The quick brown fox jumps over the lazy dog near the riverbank today', getLineRules('en'));
+
+    expect(lines).toEqual(['The quick brown fox jumps over the lazy', 'dog near the riverbank today']);
+    expect(lines.every((line) => line.length <= 42)).toBe(true);
+  });
+
+  it('should split words longer than a line', () => {
+    expect(wrapText('a'.repeat(50), getLineRules('de'))).toEqual(['a'.repeat(42), 'a'.repeat(8)]);
+  });
+
+  it('should break CJK text between any characters at a shorter limit', () => {
+    const lines = wrapText('今日はとても良い天気ですね。散歩に行きましょうか。', getLineRules('ja'));
+
+    expect(lines).toEqual(['今日はとても良い天気ですね。散歩', 'に行きましょうか。']);
+  });
+
+  it('should collapse whitespace and drop blank text', () => {
+    expect(wrapText('  Hello \n  world  ', getLineRules('en'))).toEqual(['Hello world']);
+    expect(wrapText('   ', getLineRules('en'))).toEqual([]);
+  });
+});
+
+describe('buildCues', () => {
+  it('should split a segment that needs more lines than a cue allows', () => {
+    const text = 'One two three four five six seven eight nine ten eleven twelve thirteen fourteen fifteen sixteen seventeen';
+    const cues = buildCues([{ startMs: 1000, endMs: 4000, text }], 'en');
+
+    expect(cues).toHaveLength(2);
+    expect(cues[0].lines).toHaveLength(2);
+    expect(cues[0].startMs).toEqual(1000);
+    expect(cues[0].endMs).toEqual(cues[1].startMs);
+    expect(cues[1].endMs).toEqual(4000);
+    expect(cues[0].endMs).toBeGreaterThan(2500); // The first part has most of the text
+  });
+
+  it('should skip blank segments', () => {
+    expect(buildCues([{ startMs: 0, endMs: 1000, text: ' ' }], 'en')).toEqual([]);
+  });
+});
+
+const cues = [
+  { startMs: 0, endMs: 1500, lines: ['Hello & welcome'] },
+  { startMs: 2000, endMs: 4250, lines: ['<Second>', 'cue'] }
+];
+
+describe('renderers', () => {
+  it('should render SRT', () => {
+    expect(renderSrt(cues)).toEqual(
+      '1\n00:00:00,000 --> 00:00:01,500\nHello & welcome\n\n' +
+      '2\n00:00:02,000 --> 00:00:04,250\n<Second>\ncue\n'
+    );
+  });
+
+  it('should render WebVTT with escaped text', () => {
+    expect(renderWebVtt(cues)).toEqual(
+      'WEBVTT\n\n' +
+      '00:00:00.000 --> 00:00:01.500\nHello &amp; welcome\n\n' +
+      '00:00:02.000 --> 00:00:04.250\n&lt;Second&gt;\ncue\n'
+    );
+  });
+
+  it('should render TTML with the document language', () => {
+    const ttml = renderTtml(cues, 'fr');
+
+    expect(ttml).toStartWith('<?xml version="1.0" encoding="UTF-8"?>\n<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="fr">');
+    expect(ttml).toContain('<p begin="00:00:00.000" end="00:00:01.500">Hello &amp; welcome</p>');
+    expect(ttml).toContain('<p begin="00:00:02.000" end="00:00:04.250">&lt;Second&gt;<br/>cue</p>');
+  });
+});
+
+describe('parseSubtitles', () => {
+  it('should parse SRT cues with formatting stripped', () => {
+    const srt = '\uFEFF1\r\n00:00:01,000 --> 00:00:02,500\r\n<i>Hello</i> there,\r\nfriend.\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\n{\\an8}Top line\r\n';
+
+    expect(parseSubtitles(srt, 'srt')).toEqual([
+      { startMs: 1000, endMs: 2500, text: 'Hello there, friend.', speaker: null },
+      { startMs: 3000, endMs: 4000, text: 'Top line', speaker: null }
+    ]);
+  });
+
+  it('should parse WebVTT cues with identifiers, settings, voices and notes', () => {
+    const vtt = [
+      'WEBVTT - Interview',
+      '',
+      'NOTE recorded in studio B',
+      '',
+      'intro',
+      '00:01.000 --> 00:02.000 align:start position:10%',
+      '<v Dr. Ana Ruiz>Welcome &amp; thanks</v>',
+      '',
+      '01:00:00.000 --> 01:00:01.500',
+      'Fish &lt;3 chips'
+    ].join('\n');
+
+    expect(parseSubtitles(vtt, 'vtt')).toEqual([
+      { startMs: 1000, endMs: 2000, text: 'Welcome & thanks', speaker: 'Dr. Ana Ruiz' },
+      { startMs: 3_600_000, endMs: 3_601_500, text: 'Fish <3 chips', speaker: null }
+    ]);
+  });
+
+  it('should sort cues by start time', () => {
+    const srt = '1\n00:00:05,000 --> 00:00:06,000\nLater\n\n2\n00:00:01,000 --> 00:00:02,000\nEarlier\n';
+
+    expect(parseSubtitles(srt, 'srt').map((cue) => cue.text)).toEqual(['Earlier', 'Later']);
+  });
+
+  it('should report the offending line', () => {
+    const cases: [string, 'srt' | 'vtt', RegExp][] = [
+      ['1\n00:00:01,000 --> 00:00:02,000\nOk\n\n2\n00:00:03,000 -> 00:00:04,000\nBad arrow\n', 'srt', /^Line 6: expected a cue timing/],
+      ['1\n00:00:01,000 --> 00:00:02,000\nOk\n\nxx\n00:00:03,000 --> 00:00:04,000\nText\n', 'srt', /^Line 5: expected a cue number, got "xx"/],
+      ['1\n00:00:01,000 --> 00:00:62,000\nBad seconds\n', 'srt', /^Line 2: invalid cue timing "00:00:01,000 --> 00:00:62,000"/],
+      ['1\n00:00:04,000 --> 00:00:02,000\nBackwards\n', 'srt', /^Line 2: cue ends before it starts/],
+      ['1\n00:00:01,000 --> 00:00:02,000\n', 'srt', /^Line 2: cue has no text/],
+      ['00:01.000 --> 00:02.000\nNo header\n', 'vtt', /^Line 1: missing "WEBVTT" header/],
+      ['WEBVTT\n\n00:01.000 --> 00:02,000\nComma\n', 'vtt', /^Line 3: invalid cue timing/],
+      ['WEBVTT\n\nNOTE only a note\n', 'vtt', /^Line 1: file contains no cues/]
+    ];
+
+    for (const [content, format, message] of cases) {
+      expect(() => parseSubtitles(content, format)).toThrow(message);
+    }
+  });
+
+  it('should throw SubtitleParseError carrying the line number', () => {
+    try {
+      parseSubtitles('\n\n1\nnot a timing\nText\n', 'srt');
+      throw new Error('expected a parse error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(SubtitleParseError);
+      expect((error as SubtitleParseError).line).toEqual(4);
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { textToSpeechProviders } from '../providers/text_to_speech';
+import { PIPELINE_SAMPLE_RATE, generateSilence, readWav, wavDurationMs, writeWav } from '../media/wav';
+
+let workDir: string;
+
+describe('text-to-speech providers', () => {
+  beforeEach(async () => {
+    workDir = await mkdtemp(path.join(tmpdir(), 'tts-'));
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+    delete process.env['TEXT_TO_SPEECH_PROVIDER'];
+  });
+
+  it('should default to the local provider', () => {
+    expect(textToSpeechProviders.get().name).toEqual('local');
+  });
+
+  it('should reject an unknown configured provider', () => {
+    process.env['TEXT_TO_SPEECH_PROVIDER'] = 'nonexistent';
+    expect(() => textToSpeechProviders.get()).toThrow(/unknown text-to-speech provider "nonexistent"/i);
+  });
+
+  it('should write one audio file per segment with a stock voice', async () => {
+    const result = await textToSpeechProviders.get('local').synthesize({
+      segments: ['Hola.', '', 'Hasta luego.'],
+      language: 'es',
+      voice: { kind: 'stock', voiceId: 'local-soprano' },
+      outputDir: workDir
+    });
+
+    expect(result.voiceId).toEqual('local-soprano');
+    expect(result.segments.map((segment) => segment.durationMs)).toEqual([300, 500, 720]); // Blank segment is a pause
+
+    for (const segment of result.segments) {
+      const audio = await readWav(segment.audioPath);
+      expect(path.dirname(segment.audioPath)).toEqual(workDir);
+      expect(audio.sampleRate).toEqual(PIPELINE_SAMPLE_RATE);
+      expect(wavDurationMs(audio)).toEqual(segment.durationMs);
+    }
+  });
+
+  it('should derive a stable voice id when cloning', async () => {
+    const referenceAudioPath = path.join(workDir, 'reference.wav');
+    await writeWav(referenceAudioPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples: generateSilence(1000) });
+
+    const provider = textToSpeechProviders.get('local');
+    const input = { segments: ['Bonjour.'], language: 'fr' as const, voice: { kind: 'cloned' as const, referenceAudioPath }, outputDir: workDir };
+    const first = await provider.synthesize(input);
+    const second = await provider.synthesize(input);
+
+    expect(first.voiceId).toMatch(/^local-clone-[0-9a-f]{12}$/);
+    expect(second.voiceId).toEqual(first.voiceId);
+  });
+
+  it('should reuse the handle of a voice cloned earlier', async () => {
+    const referenceAudioPath = path.join(workDir, 'reference.wav');
+    await writeWav(referenceAudioPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples: generateSilence(1000) });
+
+    const result = await textToSpeechProviders.get('local').synthesize({
+      segments: ['Hallo.'],
+      language: 'de',
+      voice: { kind: 'cloned', referenceAudioPath, voiceId: 'local-clone-presenter' },
+      outputDir: workDir
+    });
+
+    expect(result.voiceId).toEqual('local-clone-presenter');
+  });
+
+  it('should fail on a missing clone reference or unknown stock voice', async () => {
+    const provider = textToSpeechProviders.get('local');
+
+    await expect(provider.synthesize({
+      segments: ['Hi.'],
+      language: 'en',
+      voice: { kind: 'cloned', referenceAudioPath: path.join(workDir, 'missing.wav') },
+      outputDir: workDir
+    })).rejects.toThrow(/no such file/i);
+
+    await expect(provider.synthesize({
+      segments: ['Hi.'],
+      language: 'en',
+      voice: { kind: 'stock', voiceId: 'nobody' },
+      outputDir: workDir
+    })).rejects.toThrow(/unknown voice "nobody"/i);
+  });
+});
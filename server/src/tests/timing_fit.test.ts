@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { type TranscriptSegment } from '../schema';
+import { mediaProviders } from '../providers/media';
+import { stemSeparators } from '../providers/stem_separation';
+import { speechToTextProviders } from '../providers/speech_to_text';
+import { speakerDiarizers } from '../providers/diarization';
+import { translationProviders } from '../providers/translation';
+import { textToSpeechProviders, type VoiceSelection } from '../providers/text_to_speech';
+import { audioWatermarkers } from '../providers/watermark';
+import { type PipelineProviders } from '../worker/pipeline_providers';
+import { MAX_STRETCH_RATIO, fitSegmentTiming } from '../worker/timing_fit';
+import { readWav, wavDurationMs } from '../media/wav';
+
+const localProviders: PipelineProviders = {
+  media: mediaProviders.get('local'),
+  stemSeparation: stemSeparators.get('local'),
+  speechToText: speechToTextProviders.get('local'),
+  diarization: speakerDiarizers.get('local'),
+  translation: translationProviders.get('local'),
+  textToSpeech: textToSpeechProviders.get('local'),
+  watermark: audioWatermarkers.get('local')
+};
+
+const voice: VoiceSelection = { kind: 'stock', voiceId: 'local-alto' };
+
+let outputDir: string;
+
+function segment(id: number, windowMs: number, translatedText: string): TranscriptSegment {
+  return {
+    id,
+    translation_job_id: 1,
+    segment_index: id,
+    start_ms: 1000,
+    end_ms: 1000 + windowMs,
+    speaker: null,
+    source_text: 'Source.',
+    translated_text: translatedText,
+    confidence: null,
+    created_at: new Date()
+  };
+}
+
+// The local voice speaks 60ms per character
+async function fit(transcriptSegment: TranscriptSegment) {
+  const synthesis = await localProviders.textToSpeech.synthesize({
+    segments: [transcriptSegment.translated_text!],
+    language: 'es',
+    voice,
+    outputDir
+  });
+  return await fitSegmentTiming(transcriptSegment, synthesis.segments[0], { language: 'es', voice, glossary: [], outputDir }, localProviders);
+}
+
+describe('fitSegmentTiming', () => {
+  beforeEach(async () => {
+    outputDir = await mkdtemp(path.join(tmpdir(), 'timing-fit-'));
+  });
+
+  afterEach(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('should leave speech that fits its window alone', async () => {
+    const fitted = await fit(segment(1, 1000, 'Hola.'));
+
+    expect(fitted).toMatchObject({ durationMs: 300, spokenText: null, stretchRatio: 1, overrunMs: 0 });
+    expect(fitted.audioPath).toEqual(path.join(outputDir, 'segment_0000.wav'));
+  });
+
+  it('should speed up slightly long speech to fill the window exactly', async () => {
+    const fitted = await fit(segment(2, 1000, 'Buenos días a todos.')); // 1200ms
+
+    expect(fitted.spokenText).toBeNull();
+    expect(fitted.stretchRatio).toBeCloseTo(1.2);
+    expect(fitted.durationMs).toEqual(1000);
+    expect(fitted.overrunMs).toEqual(0);
+    expect(wavDurationMs(await readWav(fitted.audioPath))).toEqual(1000);
+  });
+
+  it('should reword far too long speech before speeding it up', async () => {
+    const fitted = await fit(segment(3, 900, '[es] uno dos tres cuatro cinco seis')); // 2100ms
+
+    expect(fitted.spokenText).toEqual('[es] uno dos tres'); // 1020ms
+    expect(fitted.stretchRatio).toBeCloseTo(1020 / 900);
+    expect(fitted.durationMs).toEqual(900);
+    expect(fitted.overrunMs).toEqual(0);
+  });
+
+  it('should record the overrun left when neither rewording nor bounded stretching is enough', async () => {
+    const fitted = await fit(segment(4, 1000, 'Donaudampfschifffahrtsgesellschaft')); // 2040ms, one word
+
+    expect(fitted.spokenText).toBeNull();
+    expect(fitted.stretchRatio).toEqual(MAX_STRETCH_RATIO);
+    expect(fitted.durationMs).toEqual(1632);
+    expect(fitted.overrunMs).toEqual(632);
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { translationProviders } from '../providers/translation';
+import { protectGlossaryTerms } from '../providers/translation/glossary';
+
+describe('translation providers', () => {
+  afterEach(() => {
+    delete process.env['TRANSLATION_PROVIDER'];
+  });
+
+  it('should default to the local provider', () => {
+    expect(translationProviders.get().name).toEqual('local');
+  });
+
+  it('should reject an unknown configured provider', () => {
+    process.env['TRANSLATION_PROVIDER'] = 'nonexistent';
+    expect(() => translationProviders.get()).toThrow(/unknown translation provider "nonexistent"/i);
+  });
+
+  it('should translate segment by segment, preserving order', async () => {
+    const result = await translationProviders.get('local').translate({
+      segments: ['Hello there.', 'Welcome back.'],
+      sourceLanguage: 'en',
+      targetLanguage: 'de',
+      glossary: []
+    });
+
+    expect(result).toEqual(['[de] Hello there.', '[de] Welcome back.']);
+  });
+
+  it('should force glossary terms in the output', async () => {
+    const result = await translationProviders.get('local').translate({
+      segments: ['Open the acme cloud dashboard.', 'Nothing to replace here.'],
+      sourceLanguage: 'en',
+      targetLanguage: 'fr',
+      glossary: [
+        { source_term: 'Acme Cloud', target_term: 'Acme Cloud™' },
+        { source_term: 'dashboard', target_term: 'tableau de bord' }
+      ]
+    });
+
+    expect(result).toEqual(['[fr] Open the Acme Cloud™ tableau de bord.', '[fr] Nothing to replace here.']);
+  });
+
+  it('should shorten text without dropping glossary terms', async () => {
+    const result = await translationProviders.get('local').shorten({
+      text: '[fr] Ouvrez le tableau de bord maintenant, s\'il vous plaît.',
+      language: 'fr',
+      maxCharacters: 20,
+      glossary: [{ source_term: 'dashboard', target_term: 'tableau de bord' }]
+    });
+
+    expect(result).toEqual('[fr] tableau de bord');
+  });
+});
+
+describe('protectGlossaryTerms', () => {
+  it('should mask and restore terms', () => {
+    const masked = protectGlossaryTerms('Acme makes Acme Cloud.', [
+      { source_term: 'Acme', target_term: 'ACME' },
+      { source_term: 'Acme Cloud', target_term: 'Nube Acme' }
+    ]);
+
+    // Longest term wins where terms overlap
+    expect(masked.text).toEqual('⟦0⟧ makes ⟦1⟧.');
+    expect(masked.restore('⟦0⟧ fabrica ⟦1⟧.')).toEqual('ACME fabrica Nube Acme.');
+  });
+
+  it('should only match whole words', () => {
+    const masked = protectGlossaryTerms('Cartography and cart.', [{ source_term: 'cart', target_term: 'carrito' }]);
+
+    expect(masked.text).toEqual('Cartography and ⟦0⟧.');
+    expect(masked.restore(masked.text)).toEqual('Cartography and carrito.');
+  });
+
+  it('should treat regex characters in terms literally', () => {
+    const masked = protectGlossaryTerms('We use C++ and C.', [{ source_term: 'C++', target_term: 'C plus plus' }]);
+
+    expect(masked.restore(masked.text)).toEqual('We use C plus plus and C.');
+  });
+
+  it('should leave text unchanged without a glossary', () => {
+    const masked = protectGlossaryTerms('Plain text.', []);
+
+    expect(masked.text).toEqual('Plain text.');
+    expect(masked.restore('Texte simple.')).toEqual('Texte simple.');
+  });
+});
@@ -2,7 +2,7 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { videosTable, translationJobsTable, audioGenerationJobsTable } from '../db/schema';
-import { type UpdateAudioGenerationJobInput } from '../schema';
+import { type UpdateAudioGenerationJobInput, updateAudioGenerationJobInputSchema } from '../schema';
 import { updateAudioGenerationJob } from '../handlers/update_audio_generation_job';
 import { eq } from 'drizzle-orm';
 
@@ -71,23 +71,49 @@ describe('updateAudioGenerationJob', () => {
     expect(result.voice_cloned).toEqual(true);
   });
 
-  it('should update generated audio path when job completes', async () => {
+  it('should not take a generated audio path from the public input', async () => {
     const { audioJob } = await createTestData();
 
-    const updateInput: UpdateAudioGenerationJobInput = {
+    const input = updateAudioGenerationJobInputSchema.parse({
       id: audioJob.id,
       status: 'completed',
-      generated_audio_path: '/audio/generated-123.wav',
+      generated_audio_path: '/etc/passwd',
       completed_at: new Date()
-    };
+    });
 
-    const result = await updateAudioGenerationJob(updateInput);
+    const result = await updateAudioGenerationJob(input);
 
     expect(result.status).toEqual('completed');
-    expect(result.generated_audio_path).toEqual('/audio/generated-123.wav');
+    expect(result.generated_audio_path).toBeNull();
     expect(result.completed_at).toBeInstanceOf(Date);
   });
 
+  it('should not let the public input rewrite how the dub was made or how well it fits', async () => {
+    const { audioJob } = await createTestData();
+    const watermarkedAt = new Date('2026-03-01T12:34:56.789Z');
+    await db.update(audioGenerationJobsTable)
+      .set({ watermark_provider: 'local', watermarked_at: watermarkedAt, tts_provider: 'local', overrun_segment_count: 2, max_overrun_ms: 340 })
+      .where(eq(audioGenerationJobsTable.id, audioJob.id))
+      .execute();
+
+    const input = updateAudioGenerationJobInputSchema.parse({
+      id: audioJob.id,
+      status: 'completed',
+      watermark_provider: 'forged',
+      watermarked_at: new Date('2020-01-01T00:00:00.000Z'),
+      tts_provider: 'forged',
+      overrun_segment_count: 0,
+      max_overrun_ms: 0
+    });
+    const result = await updateAudioGenerationJob(input);
+
+    expect(result.tts_provider).toEqual('local');
+    expect(result.watermark_provider).toEqual('local');
+    expect(result.watermarked_at).toEqual(watermarkedAt);
+    expect(result.overrun_segment_count).toEqual(2);
+    expect(result.max_overrun_ms).toEqual(340);
+  });
+
   it('should update error information when job fails', async () => {
     const { audioJob } = await createTestData();
 
@@ -132,7 +158,7 @@ describe('updateAudioGenerationJob', () => {
     const updateInput: UpdateAudioGenerationJobInput = {
       id: audioJob.id,
       status: 'completed',
-      generated_audio_path: '/audio/final-output.wav',
+      voice_id: 'local-tenor',
       started_at: startTime,
       completed_at: completionTime
     };
@@ -140,7 +166,7 @@ describe('updateAudioGenerationJob', () => {
     const result = await updateAudioGenerationJob(updateInput);
 
     expect(result.status).toEqual('completed');
-    expect(result.generated_audio_path).toEqual('/audio/final-output.wav');
+    expect(result.voice_id).toEqual('local-tenor');
     expect(result.started_at?.getTime()).toEqual(startTime.getTime());
     expect(result.completed_at?.getTime()).toEqual(completionTime.getTime());
     expect(result.error_message).toBeNull();
@@ -152,7 +178,7 @@ describe('updateAudioGenerationJob', () => {
     const updateInput: UpdateAudioGenerationJobInput = {
       id: audioJob.id,
       status: 'completed',
-      generated_audio_path: '/audio/test-output.wav'
+      voice_id: 'local-tenor'
     };
 
     await updateAudioGenerationJob(updateInput);
@@ -165,7 +191,7 @@ describe('updateAudioGenerationJob', () => {
 
     expect(jobs).toHaveLength(1);
     expect(jobs[0].status).toEqual('completed');
-    expect(jobs[0].generated_audio_path).toEqual('/audio/test-output.wav');
+    expect(jobs[0].voice_id).toEqual('local-tenor');
   });
 
   it('should throw error for non-existent job', async () => {
@@ -184,20 +210,20 @@ describe('updateAudioGenerationJob', () => {
     // First set some values
     await updateAudioGenerationJob({
       id: audioJob.id,
-      generated_audio_path: '/some/path.wav',
+      voice_id: 'local-tenor',
       error_message: 'Some error'
     });
 
     // Now set them to null
     const updateInput: UpdateAudioGenerationJobInput = {
       id: audioJob.id,
-      generated_audio_path: null,
+      voice_id: null,
       error_message: null
     };
 
     const result = await updateAudioGenerationJob(updateInput);
 
-    expect(result.generated_audio_path).toBeNull();
+    expect(result.voice_id).toBeNull();
     expect(result.error_message).toBeNull();
   });
 
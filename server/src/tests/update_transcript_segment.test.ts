@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, transcriptSegmentsTable, audioGenerationJobsTable, audioSegmentsTable } from '../db/schema';
+import { type TranslationJob } from '../schema';
+import { updateTranscriptSegment } from '../handlers/update_transcript_segment';
+import { eq } from 'drizzle-orm';
+
+async function createTestTranscript(status: TranslationJob['status'] = 'completed') {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'test-video.mp4',
+      original_filename: 'original-test.mp4',
+      file_path: '/uploads/test-video.mp4',
+      file_size: 1024000,
+      duration: 120,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const job = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'en', target_language: 'es', status, translated_text: 'Hola.\nAdiós.' })
+    .returning()
+    .execute();
+
+  const segments = await db.insert(transcriptSegmentsTable)
+    .values([
+      { translation_job_id: job[0].id, segment_index: 0, start_ms: 0, end_ms: 2000, source_text: 'Hello.', translated_text: 'Hola.' },
+      { translation_job_id: job[0].id, segment_index: 1, start_ms: 2000, end_ms: 4000, source_text: 'Goodbye.', translated_text: 'Adiós.' }
+    ])
+    .returning()
+    .execute();
+
+  const audioJob = await db.insert(audioGenerationJobsTable)
+    .values({ translation_job_id: job[0].id, status: 'completed', voice_cloned: false })
+    .returning()
+    .execute();
+
+  await db.insert(audioSegmentsTable)
+    .values(segments.map((segment) => ({
+      audio_generation_job_id: audioJob[0].id,
+      transcript_segment_id: segment.id,
+      audio_path: `/audio/segment_${segment.segment_index}.wav`,
+      duration_ms: 1500
+    })))
+    .execute();
+
+  return { job: job[0], segments };
+}
+
+async function staleFlags() {
+  const rows = await db.select().from(audioSegmentsTable).orderBy(audioSegmentsTable.id).execute();
+  return rows.map((row) => row.stale);
+}
+
+describe('updateTranscriptSegment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should save an edited translation and mark only that segment audio stale', async () => {
+    const { job, segments } = await createTestTranscript();
+
+    const result = await updateTranscriptSegment({ id: segments[1].id, translated_text: 'Hasta luego.' });
+
+    expect(result.translated_text).toEqual('Hasta luego.');
+    expect(result.source_text).toEqual('Goodbye.');
+    expect(await staleFlags()).toEqual([false, true]);
+
+    const saved = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, job.id)).execute();
+    expect(saved[0].translated_text).toEqual('Hola.\nHasta luego.');
+  });
+
+  it('should keep the audio when only the source text changes', async () => {
+    const { segments } = await createTestTranscript();
+
+    const result = await updateTranscriptSegment({ id: segments[0].id, source_text: 'Hello there.' });
+
+    expect(result.source_text).toEqual('Hello there.');
+    expect(result.translated_text).toEqual('Hola.');
+    expect(await staleFlags()).toEqual([false, false]);
+  });
+
+  it('should keep the audio when the translation is saved unchanged', async () => {
+    const { segments } = await createTestTranscript();
+
+    await updateTranscriptSegment({ id: segments[0].id, translated_text: 'Hola.' });
+
+    expect(await staleFlags()).toEqual([false, false]);
+  });
+
+  it('should reject edits while the translation job is running', async () => {
+    const { segments } = await createTestTranscript('translating');
+
+    await expect(updateTranscriptSegment({ id: segments[0].id, translated_text: 'Buenas.' }))
+      .rejects.toThrow(/while the translation job is running.*current status: translating/i);
+  });
+
+  it('should throw error when the segment does not exist', async () => {
+    await expect(updateTranscriptSegment({ id: 999, translated_text: 'Hola.' }))
+      .rejects.toThrow(/transcript segment with id 999 not found/i);
+  });
+});
@@ -2,13 +2,13 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { videosTable } from '../db/schema';
-import { type UpdateVideoStatusInput, type CreateVideoInput } from '../schema';
+import { type UpdateVideoStatusInput } from '../schema';
 import { updateVideoStatus } from '../handlers/update_video_status';
 import { eq } from 'drizzle-orm';
 
 // Helper function to create a test video
 const createTestVideo = async (): Promise<number> => {
-  const testVideoInput: CreateVideoInput = {
+  const testVideoInput: typeof videosTable.$inferInsert = {
     filename: 'test_video.mp4',
     original_filename: 'user_test_video.mp4',
     file_path: '/uploads/test_video.mp4',
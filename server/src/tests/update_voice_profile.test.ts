@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, voiceConsentsTable } from '../db/schema';
+import { createVoiceProfile } from '../handlers/create_voice_profile';
+import { updateVoiceProfile } from '../handlers/update_voice_profile';
+import { getVoiceConsents } from '../handlers/get_voice_consents';
+import { readWav, wavDurationMs } from '../media/wav';
+
+let storageDir: string;
+
+async function createTestProfile() {
+  const filePath = path.join(storageDir, 'keynote.mp4');
+  await writeFile(filePath, 'video bytes');
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'keynote.mp4',
+      original_filename: 'keynote.mp4',
+      file_path: filePath,
+      file_size: 11,
+      duration: 10,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+  await grantConsent({ video_id: video[0].id });
+
+  const profile = await createVoiceProfile({ name: 'Presenter', clips: [{ video_id: video[0].id, start_ms: 0, end_ms: 2000 }] });
+  await grantConsent({ voice_profile_id: profile.id });
+  return { video: video[0], profile };
+}
+
+// The speakers of the video, or the person behind the profile, agreed to have their voice cloned
+async function grantConsent(subject: { video_id: number } | { voice_profile_id: number }) {
+  const consent = await db.insert(voiceConsentsTable)
+    .values({
+      ...subject,
+      consented_by: 'Jane Speaker',
+      scope_languages: [],
+      expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      artifact_path: path.join(storageDir, 'consent.pdf'),
+      artifact_filename: 'consent.pdf',
+      artifact_sha256: 'a'.repeat(64)
+    })
+    .returning()
+    .execute();
+
+  return consent[0];
+}
+
+describe('updateVoiceProfile', () => {
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'voice-profile-'));
+    process.env['STORAGE_DIR'] = storageDir;
+    process.env['MEDIA_PROVIDER'] = 'local';
+  });
+
+  afterEach(async () => {
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['STORAGE_DIR'];
+    delete process.env['MEDIA_PROVIDER'];
+    await resetDB();
+  });
+
+  it('should rename without cloning the voice again', async () => {
+    const { profile } = await createTestProfile();
+
+    const result = await updateVoiceProfile({ id: profile.id, name: 'Approved presenter' });
+
+    expect(result.name).toEqual('Approved presenter');
+    expect(result.reference_audio_path).toEqual(profile.reference_audio_path);
+    expect(result.provider_voice_id).toEqual(profile.provider_voice_id);
+    expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(profile.updated_at.getTime());
+  });
+
+  it('should clone the voice again from new clips', async () => {
+    const { video, profile } = await createTestProfile();
+
+    const result = await updateVoiceProfile({ id: profile.id, clips: [{ video_id: video.id, start_ms: 5000, end_ms: 10000 }] });
+
+    expect(result.name).toEqual('Presenter');
+    expect(result.clips).toEqual([{ video_id: video.id, start_ms: 5000, end_ms: 10000 }]);
+    expect(result.reference_audio_path).not.toEqual(profile.reference_audio_path);
+    expect(result.provider_voice_id).not.toEqual(profile.provider_voice_id);
+    expect(wavDurationMs(await readWav(result.reference_audio_path))).toEqual(5000);
+
+    // The old voice's recordings go with it
+    expect(existsSync(profile.reference_audio_path)).toBe(false);
+    expect(existsSync(path.dirname(profile.preview_audio_path))).toBe(false);
+    expect(existsSync(result.preview_audio_path)).toBe(true);
+  });
+
+  it('should not clone the voice again when the clips are unchanged', async () => {
+    const { profile } = await createTestProfile();
+
+    const result = await updateVoiceProfile({ id: profile.id, clips: profile.clips });
+
+    expect(result.reference_audio_path).toEqual(profile.reference_audio_path);
+    expect(result.preview_audio_path).toEqual(profile.preview_audio_path);
+    expect(existsSync(profile.reference_audio_path)).toBe(true);
+    const consents = await getVoiceConsents({ voice_profile_id: profile.id });
+    expect(consents.map((consent) => consent.revoked_at)).toEqual([null]);
+  });
+
+  it('should keep the profile consent when only the name changes', async () => {
+    const { profile } = await createTestProfile();
+
+    await updateVoiceProfile({ id: profile.id, name: 'Approved presenter' });
+
+    const consents = await getVoiceConsents({ voice_profile_id: profile.id });
+    expect(consents.map((consent) => consent.revoked_at)).toEqual([null]);
+  });
+
+  it('should revoke the profile consent when the clips change, since it covered the old voice', async () => {
+    const { video, profile } = await createTestProfile();
+
+    await updateVoiceProfile({ id: profile.id, clips: [{ video_id: video.id, start_ms: 5000, end_ms: 10000 }] });
+
+    const consents = await getVoiceConsents({ voice_profile_id: profile.id });
+    expect(consents).toHaveLength(1);
+    expect(consents[0].revoked_at).toBeInstanceOf(Date);
+  });
+
+  it('should not clone from a video without consent', async () => {
+    const { profile } = await createTestProfile();
+    const other = await db.insert(videosTable)
+      .values({
+        filename: 'interview.mp4',
+        original_filename: 'interview.mp4',
+        file_path: path.join(storageDir, 'keynote.mp4'),
+        file_size: 11,
+        duration: 10,
+        format: 'mp4',
+        upload_status: 'uploaded'
+      })
+      .returning()
+      .execute();
+
+    await expect(updateVoiceProfile({ id: profile.id, clips: [{ video_id: other[0].id, start_ms: 0, end_ms: 1000 }] }))
+      .rejects.toThrow(/requires consent/i);
+
+    // The profile and its consent stay as they were
+    const consents = await getVoiceConsents({ voice_profile_id: profile.id });
+    expect(consents.map((consent) => consent.revoked_at)).toEqual([null]);
+  });
+
+  it('should throw error when the profile does not exist', async () => {
+    await expect(updateVoiceProfile({ id: 999, name: 'Nobody' }))
+      .rejects.toThrow(/voice profile with id 999 not found/i);
+  });
+});
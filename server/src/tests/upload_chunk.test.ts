@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createHash } from 'node:crypto';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import superjson from 'superjson';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { uploadSessionsTable } from '../db/schema';
+import { type UploadSession } from '../schema';
+import { handleHttpRoute } from '../routes';
+import { eq } from 'drizzle-orm';
+
+const CHUNK_SIZE = 1024;
+
+let server: Server;
+let baseUrl: string;
+let storageDir: string;
+
+function sha256(data: Uint8Array) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+async function createTestSession(totalSize: number) {
+  const tempPath = path.join(storageDir, 'upload_test.part');
+  await writeFile(tempPath, '');
+
+  const result = await db.insert(uploadSessionsTable)
+    .values({
+      original_filename: 'webinar.mp4',
+      mime_type: 'video/mp4',
+      total_size: totalSize,
+      chunk_size: CHUNK_SIZE,
+      temp_path: tempPath
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+function putChunk(sessionId: string, offset: number, chunk: Uint8Array, checksum = sha256(chunk)) {
+  return fetch(`${baseUrl}/upload/sessions/${sessionId}/chunks?offset=${offset}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/octet-stream', 'X-Chunk-Sha256': checksum },
+    body: chunk
+  });
+}
+
+describe('uploadChunk route', () => {
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'upload-chunks-'));
+    server = createServer((req, res) => {
+      handleHttpRoute(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(storageDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should append chunks in order and track received bytes', async () => {
+    const session = await createTestSession(CHUNK_SIZE + 100);
+    const first = new Uint8Array(CHUNK_SIZE).fill(1);
+    const last = new Uint8Array(100).fill(2);
+
+    const firstResponse = await putChunk(session.id, 0, first);
+    expect(firstResponse.status).toBe(200);
+    expect(superjson.parse<UploadSession>(await firstResponse.text()).received_bytes).toEqual(CHUNK_SIZE);
+
+    const lastResponse = await putChunk(session.id, CHUNK_SIZE, last);
+    expect(lastResponse.status).toBe(200);
+    expect(superjson.parse<UploadSession>(await lastResponse.text()).received_bytes).toEqual(CHUNK_SIZE + 100);
+
+    const stored = await readFile(session.temp_path);
+    expect(stored.length).toEqual(CHUNK_SIZE + 100);
+    expect(stored[0]).toEqual(1);
+    expect(stored[CHUNK_SIZE]).toEqual(2);
+  });
+
+  it('should accept a retried chunk without duplicating it', async () => {
+    const session = await createTestSession(CHUNK_SIZE * 2);
+    const chunk = new Uint8Array(CHUNK_SIZE).fill(9);
+
+    await putChunk(session.id, 0, chunk);
+    const retry = await putChunk(session.id, 0, chunk);
+
+    expect(retry.status).toBe(200);
+    expect(superjson.parse<UploadSession>(await retry.text()).received_bytes).toEqual(CHUNK_SIZE);
+    expect((await readFile(session.temp_path)).length).toEqual(CHUNK_SIZE);
+  });
+
+  it('should reply 409 with the resume offset when a chunk is skipped', async () => {
+    const session = await createTestSession(CHUNK_SIZE * 3);
+
+    const response = await putChunk(session.id, CHUNK_SIZE * 2, new Uint8Array(CHUNK_SIZE));
+
+    expect(response.status).toBe(409);
+    expect(superjson.parse<{ received_bytes: number }>(await response.text()).received_bytes).toEqual(0);
+  });
+
+  it('should reject a chunk whose checksum does not match', async () => {
+    const session = await createTestSession(CHUNK_SIZE);
+
+    const response = await putChunk(session.id, 0, new Uint8Array(CHUNK_SIZE), sha256(Buffer.from('other')));
+
+    expect(response.status).toBe(422);
+
+    const sessions = await db.select()
+      .from(uploadSessionsTable)
+      .where(eq(uploadSessionsTable.id, session.id))
+      .execute();
+
+    expect(sessions[0].received_bytes).toEqual(0);
+  });
+
+  it('should reject chunks with the wrong length', async () => {
+    const session = await createTestSession(CHUNK_SIZE * 2);
+
+    const short = await putChunk(session.id, 0, new Uint8Array(10));
+    expect(short.status).toBe(400);
+
+    const long = await putChunk(session.id, 0, new Uint8Array(CHUNK_SIZE + 1));
+    expect(long.status).toBe(413);
+  });
+
+  it('should return 404 for an unknown session', async () => {
+    const response = await putChunk('00000000-0000-4000-8000-000000000000', 0, new Uint8Array(1));
+
+    expect(response.status).toBe(404);
+  });
+});
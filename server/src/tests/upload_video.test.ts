@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import superjson from 'superjson';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable } from '../db/schema';
+import { type Video } from '../schema';
+import { handleHttpRoute } from '../routes';
+import { eq, sql } from 'drizzle-orm';
+
+let server: Server;
+let baseUrl: string;
+let storageDir: string;
+
+async function startServer() {
+  server = createServer((req, res) => {
+    handleHttpRoute(req, res).then((handled) => {
+      if (!handled) {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+}
+
+function videoForm(content: Uint8Array, name = 'my-talk.mp4', type = 'video/mp4') {
+  const form = new FormData();
+  form.append('file', new File([content], name, { type }));
+  return form;
+}
+
+describe('uploadVideo route', () => {
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'video-uploads-'));
+    process.env['STORAGE_DIR'] = storageDir;
+    delete process.env['MAX_UPLOAD_SIZE'];
+    await startServer();
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['STORAGE_DIR'];
+    await resetDB();
+  });
+
+  it('should store the file and create a probed video record', async () => {
+    const content = new Uint8Array(4096).fill(7);
+
+    const response = await fetch(`${baseUrl}/upload/video`, {
+      method: 'POST',
+      body: videoForm(content)
+    });
+
+    expect(response.status).toBe(201);
+    const video = superjson.parse<Video>(await response.text());
+
+    expect(video.original_filename).toEqual('my-talk.mp4');
+    expect(video.filename).toMatch(/^video_\d+_[0-9a-f]{8}\.mp4$/);
+    expect(video.file_path).toEqual(path.join(storageDir, 'videos', video.filename));
+    expect(video.file_size).toEqual(4096);
+    expect(video.format).toEqual('mp4');
+    expect(video.duration).toBeNull();
+    // Arbitrary bytes are not a readable container, so probing marks the video failed
+    expect(video.upload_status).toEqual('failed');
+    expect(video.error_message).toMatch(/^Media probe failed/);
+    expect(video.created_at).toBeInstanceOf(Date);
+
+    // Bytes on disk match what was sent
+    const stored = await readFile(video.file_path);
+    expect(stored.length).toEqual(4096);
+    expect(stored.every((byte) => byte === 7)).toBe(true);
+
+    const rows = await db.select()
+      .from(videosTable)
+      .where(eq(videosTable.id, video.id))
+      .execute();
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].file_path).toEqual(video.file_path);
+  });
+
+  it('should keep neither the file nor the video row when probing cannot record its result', async () => {
+    await db.execute(sql`
+      create function fail_video_update() returns trigger as $$
+      begin raise exception 'video update failed'; end;
+      $$ language plpgsql
+    `);
+    await db.execute(sql`create trigger fail_video_update before update on videos for each row execute function fail_video_update()`);
+
+    const response = await fetch(`${baseUrl}/upload/video`, {
+      method: 'POST',
+      body: videoForm(new Uint8Array(4096).fill(7))
+    });
+
+    expect(response.status).toBe(500);
+    expect(await db.select().from(videosTable).execute()).toHaveLength(0);
+    expect(await readdir(path.join(storageDir, 'videos'))).toEqual([]);
+  });
+
+  it('should reject files over the configured size limit', async () => {
+    process.env['MAX_UPLOAD_SIZE'] = '1024';
+
+    const response = await fetch(`${baseUrl}/upload/video`, {
+      method: 'POST',
+      body: videoForm(new Uint8Array(2048))
+    });
+
+    expect(response.status).toBe(413);
+    expect(superjson.parse<{ error: string }>(await response.text()).error).toMatch(/maximum upload size/i);
+
+    // Neither a partial file nor a row is left behind
+    expect(await readdir(path.join(storageDir, 'videos'))).toHaveLength(0);
+    expect(await db.select().from(videosTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject non-video files', async () => {
+    const response = await fetch(`${baseUrl}/upload/video`, {
+      method: 'POST',
+      body: videoForm(new Uint8Array(16), 'notes.txt', 'text/plain')
+    });
+
+    expect(response.status).toBe(415);
+    expect(await db.select().from(videosTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject requests without a file field', async () => {
+    const form = new FormData();
+    form.append('title', 'no file here');
+
+    const response = await fetch(`${baseUrl}/upload/video`, {
+      method: 'POST',
+      body: form
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject non-multipart requests', async () => {
+    const response = await fetch(`${baseUrl}/upload/video`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}'
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { createHash } from 'node:crypto';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import superjson from 'superjson';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, voiceConsentsTable } from '../db/schema';
+import { type VoiceConsent } from '../schema';
+import { handleHttpRoute } from '../routes';
+
+let server: Server;
+let baseUrl: string;
+let storageDir: string;
+
+const SIGNED_FORM = new TextEncoder().encode('%PDF-1.7 signed consent');
+
+async function startServer() {
+  server = createServer((req, res) => {
+    handleHttpRoute(req, res).then((handled) => {
+      if (!handled) {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+}
+
+async function createTestVideo() {
+  const result = await db.insert(videosTable)
+    .values({
+      filename: 'interview.mp4',
+      original_filename: 'interview.mp4',
+      file_path: '/uploads/interview.mp4',
+      file_size: 1024000,
+      duration: 60,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+function consentForm(fields: Record<string, string | string[]>, content: Uint8Array = SIGNED_FORM, type = 'application/pdf') {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    for (const item of [value].flat()) {
+      form.append(name, item);
+    }
+  }
+  form.append('file', new File([content], 'jane-consent.pdf', { type }));
+  return form;
+}
+
+async function storedArtifacts() {
+  return readdir(path.join(storageDir, 'consents')).catch(() => []);
+}
+
+describe('voice consent routes', () => {
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'voice-consents-'));
+    process.env['STORAGE_DIR'] = storageDir;
+    await startServer();
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['STORAGE_DIR'];
+    await resetDB();
+  });
+
+  it('should store the signed form with its digest and serve it back', async () => {
+    const video = await createTestVideo();
+    const expiresAt = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+
+    const response = await fetch(`${baseUrl}/voice-consents`, {
+      method: 'POST',
+      body: consentForm({
+        video_id: String(video.id),
+        consented_by: 'Jane Speaker',
+        scope_languages: ['es', 'fr'],
+        expires_at: expiresAt.toISOString()
+      })
+    });
+
+    expect(response.status).toBe(201);
+    const consent = superjson.parse<VoiceConsent>(await response.text());
+    expect(consent.video_id).toEqual(video.id);
+    expect(consent.voice_profile_id).toBeNull();
+    expect(consent.consented_by).toEqual('Jane Speaker');
+    expect(consent.scope_languages).toEqual(['es', 'fr']);
+    expect(consent.expires_at).toEqual(expiresAt);
+    expect(consent.revoked_at).toBeNull();
+    expect(consent.artifact_filename).toEqual('jane-consent.pdf');
+    expect(consent.artifact_sha256).toEqual(createHash('sha256').update(SIGNED_FORM).digest('hex'));
+    expect(consent.artifact_path).toStartWith(path.join(storageDir, 'consents'));
+    expect(await readFile(consent.artifact_path)).toEqual(Buffer.from(SIGNED_FORM));
+
+    const download = await fetch(`${baseUrl}/voice-consents/${consent.id}/artifact`);
+    expect(download.status).toEqual(200);
+    expect(download.headers.get('content-type')).toEqual('application/pdf');
+    expect(download.headers.get('content-disposition')).toStartWith('attachment; filename="jane-consent.pdf"');
+    expect(Buffer.from(await download.arrayBuffer())).toEqual(Buffer.from(SIGNED_FORM));
+  });
+
+  it('should reject invalid details and keep no file', async () => {
+    const video = await createTestVideo();
+    const future = new Date(Date.now() + 60_000).toISOString();
+
+    const missingSubject = await fetch(`${baseUrl}/voice-consents`, {
+      method: 'POST',
+      body: consentForm({ consented_by: 'Jane Speaker', expires_at: future })
+    });
+    expect(missingSubject.status).toEqual(400);
+    expect(await missingSubject.text()).toContain('exactly one of a voice profile or a video');
+
+    const expired = await fetch(`${baseUrl}/voice-consents`, {
+      method: 'POST',
+      body: consentForm({ video_id: String(video.id), consented_by: 'Jane Speaker', expires_at: '2020-01-01T00:00:00Z' })
+    });
+    expect(expired.status).toEqual(422);
+    expect(await expired.text()).toContain('Consent must expire in the future');
+
+    const unknownVideo = await fetch(`${baseUrl}/voice-consents`, {
+      method: 'POST',
+      body: consentForm({ video_id: '999', consented_by: 'Jane Speaker', expires_at: future })
+    });
+    expect(unknownVideo.status).toEqual(422);
+
+    const notAForm = await fetch(`${baseUrl}/voice-consents`, {
+      method: 'POST',
+      body: consentForm({ video_id: String(video.id), consented_by: 'Jane Speaker', expires_at: future }, SIGNED_FORM, 'video/mp4')
+    });
+    expect(notAForm.status).toEqual(415);
+
+    expect(await storedArtifacts()).toEqual([]);
+    expect(await db.select().from(voiceConsentsTable).execute()).toHaveLength(0);
+  });
+
+  it('should respond 404 for the form of an unknown consent', async () => {
+    const response = await fetch(`${baseUrl}/voice-consents/999/artifact`);
+
+    expect(response.status).toEqual(404);
+  });
+});
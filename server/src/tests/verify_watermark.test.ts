@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { spawnSync } from 'node:child_process';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import superjson from 'superjson';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { videosTable, translationJobsTable, audioGenerationJobsTable } from '../db/schema';
+import { type WatermarkVerification } from '../schema';
+import { audioWatermarkers } from '../providers/watermark';
+import { mediaProviders } from '../providers/media';
+import { getFfmpegPath } from '../media/ffmpeg';
+import { PIPELINE_SAMPLE_RATE, generateTone, writeWav } from '../media/wav';
+import { handleHttpRoute } from '../routes';
+
+const fixturesDir = path.join(import.meta.dir, 'fixtures');
+const ffmpegAvailable = spawnSync(getFfmpegPath(), ['-version']).status === 0;
+
+let server: Server;
+let baseUrl: string;
+let workDir: string;
+
+async function startServer() {
+  server = createServer((req, res) => {
+    handleHttpRoute(req, res).then((handled) => {
+      if (!handled) {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+}
+
+async function createWatermarkedJob(watermarkedAt: Date) {
+  const video = await db.insert(videosTable)
+    .values({
+      filename: 'keynote.mp4',
+      original_filename: 'keynote.mp4',
+      file_path: '/uploads/keynote.mp4',
+      file_size: 1024000,
+      duration: 60,
+      format: 'mp4',
+      upload_status: 'uploaded'
+    })
+    .returning()
+    .execute();
+
+  const translationJob = await db.insert(translationJobsTable)
+    .values({ video_id: video[0].id, source_language: 'en', target_language: 'es', status: 'completed' })
+    .returning()
+    .execute();
+
+  const audioJob = await db.insert(audioGenerationJobsTable)
+    .values({
+      translation_job_id: translationJob[0].id,
+      status: 'completed',
+      watermark_provider: 'local',
+      watermarked_at: watermarkedAt
+    })
+    .returning()
+    .execute();
+
+  return audioJob[0];
+}
+
+// A dubbed track as the worker leaves it, or an unmarked one
+async function writeDub(filename: string, payload?: { audioGenerationJobId: number; timestamp: Date }) {
+  const audioPath = path.join(workDir, filename);
+  await writeWav(audioPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples: generateTone(3000, 440) });
+  if (payload) {
+    await audioWatermarkers.get('local').embed({ audioPath, payload });
+  }
+  return audioPath;
+}
+
+async function verify(filePath: string, type = 'audio/wav') {
+  const form = new FormData();
+  form.append('file', new File([await readFile(filePath)], path.basename(filePath), { type }));
+  return fetch(`${baseUrl}/watermarks/verify`, { method: 'POST', body: form });
+}
+
+describe('watermark verification route', () => {
+  beforeEach(async () => {
+    await createDB();
+    workDir = await mkdtemp(path.join(tmpdir(), 'verify-watermark-'));
+    process.env['MEDIA_PROVIDER'] = 'local';
+    await startServer();
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(workDir, { recursive: true, force: true });
+    delete process.env['MEDIA_PROVIDER'];
+    await resetDB();
+  });
+
+  it('should identify the job that produced a dub', async () => {
+    const watermarkedAt = new Date('2026-03-01T12:34:56.789Z');
+    const job = await createWatermarkedJob(watermarkedAt);
+
+    const response = await verify(await writeDub('dub.wav', { audioGenerationJobId: job.id, timestamp: watermarkedAt }));
+
+    expect(response.status).toEqual(200);
+    const result = superjson.parse<WatermarkVerification>(await response.text());
+    expect(result.watermarked).toBe(true);
+    expect(result.watermark_provider).toEqual('local');
+    expect(result.audio_generation_job_id).toEqual(job.id);
+    expect(result.watermarked_at).toEqual(watermarkedAt);
+    expect(result.audio_generation_job?.id).toEqual(job.id);
+    expect(result.matches_current_audio).toBe(true);
+  });
+
+  it.skipIf(!ffmpegAvailable)('should identify the job from a rendered final video', async () => {
+    const watermarkedAt = new Date('2026-03-01T12:34:56.789Z');
+    const job = await createWatermarkedJob(watermarkedAt);
+    const audioPath = await writeDub('dub.wav', { audioGenerationJobId: job.id, timestamp: watermarkedAt });
+
+    // Rendering re-encodes the dub to AAC, as the worker's final outputs are
+    process.env['MEDIA_PROVIDER'] = 'ffmpeg';
+    const outputPath = path.join(workDir, 'final.mp4');
+    await mediaProviders.get().renderVideo({ videoPath: path.join(fixturesDir, 'sample.mp4'), audioPath, outputPath });
+
+    const response = await verify(outputPath, 'video/mp4');
+    expect(response.status).toEqual(200);
+    const result = superjson.parse<WatermarkVerification>(await response.text());
+    expect(result.watermarked).toBe(true);
+    expect(result.audio_generation_job_id).toEqual(job.id);
+    expect(result.watermarked_at).toEqual(watermarkedAt);
+    expect(result.matches_current_audio).toBe(true);
+  });
+
+  it('should flag audio the job has since regenerated, or whose job is gone', async () => {
+    const job = await createWatermarkedJob(new Date('2026-03-02T08:00:00.000Z'));
+    const earlierRender = new Date('2026-03-01T12:34:56.789Z');
+
+    const stale = superjson.parse<WatermarkVerification>(
+      await (await verify(await writeDub('old.wav', { audioGenerationJobId: job.id, timestamp: earlierRender }))).text()
+    );
+    expect(stale.watermarked).toBe(true);
+    expect(stale.audio_generation_job_id).toEqual(job.id);
+    expect(stale.matches_current_audio).toBe(false);
+
+    const orphan = superjson.parse<WatermarkVerification>(
+      await (await verify(await writeDub('orphan.wav', { audioGenerationJobId: 999, timestamp: earlierRender }))).text()
+    );
+    expect(orphan.watermarked).toBe(true);
+    expect(orphan.audio_generation_job_id).toEqual(999);
+    expect(orphan.audio_generation_job).toBeNull();
+    expect(orphan.matches_current_audio).toBe(false);
+  });
+
+  it('should report unmarked audio, decoding other formats first', async () => {
+    const unmarked = superjson.parse<WatermarkVerification>(await (await verify(await writeDub('original.wav'))).text());
+    expect(unmarked).toMatchObject({ watermarked: false, audio_generation_job_id: null, watermarked_at: null, audio_generation_job: null });
+
+    // The local media provider decodes any container to silence
+    const videoPath = path.join(workDir, 'clip.mp4');
+    await writeFile(videoPath, 'video bytes');
+    const response = await verify(videoPath, 'video/mp4');
+    expect(response.status).toEqual(200);
+    expect(superjson.parse<WatermarkVerification>(await response.text()).watermarked).toBe(false);
+  });
+
+  it('should reject files that are not audio or video', async () => {
+    const textPath = path.join(workDir, 'notes.txt');
+    await writeFile(textPath, 'not audio');
+
+    const response = await verify(textPath, 'text/plain');
+    expect(response.status).toEqual(415);
+
+    const empty = await fetch(`${baseUrl}/watermarks/verify`, { method: 'POST', body: new FormData() });
+    expect(empty.status).toEqual(400);
+  });
+});
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { audioWatermarkers } from '../providers/watermark';
+import { PIPELINE_SAMPLE_RATE, generateSilence, generateTone, readWav, writeWav } from '../media/wav';
+
+let workDir: string;
+
+const payload = { audioGenerationJobId: 4242, timestamp: new Date('2026-03-01T12:34:56.789Z') };
+
+function rms(samples: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+describe('watermark providers', () => {
+  beforeEach(async () => {
+    workDir = await mkdtemp(path.join(tmpdir(), 'watermark-'));
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+    delete process.env['WATERMARK_PROVIDER'];
+  });
+
+  it('should default to the local provider', () => {
+    expect(audioWatermarkers.get().name).toEqual('local');
+  });
+
+  it('should reject an unknown configured provider', () => {
+    process.env['WATERMARK_PROVIDER'] = 'nonexistent';
+    expect(() => audioWatermarkers.get()).toThrow(/unknown watermark provider "nonexistent"/i);
+  });
+
+  it('should recover the job and timestamp without audibly changing the audio', async () => {
+    const audioPath = path.join(workDir, 'dub.wav');
+    const tone = generateTone(4000, 440);
+    await writeWav(audioPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples: tone });
+
+    const watermarker = audioWatermarkers.get('local');
+    await watermarker.embed({ audioPath, payload });
+
+    // The change stays at least 30 dB below the audio it hides in
+    const marked = await readWav(audioPath);
+    expect(marked.samples.length).toEqual(tone.length);
+    const change = Array.from(marked.samples, (sample, index) => sample - tone[index]);
+    expect(20 * Math.log10(rms(tone) / rms(change))).toBeGreaterThan(30);
+    expect(await watermarker.detect({ audioPath })).toEqual(payload);
+  });
+
+  it('should still find the mark in a trimmed copy', async () => {
+    const audioPath = path.join(workDir, 'dub.wav');
+    await writeWav(audioPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples: generateTone(4000, 440) });
+
+    const watermarker = audioWatermarkers.get('local');
+    await watermarker.embed({ audioPath, payload });
+
+    const clipPath = path.join(workDir, 'clip.wav');
+    const { samples } = await readWav(audioPath);
+    await writeWav(clipPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples: samples.subarray(12345, 50000) });
+
+    expect(await watermarker.detect({ audioPath: clipPath })).toEqual(payload);
+  });
+
+  it('should find no mark in unmarked or too short audio', async () => {
+    const watermarker = audioWatermarkers.get('local');
+
+    const unmarkedPath = path.join(workDir, 'original.wav');
+    await writeWav(unmarkedPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples: generateTone(4000, 440) });
+    expect(await watermarker.detect({ audioPath: unmarkedPath })).toBeNull();
+
+    const shortPath = path.join(workDir, 'short.wav');
+    await writeWav(shortPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples: generateSilence(1) });
+    expect(await watermarker.detect({ audioPath: shortPath })).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { db } from '../db';
+import { jobAttemptsTable } from '../db/schema';
+import { type JobAttemptOutcome, type JobStage, type JobType } from '../schema';
+import { classifyError, describeError, requestedRetryDelayMs } from './errors';
+import { getRetryPolicy, retryDelayMs } from './retry_policy';
+import { type PipelineProviders } from './pipeline_providers';
+import { desc, eq } from 'drizzle-orm';
+
+// One run of a claimed job, added to the job's attempts history when it ends
+export interface JobAttemptRecorder {
+  providers: PipelineProviders; // Run the job with these, so the attempt knows which provider it called last
+  succeeded(stage: JobStage): Promise<void>;
+  cancelled(stage: JobStage): Promise<void>;
+  // Returns when the job should run again, or null when the failure is final
+  failed(stage: JobStage, error: unknown): Promise<Date | null>;
+}
+
+// Wrap each provider so that calling any of its methods reports it as `kind:name`
+function trackProviderCalls(providers: PipelineProviders, onCall: (provider: string) => void): PipelineProviders {
+  const tracked = Object.entries(providers).map(([kind, provider]: [string, PipelineProviders[keyof PipelineProviders]]) => [
+    kind,
+    new Proxy(provider, {
+      get(target, property, receiver) {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof value !== 'function') {
+          return value;
+        }
+        return (...args: unknown[]) => {
+          onCall(`${kind}:${target.name}`);
+          return value.apply(target, args);
+        };
+      }
+    })
+  ]);
+  return Object.fromEntries(tracked) as PipelineProviders;
+}
+
+export function startAttempt(jobType: JobType, job: { id: number; attempt_count: number }, providers: PipelineProviders): JobAttemptRecorder {
+  const startedAt = new Date();
+  let lastProvider: string | null = null;
+  const jobColumn = {
+    translation: jobAttemptsTable.translation_job_id,
+    audio_generation: jobAttemptsTable.audio_generation_job_id,
+    multi_track: jobAttemptsTable.multi_track_job_id
+  }[jobType];
+
+  const record = async (stage: JobStage, outcome: JobAttemptOutcome, failure?: Pick<typeof jobAttemptsTable.$inferInsert, 'error_message' | 'error_class' | 'retry_at'>) => {
+    const finishedAt = new Date();
+    await db.insert(jobAttemptsTable)
+      .values({
+        translation_job_id: jobType === 'translation' ? job.id : null,
+        audio_generation_job_id: jobType === 'audio_generation' ? job.id : null,
+        multi_track_job_id: jobType === 'multi_track' ? job.id : null,
+        attempt: job.attempt_count,
+        stage,
+        outcome,
+        provider: lastProvider,
+        ...failure,
+        duration_ms: finishedAt.getTime() - startedAt.getTime(),
+        started_at: startedAt,
+        finished_at: finishedAt
+      })
+      .execute();
+  };
+
+  return {
+    providers: trackProviderCalls(providers, (provider) => {
+      lastProvider = provider;
+    }),
+
+    async succeeded(stage) {
+      await record(stage, 'succeeded');
+    },
+
+    async cancelled(stage) {
+      await record(stage, 'cancelled');
+    },
+
+    async failed(stage, error) {
+      const errorClass = classifyError(error);
+      let retryAt: Date | null = null;
+
+      if (errorClass === 'transient') {
+        // This run plus the earlier ones that failed in the same stage and were retried automatically;
+        // a manual retry, or getting past the stage, starts the count again
+        const earlier = await db.select({ stage: jobAttemptsTable.stage, retry_at: jobAttemptsTable.retry_at })
+          .from(jobAttemptsTable)
+          .where(eq(jobColumn, job.id))
+          .orderBy(desc(jobAttemptsTable.attempt))
+          .execute();
+        const retried = earlier.findIndex((attempt) => attempt.stage !== stage || attempt.retry_at === null);
+        const failures = (retried === -1 ? earlier.length : retried) + 1;
+
+        const policy = getRetryPolicy(stage);
+        if (failures < policy.maxAttempts) {
+          const delayMs = Math.max(retryDelayMs(policy, failures), requestedRetryDelayMs(error) ?? 0);
+          retryAt = new Date(Date.now() + delayMs);
+        }
+      }
+
+      await record(stage, 'failed', { error_message: describeError(error), error_class: errorClass, retry_at: retryAt });
+      return retryAt;
+    }
+  };
+}
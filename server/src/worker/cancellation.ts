@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { audioGenerationJobsTable, multiTrackJobsTable, translationJobsTable } from '../db/schema';
+import { type JobType } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const JOB_TYPE_NAMES: Record<JobType, string> = {
+  translation: 'Translation',
+  audio_generation: 'Audio generation',
+  multi_track: 'Multi-track'
+};
+
+// A running job was cancelled; the worker stops without recording a failure
+export class JobCancelledError extends Error {
+  constructor(jobType: JobType, id: number) {
+    super(`${JOB_TYPE_NAMES[jobType]} job ${id} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+export async function isCancelled(jobType: JobType, id: number): Promise<boolean> {
+  const table = { translation: translationJobsTable, audio_generation: audioGenerationJobsTable, multi_track: multiTrackJobsTable }[jobType];
+  const rows = await db.select({ status: table.status }).from(table).where(eq(table.id, id)).execute();
+  return rows[0]?.status === 'cancelled';
+}
+
+// Cancelling only marks the job; a running job notices at its next stage boundary and stops there
+export async function throwIfCancelled(jobType: JobType, id: number): Promise<void> {
+  if (await isCancelled(jobType, id)) {
+    throw new JobCancelledError(jobType, id);
+  }
+}
@@ -0,0 +1,129 @@
+import { db } from '../db';
+import { audioGenerationJobsTable, multiTrackJobsTable, translationJobsTable, transcriptSegmentsTable } from '../db/schema';
+import { type AudioGenerationJob, type MultiTrackJob, type TranslationJob } from '../schema';
+import { publishAudioGenerationJobChange, publishVideoChange } from '../events/workflow_changes';
+import { and, asc, eq, exists, inArray, isNull, lte, or, sql } from 'drizzle-orm';
+
+// Lock the oldest pending translation job and move it to its first stage; SKIP LOCKED lets runners claim in parallel.
+// Jobs with an imported or shared transcript have no audio to transcribe and start at translating,
+// as do retried jobs whose soundtrack was already extracted; a job sharing another job's
+// transcript waits until that transcript exists. A job waiting out the backoff of an automatic
+// retry is left alone until it is due.
+export async function claimTranslationJob(): Promise<TranslationJob | null> {
+  return await db.transaction(async (tx) => {
+    const sharedTranscript = tx.select({ id: transcriptSegmentsTable.id })
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.translation_job_id, translationJobsTable.transcript_job_id));
+
+    const pending = await tx.select()
+      .from(translationJobsTable)
+      .where(and(
+        eq(translationJobsTable.status, 'pending'),
+        or(isNull(translationJobsTable.next_attempt_at), lte(translationJobsTable.next_attempt_at, new Date())),
+        or(isNull(translationJobsTable.transcript_job_id), exists(sharedTranscript))
+      ))
+      .orderBy(asc(translationJobsTable.created_at), asc(translationJobsTable.id))
+      .limit(1)
+      .for('update', { skipLocked: true })
+      .execute();
+
+    if (pending.length === 0) {
+      return null;
+    }
+
+    const claimed = await tx.update(translationJobsTable)
+      .set({
+        status: pending[0].transcript_source === 'subtitles' || pending[0].transcript_job_id !== null || pending[0].original_audio_path !== null
+          ? 'translating'
+          : 'extracting_audio',
+        attempt_count: sql`${translationJobsTable.attempt_count} + 1`,
+        next_attempt_at: null,
+        started_at: new Date(),
+        completed_at: null,
+        error_message: null
+      })
+      .where(eq(translationJobsTable.id, pending[0].id))
+      .returning()
+      .execute();
+
+    await publishVideoChange(claimed[0].video_id, tx);
+    return claimed[0];
+  });
+}
+
+// Audio generation waits until its translation job has completed, and a retry until it is due
+export async function claimAudioGenerationJob(): Promise<AudioGenerationJob | null> {
+  return await db.transaction(async (tx) => {
+    const completedTranslations = tx.select({ id: translationJobsTable.id })
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.status, 'completed'));
+
+    const pending = await tx.select()
+      .from(audioGenerationJobsTable)
+      .where(and(
+        eq(audioGenerationJobsTable.status, 'pending'),
+        or(isNull(audioGenerationJobsTable.next_attempt_at), lte(audioGenerationJobsTable.next_attempt_at, new Date())),
+        inArray(audioGenerationJobsTable.translation_job_id, completedTranslations)
+      ))
+      .orderBy(asc(audioGenerationJobsTable.created_at), asc(audioGenerationJobsTable.id))
+      .limit(1)
+      .for('update', { skipLocked: true })
+      .execute();
+
+    if (pending.length === 0) {
+      return null;
+    }
+
+    const claimed = await tx.update(audioGenerationJobsTable)
+      .set({
+        status: 'generating',
+        attempt_count: sql`${audioGenerationJobsTable.attempt_count} + 1`,
+        next_attempt_at: null,
+        started_at: new Date(),
+        completed_at: null,
+        error_message: null
+      })
+      .where(eq(audioGenerationJobsTable.id, pending[0].id))
+      .returning()
+      .execute();
+
+    await publishAudioGenerationJobChange(claimed[0].id, tx);
+    return claimed[0];
+  });
+}
+
+// Multi-track muxes are queued with completed dubs, so only a retry's backoff holds one back
+export async function claimMultiTrackJob(): Promise<MultiTrackJob | null> {
+  return await db.transaction(async (tx) => {
+    const pending = await tx.select()
+      .from(multiTrackJobsTable)
+      .where(and(
+        eq(multiTrackJobsTable.status, 'pending'),
+        or(isNull(multiTrackJobsTable.next_attempt_at), lte(multiTrackJobsTable.next_attempt_at, new Date()))
+      ))
+      .orderBy(asc(multiTrackJobsTable.created_at), asc(multiTrackJobsTable.id))
+      .limit(1)
+      .for('update', { skipLocked: true })
+      .execute();
+
+    if (pending.length === 0) {
+      return null;
+    }
+
+    const claimed = await tx.update(multiTrackJobsTable)
+      .set({
+        status: 'rendering',
+        attempt_count: sql`${multiTrackJobsTable.attempt_count} + 1`,
+        next_attempt_at: null,
+        started_at: new Date(),
+        completed_at: null,
+        error_message: null
+      })
+      .where(eq(multiTrackJobsTable.id, pending[0].id))
+      .returning()
+      .execute();
+
+    await publishVideoChange(claimed[0].video_id, tx);
+    return claimed[0];
+  });
+}
@@ -0,0 +1,59 @@
+import { type ErrorClass } from '../schema';
+import { TransientProviderError } from '../providers/errors';
+
+// Message stored in error_message columns when a stage throws
+export function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return String(error);
+}
+
+// The job's own input can never succeed as it is (no speech, a missing video or transcript)
+export class JobInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobInputError';
+  }
+}
+
+// Network failures worth another try; anything else from the OS is a setup problem
+const TRANSIENT_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH']);
+
+// Whether retrying the failed stage can help. Providers mark their retryable failures with
+// TransientProviderError; errors from HTTP clients and sockets are judged by their status or code.
+// Unrecognized errors are permanent, so a bug is not retried until the attempts run out.
+export function classifyError(error: unknown): ErrorClass {
+  if (error instanceof JobInputError) {
+    return 'input';
+  }
+  if (error instanceof TransientProviderError) {
+    return 'transient';
+  }
+  if (!(error instanceof Error)) {
+    return 'permanent';
+  }
+  if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+    return 'transient';
+  }
+
+  const { code, status, statusCode } = error as Error & { code?: unknown; status?: unknown; statusCode?: unknown };
+  if (typeof code === 'string' && TRANSIENT_ERROR_CODES.has(code)) {
+    return 'transient';
+  }
+  const httpStatus = status ?? statusCode;
+  if (typeof httpStatus === 'number') {
+    return httpStatus === 408 || httpStatus === 429 || httpStatus >= 500 ? 'transient' : 'permanent';
+  }
+
+  // Stages wrap provider errors with context; the wrapped error decides
+  return error.cause !== undefined ? classifyError(error.cause) : 'permanent';
+}
+
+// Wait a provider asked for before the next try, if any, through the errors wrapping it
+export function requestedRetryDelayMs(error: unknown): number | null {
+  if (error instanceof TransientProviderError) {
+    return error.retryAfterMs;
+  }
+  return error instanceof Error && error.cause !== undefined ? requestedRetryDelayMs(error.cause) : null;
+}
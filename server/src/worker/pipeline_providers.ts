@@ -0,0 +1,30 @@
+import { mediaProviders, type MediaProvider } from '../providers/media';
+import { speechToTextProviders, type SpeechToTextProvider } from '../providers/speech_to_text';
+import { translationProviders, type TranslationProvider } from '../providers/translation';
+import { textToSpeechProviders, type TextToSpeechProvider } from '../providers/text_to_speech';
+import { stemSeparators, type StemSeparator } from '../providers/stem_separation';
+import { speakerDiarizers, type SpeakerDiarizer } from '../providers/diarization';
+import { audioWatermarkers, type AudioWatermarker } from '../providers/watermark';
+
+// The provider for every pipeline stage, resolved once per job
+export interface PipelineProviders {
+  media: MediaProvider;
+  stemSeparation: StemSeparator;
+  speechToText: SpeechToTextProvider;
+  diarization: SpeakerDiarizer;
+  translation: TranslationProvider;
+  textToSpeech: TextToSpeechProvider;
+  watermark: AudioWatermarker;
+}
+
+export function resolvePipelineProviders(): PipelineProviders {
+  return {
+    media: mediaProviders.get(),
+    stemSeparation: stemSeparators.get(),
+    speechToText: speechToTextProviders.get(),
+    diarization: speakerDiarizers.get(),
+    translation: translationProviders.get(),
+    textToSpeech: textToSpeechProviders.get(),
+    watermark: audioWatermarkers.get()
+  };
+}
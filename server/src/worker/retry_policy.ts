@@ -0,0 +1,36 @@
+import { type JobStage } from '../schema';
+import { readPositiveInt } from '../env';
+
+export interface RetryPolicy {
+  maxAttempts: number; // Runs of the stage in a row, the first included
+  baseDelayMs: number; // Wait before the second run; doubles for each later one
+  maxDelayMs: number;
+  jitter: number; // Fraction of the wait randomized either way, so jobs failed together spread out
+}
+
+// Extraction and rendering run locally and rarely recover; the remote transcription, translation
+// and speech services get more room to come back
+const DEFAULT_RETRY_POLICIES: Record<JobStage, RetryPolicy> = {
+  extracting_audio: { maxAttempts: 3, baseDelayMs: 5_000, maxDelayMs: 60_000, jitter: 0.2 },
+  translating: { maxAttempts: 5, baseDelayMs: 10_000, maxDelayMs: 300_000, jitter: 0.2 },
+  generating: { maxAttempts: 5, baseDelayMs: 10_000, maxDelayMs: 300_000, jitter: 0.2 },
+  rendering: { maxAttempts: 3, baseDelayMs: 5_000, maxDelayMs: 60_000, jitter: 0.2 },
+};
+
+// A stage's policy, with attempts and delays overridable per stage, e.g. JOB_RETRY_TRANSLATING_MAX_ATTEMPTS
+export function getRetryPolicy(stage: JobStage): RetryPolicy {
+  const defaults = DEFAULT_RETRY_POLICIES[stage];
+  const prefix = `JOB_RETRY_${stage.toUpperCase()}`;
+  return {
+    ...defaults,
+    maxAttempts: readPositiveInt(`${prefix}_MAX_ATTEMPTS`, defaults.maxAttempts),
+    baseDelayMs: readPositiveInt(`${prefix}_BASE_DELAY_MS`, defaults.baseDelayMs),
+    maxDelayMs: readPositiveInt(`${prefix}_MAX_DELAY_MS`, defaults.maxDelayMs)
+  };
+}
+
+// Exponential backoff before the run after `failures` failed ones in a row, with jitter
+export function retryDelayMs(policy: RetryPolicy, failures: number, random: () => number = Math.random): number {
+  const delayMs = Math.min(policy.baseDelayMs * 2 ** (failures - 1), policy.maxDelayMs);
+  return Math.round(delayMs * (1 + policy.jitter * (2 * random() - 1)));
+}
@@ -0,0 +1,314 @@
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp } from 'node:fs/promises';
+import path from 'node:path';
+import { db } from '../db';
+import { translationJobsTable, audioGenerationJobsTable, audioSegmentsTable, finalOutputsTable } from '../db/schema';
+import { type AudioGenerationJob, type SpeakerVoice, type TranscriptSegment, type TranslationJob, type Video, type VoiceProfile } from '../schema';
+import { createFinalOutput } from '../handlers/create_final_output';
+import { getVideoById } from '../handlers/get_video_by_id';
+import { getTranscriptSegments } from '../handlers/get_transcript_segments';
+import { getVoiceProfileById } from '../handlers/get_voice_profile_by_id';
+import { findMissingConsent } from '../handlers/get_voice_consents';
+import { updateAudioGenerationJob } from '../handlers/update_audio_generation_job';
+import { updateTranslationJob } from '../handlers/update_translation_job';
+import { ensureStorageDir, generateStorageFilename } from '../storage';
+import { PIPELINE_SAMPLE_RATE, layoutTimeline, readWav, writeWav } from '../media/wav';
+import { mixAudibleMark, mixWithDucking } from '../media/mix';
+import { type VoiceSelection } from '../providers/text_to_speech';
+import { publishAudioGenerationJobChange, publishVideoChange } from '../events/workflow_changes';
+import { describeError, JobInputError } from './errors';
+import { isCancelled, JobCancelledError, throwIfCancelled } from './cancellation';
+import { startAttempt } from './attempts';
+import { extractSourceAudio } from './source_audio';
+import { separateStems } from './stems';
+import { fitSegmentTiming } from './timing_fit';
+import { writeSpeakerReference } from './speakers';
+import { type PipelineProviders } from './pipeline_providers';
+import { and, eq, sql } from 'drizzle-orm';
+
+// Drive a claimed audio generation job through generating -> completed, then render the final video.
+// Segment audio is saved one voice at a time, so a retried job only synthesizes what is missing;
+// transient failures are retried that way automatically, after a backoff.
+export async function runAudioGenerationJob(job: AudioGenerationJob, pipelineProviders: PipelineProviders): Promise<AudioGenerationJob> {
+  const attempt = startAttempt('audio_generation', job, pipelineProviders);
+  const providers = attempt.providers;
+
+  try {
+    const translationJobs = await db.select()
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.id, job.translation_job_id))
+      .execute();
+
+    let translationJob = translationJobs[0];
+    if (!translationJob) {
+      throw new JobInputError(`Translation job ${job.translation_job_id} not found`);
+    }
+
+    const transcript = await getTranscriptSegments(translationJob.id);
+    if (transcript.length === 0 || transcript.some((segment) => segment.translated_text === null)) {
+      throw new JobInputError(`Translation job ${translationJob.id} has no translated segments`);
+    }
+
+    const video = await getVideoById(translationJob.video_id);
+    if (!video) {
+      throw new JobInputError(`Video with ID ${translationJob.video_id} not found`);
+    }
+
+    if (job.preserve_background) {
+      translationJob = await separateStems(translationJob, providers);
+      await throwIfCancelled('audio_generation', job.id);
+    }
+
+    // Reuse segment audio from an earlier run unless its translation changed since
+    const previous = await db.select()
+      .from(audioSegmentsTable)
+      .where(eq(audioSegmentsTable.audio_generation_job_id, job.id))
+      .execute();
+    const reusable = new Map(previous
+      .filter((segment) => !segment.stale && existsSync(segment.audio_path))
+      .map((segment) => [segment.transcript_segment_id, segment]));
+    const toSynthesize = transcript.filter((segment) => !reusable.has(segment.id));
+
+    // A retried job may already have spoken in its own voice before it stopped
+    const spokenInJobVoice = transcript.find((segment) => reusable.has(segment.id) && !job.speaker_voices.some((voice) => voice.speaker === segment.speaker));
+    let voiceId = job.voice_id ?? (spokenInJobVoice ? reusable.get(spokenInJobVoice.id)!.voice_id : null);
+    if (toSynthesize.length > 0) {
+      // Segments sharing a voice are synthesized together; speakers without an assigned voice get the job-level one
+      const groups = new Map<SpeakerVoice | null, TranscriptSegment[]>();
+      for (const segment of toSynthesize) {
+        const assigned = job.speaker_voices.find((voice) => voice.speaker === segment.speaker) ?? null;
+        groups.set(assigned, [...(groups.get(assigned) ?? []), segment]);
+      }
+
+      // A voice profile brings its own reference recording
+      const voiceProfile = job.voice_profile_id !== null ? await getVoiceProfileById(job.voice_profile_id) : null;
+
+      // Jobs with imported subtitles never extracted the soundtrack; do it now for the clone reference
+      const clones = [...groups.keys()].some((assigned) => assigned ? assigned.voice_cloned : job.voice_cloned && !voiceProfile);
+      if (clones && !translationJob.vocals_audio_path && !translationJob.original_audio_path) {
+        const originalAudioPath = await extractSourceAudio(translationJob, providers);
+        translationJob = await updateTranslationJob({ id: translationJob.id, original_audio_path: originalAudioPath });
+      }
+
+      const segmentDir = await mkdtemp(path.join(await ensureStorageDir('audio'), `dub_${job.id}_segments_`));
+      for (const [groupIndex, [assigned, segments]] of [...groups].entries()) {
+        const voice = await selectVoice(job, assigned, voiceProfile, translationJob, transcript, providers);
+        // Separate directory per voice, since providers name their files by position in the batch
+        const outputDir = path.join(segmentDir, `voice_${groupIndex}`);
+        await mkdir(outputDir);
+
+        const synthesis = await providers.textToSpeech.synthesize({
+          segments: segments.map((segment) => segment.translated_text!),
+          language: translationJob.target_language,
+          voice,
+          outputDir
+        });
+        if (synthesis.segments.length !== segments.length) {
+          throw new Error(`Text-to-speech provider returned ${synthesis.segments.length} segments for ${segments.length}`);
+        }
+
+        // Make each segment's speech fit the window the original was spoken in
+        const fitted = [];
+        for (const [index, synthesized] of synthesis.segments.entries()) {
+          const fit = await fitSegmentTiming(segments[index], synthesized, {
+            language: translationJob.target_language,
+            voice,
+            glossary: translationJob.glossary,
+            outputDir
+          }, providers);
+          fitted.push({ ...fit, transcriptSegmentId: segments[index].id, voiceId: synthesis.voiceId });
+        }
+        if (!assigned) {
+          voiceId = synthesis.voiceId;
+        }
+
+        await throwIfCancelled('audio_generation', job.id);
+        const saved = await db.insert(audioSegmentsTable)
+          .values(fitted.map((segment) => ({
+            audio_generation_job_id: job.id,
+            transcript_segment_id: segment.transcriptSegmentId,
+            audio_path: segment.audioPath,
+            duration_ms: segment.durationMs,
+            voice_id: segment.voiceId,
+            spoken_text: segment.spokenText,
+            stretch_ratio: segment.stretchRatio,
+            overrun_ms: segment.overrunMs
+          })))
+          .onConflictDoUpdate({
+            target: [audioSegmentsTable.audio_generation_job_id, audioSegmentsTable.transcript_segment_id],
+            set: {
+              audio_path: sql`excluded.audio_path`,
+              duration_ms: sql`excluded.duration_ms`,
+              voice_id: sql`excluded.voice_id`,
+              spoken_text: sql`excluded.spoken_text`,
+              stretch_ratio: sql`excluded.stretch_ratio`,
+              overrun_ms: sql`excluded.overrun_ms`,
+              stale: false
+            }
+          })
+          .returning()
+          .execute();
+        saved.forEach((segment) => reusable.set(segment.transcript_segment_id, segment));
+      }
+    }
+
+    // Place each segment's speech where the original was spoken
+    const clips = [];
+    for (const segment of transcript) {
+      const audioPath = reusable.get(segment.id)!.audio_path;
+      const audio = await readWav(audioPath);
+      if (audio.sampleRate !== PIPELINE_SAMPLE_RATE) {
+        throw new Error(`Synthesized segment ${audioPath} is ${audio.sampleRate} Hz, expected ${PIPELINE_SAMPLE_RATE} Hz`);
+      }
+      clips.push({ startMs: segment.start_ms, samples: audio.samples });
+    }
+
+    const audioPath = path.join(await ensureStorageDir('audio'), generateStorageFilename(`dub_${job.id}`, 'wav'));
+    const minDurationMs = Math.max((video.duration ?? 0) * 1000, transcript[transcript.length - 1].end_ms);
+    let samples = layoutTimeline(clips, minDurationMs);
+
+    // Keep the original music and effects, lowered while the dub speaks
+    if (job.preserve_background) {
+      const background = await readWav(translationJob.background_audio_path!);
+      if (background.sampleRate !== PIPELINE_SAMPLE_RATE) {
+        throw new Error(`Background stem ${translationJob.background_audio_path} is ${background.sampleRate} Hz, expected ${PIPELINE_SAMPLE_RATE} Hz`);
+      }
+      samples = mixWithDucking(samples, background.samples, job.ducking_db);
+    }
+    if (job.audible_watermark) {
+      samples = mixAudibleMark(samples);
+    }
+    await writeWav(audioPath, { sampleRate: PIPELINE_SAMPLE_RATE, samples });
+
+    // Marked last, so no later mixing disturbs it
+    const watermarkedAt = new Date();
+    await providers.watermark.embed({ audioPath, payload: { audioGenerationJobId: job.id, timestamp: watermarkedAt } });
+
+    await throwIfCancelled('audio_generation', job.id);
+
+    // Where sync still fails after fitting, for reviewers
+    const overruns = transcript.map((segment) => reusable.get(segment.id)!.overrun_ms).filter((overrunMs) => overrunMs > 0);
+
+    // Where the dub is and how it was made are the worker's to record: not part of the public update.
+    // Only a job still generating completes; a cancellation since the last check stands.
+    const [completed] = await db.update(audioGenerationJobsTable)
+      .set({
+        status: 'completed',
+        generated_audio_path: audioPath,
+        overrun_segment_count: overruns.length,
+        max_overrun_ms: overruns.length > 0 ? Math.max(...overruns) : 0,
+        tts_provider: toSynthesize.length > 0 ? providers.textToSpeech.name : job.tts_provider,
+        voice_id: voiceId,
+        watermark_provider: providers.watermark.name,
+        watermarked_at: watermarkedAt,
+        completed_at: new Date()
+      })
+      .where(and(eq(audioGenerationJobsTable.id, job.id), eq(audioGenerationJobsTable.status, 'generating')))
+      .returning()
+      .execute();
+    if (!completed) {
+      throw new JobCancelledError('audio_generation', job.id);
+    }
+    await publishAudioGenerationJobChange(job.id);
+
+    await renderFinalOutput(video, translationJob, completed, providers);
+    await attempt.succeeded('generating');
+    return completed;
+  } catch (error) {
+    // Cancelled while a provider call was failing: the cancellation wins
+    if (error instanceof JobCancelledError || await isCancelled('audio_generation', job.id)) {
+      await attempt.cancelled('generating');
+      const cancelled = await db.select().from(audioGenerationJobsTable).where(eq(audioGenerationJobsTable.id, job.id)).execute();
+      return cancelled[0];
+    }
+
+    const retryAt = await attempt.failed('generating', error);
+    if (retryAt) {
+      console.error(`Audio generation job ${job.id} failed, retrying at ${retryAt.toISOString()}:`, error);
+      return await updateAudioGenerationJob({ id: job.id, status: 'pending', error_message: describeError(error), next_attempt_at: retryAt });
+    }
+    console.error(`Audio generation job ${job.id} failed:`, error);
+    return await updateAudioGenerationJob({ id: job.id, status: 'failed', error_message: describeError(error) });
+  }
+}
+
+// A speaker's assigned voice, or the job-level one. Cloned voices come from the isolated speech when
+// the stems were separated; a speaker's own voice is cloned from their turns only. A voice profile
+// is reused by its handle when the same provider cloned it. Consent is checked again right before
+// cloning, since it may have been revoked or have expired since the job was queued.
+async function selectVoice(
+  job: AudioGenerationJob,
+  assigned: SpeakerVoice | null,
+  voiceProfile: VoiceProfile | null,
+  translationJob: TranslationJob,
+  transcript: TranscriptSegment[],
+  providers: PipelineProviders
+): Promise<VoiceSelection> {
+  const voice = assigned ?? { voice_cloned: job.voice_cloned, voice_id: job.voice_id ?? undefined };
+  if (!voice.voice_cloned) {
+    return { kind: 'stock', voiceId: voice.voice_id ?? providers.textToSpeech.defaultVoiceId };
+  }
+
+  const missingConsent = await findMissingConsent(
+    !assigned && voiceProfile ? { voice_profile_id: voiceProfile.id } : { video_id: translationJob.video_id },
+    [translationJob.target_language]
+  );
+  if (missingConsent) {
+    throw new JobInputError(missingConsent);
+  }
+
+  if (!assigned && voiceProfile) {
+    return {
+      kind: 'cloned',
+      referenceAudioPath: voiceProfile.reference_audio_path,
+      voiceId: voiceProfile.tts_provider === providers.textToSpeech.name ? voiceProfile.provider_voice_id : undefined
+    };
+  }
+
+  const sourceSpeechPath = (translationJob.vocals_audio_path ?? translationJob.original_audio_path)!;
+  if (!assigned) {
+    return { kind: 'cloned', referenceAudioPath: sourceSpeechPath };
+  }
+  return { kind: 'cloned', referenceAudioPath: await writeSpeakerReference(sourceSpeechPath, translationJob.id, assigned.speaker, transcript) };
+}
+
+// Both stages are done: mux the dubbed audio into the video and record the final output
+async function renderFinalOutput(
+  video: Video,
+  translationJob: TranslationJob,
+  audioJob: AudioGenerationJob,
+  providers: PipelineProviders
+): Promise<void> {
+  const outputPath = path.join(
+    await ensureStorageDir('outputs'),
+    generateStorageFilename(`output_${video.id}_${translationJob.target_language}`, 'mp4')
+  );
+
+  try {
+    await providers.media.renderVideo({
+      videoPath: video.file_path,
+      audioPath: audioJob.generated_audio_path!,
+      outputPath
+    });
+  } catch (error) {
+    throw new Error(`Final video rendering failed: ${describeError(error)}`, { cause: error });
+  }
+
+  // A re-run (e.g. after re-synthesizing a segment) replaces the earlier render
+  const updated = await db.update(finalOutputsTable)
+    .set({ final_video_path: outputPath })
+    .where(eq(finalOutputsTable.audio_generation_job_id, audioJob.id))
+    .returning()
+    .execute();
+
+  if (updated.length > 0) {
+    await publishVideoChange(video.id);
+  } else {
+    await createFinalOutput({
+      video_id: video.id,
+      translation_job_id: translationJob.id,
+      audio_generation_job_id: audioJob.id,
+      final_video_path: outputPath
+    });
+  }
+}
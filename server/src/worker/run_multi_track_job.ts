@@ -0,0 +1,147 @@
+import path from 'node:path';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { db } from '../db';
+import { videosTable, translationJobsTable, audioGenerationJobsTable, multiTrackJobsTable, finalOutputsTable, finalOutputTracksTable } from '../db/schema';
+import { type MultiTrackJob } from '../schema';
+import { type MediaTrack } from '../providers/media';
+import { ensureStorageDir, generateStorageFilename } from '../storage';
+import { ISO_639_2 } from '../media/iso639';
+import { exportSubtitles } from '../handlers/export_subtitles';
+import { publishVideoChange } from '../events/workflow_changes';
+import { describeError, JobInputError } from './errors';
+import { isCancelled, JobCancelledError, throwIfCancelled } from './cancellation';
+import { startAttempt } from './attempts';
+import { type PipelineProviders } from './pipeline_providers';
+import { and, eq, inArray } from 'drizzle-orm';
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+// Render a claimed multi-track job: the original picture once, with one dubbed audio track (and
+// optionally one subtitle track) per language in the order the job lists them
+export async function runMultiTrackJob(job: MultiTrackJob, pipelineProviders: PipelineProviders): Promise<MultiTrackJob> {
+  const attempt = startAttempt('multi_track', job, pipelineProviders);
+  let subtitleDir: string | null = null;
+
+  try {
+    const videos = await db.select()
+      .from(videosTable)
+      .where(eq(videosTable.id, job.video_id))
+      .execute();
+
+    const video = videos[0];
+    if (!video) {
+      throw new JobInputError(`Video with ID ${job.video_id} not found`);
+    }
+
+    const rows = await db.select({ audioJob: audioGenerationJobsTable, translationJob: translationJobsTable })
+      .from(audioGenerationJobsTable)
+      .innerJoin(translationJobsTable, eq(audioGenerationJobsTable.translation_job_id, translationJobsTable.id))
+      .where(inArray(audioGenerationJobsTable.id, job.audio_generation_job_ids))
+      .execute();
+
+    // A dub re-run since the job was queued has no audio to mux until it completes again
+    const tracks = job.audio_generation_job_ids.map((id) => {
+      const row = rows.find((candidate) => candidate.audioJob.id === id);
+      if (!row) {
+        throw new JobInputError(`Audio generation job with id ${id} not found`);
+      }
+      if (row.audioJob.status !== 'completed' || !row.audioJob.generated_audio_path) {
+        throw new JobInputError(`Audio generation job with id ${id} is not completed (status: ${row.audioJob.status})`);
+      }
+      return row;
+    });
+
+    const audioTracks: MediaTrack[] = [];
+    const subtitleTracks: MediaTrack[] = [];
+    for (const { audioJob, translationJob } of tracks) {
+      const language = translationJob.target_language;
+      audioTracks.push({ path: audioJob.generated_audio_path!, language: ISO_639_2[language], title: languageNames.of(language) ?? language });
+
+      if (job.include_subtitles) {
+        const subtitles = await exportSubtitles({ translation_job_id: translationJob.id, format: 'srt', text: 'translated' });
+        subtitleDir ??= await mkdtemp(path.join(tmpdir(), 'multi-track-subtitles-'));
+        const subtitlePath = path.join(subtitleDir, `${language}.srt`);
+        await writeFile(subtitlePath, subtitles!.content, 'utf8');
+        subtitleTracks.push({ path: subtitlePath, language: ISO_639_2[language], title: languageNames.of(language) ?? language });
+      }
+    }
+
+    const outputPath = path.join(
+      await ensureStorageDir('outputs'),
+      generateStorageFilename(`output_${video.id}_multi`, 'mp4')
+    );
+    await attempt.providers.media.renderMultiTrackVideo({ videoPath: video.file_path, audioTracks, subtitleTracks, outputPath });
+
+    await throwIfCancelled('multi_track', job.id);
+
+    const completed = await db.transaction(async (tx) => {
+      const [output] = await tx.insert(finalOutputsTable)
+        .values({ video_id: video.id, kind: 'multi_track', final_video_path: outputPath })
+        .returning()
+        .execute();
+
+      await tx.insert(finalOutputTracksTable)
+        .values(tracks.map(({ audioJob, translationJob }, index) => ({
+          final_output_id: output.id,
+          audio_generation_job_id: audioJob.id,
+          track_index: index,
+          language: translationJob.target_language,
+          has_subtitles: job.include_subtitles
+        })))
+        .execute();
+
+      // Only a job still rendering completes; a cancellation since the last check stands
+      const [updated] = await tx.update(multiTrackJobsTable)
+        .set({ status: 'completed', final_output_id: output.id, completed_at: new Date() })
+        .where(and(eq(multiTrackJobsTable.id, job.id), eq(multiTrackJobsTable.status, 'rendering')))
+        .returning()
+        .execute();
+      if (!updated) {
+        throw new JobCancelledError('multi_track', job.id);
+      }
+
+      await publishVideoChange(video.id, tx);
+      return updated;
+    });
+
+    await attempt.succeeded('rendering');
+    return completed;
+  } catch (error) {
+    if (error instanceof JobCancelledError || await isCancelled('multi_track', job.id)) {
+      await attempt.cancelled('rendering');
+      return await getMultiTrackJob(job.id);
+    }
+
+    const retryAt = await attempt.failed('rendering', error);
+    if (retryAt) {
+      console.error(`Multi-track job ${job.id} failed, retrying at ${retryAt.toISOString()}:`, error);
+    } else {
+      console.error(`Multi-track job ${job.id} failed:`, error);
+    }
+
+    // Left alone if it was cancelled while rendering
+    const updated = await db.update(multiTrackJobsTable)
+      .set(retryAt
+        ? { status: 'pending', error_message: describeError(error), next_attempt_at: retryAt }
+        : { status: 'failed', error_message: describeError(error) })
+      .where(and(eq(multiTrackJobsTable.id, job.id), eq(multiTrackJobsTable.status, 'rendering')))
+      .returning()
+      .execute();
+
+    if (updated.length === 0) {
+      return await getMultiTrackJob(job.id);
+    }
+    await publishVideoChange(job.video_id);
+    return updated[0];
+  } finally {
+    if (subtitleDir) {
+      await rm(subtitleDir, { recursive: true, force: true });
+    }
+  }
+}
+
+async function getMultiTrackJob(id: number): Promise<MultiTrackJob> {
+  const rows = await db.select().from(multiTrackJobsTable).where(eq(multiTrackJobsTable.id, id)).execute();
+  return rows[0];
+}
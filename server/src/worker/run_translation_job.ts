@@ -0,0 +1,146 @@
+import { existsSync } from 'node:fs';
+import { db } from '../db';
+import { audioGenerationJobsTable, translationJobsTable, transcriptSegmentsTable } from '../db/schema';
+import { type JobStage, type TranscriptSegment, type TranslationJob } from '../schema';
+import { getTranscriptSegments } from '../handlers/get_transcript_segments';
+import { updateTranslationJob } from '../handlers/update_translation_job';
+import { publishTranslationJobChange } from '../events/workflow_changes';
+import { describeError, JobInputError } from './errors';
+import { isCancelled, JobCancelledError, throwIfCancelled } from './cancellation';
+import { startAttempt } from './attempts';
+import { extractSourceAudio } from './source_audio';
+import { copySharedTranscript, replaceTranscriptSegments, saveSegmentTranslations } from './transcript';
+import { assignSpeakers } from './speakers';
+import { type PipelineProviders } from './pipeline_providers';
+import { and, eq, inArray } from 'drizzle-orm';
+
+// Drive a claimed translation job through extracting_audio -> translating -> completed.
+// Jobs with imported subtitles already have their transcript (speakers included, when the
+// subtitles name them) and go straight to translating, as do jobs translating the transcript
+// of another job in the same request. A retried job resumes where its earlier run stopped,
+// reusing the extracted soundtrack and the transcript when it got that far; that is also how a
+// transient failure is retried automatically, after a backoff.
+export async function runTranslationJob(job: TranslationJob, pipelineProviders: PipelineProviders): Promise<TranslationJob> {
+  const attempt = startAttempt('translation', job, pipelineProviders);
+  const providers = attempt.providers;
+  let stage: JobStage = job.status === 'extracting_audio' ? 'extracting_audio' : 'translating';
+
+  try {
+    let segments: TranscriptSegment[];
+
+    if (job.transcript_job_id !== null) {
+      segments = await copySharedTranscript(job.id, job.transcript_job_id);
+      if (segments.length === 0) {
+        throw new JobInputError(`Translation job ${job.transcript_job_id} has no transcript to share`);
+      }
+    } else if (job.transcript_source === 'subtitles') {
+      segments = await getTranscriptSegments(job.id);
+      if (segments.length === 0) {
+        throw new JobInputError(`Translation job ${job.id} has no imported transcript`);
+      }
+    } else {
+      segments = await getTranscriptSegments(job.id);
+      if (segments.length === 0) {
+        // Stage 1: extracting_audio (set when the job was claimed)
+        const audioPath = job.original_audio_path && existsSync(job.original_audio_path)
+          ? job.original_audio_path
+          : await extractSourceAudio(job, providers);
+
+        // Stage 2: translating, starting from a transcript of the original speech
+        await throwIfCancelled('translation', job.id);
+        await updateTranslationJob({ id: job.id, status: 'translating', original_audio_path: audioPath });
+        stage = 'translating';
+        const transcription = await providers.speechToText.transcribe({ audioPath, language: job.source_language });
+        if (transcription.length === 0) {
+          throw new JobInputError('No speech was recognized in the extracted audio');
+        }
+        const turns = await providers.diarization.diarize({ audioPath });
+        await throwIfCancelled('translation', job.id);
+        segments = await replaceTranscriptSegments(job.id, assignSpeakers(transcription, turns));
+      }
+    }
+
+    const translatedSegments = await providers.translation.translate({
+      segments: segments.map((segment) => segment.source_text),
+      sourceLanguage: job.source_language,
+      targetLanguage: job.target_language,
+      glossary: job.glossary
+    });
+    if (translatedSegments.length !== segments.length) {
+      throw new Error(`Translation provider returned ${translatedSegments.length} segments for ${segments.length}`);
+    }
+    await throwIfCancelled('translation', job.id);
+    await saveSegmentTranslations(segments, translatedSegments);
+
+    // Only a job still running completes: a cancellation since the last check stands
+    const [completed] = await db.update(translationJobsTable)
+      .set({
+        status: 'completed',
+        translated_text: translatedSegments.join('\n'), // One line per transcript segment
+        translation_provider: providers.translation.name,
+        completed_at: new Date()
+      })
+      .where(and(eq(translationJobsTable.id, job.id), inArray(translationJobsTable.status, ['extracting_audio', 'translating'])))
+      .returning()
+      .execute();
+    if (!completed) {
+      throw new JobCancelledError('translation', job.id);
+    }
+    await publishTranslationJobChange(job.id);
+    await attempt.succeeded(stage);
+    return completed;
+  } catch (error) {
+    // A stage that fails after the job was cancelled has stopped for good either way; it is not retried
+    if (error instanceof JobCancelledError || await isCancelled('translation', job.id)) {
+      await attempt.cancelled(stage);
+      const cancelled = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, job.id)).execute();
+      return cancelled[0];
+    }
+
+    const retryAt = await attempt.failed(stage, error);
+    if (retryAt) {
+      // Jobs queued behind it keep waiting
+      console.error(`Translation job ${job.id} failed, retrying at ${retryAt.toISOString()}:`, error);
+      return await updateTranslationJob({ id: job.id, status: 'pending', error_message: describeError(error), next_attempt_at: retryAt });
+    }
+    console.error(`Translation job ${job.id} failed:`, error);
+    return await failTranslationJob(job.id, describeError(error));
+  }
+}
+
+async function failTranslationJob(jobId: number, message: string): Promise<TranslationJob> {
+  const failed = await updateTranslationJob({ id: jobId, status: 'failed', error_message: message });
+
+  // Audio queued behind this translation can never run
+  await db.update(audioGenerationJobsTable)
+    .set({ status: 'failed', error_message: `Translation job ${jobId} failed: ${message}` })
+    .where(and(
+      eq(audioGenerationJobsTable.translation_job_id, jobId),
+      eq(audioGenerationJobsTable.status, 'pending')
+    ))
+    .execute();
+  await publishTranslationJobChange(jobId);
+
+  // Without a transcript, the jobs waiting to share it can never run either
+  const transcript = await db.select({ id: transcriptSegmentsTable.id })
+    .from(transcriptSegmentsTable)
+    .where(eq(transcriptSegmentsTable.translation_job_id, jobId))
+    .limit(1)
+    .execute();
+
+  if (transcript.length === 0) {
+    const waiting = await db.select({ id: translationJobsTable.id })
+      .from(translationJobsTable)
+      .where(and(
+        eq(translationJobsTable.transcript_job_id, jobId),
+        eq(translationJobsTable.status, 'pending')
+      ))
+      .execute();
+
+    for (const sharingJob of waiting) {
+      await failTranslationJob(sharingJob.id, `Translation job ${jobId} failed: ${message}`);
+    }
+  }
+
+  return failed;
+}
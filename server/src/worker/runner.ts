@@ -0,0 +1,82 @@
+import { readPositiveInt } from '../env';
+import { claimAudioGenerationJob, claimMultiTrackJob, claimTranslationJob } from './claim_jobs';
+import { resolvePipelineProviders, type PipelineProviders } from './pipeline_providers';
+import { runAudioGenerationJob } from './run_audio_generation_job';
+import { runMultiTrackJob } from './run_multi_track_job';
+import { runTranslationJob } from './run_translation_job';
+
+export interface JobRunnerOptions {
+  pollIntervalMs?: number;
+  concurrency?: number; // Number of jobs processed in parallel by this process
+  providers?: PipelineProviders;
+}
+
+export interface JobRunner {
+  stop(): Promise<void>;
+}
+
+// Claim and run one job; returns false when nothing was ready
+export async function runNextJob(providers: PipelineProviders = resolvePipelineProviders()): Promise<boolean> {
+  const translationJob = await claimTranslationJob();
+  if (translationJob) {
+    await runTranslationJob(translationJob, providers);
+    return true;
+  }
+
+  const audioJob = await claimAudioGenerationJob();
+  if (audioJob) {
+    await runAudioGenerationJob(audioJob, providers);
+    return true;
+  }
+
+  const multiTrackJob = await claimMultiTrackJob();
+  if (multiTrackJob) {
+    await runMultiTrackJob(multiTrackJob, providers);
+    return true;
+  }
+
+  return false;
+}
+
+// Poll Postgres for pending jobs until stopped
+export function startJobRunner(options: JobRunnerOptions = {}): JobRunner {
+  const pollIntervalMs = options.pollIntervalMs ?? readPositiveInt('JOB_RUNNER_POLL_INTERVAL_MS', 2000);
+  const concurrency = options.concurrency ?? readPositiveInt('JOB_RUNNER_CONCURRENCY', 1);
+
+  let stopped = false;
+  const sleepers = new Set<() => void>();
+
+  const loop = async () => {
+    while (!stopped) {
+      let didWork = false;
+      try {
+        didWork = await runNextJob(options.providers);
+      } catch (error) {
+        console.error('Job runner iteration failed:', error);
+      }
+
+      // Drain the queue without waiting, then sleep until the next poll
+      if (!didWork && !stopped) {
+        await new Promise<void>((resolve) => {
+          const wake = () => {
+            clearTimeout(timer);
+            sleepers.delete(wake);
+            resolve();
+          };
+          const timer = setTimeout(wake, pollIntervalMs);
+          sleepers.add(wake);
+        });
+      }
+    }
+  };
+
+  const loops = Array.from({ length: concurrency }, () => loop());
+
+  return {
+    async stop() {
+      stopped = true;
+      sleepers.forEach((wake) => wake());
+      await Promise.all(loops);
+    }
+  };
+}
@@ -0,0 +1,22 @@
+import path from 'node:path';
+import { type TranslationJob } from '../schema';
+import { getVideoById } from '../handlers/get_video_by_id';
+import { ensureStorageDir, generateStorageFilename } from '../storage';
+import { JobInputError } from './errors';
+import { type PipelineProviders } from './pipeline_providers';
+
+// Pull the video's soundtrack out into the audio storage area and return its path
+export async function extractSourceAudio(job: TranslationJob, providers: PipelineProviders): Promise<string> {
+  const video = await getVideoById(job.video_id);
+  if (!video) {
+    throw new JobInputError(`Video with ID ${job.video_id} not found`);
+  }
+
+  const audioPath = path.join(await ensureStorageDir('audio'), generateStorageFilename(`source_${job.id}`, 'wav'));
+  await providers.media.extractAudio({
+    videoPath: video.file_path,
+    durationSeconds: video.duration,
+    outputPath: audioPath
+  });
+  return audioPath;
+}
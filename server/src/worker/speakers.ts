@@ -0,0 +1,59 @@
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+import { type TranscriptSegment } from '../schema';
+import { type TranscriptionSegment } from '../providers/speech_to_text';
+import { type SpeakerTurn } from '../providers/diarization';
+import { ensureStorageDir } from '../storage';
+import { readWav, writeWav } from '../media/wav';
+
+export interface LabeledTranscriptionSegment extends TranscriptionSegment {
+  speaker: string | null; // Null when no speaker turn overlaps the segment
+}
+
+// Label each recognized segment with the speaker who talks longest during it
+export function assignSpeakers(segments: TranscriptionSegment[], turns: SpeakerTurn[]): LabeledTranscriptionSegment[] {
+  return segments.map((segment) => {
+    const overlapBySpeaker = new Map<string, number>();
+    for (const turn of turns) {
+      const overlapMs = Math.min(segment.endMs, turn.endMs) - Math.max(segment.startMs, turn.startMs);
+      if (overlapMs > 0) {
+        overlapBySpeaker.set(turn.speaker, (overlapBySpeaker.get(turn.speaker) ?? 0) + overlapMs);
+      }
+    }
+
+    let speaker: string | null = null;
+    for (const [candidate, overlapMs] of overlapBySpeaker) {
+      if (speaker === null || overlapMs > overlapBySpeaker.get(speaker)!) {
+        speaker = candidate;
+      }
+    }
+    return { ...segment, speaker };
+  });
+}
+
+// Reference audio to clone one speaker's voice from: only the stretches of the source speech
+// where that speaker talks. The path is stable per speaker, so each run clones the same voice.
+export async function writeSpeakerReference(
+  sourceAudioPath: string,
+  translationJobId: number,
+  speaker: string,
+  transcript: TranscriptSegment[]
+): Promise<string> {
+  const source = await readWav(sourceAudioPath);
+  const msToSample = (ms: number) => Math.min(source.samples.length, Math.round((ms / 1000) * source.sampleRate));
+
+  const slices = transcript
+    .filter((segment) => segment.speaker === speaker)
+    .map((segment) => source.samples.subarray(msToSample(segment.start_ms), msToSample(segment.end_ms)));
+  const samples = new Int16Array(slices.reduce((total, slice) => total + slice.length, 0));
+  let offset = 0;
+  for (const slice of slices) {
+    samples.set(slice, offset);
+    offset += slice.length;
+  }
+
+  const speakerHash = createHash('sha256').update(speaker).digest('hex').slice(0, 12);
+  const referencePath = path.join(await ensureStorageDir('audio'), `speaker_${translationJobId}_${speakerHash}.wav`);
+  await writeWav(referencePath, { sampleRate: source.sampleRate, samples });
+  return referencePath;
+}
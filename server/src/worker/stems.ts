@@ -0,0 +1,36 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { type TranslationJob } from '../schema';
+import { updateTranslationJob } from '../handlers/update_translation_job';
+import { ensureStorageDir, generateStorageFilename } from '../storage';
+import { describeError } from './errors';
+import { extractSourceAudio } from './source_audio';
+import { type PipelineProviders } from './pipeline_providers';
+
+// Optional stage between extraction and synthesis: split the soundtrack into speech and
+// background stems, once per translation job. Jobs with imported subtitles never extracted
+// the soundtrack, so do that first.
+export async function separateStems(translationJob: TranslationJob, providers: PipelineProviders): Promise<TranslationJob> {
+  const { vocals_audio_path, background_audio_path } = translationJob;
+  if (vocals_audio_path && background_audio_path && existsSync(vocals_audio_path) && existsSync(background_audio_path)) {
+    return translationJob;
+  }
+
+  const audioPath = translationJob.original_audio_path ?? await extractSourceAudio(translationJob, providers);
+  const audioDir = await ensureStorageDir('audio');
+  const vocalsPath = path.join(audioDir, generateStorageFilename(`vocals_${translationJob.id}`, 'wav'));
+  const backgroundPath = path.join(audioDir, generateStorageFilename(`background_${translationJob.id}`, 'wav'));
+
+  try {
+    await providers.stemSeparation.separate({ audioPath, vocalsPath, backgroundPath });
+  } catch (error) {
+    throw new Error(`Stem separation failed: ${describeError(error)}`, { cause: error });
+  }
+
+  return await updateTranslationJob({
+    id: translationJob.id,
+    original_audio_path: audioPath,
+    vocals_audio_path: vocalsPath,
+    background_audio_path: backgroundPath
+  });
+}
@@ -0,0 +1,68 @@
+import { mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { type GlossaryEntry, type Language, type TranscriptSegment } from '../schema';
+import { type SynthesizedSegment, type VoiceSelection } from '../providers/text_to_speech';
+import { readWav, wavDurationMs } from '../media/wav';
+import { type PipelineProviders } from './pipeline_providers';
+
+// Fastest speed-up before dubbed speech starts to sound rushed
+export const MAX_STRETCH_RATIO = 1.25;
+// Overruns up to about one video frame go unnoticed
+const OVERRUN_TOLERANCE_MS = 40;
+
+export interface FittedSegment extends SynthesizedSegment {
+  spokenText: string | null; // Shorter rewording that was spoken instead of the translation
+  stretchRatio: number; // 1 when the speech was not sped up
+  overrunMs: number; // 0 when the speech fits its window
+}
+
+export interface TimingFitOptions {
+  language: Language;
+  voice: VoiceSelection;
+  glossary: GlossaryEntry[];
+  outputDir: string; // Where the synthesized segments were written
+}
+
+// Timing-fit stage after synthesis: make a segment's speech fit the window the original was spoken in.
+// Speech too long to fit by speeding up is reworded more concisely and synthesized again first;
+// whatever is still too long is then sped up, by at most MAX_STRETCH_RATIO.
+export async function fitSegmentTiming(
+  segment: TranscriptSegment,
+  synthesized: SynthesizedSegment,
+  options: TimingFitOptions,
+  providers: PipelineProviders
+): Promise<FittedSegment> {
+  const windowMs = segment.end_ms - segment.start_ms;
+  let fitted: FittedSegment = { ...synthesized, spokenText: null, stretchRatio: 1, overrunMs: 0 };
+
+  if (fitted.durationMs > windowMs * MAX_STRETCH_RATIO) {
+    const text = segment.translated_text!;
+    const shorter = (await providers.translation.shorten({
+      text,
+      language: options.language,
+      maxCharacters: Math.floor((text.length * windowMs * MAX_STRETCH_RATIO) / fitted.durationMs),
+      glossary: options.glossary
+    })).trim();
+
+    if (shorter && shorter.length < text.length) {
+      // Separate directory, since providers name their files by position in the batch
+      const outputDir = path.join(options.outputDir, `reworded_${segment.id}`);
+      await mkdir(outputDir, { recursive: true });
+      const synthesis = await providers.textToSpeech.synthesize({ segments: [shorter], language: options.language, voice: options.voice, outputDir });
+      const reworded = synthesis.segments[0];
+      if (reworded && reworded.durationMs < fitted.durationMs) {
+        fitted = { ...fitted, ...reworded, spokenText: shorter };
+      }
+    }
+  }
+
+  if (fitted.durationMs > windowMs + OVERRUN_TOLERANCE_MS) {
+    const stretchRatio = Math.min(fitted.durationMs / windowMs, MAX_STRETCH_RATIO);
+    const audioPath = path.join(options.outputDir, `stretched_${segment.id}.wav`);
+    await providers.media.timeStretch({ inputPath: fitted.audioPath, outputPath: audioPath, tempo: stretchRatio });
+    fitted = { ...fitted, audioPath, durationMs: wavDurationMs(await readWav(audioPath)), stretchRatio };
+  }
+
+  const overrunMs = fitted.durationMs - windowMs;
+  return { ...fitted, overrunMs: overrunMs > OVERRUN_TOLERANCE_MS ? overrunMs : 0 };
+}
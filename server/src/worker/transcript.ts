@@ -0,0 +1,86 @@
+import { db } from '../db';
+import { transcriptSegmentsTable, translationJobsTable } from '../db/schema';
+import { type TranscriptSegment } from '../schema';
+import { type LabeledTranscriptionSegment } from './speakers';
+import { asc, eq } from 'drizzle-orm';
+
+// Store a fresh transcript for the job, dropping any left over from an earlier run
+export async function replaceTranscriptSegments(translationJobId: number, segments: LabeledTranscriptionSegment[]): Promise<TranscriptSegment[]> {
+  return await db.transaction(async (tx) => {
+    await tx.delete(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.translation_job_id, translationJobId))
+      .execute();
+
+    if (segments.length === 0) {
+      return [];
+    }
+
+    return await tx.insert(transcriptSegmentsTable)
+      .values(segments.map((segment, index) => ({
+        translation_job_id: translationJobId,
+        segment_index: index,
+        start_ms: Math.round(segment.startMs),
+        end_ms: Math.round(segment.endMs),
+        speaker: segment.speaker,
+        source_text: segment.text,
+        confidence: segment.confidence
+      })))
+      .returning()
+      .execute();
+  });
+}
+
+// Record the translation of each segment; translations line up with segments by position
+export async function saveSegmentTranslations(segments: TranscriptSegment[], translations: string[]): Promise<void> {
+  await db.transaction(async (tx) => {
+    for (const [position, segment] of segments.entries()) {
+      await tx.update(transcriptSegmentsTable)
+        .set({ translated_text: translations[position] ?? null })
+        .where(eq(transcriptSegmentsTable.id, segment.id))
+        .execute();
+    }
+  });
+}
+
+// Give a job its own copy of the transcript another job produced, so that each language keeps
+// separate translations. The extracted soundtrack is shared too, for voice cloning.
+export async function copySharedTranscript(translationJobId: number, transcriptJobId: number): Promise<TranscriptSegment[]> {
+  return await db.transaction(async (tx) => {
+    const source = await tx.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.translation_job_id, transcriptJobId))
+      .orderBy(asc(transcriptSegmentsTable.segment_index))
+      .execute();
+
+    const transcriptJob = await tx.select({ original_audio_path: translationJobsTable.original_audio_path })
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.id, transcriptJobId))
+      .execute();
+
+    await tx.update(translationJobsTable)
+      .set({ original_audio_path: transcriptJob[0]?.original_audio_path ?? null })
+      .where(eq(translationJobsTable.id, translationJobId))
+      .execute();
+
+    await tx.delete(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.translation_job_id, translationJobId))
+      .execute();
+
+    if (source.length === 0) {
+      return [];
+    }
+
+    return await tx.insert(transcriptSegmentsTable)
+      .values(source.map((segment) => ({
+        translation_job_id: translationJobId,
+        segment_index: segment.segment_index,
+        start_ms: segment.start_ms,
+        end_ms: segment.end_ms,
+        speaker: segment.speaker,
+        source_text: segment.source_text,
+        confidence: segment.confidence
+      })))
+      .returning()
+      .execute();
+  });
+}